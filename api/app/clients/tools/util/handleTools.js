@@ -348,6 +348,7 @@ Current Date & Time: ${replaceSpecialVars({ text: '{{iso_datetime}}' })}
             toolKey: tool,
             model: agent?.model ?? model,
             provider: agent?.provider ?? endpoint,
+            agent,
           });
         continue;
       }
@@ -1,9 +1,21 @@
 const { Router } = require('express');
-const { MCPOAuthHandler } = require('@librechat/api');
 const { logger } = require('@librechat/data-schemas');
 const { CacheKeys } = require('librechat-data-provider');
+const {
+  MCPOAuthHandler,
+  formatPromptMessages,
+  getUserMCPServerVars,
+  validateElicitationContent,
+} = require('@librechat/api');
+const {
+  findToken,
+  createToken,
+  updateToken,
+  findPluginAuthsByKeys,
+  createMCPToolApproval,
+} = require('~/models');
+const { getMCPManager, getFlowStateManager } = require('~/config');
 const { requireJwtAuth } = require('~/server/middleware');
-const { getFlowStateManager } = require('~/config');
 const { getLogStores } = require('~/cache');
 
 const router = Router();
@@ -202,4 +214,250 @@ router.get('/oauth/status/:flowId', async (req, res) => {
   }
 });
 
+/**
+ * List prompts published by MCP servers
+ * Includes app-level servers and the user's active connections, grouped by server name
+ */
+router.get('/prompts', requireJwtAuth, async (req, res) => {
+  try {
+    const flowsCache = getLogStores(CacheKeys.FLOWS);
+    const flowManager = getFlowStateManager(flowsCache);
+    const mcpManager = getMCPManager(req.user.id);
+
+    const prompts = await mcpManager.getPrompts({ userId: req.user.id, flowManager });
+    res.json(prompts);
+  } catch (error) {
+    logger.error('[MCP Prompts] Failed to list prompts', error);
+    res.status(500).json({ error: 'Failed to list prompts' });
+  }
+});
+
+/**
+ * Render an MCP server prompt with the provided arguments
+ */
+router.post('/:serverName/prompts/:promptName', requireJwtAuth, async (req, res) => {
+  const { serverName, promptName } = req.params;
+  try {
+    const { args } = req.body ?? {};
+    if (args != null && (typeof args !== 'object' || Array.isArray(args))) {
+      return res.status(400).json({ error: 'Prompt arguments must be an object' });
+    }
+
+    const flowsCache = getLogStores(CacheKeys.FLOWS);
+    const flowManager = getFlowStateManager(flowsCache);
+    const mcpManager = getMCPManager(req.user.id);
+    const customUserVars = await getUserMCPServerVars({
+      userId: req.user.id,
+      serverName,
+      findPluginAuthsByKeys,
+    });
+
+    const result = await mcpManager.getPrompt({
+      user: req.user,
+      serverName,
+      promptName,
+      promptArgs: args,
+      flowManager,
+      customUserVars,
+      tokenMethods: {
+        findToken,
+        createToken,
+        updateToken,
+      },
+    });
+
+    res.json({
+      description: result.description,
+      messages: result.messages,
+      text: formatPromptMessages(result.messages),
+    });
+  } catch (error) {
+    logger.error(`[MCP Prompts] Failed to get prompt "${promptName}" from ${serverName}`, error);
+    res.status(500).json({ error: 'Failed to get prompt' });
+  }
+});
+
+/**
+ * List resources published by MCP servers
+ * Includes app-level servers and the user's active connections, grouped by server name
+ */
+router.get('/resources', requireJwtAuth, async (req, res) => {
+  try {
+    const flowsCache = getLogStores(CacheKeys.FLOWS);
+    const flowManager = getFlowStateManager(flowsCache);
+    const mcpManager = getMCPManager(req.user.id);
+
+    const resources = await mcpManager.getResources({ userId: req.user.id, flowManager });
+    res.json(resources);
+  } catch (error) {
+    logger.error('[MCP Resources] Failed to list resources', error);
+    res.status(500).json({ error: 'Failed to list resources' });
+  }
+});
+
+/**
+ * Read the contents of an MCP server resource
+ */
+router.get('/:serverName/resources/read', requireJwtAuth, async (req, res) => {
+  const { serverName } = req.params;
+  const { uri } = req.query;
+  try {
+    if (!uri || typeof uri !== 'string') {
+      return res.status(400).json({ error: 'Resource URI is required' });
+    }
+
+    const flowsCache = getLogStores(CacheKeys.FLOWS);
+    const flowManager = getFlowStateManager(flowsCache);
+    const mcpManager = getMCPManager(req.user.id);
+    const customUserVars = await getUserMCPServerVars({
+      userId: req.user.id,
+      serverName,
+      findPluginAuthsByKeys,
+    });
+
+    const contents = await mcpManager.readResource({
+      user: req.user,
+      serverName,
+      uri,
+      flowManager,
+      customUserVars,
+      tokenMethods: {
+        findToken,
+        createToken,
+        updateToken,
+      },
+    });
+
+    res.json({ contents });
+  } catch (error) {
+    logger.error(`[MCP Resources] Failed to read resource "${uri}" from ${serverName}`, error);
+    res.status(500).json({ error: 'Failed to read resource' });
+  }
+});
+
+/**
+ * Approve or decline a pending MCP sampling request
+ * Resumes the tool call that is waiting on the sampling flow
+ */
+router.post('/sampling/:flowId', requireJwtAuth, async (req, res) => {
+  try {
+    const { flowId } = req.params;
+    const { approved } = req.body;
+
+    if (!flowId.startsWith(`${req.user.id}:`)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const flowsCache = getLogStores(CacheKeys.FLOWS);
+    const flowManager = getFlowStateManager(flowsCache);
+
+    const flowState = await flowManager.getFlowState(flowId, 'mcp_sampling');
+    if (!flowState || flowState.status !== 'PENDING') {
+      return res.status(404).json({ error: 'Sampling request not found or expired' });
+    }
+
+    const success = await flowManager.completeFlow(flowId, 'mcp_sampling', approved === true);
+    logger.info(
+      `[MCP Sampling] User ${req.user.id} ${approved === true ? 'approved' : 'declined'} sampling request for ${flowState.metadata?.serverName}`,
+    );
+    res.json({ success });
+  } catch (error) {
+    logger.error('[MCP Sampling] Failed to respond to sampling request', error);
+    res.status(500).json({ error: 'Failed to respond to sampling request' });
+  }
+});
+
+/**
+ * Approve or decline a pending MCP tool call
+ * Resumes the tool call and records the decision for auditing
+ */
+router.post('/approval/:flowId', requireJwtAuth, async (req, res) => {
+  try {
+    const { flowId } = req.params;
+    const approved = req.body.approved === true;
+
+    if (!flowId.startsWith(`${req.user.id}:`)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const flowsCache = getLogStores(CacheKeys.FLOWS);
+    const flowManager = getFlowStateManager(flowsCache);
+
+    const flowState = await flowManager.getFlowState(flowId, 'mcp_tool_approval');
+    if (!flowState || flowState.status !== 'PENDING') {
+      return res.status(404).json({ error: 'Tool approval request not found or expired' });
+    }
+
+    const { serverName, toolName, args, conversationId } = flowState.metadata ?? {};
+    const success = await flowManager.completeFlow(flowId, 'mcp_tool_approval', approved);
+    if (!success) {
+      return res.json({ success });
+    }
+    logger.info(
+      `[MCP Approval] User ${req.user.id} ${approved ? 'approved' : 'declined'} "${toolName}" on ${serverName}`,
+    );
+
+    /** Only decisions that reached the tool call are recorded; a failed record does not undo it */
+    try {
+      await createMCPToolApproval({
+        userId: req.user.id,
+        serverName,
+        toolName,
+        args,
+        approved,
+        conversationId,
+      });
+    } catch (error) {
+      logger.error('[MCP Approval] Failed to record tool approval', error);
+    }
+    res.json({ success });
+  } catch (error) {
+    logger.error('[MCP Approval] Failed to respond to tool approval request', error);
+    res.status(500).json({ error: 'Failed to respond to tool approval request' });
+  }
+});
+
+/**
+ * Answer a pending MCP elicitation request
+ * Validates the submitted content against the requested schema and resumes the tool call
+ */
+router.post('/elicitation/:flowId', requireJwtAuth, async (req, res) => {
+  try {
+    const { flowId } = req.params;
+    const { action, content } = req.body;
+
+    if (!flowId.startsWith(`${req.user.id}:`)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (!['accept', 'decline', 'cancel'].includes(action)) {
+      return res.status(400).json({ error: 'Invalid action' });
+    }
+
+    const flowsCache = getLogStores(CacheKeys.FLOWS);
+    const flowManager = getFlowStateManager(flowsCache);
+
+    const flowState = await flowManager.getFlowState(flowId, 'mcp_elicitation');
+    if (!flowState || flowState.status !== 'PENDING') {
+      return res.status(404).json({ error: 'Elicitation request not found or expired' });
+    }
+
+    /** @type {import('@librechat/api').MCPElicitationResult} */
+    const result = { action };
+    if (action === 'accept') {
+      const validation = validateElicitationContent(flowState.metadata?.requestedSchema, content);
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error });
+      }
+      result.content = validation.content;
+    }
+
+    const success = await flowManager.completeFlow(flowId, 'mcp_elicitation', result);
+    res.json({ success });
+  } catch (error) {
+    logger.error('[MCP Elicitation] Failed to respond to elicitation request', error);
+    res.status(500).json({ error: 'Failed to respond to elicitation request' });
+  }
+});
+
 module.exports = router;
@@ -1,4 +1,5 @@
 const { z } = require('zod');
+const { nanoid } = require('nanoid');
 const { tool } = require('@langchain/core/tools');
 const { logger } = require('@librechat/data-schemas');
 const { Time, CacheKeys, StepTypes } = require('librechat-data-provider');
@@ -7,10 +8,16 @@ const { Constants, ContentTypes, isAssistantsEndpoint } = require('librechat-dat
 const {
   sendEvent,
   MCPOAuthHandler,
+  getSamplingPreview,
+  getElicitationPreview,
   normalizeServerName,
+  SamplingRejectedError,
+  assertSamplingAllowed,
   convertWithResolvedRefs,
+  processSamplingRequest,
 } = require('@librechat/api');
-const { findToken, createToken, updateToken } = require('~/models');
+const { findToken, createToken, updateToken, createMCPToolApproval } = require('~/models');
+const { spendTokens } = require('~/models/spendTokens');
 const { getMCPManager, getFlowStateManager } = require('~/config');
 const { getCachedTools } = require('./Config');
 const { getLogStores } = require('~/cache');
@@ -92,6 +99,230 @@ function createAbortHandler({ userId, serverName, toolName, flowManager }) {
   };
 }
 
+/**
+ * Streams a request for user input with the tool call and waits for the user's response.
+ * @param {object} params
+ * @param {ServerResponse} params.res - The Express response object for sending events.
+ * @param {string} params.stepId - The ID of the step in the flow.
+ * @param {ToolCallChunk} params.toolCall - The tool call object containing tool information.
+ * @param {FlowStateManager<any>} params.flowManager - The flow manager instance.
+ * @param {string} params.flowId - The ID of the flow, prefixed with the user ID.
+ * @param {string} params.flowType - The type of the flow.
+ * @param {Record<string, unknown>} params.metadata - Stored with the flow for the response route.
+ * @param {Partial<AgentToolCallDelta>} params.delta - The pending request sent to the client.
+ * @param {AbortSignal} [params.signal] - Cancels waiting for the response.
+ * @returns {Promise<unknown>} The result the flow was completed with.
+ */
+function awaitUserResponse({
+  res,
+  stepId,
+  toolCall,
+  flowManager,
+  flowId,
+  flowType,
+  metadata,
+  delta,
+  signal,
+}) {
+  /** @type {{ id: string; delta: AgentToolCallDelta }} */
+  const data = {
+    id: stepId,
+    delta: {
+      type: StepTypes.TOOL_CALLS,
+      tool_calls: [{ ...toolCall, args: '' }],
+      ...delta,
+      expires_at: Date.now() + Time.THREE_MINUTES,
+    },
+  };
+  const response = flowManager.createFlow(flowId, flowType, metadata, signal);
+  sendEvent(res, { event: GraphEvents.ON_RUN_STEP_DELTA, data });
+  return response;
+}
+
+/**
+ * Creates a handler for MCP sampling requests made while a tool call is in progress.
+ * Completions run on the agent's endpoint/model and their token usage is recorded for the user.
+ * @param {object} params
+ * @param {ServerResponse} params.res - The Express response object for sending events.
+ * @param {Agent} params.agent - The agent calling the tool; provides the endpoint, model and LLM config.
+ * @param {string} params.userId - The ID of the user.
+ * @param {string} [params.conversationId] - The ID of the conversation, used for transactions.
+ * @param {string} params.stepId - The ID of the step in the flow.
+ * @param {ToolCallChunk} params.toolCall - The tool call object containing tool information.
+ * @param {FlowStateManager<any>} params.flowManager - The flow manager instance.
+ * @param {AbortSignal} [params.signal] - The tool call's abort signal.
+ * @returns {import('@librechat/api').MCPSamplingHandler}
+ */
+function createSamplingHandler({
+  res,
+  agent,
+  userId,
+  conversationId,
+  stepId,
+  toolCall,
+  flowManager,
+  signal: toolSignal,
+}) {
+  return async function ({ serverName, params, options, signal: requestSignal }) {
+    const model = agent.model_parameters?.model ?? agent.model;
+    assertSamplingAllowed({
+      serverName,
+      options,
+      endpoint: agent.endpoint ?? agent.provider,
+      model,
+    });
+
+    const signal = toolSignal ? AbortSignal.any([requestSignal, toolSignal]) : requestSignal;
+
+    if (options.requireApproval) {
+      const flowId = `${userId}:${serverName}:sampling:${nanoid()}`;
+      const approved = await awaitUserResponse({
+        res,
+        stepId,
+        toolCall,
+        flowManager,
+        flowId,
+        flowType: 'mcp_sampling',
+        metadata: { userId, serverName },
+        delta: { sampling: getSamplingPreview({ flowId, serverName, model, params }) },
+        signal,
+      });
+      if (approved !== true) {
+        logger.info(`[MCP][User: ${userId}][${serverName}] Sampling request declined`);
+        throw new SamplingRejectedError();
+      }
+    }
+
+    const { result, collectedUsage } = await processSamplingRequest({
+      agent,
+      params,
+      signal,
+      runId: `mcp-sampling-${nanoid()}`,
+    });
+
+    for (const usage of collectedUsage) {
+      spendTokens(
+        { context: 'mcp_sampling', conversationId, user: userId, model: result.model },
+        { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens },
+      ).catch((error) => {
+        logger.error(`[MCP][User: ${userId}][${serverName}] Error spending sampling tokens`, error);
+      });
+    }
+
+    return result;
+  };
+}
+
+/**
+ * Creates a handler for MCP elicitation requests made while a tool call is in progress.
+ * The tool call is paused until the user submits or declines the requested form.
+ * @param {object} params
+ * @param {ServerResponse} params.res - The Express response object for sending events.
+ * @param {string} params.userId - The ID of the user.
+ * @param {string} params.stepId - The ID of the step in the flow.
+ * @param {ToolCallChunk} params.toolCall - The tool call object containing tool information.
+ * @param {FlowStateManager<any>} params.flowManager - The flow manager instance.
+ * @param {AbortSignal} [params.signal] - The tool call's abort signal.
+ * @returns {import('@librechat/api').MCPElicitationHandler}
+ */
+function createElicitationHandler({
+  res,
+  userId,
+  stepId,
+  toolCall,
+  flowManager,
+  signal: toolSignal,
+}) {
+  return async function ({ serverName, params, signal: requestSignal }) {
+    const signal = toolSignal ? AbortSignal.any([requestSignal, toolSignal]) : requestSignal;
+    const flowId = `${userId}:${serverName}:elicitation:${nanoid()}`;
+    try {
+      /** @type {import('@librechat/api').MCPElicitationResult} */
+      const result = await awaitUserResponse({
+        res,
+        stepId,
+        toolCall,
+        flowManager,
+        flowId,
+        flowType: 'mcp_elicitation',
+        metadata: { userId, serverName, requestedSchema: params.requestedSchema },
+        delta: { elicitation: getElicitationPreview({ flowId, serverName, params }) },
+        signal,
+      });
+      logger.info(`[MCP][User: ${userId}][${serverName}] Elicitation ${result.action}`);
+      return result;
+    } catch (error) {
+      logger.warn(`[MCP][User: ${userId}][${serverName}] Elicitation cancelled`, error);
+      return { action: 'cancel' };
+    }
+  };
+}
+
+/**
+ * Creates a handler that asks the user to approve an MCP tool call before it runs.
+ * Resolves `false` when the user declines or does not respond in time; the route records
+ * explicit decisions, timeouts and aborts are recorded here.
+ * @param {object} params
+ * @param {ServerResponse} params.res - The Express response object for sending events.
+ * @param {string} params.userId - The ID of the user.
+ * @param {string} [params.conversationId] - The ID of the conversation, stored with the decision.
+ * @param {string} params.stepId - The ID of the step in the flow.
+ * @param {ToolCallChunk} params.toolCall - The tool call object containing tool information.
+ * @param {FlowStateManager<any>} params.flowManager - The flow manager instance.
+ * @param {AbortSignal} [params.signal] - The tool call's abort signal.
+ * @returns {import('@librechat/api').MCPToolApprovalHandler}
+ */
+function createApprovalHandler({
+  res,
+  userId,
+  conversationId,
+  stepId,
+  toolCall,
+  flowManager,
+  signal,
+}) {
+  return async function ({ serverName, toolName, toolArguments }) {
+    const flowId = `${userId}:${serverName}:approval:${nanoid()}`;
+    try {
+      const approved = await awaitUserResponse({
+        res,
+        stepId,
+        toolCall,
+        flowManager,
+        flowId,
+        flowType: 'mcp_tool_approval',
+        metadata: { userId, serverName, toolName, args: toolArguments, conversationId },
+        delta: { approval: { flowId, serverName, toolName, args: toolArguments } },
+        signal,
+      });
+      return approved === true;
+    } catch (error) {
+      const reason = signal?.aborted ? 'aborted' : 'timeout';
+      logger.warn(
+        `[MCP][User: ${userId}][${serverName}][${toolName}] Tool approval not received (${reason})`,
+        error,
+      );
+      try {
+        await createMCPToolApproval({
+          userId,
+          serverName,
+          toolName,
+          args: toolArguments,
+          approved: false,
+          reason,
+          conversationId,
+        });
+      } catch (auditError) {
+        logger.error(
+          `[MCP][User: ${userId}][${serverName}][${toolName}] Failed to record the tool approval timeout`,
+          auditError,
+        );
+      }
+      return false;
+    }
+  };
+}
+
 /**
  * Creates a general tool for an entire action set.
  *
@@ -101,9 +332,10 @@ function createAbortHandler({ userId, serverName, toolName, flowManager }) {
  * @param {string} params.toolKey - The toolKey for the tool.
  * @param {import('@librechat/agents').Providers | EModelEndpoint} params.provider - The provider for the tool.
  * @param {string} params.model - The model for the tool.
+ * @param {Agent} [params.agent] - The agent the tool is loaded for; enables MCP sampling.
  * @returns { Promise<typeof tool | { _call: (toolInput: Object | string) => unknown}> } An object with `_call` method to execute the tool input.
  */
-async function createMCPTool({ req, res, toolKey, provider: _provider }) {
+async function createMCPTool({ req, res, toolKey, provider: _provider, agent }) {
   const availableTools = await getCachedTools({ includeGlobal: true });
   const toolDefinition = availableTools?.[toolKey]?.function;
   if (!toolDefinition) {
@@ -171,6 +403,36 @@ async function createMCPTool({ req, res, toolKey, provider: _provider }) {
       const customUserVars =
         config?.configurable?.userMCPAuthMap?.[`${Constants.mcp_prefix}${serverName}`];
 
+      const samplingHandler = agent
+        ? createSamplingHandler({
+            res,
+            agent,
+            userId,
+            conversationId: config?.configurable?.thread_id,
+            stepId,
+            toolCall,
+            flowManager,
+            signal: derivedSignal,
+          })
+        : undefined;
+      const approvalHandler = createApprovalHandler({
+        res,
+        userId,
+        conversationId: config?.configurable?.thread_id,
+        stepId,
+        toolCall,
+        flowManager,
+        signal: derivedSignal,
+      });
+      const elicitationHandler = createElicitationHandler({
+        res,
+        userId,
+        stepId,
+        toolCall,
+        flowManager,
+        signal: derivedSignal,
+      });
+
       const result = await mcpManager.callTool({
         serverName,
         toolName,
@@ -189,6 +451,9 @@ async function createMCPTool({ req, res, toolKey, provider: _provider }) {
         },
         oauthStart,
         oauthEnd,
+        samplingHandler,
+        elicitationHandler,
+        approvalHandler,
       });
 
       if (isAssistantsEndpoint(provider) && Array.isArray(result)) {
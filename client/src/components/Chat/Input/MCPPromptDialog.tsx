@@ -0,0 +1,108 @@
+import React, { useEffect } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import type { TMCPPrompt } from 'librechat-data-provider';
+import { Input, Label, OGDialog } from '~/components/ui';
+import OGDialogTemplate from '~/components/ui/OGDialogTemplate';
+import { useLocalize } from '~/hooks';
+
+interface MCPPromptDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  serverName: string;
+  prompt: TMCPPrompt | null;
+  onSubmit: (args: Record<string, string>) => void;
+  isSubmitting?: boolean;
+}
+
+export default function MCPPromptDialog({
+  isOpen,
+  onOpenChange,
+  serverName,
+  prompt,
+  onSubmit,
+  isSubmitting = false,
+}: MCPPromptDialogProps) {
+  const localize = useLocalize();
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<Record<string, string>>({ defaultValues: {} });
+
+  useEffect(() => {
+    if (isOpen) {
+      reset({});
+    }
+  }, [isOpen, prompt, reset]);
+
+  if (!prompt) {
+    return null;
+  }
+
+  const onFormSubmit = (data: Record<string, string>) => {
+    /** Omit empty optional arguments so servers can apply their own defaults */
+    const args: Record<string, string> = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (value) {
+        args[key] = value;
+      }
+    }
+    onSubmit(args);
+  };
+
+  return (
+    <OGDialog open={isOpen} onOpenChange={onOpenChange}>
+      <OGDialogTemplate
+        className="sm:max-w-lg"
+        title={`${prompt.name} (${serverName})`}
+        description={prompt.description}
+        headerClassName="px-6 pt-6 pb-4"
+        main={
+          <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-4 px-6 pb-2">
+            {(prompt.arguments ?? []).map((argument) => (
+              <div key={argument.name} className="space-y-2">
+                <Label htmlFor={`mcp-prompt-${argument.name}`} className="text-sm font-medium">
+                  {argument.name}
+                  {argument.required === true ? <span className="text-red-500"> *</span> : null}
+                </Label>
+                <Controller
+                  name={argument.name}
+                  control={control}
+                  defaultValue=""
+                  rules={{
+                    required:
+                      argument.required === true ? localize('com_ui_field_required') : false,
+                  }}
+                  render={({ field }) => (
+                    <Input
+                      id={`mcp-prompt-${argument.name}`}
+                      type="text"
+                      {...field}
+                      placeholder={localize('com_ui_mcp_enter_var', { 0: argument.name })}
+                      className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm"
+                    />
+                  )}
+                />
+                {argument.description != null && argument.description ? (
+                  <p className="text-xs text-text-secondary">{argument.description}</p>
+                ) : null}
+                {errors[argument.name] && (
+                  <p className="text-xs text-red-500">{errors[argument.name]?.message}</p>
+                )}
+              </div>
+            ))}
+          </form>
+        }
+        selection={{
+          selectHandler: handleSubmit(onFormSubmit),
+          selectClasses: 'bg-green-500 hover:bg-green-600 text-white',
+          selectText: localize('com_ui_submit'),
+          isLoading: isSubmitting,
+        }}
+        footerClassName="flex justify-end gap-2 px-6 pb-6 pt-2"
+        showCancelButton={true}
+      />
+    </OGDialog>
+  );
+}
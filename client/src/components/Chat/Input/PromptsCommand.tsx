@@ -1,15 +1,21 @@
 import { useState, useRef, useEffect, useMemo, memo, useCallback } from 'react';
 import { AutoSizer, List } from 'react-virtualized';
 import { useSetRecoilState, useRecoilValue } from 'recoil';
-import { PermissionTypes, Permissions } from 'librechat-data-provider';
-import type { TPromptGroup } from 'librechat-data-provider';
+import { Constants, PermissionTypes, Permissions } from 'librechat-data-provider';
+import type { TPromptGroup, TMCPPrompt } from 'librechat-data-provider';
 import type { PromptOption } from '~/common';
+import {
+  useGetAllPromptGroups,
+  useMCPPromptsQuery,
+  useGetMCPPromptMutation,
+} from '~/data-provider';
 import { removeCharIfLast, mapPromptGroups, detectVariables } from '~/utils';
 import VariableDialog from '~/components/Prompts/Groups/VariableDialog';
 import CategoryIcon from '~/components/Prompts/Groups/CategoryIcon';
 import { useLocalize, useCombobox, useHasAccess } from '~/hooks';
-import { useGetAllPromptGroups } from '~/data-provider';
-import { Spinner } from '~/components/svg';
+import { Spinner, MCPIcon } from '~/components/svg';
+import { useToastContext } from '~/Providers';
+import MCPPromptDialog from './MCPPromptDialog';
 import MentionItem from './MentionItem';
 import store from '~/store';
 
@@ -22,12 +28,14 @@ const PopoverContainer = memo(
     isVariableDialogOpen,
     variableGroup,
     setVariableDialogOpen,
+    mcpPromptDialog,
   }: {
     index: number;
     children: React.ReactNode;
     isVariableDialogOpen: boolean;
     variableGroup: TPromptGroup | null;
     setVariableDialogOpen: (isOpen: boolean) => void;
+    mcpPromptDialog: React.ReactNode;
   }) => {
     const showPromptsPopover = useRecoilValue(store.showPromptsPopoverFamily(index));
     return (
@@ -38,6 +46,7 @@ const PopoverContainer = memo(
           onClose={() => setVariableDialogOpen(false)}
           group={variableGroup}
         />
+        {mcpPromptDialog}
       </>
     );
   },
@@ -45,6 +54,8 @@ const PopoverContainer = memo(
 
 const ROW_HEIGHT = 40;
 
+type MCPPromptEntry = { serverName: string; prompt: TMCPPrompt };
+
 function PromptsCommand({
   index,
   textAreaRef,
@@ -55,6 +66,7 @@ function PromptsCommand({
   submitPrompt: (textPrompt: string) => void;
 }) {
   const localize = useLocalize();
+  const { showToast } = useToastContext();
   const hasAccess = useHasAccess({
     permissionType: PermissionTypes.PROMPTS,
     permission: Permissions.USE,
@@ -85,19 +97,59 @@ function PromptsCommand({
     },
   });
 
+  const { data: mcpData } = useMCPPromptsQuery({
+    enabled: hasAccess,
+    select: (data) => {
+      const mcpPromptsMap: Record<string, MCPPromptEntry> = {};
+      const mcpPromptOptions: PromptOption[] = [];
+      for (const [serverName, prompts] of Object.entries(data)) {
+        for (const prompt of prompts) {
+          const id = `${prompt.name}${Constants.mcp_delimiter}${serverName}`;
+          mcpPromptsMap[id] = { serverName, prompt };
+          mcpPromptOptions.push({
+            id,
+            type: 'mcp-prompt',
+            value: prompt.name,
+            label: `/${prompt.name} - ${serverName}${
+              prompt.description != null && prompt.description ? `: ${prompt.description}` : ''
+            }`,
+            icon: <MCPIcon className="h-5 w-5" />,
+          });
+        }
+      }
+      return { mcpPromptsMap, mcpPromptOptions };
+    },
+  });
+
   const [activeIndex, setActiveIndex] = useState(0);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
   const [isVariableDialogOpen, setVariableDialogOpen] = useState(false);
   const [variableGroup, setVariableGroup] = useState<TPromptGroup | null>(null);
+  const [mcpPromptEntry, setMCPPromptEntry] = useState<MCPPromptEntry | null>(null);
+  const [isMCPPromptDialogOpen, setMCPPromptDialogOpen] = useState(false);
   const setShowPromptsPopover = useSetRecoilState(store.showPromptsPopoverFamily(index));
 
-  const prompts = useMemo(() => data?.promptGroups, [data]);
+  const prompts = useMemo(
+    () => [...(data?.promptGroups ?? []), ...(mcpData?.mcpPromptOptions ?? [])],
+    [data, mcpData],
+  );
   const promptsMap = useMemo(() => data?.promptsMap, [data]);
+  const mcpPromptsMap = useMemo(() => mcpData?.mcpPromptsMap, [mcpData]);
+
+  const getMCPPrompt = useGetMCPPromptMutation({
+    onSuccess: (result) => {
+      setMCPPromptDialogOpen(false);
+      submitPrompt(result.text);
+    },
+    onError: () => {
+      showToast({ message: localize('com_ui_mcp_prompt_error'), status: 'error' });
+    },
+  });
 
   const { open, setOpen, searchValue, setSearchValue, matches } = useCombobox({
     value: '',
-    options: prompts ?? [],
+    options: prompts,
   });
 
   const handleSelect = useCallback(
@@ -114,6 +166,23 @@ function PromptsCommand({
         removeCharIfLast(textAreaRef.current, commandChar);
       }
 
+      const mcpPrompt = mcpPromptsMap?.[mention.id];
+      if (mcpPrompt) {
+        if ((mcpPrompt.prompt.arguments ?? []).length === 0) {
+          getMCPPrompt.mutate({
+            serverName: mcpPrompt.serverName,
+            promptName: mcpPrompt.prompt.name,
+          });
+          return;
+        }
+        if (e && e.key === 'Tab') {
+          e.preventDefault();
+        }
+        setMCPPromptEntry(mcpPrompt);
+        setMCPPromptDialogOpen(true);
+        return;
+      }
+
       const group = promptsMap?.[mention.id];
       if (!group) {
         return;
@@ -131,7 +200,16 @@ function PromptsCommand({
         submitPrompt(group.productionPrompt?.prompt ?? '');
       }
     },
-    [setSearchValue, setOpen, setShowPromptsPopover, textAreaRef, promptsMap, submitPrompt],
+    [
+      setSearchValue,
+      setOpen,
+      setShowPromptsPopover,
+      textAreaRef,
+      promptsMap,
+      mcpPromptsMap,
+      getMCPPrompt,
+      submitPrompt,
+    ],
   );
 
   useEffect(() => {
@@ -196,6 +274,25 @@ function PromptsCommand({
       isVariableDialogOpen={isVariableDialogOpen}
       variableGroup={variableGroup}
       setVariableDialogOpen={setVariableDialogOpen}
+      mcpPromptDialog={
+        <MCPPromptDialog
+          isOpen={isMCPPromptDialogOpen}
+          onOpenChange={setMCPPromptDialogOpen}
+          serverName={mcpPromptEntry?.serverName ?? ''}
+          prompt={mcpPromptEntry?.prompt ?? null}
+          isSubmitting={getMCPPrompt.isLoading}
+          onSubmit={(args) => {
+            if (!mcpPromptEntry) {
+              return;
+            }
+            getMCPPrompt.mutate({
+              serverName: mcpPromptEntry.serverName,
+              promptName: mcpPromptEntry.prompt.name,
+              args,
+            });
+          }}
+        />
+      }
     >
       <div className="absolute bottom-28 z-10 w-full space-y-2">
         <div className="popover border-token-border-light rounded-2xl border bg-surface-tertiary-alt p-2 shadow-lg">
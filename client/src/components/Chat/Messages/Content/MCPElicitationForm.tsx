@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import type {
+  TMCPElicitationField,
+  TMCPElicitationContent,
+  TMCPElicitationRequest,
+} from 'librechat-data-provider';
+import { Input, Label, Switch, Dropdown } from '~/components/ui';
+import { useRespondToMCPElicitationMutation } from '~/data-provider';
+import { useLocalize } from '~/hooks';
+import { useToastContext } from '~/Providers';
+import { Button } from '~/components';
+
+type FormValues = Record<string, string | boolean>;
+
+const inputTypes: Record<NonNullable<TMCPElicitationField['format']>, string> = {
+  email: 'email',
+  uri: 'url',
+  date: 'date',
+  'date-time': 'datetime-local',
+};
+
+function getDefaultValues(properties: Record<string, TMCPElicitationField>): FormValues {
+  const values: FormValues = {};
+  for (const [key, field] of Object.entries(properties)) {
+    if (field.type === 'boolean') {
+      values[key] = field.default === true;
+    } else {
+      values[key] = field.default != null ? String(field.default) : '';
+    }
+  }
+  return values;
+}
+
+/** Converts form values to the types requested by the server */
+function toContent(
+  properties: Record<string, TMCPElicitationField>,
+  values: FormValues,
+): TMCPElicitationContent {
+  const content: TMCPElicitationContent = {};
+  for (const [key, value] of Object.entries(values)) {
+    const field = properties[key];
+    if (!field || value === '') {
+      continue;
+    }
+    if (field.type === 'number' || field.type === 'integer') {
+      content[key] = Number(value);
+    } else {
+      content[key] = value;
+    }
+  }
+  return content;
+}
+
+export default function MCPElicitationForm({
+  elicitation,
+}: {
+  elicitation: TMCPElicitationRequest;
+}) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const [responded, setResponded] = useState(false);
+  const { properties, required = [] } = elicitation.requestedSchema;
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<FormValues>({ defaultValues: getDefaultValues(properties) });
+
+  const respond = useRespondToMCPElicitationMutation({
+    onSuccess: () => setResponded(true),
+    onError: (error) => {
+      console.error('Error responding to MCP elicitation request:', error);
+      showToast({ message: localize('com_ui_mcp_elicitation_error'), status: 'error' });
+    },
+  });
+
+  if (responded) {
+    return null;
+  }
+
+  const onSubmit = (values: FormValues) =>
+    respond.mutate({
+      flowId: elicitation.flowId,
+      action: 'accept',
+      content: toContent(properties, values),
+    });
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      className="my-2 flex w-full flex-col gap-3 rounded-xl border border-border-light bg-surface-secondary p-3"
+    >
+      <div>
+        <p className="text-xs text-text-secondary">
+          {localize('com_ui_mcp_elicitation_request', { 0: elicitation.serverName })}
+        </p>
+        <p className="whitespace-pre-wrap text-sm font-medium text-text-primary">
+          {elicitation.message}
+        </p>
+      </div>
+      {Object.entries(properties).map(([key, field]) => {
+        const id = `mcp-elicitation-${elicitation.flowId}-${key}`;
+        const isRequired = required.includes(key);
+        return (
+          <div key={key} className="space-y-1">
+            <Label htmlFor={id} className="text-sm font-medium">
+              {field.title ?? key}
+              {isRequired ? <span className="text-red-500"> *</span> : null}
+            </Label>
+            <Controller
+              name={key}
+              control={control}
+              rules={{
+                required:
+                  isRequired && field.type !== 'boolean'
+                    ? localize('com_ui_field_required')
+                    : false,
+              }}
+              render={({ field: { value, onChange, ...rest } }) => {
+                if (field.type === 'boolean') {
+                  return (
+                    <Switch
+                      id={id}
+                      checked={value === true}
+                      onCheckedChange={onChange}
+                      disabled={respond.isLoading}
+                    />
+                  );
+                }
+                if (field.enum && field.enum.length > 0) {
+                  return (
+                    <Dropdown
+                      value={String(value)}
+                      onChange={onChange}
+                      ariaLabel={field.title ?? key}
+                      options={field.enum.map((option, i) => ({
+                        value: option,
+                        label: field.enumNames?.[i] ?? option,
+                      }))}
+                    />
+                  );
+                }
+                const isNumber = field.type === 'number' || field.type === 'integer';
+                let type = field.format ? inputTypes[field.format] : 'text';
+                let step: number | string | undefined;
+                if (isNumber) {
+                  type = 'number';
+                  step = field.type === 'integer' ? 1 : 'any';
+                }
+                return (
+                  <Input
+                    id={id}
+                    {...rest}
+                    value={String(value)}
+                    onChange={onChange}
+                    disabled={respond.isLoading}
+                    type={type}
+                    step={step}
+                    min={field.minimum}
+                    max={field.maximum}
+                    minLength={field.minLength}
+                    maxLength={field.maxLength}
+                  />
+                );
+              }}
+            />
+            {field.description != null && field.description ? (
+              <p className="text-xs text-text-secondary">{field.description}</p>
+            ) : null}
+            {errors[key] && <p className="text-xs text-red-500">{errors[key]?.message}</p>}
+          </div>
+        );
+      })}
+      <div className="flex gap-2">
+        <Button
+          type="submit"
+          className="rounded-xl px-4 py-2 text-sm"
+          variant="default"
+          disabled={respond.isLoading}
+        >
+          {localize('com_ui_submit')}
+        </Button>
+        <Button
+          type="button"
+          className="rounded-xl px-4 py-2 text-sm"
+          variant="outline"
+          disabled={respond.isLoading}
+          onClick={() => respond.mutate({ flowId: elicitation.flowId, action: 'decline' })}
+        >
+          {localize('com_ui_decline_request')}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { TriangleAlert } from 'lucide-react';
+import type { TMCPSamplingRequest } from 'librechat-data-provider';
+import { useRespondToMCPSamplingMutation } from '~/data-provider';
+import { useLocalize } from '~/hooks';
+import { useToastContext } from '~/Providers';
+import { Button } from '~/components';
+
+export default function MCPSamplingApproval({ sampling }: { sampling: TMCPSamplingRequest }) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const [responded, setResponded] = useState(false);
+  const respond = useRespondToMCPSamplingMutation({
+    onSuccess: () => setResponded(true),
+    onError: (error) => {
+      console.error('Error responding to MCP sampling request:', error);
+      showToast({ message: localize('com_ui_mcp_sampling_error'), status: 'error' });
+    },
+  });
+
+  if (responded) {
+    return null;
+  }
+
+  const handleResponse = (approved: boolean) =>
+    respond.mutate({ flowId: sampling.flowId, approved });
+
+  return (
+    <div className="my-2 flex w-full flex-col gap-2 rounded-xl border border-border-light bg-surface-secondary p-3">
+      <p className="text-sm font-medium text-text-primary">
+        {localize('com_ui_mcp_sampling_request', { 0: sampling.serverName })}
+      </p>
+      <p className="text-xs text-text-secondary">
+        {localize('com_ui_mcp_sampling_details', {
+          0: sampling.model ?? '',
+          1: sampling.maxTokens,
+        })}
+      </p>
+      <div className="max-h-40 overflow-y-auto rounded-lg bg-surface-primary p-2 text-xs">
+        {sampling.systemPrompt != null && sampling.systemPrompt ? (
+          <p className="mb-1 whitespace-pre-wrap text-text-secondary">{sampling.systemPrompt}</p>
+        ) : null}
+        {sampling.messages.map((message, i) => (
+          <p key={i} className="whitespace-pre-wrap text-text-primary">
+            <span className="font-semibold">{message.role}: </span>
+            {message.text}
+          </p>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          className="rounded-xl px-4 py-2 text-sm"
+          variant="default"
+          disabled={respond.isLoading}
+          onClick={() => handleResponse(true)}
+        >
+          {localize('com_ui_approve')}
+        </Button>
+        <Button
+          className="rounded-xl px-4 py-2 text-sm"
+          variant="outline"
+          disabled={respond.isLoading}
+          onClick={() => handleResponse(false)}
+        >
+          {localize('com_ui_deny')}
+        </Button>
+      </div>
+      <p className="flex items-center text-xs text-text-warning">
+        <TriangleAlert className="mr-1.5 inline-block h-4 w-4" />
+        {localize('com_ui_mcp_sampling_warning')}
+      </p>
+    </div>
+  );
+}
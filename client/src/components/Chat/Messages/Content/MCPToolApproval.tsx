@@ -0,0 +1,72 @@
+import { useMemo, useState } from 'react';
+import { TriangleAlert } from 'lucide-react';
+import type { TMCPToolApproval } from 'librechat-data-provider';
+import { useRespondToMCPToolApprovalMutation } from '~/data-provider';
+import { useLocalize } from '~/hooks';
+import { useToastContext } from '~/Providers';
+import { Button } from '~/components';
+
+export default function MCPToolApproval({ approval }: { approval: TMCPToolApproval }) {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const [responded, setResponded] = useState(false);
+  const respond = useRespondToMCPToolApprovalMutation({
+    onSuccess: () => setResponded(true),
+    onError: (error) => {
+      console.error('Error responding to MCP tool approval request:', error);
+      showToast({ message: localize('com_ui_mcp_approval_error'), status: 'error' });
+    },
+  });
+
+  const args = useMemo(() => {
+    if (approval.args == null || Object.keys(approval.args).length === 0) {
+      return '';
+    }
+    return JSON.stringify(approval.args, null, 2);
+  }, [approval.args]);
+
+  if (responded) {
+    return null;
+  }
+
+  const handleResponse = (approved: boolean) =>
+    respond.mutate({ flowId: approval.flowId, approved });
+
+  return (
+    <div className="my-2 flex w-full flex-col gap-2 rounded-xl border border-border-light bg-surface-secondary p-3">
+      <p className="text-sm font-medium text-text-primary">
+        {localize('com_ui_mcp_approval_request', {
+          0: approval.toolName,
+          1: approval.serverName,
+        })}
+      </p>
+      {args ? (
+        <pre className="max-h-40 overflow-auto rounded-lg bg-surface-primary p-2 text-xs text-text-primary">
+          {args}
+        </pre>
+      ) : null}
+      <div className="flex gap-2">
+        <Button
+          className="rounded-xl px-4 py-2 text-sm"
+          variant="default"
+          disabled={respond.isLoading}
+          onClick={() => handleResponse(true)}
+        >
+          {localize('com_ui_approve')}
+        </Button>
+        <Button
+          className="rounded-xl px-4 py-2 text-sm"
+          variant="outline"
+          disabled={respond.isLoading}
+          onClick={() => handleResponse(false)}
+        >
+          {localize('com_ui_deny')}
+        </Button>
+      </div>
+      <p className="flex items-center text-xs text-text-warning">
+        <TriangleAlert className="mr-1.5 inline-block h-4 w-4" />
+        {localize('com_ui_mcp_approval_warning')}
+      </p>
+    </div>
+  );
+}
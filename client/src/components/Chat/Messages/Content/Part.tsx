@@ -129,6 +129,9 @@ const Part = memo(
             attachments={attachments}
             auth={toolCall.auth}
             expires_at={toolCall.expires_at}
+            sampling={toolCall.sampling}
+            elicitation={toolCall.elicitation}
+            approval={toolCall.approval}
           />
         );
       } else if (toolCall.type === ToolCallTypes.CODE_INTERPRETER) {
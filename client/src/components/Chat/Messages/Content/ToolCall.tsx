@@ -1,9 +1,17 @@
 import { useMemo, useState, useEffect, useRef, useLayoutEffect } from 'react';
 import { TriangleAlert } from 'lucide-react';
 import { actionDelimiter, actionDomainSeparator, Constants } from 'librechat-data-provider';
-import type { TAttachment } from 'librechat-data-provider';
+import type {
+  TAttachment,
+  TMCPToolApproval,
+  TMCPSamplingRequest,
+  TMCPElicitationRequest,
+} from 'librechat-data-provider';
 import { useLocalize, useProgress } from '~/hooks';
 import { AttachmentGroup } from './Parts';
+import MCPSamplingApproval from './MCPSamplingApproval';
+import MCPElicitationForm from './MCPElicitationForm';
+import MCPToolApproval from './MCPToolApproval';
 import ToolCallInfo from './ToolCallInfo';
 import ProgressText from './ProgressText';
 import { Button } from '~/components';
@@ -17,6 +25,9 @@ export default function ToolCall({
   output,
   attachments,
   auth,
+  sampling,
+  elicitation,
+  approval,
 }: {
   initialProgress: number;
   isSubmitting: boolean;
@@ -26,6 +37,9 @@ export default function ToolCall({
   attachments?: TAttachment[];
   auth?: string;
   expires_at?: number;
+  sampling?: TMCPSamplingRequest;
+  elicitation?: TMCPElicitationRequest;
+  approval?: TMCPToolApproval;
 }) {
   const localize = useLocalize();
   const [showInfo, setShowInfo] = useState(false);
@@ -230,6 +244,15 @@ export default function ToolCall({
           </p>
         </div>
       )}
+      {approval != null && progress < 1 && !cancelled && (
+        <MCPToolApproval key={approval.flowId} approval={approval} />
+      )}
+      {sampling != null && progress < 1 && !cancelled && (
+        <MCPSamplingApproval key={sampling.flowId} sampling={sampling} />
+      )}
+      {elicitation != null && progress < 1 && !cancelled && (
+        <MCPElicitationForm key={elicitation.flowId} elicitation={elicitation} />
+      )}
       {attachments && attachments.length > 0 && <AttachmentGroup attachments={attachments} />}
     </>
   );
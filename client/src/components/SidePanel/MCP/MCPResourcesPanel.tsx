@@ -0,0 +1,118 @@
+import React, { useCallback, useState } from 'react';
+import { Paperclip, RefreshCw } from 'lucide-react';
+import type { TMCPResource } from 'librechat-data-provider';
+import { useMCPResourcesQuery, useReadMCPResourceMutation } from '~/data-provider';
+import { useLocalize, useFileHandling } from '~/hooks';
+import { resourceContentsToFiles } from '~/utils';
+import { Button } from '~/components/ui';
+import { Spinner } from '~/components/svg';
+import MCPPanelSkeleton from './MCPPanelSkeleton';
+import { useToastContext } from '~/Providers';
+
+export default function MCPResourcesPanel() {
+  const localize = useLocalize();
+  const { showToast } = useToastContext();
+  const { handleFiles } = useFileHandling();
+  const [attachingUri, setAttachingUri] = useState<string | null>(null);
+  const { data: serverResources = {}, isLoading, isFetching, refetch } = useMCPResourcesQuery();
+
+  const readResource = useReadMCPResourceMutation({
+    onSettled: () => setAttachingUri(null),
+    onError: (error) => {
+      console.error('Error reading MCP resource:', error);
+      showToast({ message: localize('com_sidepanel_mcp_resource_error'), status: 'error' });
+    },
+  });
+
+  const handleAttach = useCallback(
+    (serverName: string, resource: TMCPResource) => {
+      setAttachingUri(resource.uri);
+      readResource.mutate(
+        { serverName, uri: resource.uri },
+        {
+          onSuccess: ({ contents }) => {
+            const files = resourceContentsToFiles(resource, contents);
+            if (files.length === 0) {
+              showToast({
+                message: localize('com_sidepanel_mcp_resource_empty'),
+                status: 'warning',
+              });
+              return;
+            }
+            handleFiles(files);
+          },
+        },
+      );
+    },
+    [readResource, handleFiles, showToast, localize],
+  );
+
+  if (isLoading) {
+    return <MCPPanelSkeleton />;
+  }
+
+  const serverEntries = Object.entries(serverResources);
+
+  return (
+    <div className="h-auto max-w-full overflow-x-hidden p-3">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-lg font-medium">{localize('com_sidepanel_mcp_resources')}</h3>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          aria-label={localize('com_ui_refresh')}
+        >
+          <RefreshCw className={isFetching ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+        </Button>
+      </div>
+      {serverEntries.length === 0 ? (
+        <div className="p-4 text-center text-sm text-gray-500">
+          {localize('com_sidepanel_mcp_no_resources')}
+        </div>
+      ) : null}
+      <div className="space-y-4">
+        {serverEntries.map(([serverName, resources]) => (
+          <div key={serverName} className="space-y-2">
+            <h4 className="text-sm font-semibold text-text-primary">{serverName}</h4>
+            <ul className="space-y-1">
+              {resources.map((resource) => (
+                <li
+                  key={resource.uri}
+                  className="flex items-center gap-2 rounded-lg px-2 py-1.5 hover:bg-surface-secondary"
+                >
+                  <div className="min-w-0 flex-grow">
+                    <div className="truncate text-sm font-medium" title={resource.uri}>
+                      {resource.name || resource.uri}
+                    </div>
+                    {resource.description != null && resource.description ? (
+                      <div className="truncate text-xs text-text-secondary">
+                        {resource.description}
+                      </div>
+                    ) : null}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={attachingUri != null}
+                    onClick={() => handleAttach(serverName, resource)}
+                    aria-label={localize('com_sidepanel_mcp_attach_resource', {
+                      0: resource.name || resource.uri,
+                    })}
+                  >
+                    {attachingUri === resource.uri ? (
+                      <Spinner className="h-4 w-4" />
+                    ) : (
+                      <Paperclip className="h-4 w-4" />
+                    )}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
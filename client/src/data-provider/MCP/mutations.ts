@@ -0,0 +1,62 @@
+import { useMutation } from '@tanstack/react-query';
+import { MutationKeys, dataService } from 'librechat-data-provider';
+import type { UseMutationOptions } from '@tanstack/react-query';
+import type {
+  TMCPGetPromptRequest,
+  TMCPGetPromptResponse,
+  TMCPReadResourceRequest,
+  TMCPReadResourceResponse,
+  TMCPElicitationResponse,
+  TMCPToolApprovalResponse,
+  TMCPSamplingApprovalRequest,
+} from 'librechat-data-provider';
+
+export const useGetMCPPromptMutation = (
+  options?: UseMutationOptions<TMCPGetPromptResponse, Error, TMCPGetPromptRequest>,
+) => {
+  return useMutation<TMCPGetPromptResponse, Error, TMCPGetPromptRequest>(
+    [MutationKeys.getMCPPrompt],
+    (payload: TMCPGetPromptRequest) => dataService.getMCPPrompt(payload),
+    options,
+  );
+};
+
+export const useReadMCPResourceMutation = (
+  options?: UseMutationOptions<TMCPReadResourceResponse, Error, TMCPReadResourceRequest>,
+) => {
+  return useMutation<TMCPReadResourceResponse, Error, TMCPReadResourceRequest>(
+    [MutationKeys.readMCPResource],
+    (payload: TMCPReadResourceRequest) => dataService.readMCPResource(payload),
+    options,
+  );
+};
+
+export const useRespondToMCPSamplingMutation = (
+  options?: UseMutationOptions<{ success: boolean }, Error, TMCPSamplingApprovalRequest>,
+) => {
+  return useMutation<{ success: boolean }, Error, TMCPSamplingApprovalRequest>(
+    [MutationKeys.respondToMCPSampling],
+    (payload: TMCPSamplingApprovalRequest) => dataService.respondToMCPSampling(payload),
+    options,
+  );
+};
+
+export const useRespondToMCPElicitationMutation = (
+  options?: UseMutationOptions<{ success: boolean }, Error, TMCPElicitationResponse>,
+) => {
+  return useMutation<{ success: boolean }, Error, TMCPElicitationResponse>(
+    [MutationKeys.respondToMCPElicitation],
+    (payload: TMCPElicitationResponse) => dataService.respondToMCPElicitation(payload),
+    options,
+  );
+};
+
+export const useRespondToMCPToolApprovalMutation = (
+  options?: UseMutationOptions<{ success: boolean }, Error, TMCPToolApprovalResponse>,
+) => {
+  return useMutation<{ success: boolean }, Error, TMCPToolApprovalResponse>(
+    [MutationKeys.respondToMCPToolApproval],
+    (payload: TMCPToolApprovalResponse) => dataService.respondToMCPToolApproval(payload),
+    options,
+  );
+};
@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query';
+import { QueryKeys, dataService } from 'librechat-data-provider';
+import type { UseQueryOptions, QueryObserverResult } from '@tanstack/react-query';
+import type { TMCPPromptsResponse, TMCPResourcesResponse } from 'librechat-data-provider';
+
+export const useMCPPromptsQuery = <TData = TMCPPromptsResponse>(
+  config?: UseQueryOptions<TMCPPromptsResponse, unknown, TData>,
+): QueryObserverResult<TData> => {
+  return useQuery<TMCPPromptsResponse, unknown, TData>(
+    [QueryKeys.mcpPrompts],
+    () => dataService.getMCPPrompts(),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      refetchOnMount: false,
+      ...config,
+    },
+  );
+};
+
+export const useMCPResourcesQuery = <TData = TMCPResourcesResponse>(
+  config?: UseQueryOptions<TMCPResourcesResponse, unknown, TData>,
+): QueryObserverResult<TData> => {
+  return useQuery<TMCPResourcesResponse, unknown, TData>(
+    [QueryKeys.mcpResources],
+    () => dataService.getMCPResources(),
+    {
+      refetchOnWindowFocus: false,
+      refetchOnReconnect: false,
+      ...config,
+    },
+  );
+};
@@ -2,6 +2,8 @@ export * from './Auth';
 export * from './Agents';
 export * from './Endpoints';
 export * from './Files';
+/* MCP */
+export * from './MCP';
 /* Memories */
 export * from './Memories';
 export * from './Messages';
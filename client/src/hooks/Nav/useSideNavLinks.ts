@@ -1,5 +1,12 @@
 import { useMemo } from 'react';
-import { MessageSquareQuote, ArrowRightToLine, Settings2, Database, Bookmark } from 'lucide-react';
+import {
+  MessageSquareQuote,
+  ArrowRightToLine,
+  Settings2,
+  Database,
+  Bookmark,
+  Library,
+} from 'lucide-react';
 import {
   isAssistantsEndpoint,
   isAgentsEndpoint,
@@ -18,6 +25,7 @@ import PromptsAccordion from '~/components/Prompts/PromptsAccordion';
 import { Blocks, MCPIcon, AttachmentIcon } from '~/components/svg';
 import Parameters from '~/components/SidePanel/Parameters/Panel';
 import FilesPanel from '~/components/SidePanel/Files/Panel';
+import MCPResourcesPanel from '~/components/SidePanel/MCP/MCPResourcesPanel';
 import MCPPanel from '~/components/SidePanel/MCP/MCPPanel';
 import { useGetStartupConfig } from '~/data-provider';
 import { useHasAccess } from '~/hooks';
@@ -167,6 +175,16 @@ export default function useSideNavLinks({
       });
     }
 
+    if (startupConfig?.mcpServers && Object.keys(startupConfig.mcpServers).length > 0) {
+      links.push({
+        title: 'com_sidepanel_mcp_resources',
+        label: '',
+        icon: Library,
+        id: 'mcp-resources',
+        Component: MCPResourcesPanel,
+      });
+    }
+
     links.push({
       title: 'com_sidepanel_hide_panel',
       label: '',
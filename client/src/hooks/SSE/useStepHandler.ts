@@ -162,6 +162,9 @@ export default function useStepHandler({
         type: ToolCallTypes.TOOL_CALL,
         auth: contentPart.tool_call.auth,
         expires_at: contentPart.tool_call.expires_at,
+        sampling: contentPart.tool_call.sampling,
+        elicitation: contentPart.tool_call.elicitation,
+        approval: contentPart.tool_call.approval,
       };
 
       if (finalUpdate) {
@@ -359,6 +362,21 @@ export default function useStepHandler({
               contentPart.tool_call.expires_at = runStepDelta.delta.expires_at;
             }
 
+            if (runStepDelta.delta.sampling != null) {
+              contentPart.tool_call.sampling = runStepDelta.delta.sampling;
+              contentPart.tool_call.expires_at = runStepDelta.delta.expires_at;
+            }
+
+            if (runStepDelta.delta.elicitation != null) {
+              contentPart.tool_call.elicitation = runStepDelta.delta.elicitation;
+              contentPart.tool_call.expires_at = runStepDelta.delta.expires_at;
+            }
+
+            if (runStepDelta.delta.approval != null) {
+              contentPart.tool_call.approval = runStepDelta.delta.approval;
+              contentPart.tool_call.expires_at = runStepDelta.delta.expires_at;
+            }
+
             /** Tool calls don't need index adjustment */
             const currentIndex = runStep.index + initialContent.length;
             updatedResponse = updateContent(updatedResponse, currentIndex, contentPart);
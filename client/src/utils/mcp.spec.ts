@@ -0,0 +1,39 @@
+import { getResourceFileName, resourceContentsToFiles } from './mcp';
+
+describe('getResourceFileName', () => {
+  it('prefers the resource name', () => {
+    expect(getResourceFileName({ uri: 'file:///docs/readme.md', name: 'README' })).toBe('README');
+  });
+
+  it('falls back to the last URI segment', () => {
+    expect(getResourceFileName({ uri: 'file:///docs/readme.md', name: '' })).toBe('readme.md');
+  });
+});
+
+describe('resourceContentsToFiles', () => {
+  it('converts text contents into a text file', async () => {
+    const [file] = resourceContentsToFiles({ uri: 'file:///notes.txt', name: 'notes.txt' }, [
+      { uri: 'file:///notes.txt', text: 'hello' },
+    ]);
+    expect(file.name).toBe('notes.txt');
+    expect(file.type).toBe('text/plain');
+    expect(file.size).toBe(5);
+  });
+
+  it('decodes base64 blob contents', () => {
+    const [file] = resourceContentsToFiles(
+      { uri: 'img://logo', name: 'logo.png', mimeType: 'image/png' },
+      [{ uri: 'img://logo', blob: btoa('\x89PNG') }],
+    );
+    expect(file.type).toBe('image/png');
+    expect(file.size).toBe(4);
+  });
+
+  it('names multi-part contents after each part URI', () => {
+    const files = resourceContentsToFiles({ uri: 'repo://src', name: 'src' }, [
+      { uri: 'repo://src/a.ts', text: 'a' },
+      { uri: 'repo://src/b.ts', text: 'b' },
+    ]);
+    expect(files.map((file) => file.name)).toEqual(['a.ts', 'b.ts']);
+  });
+});
@@ -0,0 +1,42 @@
+import type { TMCPResource, TMCPResourceContents } from 'librechat-data-provider';
+
+const defaultTextMimeType = 'text/plain';
+const defaultBlobMimeType = 'application/octet-stream';
+
+/** Derives a file name from a resource name or the last segment of its URI */
+export const getResourceFileName = (resource: Pick<TMCPResource, 'uri' | 'name'>): string => {
+  if (resource.name) {
+    return resource.name;
+  }
+  const segments = resource.uri.split(/[/\\]/).filter(Boolean);
+  return segments[segments.length - 1] ?? resource.uri;
+};
+
+/**
+ * Converts `resources/read` contents into `File` objects so they can be attached
+ * to a message through the regular file upload flow.
+ */
+export const resourceContentsToFiles = (
+  resource: Pick<TMCPResource, 'uri' | 'name' | 'mimeType'>,
+  contents: TMCPResourceContents[],
+): File[] => {
+  return contents.map((item) => {
+    /** Multi-part resources are named after each part's own URI */
+    const name = getResourceFileName(contents.length > 1 ? { uri: item.uri, name: '' } : resource);
+
+    if (item.blob != null) {
+      const binary = atob(item.blob);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      return new File([bytes], name, {
+        type: item.mimeType ?? resource.mimeType ?? defaultBlobMimeType,
+      });
+    }
+
+    return new File([item.text ?? ''], name, {
+      type: item.mimeType ?? resource.mimeType ?? defaultTextMimeType,
+    });
+  });
+};
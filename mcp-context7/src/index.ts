@@ -3,26 +3,60 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
-import { searchLibraries, fetchLibraryDocumentation } from "./lib/api.js";
+import { BackendType, createBackend } from "./lib/backend.js";
+import { createDocsCache, withDocsCache } from "./lib/cache.js";
 import { formatSearchResults } from "./lib/utils.js";
 import { SearchResponse } from "./lib/types.js";
 import { createServer } from "http";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { Command } from "commander";
+import os from "node:os";
+import path from "node:path";
 
 const DEFAULT_MINIMUM_TOKENS = 10000;
+const DEFAULT_CACHE_TTL_SECONDS = 24 * 60 * 60;
 
 // Parse CLI arguments using commander
 const program = new Command()
   .option("--transport <stdio|http|sse>", "transport type", "stdio")
   .option("--port <number>", "port for HTTP/SSE transport", "3000")
+  .option(
+    "--docs-backend <remote|local>",
+    "documentation backend",
+    process.env.CONTEXT7_BACKEND || "remote"
+  )
+  .option(
+    "--docs-dir <path>",
+    "directory whose subdirectories are indexed as local libraries",
+    process.env.CONTEXT7_DOCS_DIR
+  )
+  .option(
+    "--docs-config <path>",
+    "JSON manifest of local libraries (directories or git remotes)",
+    process.env.CONTEXT7_DOCS_CONFIG
+  )
+  .option(
+    "--cache-ttl <seconds>",
+    "how long fetched documentation is cached, 0 disables the cache",
+    process.env.CONTEXT7_CACHE_TTL || String(DEFAULT_CACHE_TTL_SECONDS)
+  )
+  .option(
+    "--cache-dir <path>",
+    "directory for the documentation cache",
+    process.env.CONTEXT7_CACHE_DIR || path.join(os.homedir(), ".cache", "context7-mcp", "docs")
+  )
   .allowUnknownOption() // let MCP Inspector / other wrappers pass through extra flags
   .parse(process.argv);
 
 const cliOptions = program.opts<{
   transport: string;
   port: string;
+  docsBackend: string;
+  docsDir?: string;
+  docsConfig?: string;
+  cacheTtl: string;
+  cacheDir: string;
 }>();
 
 // Validate transport option
@@ -34,6 +68,40 @@ if (!allowedTransports.includes(cliOptions.transport)) {
   process.exit(1);
 }
 
+// Validate backend option
+const allowedBackends = ["remote", "local"];
+if (!allowedBackends.includes(cliOptions.docsBackend)) {
+  console.error(
+    `Invalid --docs-backend value: '${cliOptions.docsBackend}'. Must be one of: remote, local.`
+  );
+  process.exit(1);
+}
+if (cliOptions.docsBackend === "local" && !cliOptions.docsDir && !cliOptions.docsConfig) {
+  console.error("The local docs backend requires --docs-dir or --docs-config.");
+  process.exit(1);
+}
+
+// Documentation cache configuration
+const CACHE_TTL_SECONDS = (() => {
+  const parsed = parseInt(cliOptions.cacheTtl, 10);
+  return isNaN(parsed) || parsed < 0 ? DEFAULT_CACHE_TTL_SECONDS : parsed;
+})();
+const docsCache =
+  CACHE_TTL_SECONDS > 0
+    ? createDocsCache({ dir: cliOptions.cacheDir, ttlSeconds: CACHE_TTL_SECONDS })
+    : undefined;
+
+// Shared by all server instances so the local index is built only once
+const docsBackend = createBackend({
+  type: cliOptions.docsBackend as BackendType,
+  docsDir: cliOptions.docsDir,
+  docsConfig: cliOptions.docsConfig,
+  checkoutDir: process.env.CONTEXT7_CHECKOUT_DIR,
+});
+const backend = docsCache
+  ? withDocsCache(docsBackend, docsCache, cliOptions.docsBackend)
+  : docsBackend;
+
 // Transport configuration
 const TRANSPORT_TYPE = (cliOptions.transport || "stdio") as "stdio" | "http" | "sse";
 
@@ -87,7 +155,7 @@ For ambiguous queries, request clarification before proceeding with a best-guess
         .describe("Library name to search for and retrieve a Context7-compatible library ID."),
     },
     async ({ libraryName }) => {
-      const searchResponse: SearchResponse = await searchLibraries(libraryName);
+      const searchResponse: SearchResponse = await backend.searchLibraries(libraryName);
 
       if (!searchResponse.results || searchResponse.results.length === 0) {
         return {
@@ -149,14 +217,41 @@ ${resultsText}`,
         .describe(
           `Maximum number of tokens of documentation to retrieve (default: ${DEFAULT_MINIMUM_TOKENS}). Higher values provide more context but consume more tokens.`
         ),
+      version: z
+        .string()
+        .regex(/^[^/\s]+$/, "Version must not contain slashes or whitespace")
+        .optional()
+        .describe(
+          "Library version to pin (e.g., 'v14.3.0-canary.87'). Must be one of the Versions listed by 'resolve-library-id'; only pass it when the user asks for a specific version. Overrides a version included in the library ID."
+        ),
     },
-    async ({ context7CompatibleLibraryID, tokens = DEFAULT_MINIMUM_TOKENS, topic = "" }) => {
-      const fetchDocsResponse = await fetchLibraryDocumentation(context7CompatibleLibraryID, {
-        tokens,
-        topic,
-      });
+    async ({
+      context7CompatibleLibraryID,
+      tokens = DEFAULT_MINIMUM_TOKENS,
+      topic = "",
+      version,
+    }) => {
+      const fetchDocsResponse = await backend.fetchLibraryDocumentation(
+        context7CompatibleLibraryID,
+        {
+          tokens,
+          topic,
+          version,
+        }
+      );
 
-      if (!fetchDocsResponse) {
+      if (fetchDocsResponse.error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: fetchDocsResponse.error,
+            },
+          ],
+        };
+      }
+
+      if (!fetchDocsResponse.text) {
         return {
           content: [
             {
@@ -171,13 +266,58 @@ ${resultsText}`,
         content: [
           {
             type: "text",
-            text: fetchDocsResponse,
+            text: fetchDocsResponse.text,
           },
         ],
       };
     }
   );
 
+  if (docsCache) {
+    const cache = docsCache;
+    server.tool(
+      "manage-docs-cache",
+      "Lists or purges the documentation cached by 'get-library-docs'. Use 'list' to see which libraries, versions and topics are cached and when they expire, and 'purge' to force fresh documentation on the next lookup.",
+      {
+        action: z.enum(["list", "purge"]).describe("Whether to list or purge cache entries."),
+        libraryId: z
+          .string()
+          .optional()
+          .describe("Only list or purge entries of this Context7-compatible library ID."),
+        expiredOnly: z
+          .boolean()
+          .optional()
+          .describe("When purging, only remove entries whose TTL has passed."),
+      },
+      async ({ action, libraryId, expiredOnly }) => {
+        if (action === "purge") {
+          const removed = await cache.purge({ libraryId, expiredOnly });
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Removed ${removed} cached documentation ${removed === 1 ? "entry" : "entries"}.`,
+              },
+            ],
+          };
+        }
+
+        const entries = await cache.list(libraryId);
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                entries.length > 0
+                  ? JSON.stringify({ entries }, null, 2)
+                  : "The documentation cache is empty.",
+            },
+          ],
+        };
+      }
+    );
+  }
+
   return server;
 }
 
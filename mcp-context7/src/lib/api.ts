@@ -1,6 +1,8 @@
-import { SearchResponse } from "./types.js";
+import { DocumentationOptions, DocumentationResponse, SearchResponse } from "./types.js";
+import { withVersion } from "./utils.js";
 
-const CONTEXT7_API_BASE_URL = "https://context7.com/api";
+// Can point at a self-hosted Context7 deployment
+const CONTEXT7_API_BASE_URL = process.env.CONTEXT7_API_BASE_URL || "https://context7.com/api";
 const DEFAULT_TYPE = "txt";
 
 /**
@@ -39,19 +41,14 @@ export async function searchLibraries(query: string): Promise<SearchResponse> {
  * Fetches documentation context for a specific library
  * @param libraryId The library ID to fetch documentation for
  * @param options Options for the request
- * @returns The documentation text or null if the request fails
+ * @returns The documentation text (null if none is available) or the error of a failed request
  */
 export async function fetchLibraryDocumentation(
   libraryId: string,
-  options: {
-    tokens?: number;
-    topic?: string;
-  } = {}
-): Promise<string | null> {
+  options: DocumentationOptions = {}
+): Promise<DocumentationResponse> {
   try {
-    if (libraryId.startsWith("/")) {
-      libraryId = libraryId.slice(1);
-    }
+    libraryId = withVersion(libraryId, options.version).slice(1);
     const url = new URL(`${CONTEXT7_API_BASE_URL}/v1/${libraryId}`);
     if (options.tokens) url.searchParams.set("tokens", options.tokens.toString());
     if (options.topic) url.searchParams.set("topic", options.topic);
@@ -66,20 +63,20 @@ export async function fetchLibraryDocumentation(
       if (errorCode === 429) {
         const errorMessage = `Rate limited due to too many requests. Please try again later.`;
         console.error(errorMessage);
-        return errorMessage;
+        return { text: null, error: errorMessage };
       }
       const errorMessage = `Failed to fetch documentation. Please try again later. Error code: ${errorCode}`;
       console.error(errorMessage);
-      return errorMessage;
+      return { text: null, error: errorMessage };
     }
     const text = await response.text();
     if (!text || text === "No content available" || text === "No context data available") {
-      return null;
+      return { text: null };
     }
-    return text;
+    return { text };
   } catch (error) {
     const errorMessage = `Error fetching library documentation. Please try again later. ${error}`;
     console.error(errorMessage);
-    return errorMessage;
+    return { text: null, error: errorMessage };
   }
 }
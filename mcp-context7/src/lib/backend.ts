@@ -0,0 +1,39 @@
+import os from "node:os";
+import path from "node:path";
+import { fetchLibraryDocumentation, searchLibraries } from "./api.js";
+import { createLocalBackend } from "./local/backend.js";
+import { DocumentationBackend } from "./types.js";
+
+export type BackendType = "remote" | "local";
+
+export interface BackendConfig {
+  type: BackendType;
+  docsDir?: string;
+  docsConfig?: string;
+  checkoutDir?: string;
+}
+
+/**
+ * The hosted Context7 API
+ */
+export const remoteBackend: DocumentationBackend = {
+  searchLibraries,
+  fetchLibraryDocumentation,
+};
+
+/**
+ * Creates the documentation backend selected by the configuration
+ * @param config The backend type and, for the local backend, where the docs live
+ * @returns The backend used by the MCP tools
+ */
+export function createBackend(config: BackendConfig): DocumentationBackend {
+  if (config.type === "remote") {
+    return remoteBackend;
+  }
+  return createLocalBackend({
+    docsDir: config.docsDir,
+    configFile: config.docsConfig,
+    checkoutDir:
+      config.checkoutDir ?? path.join(os.homedir(), ".cache", "context7-mcp", "checkouts"),
+  });
+}
@@ -0,0 +1,132 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createDocsCache, DocsCache, withDocsCache } from "./cache.js";
+import { DocumentationBackend } from "./types.js";
+
+describe("createDocsCache", () => {
+  let dir: string;
+  let cache: DocsCache;
+  let now: number;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "context7-cache-"));
+    cache = createDocsCache({ dir, ttlSeconds: 60 });
+    now = Date.parse("2025-01-01T00:00:00Z");
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should share entries between equivalent library IDs, versions and topics", async () => {
+    await cache.set(
+      { backend: "remote", libraryId: "/Vercel/Next.js/", version: " v14 ", topic: " Routing " },
+      "docs"
+    );
+
+    expect(
+      await cache.get({ backend: "remote", libraryId: "vercel/next.js", version: "v14", topic: "routing" })
+    ).toBe("docs");
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+
+  it("should keep entries apart by backend, version, topic and token budget", async () => {
+    const key = { backend: "remote", libraryId: "/vercel/next.js", topic: "routing", tokens: 5000 };
+    await cache.set(key, "docs");
+
+    expect(await cache.get({ ...key, backend: "local" })).toBeUndefined();
+    expect(await cache.get({ ...key, version: "v14" })).toBeUndefined();
+    expect(await cache.get({ ...key, topic: "hooks" })).toBeUndefined();
+    expect(await cache.get({ ...key, topic: undefined })).toBeUndefined();
+    expect(await cache.get({ ...key, tokens: 10000 })).toBeUndefined();
+    // Blank versions and topics are the same as none
+    await cache.set({ backend: "remote", libraryId: "/vercel/next.js", version: " ", topic: "" }, "all");
+    expect(await cache.get({ backend: "remote", libraryId: "/vercel/next.js" })).toBe("all");
+  });
+
+  it("should expire entries after the TTL", async () => {
+    const key = { backend: "remote", libraryId: "/mongodb/docs" };
+    await cache.set(key, "docs");
+
+    now += 59_999;
+    expect(await cache.get(key)).toBe("docs");
+    now += 1;
+    expect(await cache.get(key)).toBeUndefined();
+
+    const [entry] = await cache.list();
+    expect(entry).toMatchObject({
+      libraryId: "/mongodb/docs",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      expiresAt: "2025-01-01T00:01:00.000Z",
+      expired: true,
+      size: 4,
+    });
+  });
+
+  it("should list and purge entries by library", async () => {
+    await cache.set({ backend: "remote", libraryId: "/vercel/next.js", topic: "routing" }, "a");
+    now += 1000;
+    await cache.set({ backend: "remote", libraryId: "/vercel/next.js" }, "b");
+    await cache.set({ backend: "remote", libraryId: "/mongodb/docs" }, "c");
+
+    expect((await cache.list("Vercel/Next.js")).map((entry) => entry.topic)).toEqual([
+      undefined,
+      "routing",
+    ]);
+    expect(await cache.purge({ libraryId: "/vercel/next.js/" })).toBe(2);
+    expect((await cache.list()).map((entry) => entry.libraryId)).toEqual(["/mongodb/docs"]);
+  });
+
+  it("should only purge expired entries when asked to", async () => {
+    await cache.set({ backend: "remote", libraryId: "/vercel/next.js" }, "old");
+    now += 30_000;
+    await cache.set({ backend: "remote", libraryId: "/mongodb/docs" }, "new");
+    now += 30_000;
+
+    expect(await cache.purge({ expiredOnly: true })).toBe(1);
+    expect((await cache.list()).map((entry) => entry.libraryId)).toEqual(["/mongodb/docs"]);
+    expect(await cache.purge()).toBe(1);
+    expect(await cache.list()).toEqual([]);
+  });
+
+  it("should ignore unreadable entries", async () => {
+    await writeFile(path.join(dir, "broken.json"), "{");
+
+    expect(await cache.list()).toEqual([]);
+    expect(await cache.purge()).toBe(0);
+  });
+});
+
+describe("withDocsCache", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "context7-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should serve repeated lookups from the cache but never cache errors", async () => {
+    const backend: DocumentationBackend = {
+      searchLibraries: jest.fn(),
+      fetchLibraryDocumentation: jest
+        .fn()
+        .mockResolvedValueOnce({ text: null, error: "Rate limited" })
+        .mockResolvedValue({ text: "docs" }),
+    };
+    const cached = withDocsCache(backend, createDocsCache({ dir, ttlSeconds: 60 }), "remote");
+
+    expect(await cached.fetchLibraryDocumentation("/vercel/next.js")).toEqual({
+      text: null,
+      error: "Rate limited",
+    });
+    expect(await cached.fetchLibraryDocumentation("/vercel/next.js")).toEqual({ text: "docs" });
+    expect(await cached.fetchLibraryDocumentation("/vercel/next.js")).toEqual({ text: "docs" });
+    expect(backend.fetchLibraryDocumentation).toHaveBeenCalledTimes(2);
+  });
+});
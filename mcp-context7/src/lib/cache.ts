@@ -0,0 +1,184 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { DocumentationBackend, DocumentationOptions, DocumentationResponse } from "./types.js";
+
+export interface DocsCacheKey {
+  // Backend the docs came from, so remote and local docs never mix
+  backend: string;
+  libraryId: string;
+  version?: string;
+  topic?: string;
+  tokens?: number;
+}
+
+export interface DocsCacheEntry extends DocsCacheKey {
+  createdAt: number;
+  text: string;
+}
+
+export interface DocsCacheEntryInfo extends DocsCacheKey {
+  createdAt: string;
+  expiresAt: string;
+  expired: boolean;
+  // Length of the cached documentation in characters
+  size: number;
+}
+
+export interface DocsCache {
+  get(key: DocsCacheKey): Promise<string | undefined>;
+  set(key: DocsCacheKey, text: string): Promise<void>;
+  list(libraryId?: string): Promise<DocsCacheEntryInfo[]>;
+  purge(options?: { libraryId?: string; expiredOnly?: boolean }): Promise<number>;
+}
+
+/**
+ * Normalizes a key so "/org/project" and "org/project", or "Hooks " and "hooks",
+ * share an entry
+ * @param key The key to normalize
+ * @returns The normalized key
+ */
+function normalizeKey(key: DocsCacheKey): DocsCacheKey {
+  return {
+    backend: key.backend,
+    libraryId: `/${key.libraryId.replace(/^\/+|\/+$/g, "")}`.toLowerCase(),
+    version: key.version?.trim() || undefined,
+    topic: key.topic?.trim().toLowerCase() || undefined,
+    tokens: key.tokens,
+  };
+}
+
+function matchesLibrary(entry: DocsCacheKey, libraryId?: string): boolean {
+  if (!libraryId) return true;
+  return entry.libraryId === normalizeKey({ backend: "", libraryId }).libraryId;
+}
+
+/**
+ * Creates a cache that keeps fetched documentation as JSON files, one per
+ * library, version, topic and token budget, so repeated lookups survive restarts
+ * @param options The cache directory and entry lifetime
+ * @returns The documentation cache
+ */
+export function createDocsCache(options: { dir: string; ttlSeconds: number }): DocsCache {
+  const ttlMs = options.ttlSeconds * 1000;
+  const isExpired = (entry: DocsCacheEntry) => Date.now() - entry.createdAt >= ttlMs;
+
+  const fileFor = (key: DocsCacheKey) => {
+    const hash = createHash("sha256")
+      .update(JSON.stringify(normalizeKey(key)))
+      .digest("hex");
+    return path.join(options.dir, `${hash}.json`);
+  };
+
+  const readEntry = async (file: string): Promise<DocsCacheEntry | undefined> => {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as DocsCacheEntry;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const readAll = async (): Promise<Array<{ file: string; entry: DocsCacheEntry }>> => {
+    let names: string[];
+    try {
+      names = await readdir(options.dir);
+    } catch {
+      return [];
+    }
+    const entries = await Promise.all(
+      names
+        .filter((name) => name.endsWith(".json"))
+        .map(async (name) => {
+          const file = path.join(options.dir, name);
+          const entry = await readEntry(file);
+          return entry ? [{ file, entry }] : [];
+        })
+    );
+    return entries.flat();
+  };
+
+  return {
+    async get(key) {
+      const entry = await readEntry(fileFor(key));
+      return entry && !isExpired(entry) ? entry.text : undefined;
+    },
+
+    async set(key, text) {
+      const file = fileFor(key);
+      const entry: DocsCacheEntry = { ...normalizeKey(key), createdAt: Date.now(), text };
+      await mkdir(options.dir, { recursive: true });
+      // Write to a temporary file first so concurrent readers never see a partial entry
+      const tempFile = `${file}.${process.pid}.tmp`;
+      await writeFile(tempFile, JSON.stringify(entry));
+      await rename(tempFile, file);
+    },
+
+    async list(libraryId) {
+      const entries = await readAll();
+      return entries
+        .filter(({ entry }) => matchesLibrary(entry, libraryId))
+        .sort((a, b) => b.entry.createdAt - a.entry.createdAt)
+        .map(({ entry }) => ({
+          backend: entry.backend,
+          libraryId: entry.libraryId,
+          version: entry.version,
+          topic: entry.topic,
+          tokens: entry.tokens,
+          createdAt: new Date(entry.createdAt).toISOString(),
+          expiresAt: new Date(entry.createdAt + ttlMs).toISOString(),
+          expired: isExpired(entry),
+          size: entry.text.length,
+        }));
+    },
+
+    async purge({ libraryId, expiredOnly = false } = {}) {
+      const entries = await readAll();
+      const removed = entries.filter(
+        ({ entry }) => matchesLibrary(entry, libraryId) && (!expiredOnly || isExpired(entry))
+      );
+      await Promise.all(removed.map(({ file }) => rm(file, { force: true })));
+      return removed.length;
+    },
+  };
+}
+
+/**
+ * Wraps a backend so successful documentation lookups are served from the cache.
+ * Errors and empty results are never cached.
+ * @param backend The backend to wrap
+ * @param cache The documentation cache
+ * @param backendName Name stored in the cache keys
+ * @returns A backend with the same contract
+ */
+export function withDocsCache(
+  backend: DocumentationBackend,
+  cache: DocsCache,
+  backendName: string
+): DocumentationBackend {
+  return {
+    searchLibraries: (query) => backend.searchLibraries(query),
+
+    async fetchLibraryDocumentation(
+      libraryId: string,
+      options: DocumentationOptions = {}
+    ): Promise<DocumentationResponse> {
+      const key: DocsCacheKey = { backend: backendName, libraryId, ...options };
+      try {
+        const cached = await cache.get(key);
+        if (cached !== undefined) {
+          return { text: cached };
+        }
+      } catch (error) {
+        console.error("Error reading the documentation cache:", error);
+      }
+
+      const response = await backend.fetchLibraryDocumentation(libraryId, options);
+      if (!response.error && response.text) {
+        await cache.set(key, response.text).catch((error) => {
+          console.error("Error writing the documentation cache:", error);
+        });
+      }
+      return response;
+    },
+  };
+}
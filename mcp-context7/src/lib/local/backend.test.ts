@@ -0,0 +1,69 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createLocalBackend } from "./backend.js";
+
+describe("createLocalBackend", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "context7-local-"));
+    await mkdir(path.join(dir, "docs", "router"), { recursive: true });
+    await writeFile(path.join(dir, "docs", "router", "README.md"), "# Router\n\nA small router.");
+    await writeFile(
+      path.join(dir, "libraries.json"),
+      JSON.stringify({ libraries: [{ id: "/acme/widgets", path: "docs/router", branch: "v2" }] })
+    );
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const backend = () =>
+    createLocalBackend({
+      docsDir: path.join(dir, "docs"),
+      configFile: path.join(dir, "libraries.json"),
+      checkoutDir: path.join(dir, "checkouts"),
+    });
+
+  it("should serve the indexed checkout without a version", async () => {
+    const response = await backend().fetchLibraryDocumentation("/local/router");
+
+    expect(response.error).toBeUndefined();
+    expect(response.text).toContain("A small router.");
+  });
+
+  it("should serve the indexed checkout when its branch is requested", async () => {
+    const local = backend();
+
+    expect((await local.fetchLibraryDocumentation("/acme/widgets", { version: "v2" })).text).toContain(
+      "A small router."
+    );
+    expect((await local.fetchLibraryDocumentation("/acme/widgets/V2")).text).toContain("A small router.");
+  });
+
+  it("should report versions other than the indexed checkout instead of ignoring them", async () => {
+    const local = backend();
+
+    expect(await local.fetchLibraryDocumentation("/acme/widgets", { version: "v1" })).toEqual({
+      text: null,
+      error: expect.stringContaining('Version "v1" of /acme/widgets is not available locally'),
+    });
+    expect((await local.fetchLibraryDocumentation("/acme/widgets/v1")).error).toContain(
+      "indexed from a single checkout (v2)"
+    );
+    // An explicit version overrides the one in the ID
+    expect(
+      (await local.fetchLibraryDocumentation("/acme/widgets/v1", { version: "v2" })).error
+    ).toBeUndefined();
+  });
+});
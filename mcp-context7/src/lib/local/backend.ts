@@ -0,0 +1,117 @@
+import {
+  DocumentationBackend,
+  DocumentationOptions,
+  DocumentationResponse,
+  LocalLibrary,
+  SearchResponse,
+} from "../types.js";
+import { indexLibrary } from "./indexer.js";
+import { rankLibraries, selectDocumentation } from "./search.js";
+import { LocalSourceOptions, loadLocalSources } from "./sources.js";
+
+const DEFAULT_TOKENS = 10000;
+
+/**
+ * Finds the library for an ID, allowing a trailing version segment
+ * ("/org/project/v1.2") on IDs that do not have one
+ * @param libraries The indexed libraries
+ * @param libraryId The requested library ID
+ * @returns The library, or undefined when none matches
+ */
+function findLibrary(libraries: LocalLibrary[], libraryId: string): LocalLibrary | undefined {
+  const id = `/${libraryId.replace(/^\/+/, "")}`.toLowerCase();
+  return libraries
+    .filter(({ result }) => {
+      const candidate = result.id.toLowerCase();
+      return id === candidate || id.startsWith(`${candidate}/`);
+    })
+    .sort((a, b) => b.result.id.length - a.result.id.length)[0];
+}
+
+/**
+ * Reads the version requested for a library, either passed explicitly or as the
+ * trailing segment of the library ID
+ * @param library The library the ID resolved to
+ * @param libraryId The requested library ID
+ * @param version The explicitly requested version, which takes precedence
+ * @returns The requested version, or undefined when none was requested
+ */
+function requestedVersion(
+  library: LocalLibrary,
+  libraryId: string,
+  version?: string
+): string | undefined {
+  if (version) return version;
+  const id = `/${libraryId.replace(/^\/+|\/+$/g, "")}`;
+  return id.length > library.result.id.length ? id.slice(library.result.id.length + 1) : undefined;
+}
+
+/**
+ * Creates a backend that serves documentation indexed from local directories
+ * and git checkouts, for deployments without access to context7.com.
+ * The index is built on first use and kept for the lifetime of the process.
+ * @param options Where to find the libraries
+ * @returns The local documentation backend
+ */
+export function createLocalBackend(options: LocalSourceOptions): DocumentationBackend {
+  let index: Promise<LocalLibrary[]> | undefined;
+
+  const loadIndex = () => {
+    index ??= (async () => {
+      const sources = await loadLocalSources(options);
+      const libraries = await Promise.all(sources.map(indexLibrary));
+      console.error(`Indexed ${libraries.length} local documentation libraries`);
+      return libraries;
+    })().catch((error) => {
+      // Retry on the next call instead of caching the failure
+      index = undefined;
+      throw error;
+    });
+    return index;
+  };
+
+  return {
+    async searchLibraries(query: string): Promise<SearchResponse> {
+      try {
+        const libraries = await loadIndex();
+        const results = rankLibraries(libraries, query);
+        if (results.length === 0) {
+          const available = libraries.map(({ result }) => result.id).join(", ") || "none";
+          return {
+            results: [],
+            error: `No local documentation matches "${query}". Available libraries: ${available}`,
+          };
+        }
+        return { results };
+      } catch (error) {
+        console.error("Error searching local libraries:", error);
+        return { results: [], error: `Error searching local libraries: ${error}` };
+      }
+    },
+
+    // Local libraries are indexed from one checkout, so only its branch can be requested as version
+    async fetchLibraryDocumentation(
+      libraryId: string,
+      { tokens = DEFAULT_TOKENS, topic, version }: DocumentationOptions = {}
+    ): Promise<DocumentationResponse> {
+      try {
+        const library = findLibrary(await loadIndex(), libraryId);
+        if (!library) {
+          return { text: null };
+        }
+        const requested = requestedVersion(library, libraryId, version);
+        if (requested && requested.toLowerCase() !== library.result.branch.toLowerCase()) {
+          return {
+            text: null,
+            error: `Version "${requested}" of ${library.result.id} is not available locally. The local documentation is indexed from a single checkout (${library.result.branch}); request it without a version to use it.`,
+          };
+        }
+        return { text: selectDocumentation(library.chunks, { tokens, topic }) };
+      } catch (error) {
+        const errorMessage = `Error reading local library documentation. ${error}`;
+        console.error(errorMessage);
+        return { text: null, error: errorMessage };
+      }
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { chunkMarkdown } from "./indexer.js";
+
+describe("chunkMarkdown", () => {
+  it("should split at headings up to level 3 and title sections with their heading path", () => {
+    const chunks = chunkMarkdown(
+      [
+        "# Router",
+        "",
+        "A small router.",
+        "",
+        "## Routes",
+        "",
+        "### Dynamic routes",
+        "",
+        "Use `:id` segments.",
+        "",
+        "#### Catch-all",
+        "",
+        "Use `*`.",
+        "",
+        "## Links",
+        "",
+        "Use `<Link>`.",
+      ].join("\n"),
+      "docs/router.md"
+    );
+
+    expect(chunks.map((chunk) => chunk.title)).toEqual([
+      "Router",
+      "Router > Routes > Dynamic routes",
+      "Router > Links",
+    ]);
+    // "## Routes" only holds a subsection and level 4 headings stay in their section
+    expect(chunks[1].content).toBe(
+      "### Dynamic routes\n\nUse `:id` segments.\n\n#### Catch-all\n\nUse `*`."
+    );
+    expect(chunks.every((chunk) => chunk.source === "docs/router.md" && chunk.tokens > 0)).toBe(
+      true
+    );
+  });
+
+  it("should use the source as title for text before the first heading", () => {
+    const chunks = chunkMarkdown("Intro text.\r\n\r\n## Usage\r\n\r\nCall it.", "README.md");
+
+    expect(chunks.map((chunk) => [chunk.title, chunk.content])).toEqual([
+      ["README.md", "Intro text."],
+      ["Usage", "## Usage\n\nCall it."],
+    ]);
+  });
+
+  it("should not split at headings inside code fences and count snippets", () => {
+    const chunks = chunkMarkdown(
+      ["## Config", "", "```sh", "# comment, not a heading", "npm install", "```", "", "~~~", "x", "~~~"].join(
+        "\n"
+      ),
+      "docs/config.md"
+    );
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].snippets).toBe(2);
+  });
+
+  it("should split oversized sections at blank lines outside code fences", () => {
+    const paragraph = "Routing words repeated for size. ".repeat(60).trim();
+    const fence = ["```js", ...Array.from({ length: 200 }, (_, i) => `const value${i} = ${i};`), "", "```"].join(
+      "\n"
+    );
+    const markdown = ["## Big", "", paragraph, "", paragraph, "", fence, "", paragraph].join("\n");
+
+    const chunks = chunkMarkdown(markdown, "docs/big.md");
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.title === "Big")).toBe(true);
+    // The fence, including its blank line, stays in one chunk
+    const withFence = chunks.filter((chunk) => chunk.content.includes("```"));
+    expect(withFence).toHaveLength(1);
+    expect(withFence[0].content).toContain(fence);
+    expect(chunks.map((chunk) => chunk.content).join("\n\n")).toBe(markdown);
+  });
+});
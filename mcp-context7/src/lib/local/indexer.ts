@@ -0,0 +1,238 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { DocChunk, LocalLibrary, LocalLibrarySource } from "../types.js";
+import { countTokens } from "../tokens.js";
+import { readGitBranch } from "./sources.js";
+
+const DOC_EXTENSIONS = new Set([".md", ".mdx", ".markdown", ".rst", ".txt"]);
+
+const CODE_LANGUAGES: Record<string, string> = {
+  ".js": "javascript",
+  ".jsx": "jsx",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".ts": "typescript",
+  ".tsx": "tsx",
+  ".py": "python",
+  ".go": "go",
+  ".rs": "rust",
+  ".java": "java",
+  ".kt": "kotlin",
+  ".rb": "ruby",
+  ".php": "php",
+  ".cs": "csharp",
+  ".sh": "bash",
+  ".sql": "sql",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+};
+
+// Code files are only indexed from these directories; the rest of a checkout is source, not docs
+const SNIPPET_DIRS = new Set(["example", "examples", "sample", "samples", "snippets"]);
+
+const SKIPPED_DIRS = new Set([
+  "node_modules",
+  ".git",
+  "dist",
+  "build",
+  "coverage",
+  "vendor",
+  ".next",
+  "__pycache__",
+]);
+
+const MAX_FILE_BYTES = 512 * 1024;
+
+// Sections longer than this are split at paragraph boundaries
+const MAX_CHUNK_TOKENS = 1500;
+
+interface IndexedFile {
+  relativePath: string;
+  content: string;
+  mtime: number;
+}
+
+/**
+ * Recursively lists the documentation files and example code of a library
+ * @param root The library directory
+ * @param dir The directory being scanned
+ * @param inSnippetDir Whether an ancestor is an examples directory
+ * @returns The files to index, relative to the library directory
+ */
+async function collectFiles(
+  root: string,
+  dir = root,
+  inSnippetDir = false
+): Promise<IndexedFile[]> {
+  const files: IndexedFile[] = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (SKIPPED_DIRS.has(entry.name) || entry.name.startsWith(".")) continue;
+      const isSnippetDir = inSnippetDir || SNIPPET_DIRS.has(entry.name.toLowerCase());
+      files.push(...(await collectFiles(root, fullPath, isSnippetDir)));
+      continue;
+    }
+    if (!entry.isFile()) continue;
+    const extension = path.extname(entry.name).toLowerCase();
+    const isDoc = DOC_EXTENSIONS.has(extension) || /^readme$/i.test(entry.name);
+    if (!isDoc && !(inSnippetDir && CODE_LANGUAGES[extension])) continue;
+    const stats = await stat(fullPath);
+    if (stats.size > MAX_FILE_BYTES) continue;
+    files.push({
+      relativePath: path.relative(root, fullPath).split(path.sep).join("/"),
+      content: await readFile(fullPath, "utf8"),
+      mtime: stats.mtimeMs,
+    });
+  }
+  return files;
+}
+
+const isReadme = (file: IndexedFile) => /^readme(\.[a-z]+)?$/i.test(file.relativePath);
+
+function countSnippets(markdown: string): number {
+  return Math.floor((markdown.match(/^\s*(```|~~~)/gm) ?? []).length / 2);
+}
+
+function toChunk(title: string, source: string, content: string, snippets?: number): DocChunk {
+  return {
+    title,
+    source,
+    content,
+    tokens: countTokens(content),
+    snippets: snippets ?? countSnippets(content),
+  };
+}
+
+/**
+ * Splits an oversized section at blank lines outside code fences
+ * @param chunk The section to split
+ * @returns Chunks of at most MAX_CHUNK_TOKENS where paragraphs allow
+ */
+function splitChunk(chunk: DocChunk): DocChunk[] {
+  if (chunk.tokens <= MAX_CHUNK_TOKENS) return [chunk];
+  const parts: DocChunk[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  let inFence = false;
+  const flush = () => {
+    const content = current.join("\n").trim();
+    if (content) {
+      parts.push(toChunk(chunk.title, chunk.source, content));
+    }
+    current = [];
+    currentTokens = 0;
+  };
+  for (const line of chunk.content.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (!inFence && line.trim() === "" && currentTokens >= MAX_CHUNK_TOKENS) {
+      flush();
+      continue;
+    }
+    current.push(line);
+    currentTokens += countTokens(line) + 1;
+  }
+  flush();
+  return parts;
+}
+
+/**
+ * Splits a markdown document into sections at headings up to level 3,
+ * titling each section with its heading path
+ * @param markdown The document
+ * @param source Path of the document relative to the library
+ * @returns The sections with their token counts
+ */
+export function chunkMarkdown(markdown: string, source: string): DocChunk[] {
+  const chunks: DocChunk[] = [];
+  const headings: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+  const flush = () => {
+    const content = lines.join("\n").trim();
+    // Skip sections that are only a heading, e.g. a title directly followed by a subsection
+    if (content && !/^#{1,3}\s[^\n]*$/.test(content)) {
+      const title = headings.filter(Boolean).join(" > ") || source;
+      chunks.push(...splitChunk(toChunk(title, source, content)));
+    }
+    lines = [];
+  };
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : /^(#{1,3})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      headings.length = level;
+      headings[level - 1] = heading[2];
+    }
+    lines.push(line);
+  }
+  flush();
+  return chunks;
+}
+
+/**
+ * Wraps an example file in a fenced code block
+ * @param code The file content
+ * @param source Path of the file relative to the library
+ * @returns A single snippet chunk
+ */
+function chunkCode(code: string, source: string): DocChunk[] {
+  const language = CODE_LANGUAGES[path.extname(source).toLowerCase()] ?? "";
+  return [
+    toChunk(`Example: ${source}`, source, "```" + language + "\n" + code.trim() + "\n```", 1),
+  ];
+}
+
+/**
+ * Takes the first heading and paragraph of the README as title and description
+ * @param files The indexed files of the library
+ * @returns The title and description found, if any
+ */
+function describeLibrary(files: IndexedFile[]): { title?: string; description?: string } {
+  const readme = files.find(isReadme);
+  if (!readme) return {};
+  const title = /^#\s+(.+)$/m.exec(readme.content)?.[1].trim();
+  const description = readme.content
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => paragraph.trim())
+    .find((paragraph) => paragraph && !/^(#|!\[|\[!\[|<|```|---)/.test(paragraph));
+  return {
+    title,
+    description: description?.replace(/\s+/g, " ").slice(0, 300),
+  };
+}
+
+/**
+ * Reads and chunks a library, top-level README first so its overview leads the docs
+ * @param source Where the library lives
+ * @returns The search metadata and chunks of the library
+ */
+export async function indexLibrary(source: LocalLibrarySource): Promise<LocalLibrary> {
+  const files = await collectFiles(source.path);
+  files.sort((a, b) => Number(isReadme(b)) - Number(isReadme(a)));
+  const chunks = files.flatMap((file) =>
+    CODE_LANGUAGES[path.extname(file.relativePath).toLowerCase()]
+      ? chunkCode(file.content, file.relativePath)
+      : chunkMarkdown(file.content, file.relativePath)
+  );
+  const described = describeLibrary(files);
+  const lastUpdate = Math.max(0, ...files.map((file) => file.mtime));
+  return {
+    result: {
+      id: source.id,
+      title: source.title ?? described.title ?? path.basename(source.path),
+      description: source.description ?? described.description ?? "",
+      branch: source.branch ?? (await readGitBranch(source.path)) ?? "local",
+      lastUpdateDate: new Date(lastUpdate).toISOString(),
+      state: "finalized",
+      totalTokens: chunks.reduce((sum, chunk) => sum + chunk.tokens, 0),
+      totalSnippets: chunks.reduce((sum, chunk) => sum + chunk.snippets, 0),
+      totalPages: files.length,
+    },
+    chunks,
+  };
+}
@@ -0,0 +1,102 @@
+import { DocChunk } from "../types.js";
+import { countTokens } from "../tokens.js";
+import { scoreChunks, selectDocumentation, toTerms } from "./search.js";
+
+function chunk(title: string, content: string, source = "docs/guide.md"): DocChunk {
+  return { title, source, content, tokens: countTokens(content), snippets: 0 };
+}
+
+const chunks = [
+  chunk("Installation", "Install the package with npm."),
+  chunk("Routing", "Define routes and nested routes with the router."),
+  chunk("Data fetching", "Load data before rendering a route with loaders."),
+  chunk("Styling", "Import CSS files next to your components."),
+];
+
+describe("toTerms", () => {
+  it("should drop stop words and fold plurals", () => {
+    expect(toTerms("How to use the Hooks with React-Router")).toEqual([
+      "use",
+      "hook",
+      "react",
+      "router",
+    ]);
+  });
+});
+
+describe("scoreChunks", () => {
+  it("should score nothing without a topic", () => {
+    expect(scoreChunks(chunks, "")).toEqual([0, 0, 0, 0]);
+    expect(scoreChunks(chunks, "the and")).toEqual([0, 0, 0, 0]);
+  });
+
+  it("should only score chunks matching the topic", () => {
+    const scores = scoreChunks(chunks, "routes");
+
+    expect(scores[1]).toBeGreaterThan(scores[2]);
+    expect(scores[2]).toBeGreaterThan(0);
+    expect([scores[0], scores[3]]).toEqual([0, 0]);
+  });
+
+  it("should weight heading and path matches above body matches", () => {
+    const scores = scoreChunks(
+      [
+        chunk("Loaders", "Data is loaded before rendering."),
+        chunk("Overview", "Loaders load data before rendering."),
+        chunk("Overview", "Unrelated.", "docs/loaders.md"),
+      ],
+      "loaders"
+    );
+
+    expect(scores[0]).toBeGreaterThan(scores[1]);
+    expect(scores[2]).toBeGreaterThan(scores[1]);
+  });
+});
+
+describe("selectDocumentation", () => {
+  const titles = (docs: string | null) =>
+    [...(docs ?? "").matchAll(/^TITLE: (.+)$/gm)].map((match) => match[1]);
+
+  it("should return the chunks in document order without a topic", () => {
+    expect(titles(selectDocumentation(chunks, { tokens: 10000 }))).toEqual([
+      "Installation",
+      "Routing",
+      "Data fetching",
+      "Styling",
+    ]);
+  });
+
+  it("should put chunks matching the topic first, best match first", () => {
+    expect(titles(selectDocumentation(chunks, { tokens: 10000, topic: "route" }))).toEqual([
+      "Routing",
+      "Data fetching",
+      "Installation",
+      "Styling",
+    ]);
+  });
+
+  it("should stay within the token budget", () => {
+    const all = selectDocumentation(chunks, { tokens: 10000 }) as string;
+    const budget = Math.floor(countTokens(all) / 2);
+
+    const docs = selectDocumentation(chunks, { tokens: budget, topic: "styling" });
+
+    expect(countTokens(docs as string)).toBeLessThanOrEqual(budget);
+    expect(titles(docs)[0]).toBe("Styling");
+    expect(titles(docs).length).toBeLessThan(chunks.length);
+  });
+
+  it("should skip chunks that do not fit and keep smaller ones after them", () => {
+    const large = chunk("Reference", "Routing reference. ".repeat(200));
+    const docs = selectDocumentation([large, ...chunks], { tokens: 150, topic: "routing" });
+
+    expect(titles(docs)).not.toContain("Reference");
+    expect(titles(docs)[0]).toBe("Routing");
+    expect(countTokens(docs as string)).toBeLessThanOrEqual(150);
+  });
+
+  it("should return null when no chunk fits", () => {
+    expect(selectDocumentation(chunks, { tokens: 5 })).toBeNull();
+    expect(selectDocumentation([], { tokens: 1000 })).toBeNull();
+  });
+});
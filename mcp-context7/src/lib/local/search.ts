@@ -0,0 +1,141 @@
+import { DocChunk, LocalLibrary, SearchResult } from "../types.js";
+import { countTokens } from "../tokens.js";
+
+const CHUNK_SEPARATOR = "\n\n----------------------------------------\n\n";
+
+const STOP_WORDS = new Set(["a", "an", "and", "for", "how", "in", "of", "on", "the", "to", "with"]);
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Splits text into lower-case search terms, folding simple plurals ("hooks" -> "hook")
+ * @param text The text to split
+ * @returns The terms, without stop words
+ */
+export function toTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term && !STOP_WORDS.has(term))
+    .map((term) => (term.length > 3 && term.endsWith("s") ? term.slice(0, -1) : term));
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Orders libraries by how well their ID, title and description match the query
+ * @param libraries The indexed libraries
+ * @param query The library name the user asked for
+ * @returns Matching libraries, best first
+ */
+export function rankLibraries(libraries: LocalLibrary[], query: string): SearchResult[] {
+  const normalizedQuery = query.trim().toLowerCase();
+  const queryTerms = toTerms(query);
+  const scored = libraries.map(({ result }) => {
+    const name = `${result.id} ${result.title}`.toLowerCase();
+    const nameTerms = new Set(toTerms(name));
+    const descriptionTerms = new Set(toTerms(result.description));
+    let score = 0;
+    if (
+      result.title.toLowerCase() === normalizedQuery ||
+      result.id.toLowerCase().endsWith(`/${normalizedQuery}`)
+    ) {
+      score += 100;
+    } else if (normalizedQuery && name.includes(normalizedQuery)) {
+      score += 20;
+    }
+    for (const term of queryTerms) {
+      if (nameTerms.has(term)) score += 5;
+      if (descriptionTerms.has(term)) score += 1;
+    }
+    return { result, score };
+  });
+  return scored
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ result }) => result);
+}
+
+/**
+ * Scores chunks against the topic with BM25, weighting matches in the
+ * heading path and file path above matches in the body
+ * @param chunks The chunks of a library
+ * @param topic The topic to focus on
+ * @returns One score per chunk, 0 when no term matches
+ */
+export function scoreChunks(chunks: DocChunk[], topic: string): number[] {
+  const topicTerms = [...new Set(toTerms(topic))];
+  if (topicTerms.length === 0 || chunks.length === 0) {
+    return chunks.map(() => 0);
+  }
+  const documents = chunks.map((chunk) => ({
+    body: countTerms(toTerms(chunk.content)),
+    heading: new Set(toTerms(`${chunk.title} ${chunk.source}`)),
+  }));
+  const averageLength =
+    documents.reduce((sum, doc) => sum + [...doc.body.values()].reduce((a, b) => a + b, 0), 0) /
+    documents.length;
+  const idf = new Map(
+    topicTerms.map((term) => {
+      const frequency = documents.filter(
+        (doc) => doc.body.has(term) || doc.heading.has(term)
+      ).length;
+      return [term, Math.log(1 + (documents.length - frequency + 0.5) / (frequency + 0.5))];
+    })
+  );
+  return documents.map((doc) => {
+    const length = [...doc.body.values()].reduce((a, b) => a + b, 0);
+    let score = 0;
+    for (const term of topicTerms) {
+      const weight = idf.get(term) ?? 0;
+      const frequency = doc.body.get(term) ?? 0;
+      score +=
+        (weight * frequency * (K1 + 1)) /
+        (frequency + K1 * (1 - B + (B * length) / (averageLength || 1)));
+      if (doc.heading.has(term)) score += 2 * weight;
+    }
+    return score;
+  });
+}
+
+function formatHeader(chunk: DocChunk): string {
+  return `TITLE: ${chunk.title}\nSOURCE: ${chunk.source}\n\n`;
+}
+
+/**
+ * Builds the documentation text for get-library-docs: chunks matching the topic
+ * first, then the rest in document order, as many as fit in the token budget
+ * @param chunks The chunks of a library
+ * @param options The topic and token budget
+ * @returns The formatted documentation, or null when nothing fits
+ */
+export function selectDocumentation(
+  chunks: DocChunk[],
+  options: { tokens: number; topic?: string }
+): string | null {
+  const scores = scoreChunks(chunks, options.topic ?? "");
+  const order = chunks
+    .map((chunk, index) => ({ chunk, score: scores[index], index }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const separatorTokens = countTokens(CHUNK_SEPARATOR);
+  const selected: string[] = [];
+  let used = 0;
+  for (const { chunk } of order) {
+    const header = formatHeader(chunk);
+    const cost = countTokens(header) + chunk.tokens + (selected.length > 0 ? separatorTokens : 0);
+    // Skip chunks that do not fit so smaller ones further down can still be included
+    if (used + cost > options.tokens) continue;
+    selected.push(header + chunk.content);
+    used += cost;
+  }
+  return selected.length > 0 ? selected.join(CHUNK_SEPARATOR) : null;
+}
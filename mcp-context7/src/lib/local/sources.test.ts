@@ -0,0 +1,53 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { loadLocalSources } from "./sources.js";
+
+jest.mock("node:child_process", () => ({
+  execFile: jest.fn((_file: string, _args: string[], callback: (error: Error | null) => void) =>
+    callback(null)
+  ),
+}));
+
+describe("loadLocalSources", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "context7-sources-"));
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should end the git options before the remote and the checkout path", async () => {
+    const configFile = path.join(dir, "libraries.json");
+    await writeFile(
+      configFile,
+      JSON.stringify({
+        libraries: [{ id: "/acme/evil", git: "--upload-pack=touch /tmp/pwned", branch: "main" }],
+      })
+    );
+
+    await loadLocalSources({ configFile, checkoutDir: path.join(dir, "checkouts") });
+
+    expect(execFile).toHaveBeenCalledWith(
+      "git",
+      [
+        "clone",
+        "--depth",
+        "1",
+        "--quiet",
+        "--branch",
+        "main",
+        "--",
+        "--upload-pack=touch /tmp/pwned",
+        path.join(dir, "checkouts", "acme__evil"),
+      ],
+      expect.any(Function)
+    );
+  });
+});
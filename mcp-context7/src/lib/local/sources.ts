@@ -0,0 +1,149 @@
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import { LocalLibrarySource } from "../types.js";
+
+const execFileAsync = promisify(execFile);
+
+export interface LocalSourceOptions {
+  // Directory whose subdirectories (plain folders or git checkouts) are libraries
+  docsDir?: string;
+  // JSON manifest listing libraries explicitly: { "libraries": [LocalLibrarySource] }
+  configFile?: string;
+  // Where git sources from the manifest are cloned
+  checkoutDir: string;
+}
+
+/**
+ * Turns a name into the "/org/project" shape of Context7 library IDs
+ * @param name Directory or repository name
+ * @returns A library ID in the local namespace
+ */
+export function toLocalLibraryId(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `/local/${slug}`;
+}
+
+/**
+ * Lists every subdirectory of the docs directory as a library
+ * @param docsDir The directory to scan
+ * @returns One source per subdirectory
+ */
+async function readDocsDir(docsDir: string): Promise<LocalLibrarySource[]> {
+  const entries = await readdir(docsDir, { withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+    .map((entry) => ({
+      id: toLocalLibraryId(entry.name),
+      path: path.join(docsDir, entry.name),
+    }));
+}
+
+/**
+ * Reads the manifest, resolving relative paths against its directory
+ * @param configFile Path to the JSON manifest
+ * @param checkoutDir Default location for git checkouts
+ * @returns The libraries declared in the manifest
+ */
+async function readConfigFile(
+  configFile: string,
+  checkoutDir: string
+): Promise<LocalLibrarySource[]> {
+  const manifest = JSON.parse(await readFile(configFile, "utf8")) as {
+    libraries?: Array<Partial<LocalLibrarySource>>;
+  };
+  const baseDir = path.dirname(path.resolve(configFile));
+  return (manifest.libraries ?? []).flatMap((library) => {
+    if (!library.id || (!library.path && !library.git)) {
+      console.error(
+        `Skipping local library without an id and a path or git remote: ${JSON.stringify(library)}`
+      );
+      return [];
+    }
+    const id = library.id.startsWith("/") ? library.id : `/${library.id}`;
+    const checkoutName = id.slice(1).replace(/\//g, "__");
+    return [
+      {
+        ...library,
+        id,
+        path: library.path
+          ? path.resolve(baseDir, library.path)
+          : path.join(checkoutDir, checkoutName),
+      },
+    ];
+  });
+}
+
+/**
+ * Clones the git remote of a source, or fast-forwards an existing checkout.
+ * A failed update keeps the existing checkout so the server still works offline.
+ * @param source The library source with a git remote
+ */
+async function syncCheckout(source: LocalLibrarySource): Promise<void> {
+  if (!source.git) return;
+  try {
+    if (existsSync(path.join(source.path, ".git"))) {
+      await execFileAsync("git", ["-C", source.path, "pull", "--ff-only", "--quiet"]);
+      return;
+    }
+    const branchArgs = source.branch ? ["--branch", source.branch] : [];
+    await execFileAsync("git", [
+      "clone",
+      "--depth",
+      "1",
+      "--quiet",
+      ...branchArgs,
+      // Keeps a manifest remote starting with "-" from being parsed as a git option
+      "--",
+      source.git,
+      source.path,
+    ]);
+  } catch (error) {
+    console.error(`Failed to update ${source.id} from ${source.git}:`, error);
+  }
+}
+
+/**
+ * Reads the branch checked out in a git working tree
+ * @param dir The library directory
+ * @returns The branch name, or undefined when the directory is not a git checkout
+ */
+export async function readGitBranch(dir: string): Promise<string | undefined> {
+  try {
+    const head = (await readFile(path.join(dir, ".git", "HEAD"), "utf8")).trim();
+    return head.startsWith("ref: refs/heads/") ? head.slice("ref: refs/heads/".length) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Collects the libraries from the docs directory and the manifest, cloning or
+ * updating git sources first. Manifest entries win over directories with the same ID.
+ * @param options Where to look for libraries
+ * @returns The library sources with existing directories
+ */
+export async function loadLocalSources(options: LocalSourceOptions): Promise<LocalLibrarySource[]> {
+  const sources = new Map<string, LocalLibrarySource>();
+  if (options.docsDir) {
+    for (const source of await readDocsDir(options.docsDir)) {
+      sources.set(source.id, source);
+    }
+  }
+  if (options.configFile) {
+    for (const source of await readConfigFile(options.configFile, options.checkoutDir)) {
+      await syncCheckout(source);
+      sources.set(source.id, source);
+    }
+  }
+  return [...sources.values()].filter((source) => {
+    if (existsSync(source.path)) return true;
+    console.error(`Skipping local library ${source.id}: ${source.path} does not exist`);
+    return false;
+  });
+}
@@ -0,0 +1,14 @@
+import { get_encoding, Tiktoken } from "tiktoken";
+
+let encoding: Tiktoken | undefined;
+
+/**
+ * Counts tokens the way the `tokens` budget of get-library-docs is meant,
+ * using the cl100k_base encoding
+ * @param text The text to count
+ * @returns The number of tokens in the text
+ */
+export function countTokens(text: string): number {
+  encoding ??= get_encoding("cl100k_base");
+  return encoding.encode(text, [], []).length;
+}
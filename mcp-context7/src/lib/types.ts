@@ -20,3 +20,57 @@ export interface SearchResponse {
 
 // Version state is still needed for validating search results
 export type DocumentState = "initial" | "finalized" | "error" | "delete";
+
+export interface DocumentationOptions {
+  tokens?: number;
+  topic?: string;
+  // Pins the documentation to one of the versions listed in SearchResult.versions
+  version?: string;
+}
+
+export interface DocumentationResponse {
+  error?: string;
+  // null when the library has no documentation for the request
+  text: string | null;
+}
+
+/**
+ * A source of library documentation. The hosted Context7 API and the local
+ * indexer both implement it so the MCP tools do not depend on either.
+ */
+export interface DocumentationBackend {
+  searchLibraries(query: string): Promise<SearchResponse>;
+  fetchLibraryDocumentation(
+    libraryId: string,
+    options?: DocumentationOptions
+  ): Promise<DocumentationResponse>;
+}
+
+/**
+ * A library served by the local backend, read from a directory or a git checkout
+ */
+export interface LocalLibrarySource {
+  id: string;
+  title?: string;
+  description?: string;
+  // Directory containing the documentation (or the checkout directory for git sources)
+  path: string;
+  // Remote to clone and update the checkout from
+  git?: string;
+  branch?: string;
+}
+
+export interface DocChunk {
+  // Heading path, e.g. "Routing > Dynamic routes"
+  title: string;
+  // Path relative to the library root
+  source: string;
+  content: string;
+  tokens: number;
+  snippets: number;
+}
+
+export interface LocalLibrary {
+  result: SearchResult;
+  chunks: DocChunk[];
+}
@@ -49,3 +49,19 @@ export function formatSearchResults(searchResponse: SearchResponse): string {
   const formattedResults = searchResponse.results.map(formatSearchResult);
   return formattedResults.join("\n----------\n");
 }
+
+/**
+ * Applies a version to a Context7-compatible library ID. IDs have the form
+ * "/org/project" or "/org/project/version"; an existing version is replaced.
+ *
+ * @param libraryId The library ID, with or without a version
+ * @param version The version to pin, if any
+ * @returns The library ID including the version
+ */
+export function withVersion(libraryId: string, version?: string): string {
+  const segments = libraryId.replace(/^\/+|\/+$/g, "").split("/");
+  if (!version) {
+    return `/${segments.join("/")}`;
+  }
+  return `/${[...segments.slice(0, 2), version.replace(/^\/+|\/+$/g, "")].join("/")}`;
+}
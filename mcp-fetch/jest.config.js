@@ -1,4 +1,7 @@
 export default {
   preset: "ts-jest",
   testEnvironment: "node",
+  moduleNameMapper: {
+    "^(\\.{1,2}/.*)\\.js$": "$1",
+  },
 };
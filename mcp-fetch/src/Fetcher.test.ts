@@ -1,13 +1,44 @@
 import { Fetcher } from "./Fetcher";
 import { JSDOM } from "jsdom";
 import TurndownService from "turndown";
+import { Readability } from "@mozilla/readability";
 
-global.fetch = jest.fn();
+const mockFetch = jest.fn();
+global.fetch = mockFetch as unknown as typeof fetch;
+
+jest.mock("node:dns/promises", () => ({
+  lookup: jest.fn().mockResolvedValue([{ address: "93.184.216.34", family: 4 }]),
+}));
 
 jest.mock("jsdom");
 
 jest.mock("turndown");
 
+jest.mock("@mozilla/readability");
+
+jest.mock("./documents", () => ({
+  ...jest.requireActual("./documents"),
+  pdfToText: jest.fn().mockResolvedValue("--- Page 1 of 1 ---\n\nHello PDF"),
+}));
+
+const completeResult = (text: string) => ({
+  content: [
+    { type: "text", text },
+    {
+      type: "text",
+      text: JSON.stringify({
+        pagination: {
+          total_length: text.length,
+          start_index: 0,
+          end_index: text.length,
+          next_start_index: null,
+        },
+      }),
+    },
+  ],
+  isError: false,
+});
+
 describe("Fetcher", () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -34,20 +65,56 @@ describe("Fetcher", () => {
 
   describe("html", () => {
     it("should return the raw HTML content", async () => {
-      (fetch as jest.Mock).mockResolvedValueOnce({
+      mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: new Headers({ "Content-Type": "text/html" }),
         text: jest.fn().mockResolvedValueOnce(mockHtml),
       });
 
       const result = await Fetcher.html(mockRequest);
-      expect(result).toEqual({
-        content: [{ type: "text", text: mockHtml }],
-        isError: false,
+      expect(result).toEqual(completeResult(mockHtml));
+    });
+
+    it("should report pagination metadata for partial content", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ "Content-Type": "text/html" }),
+        text: jest.fn().mockResolvedValueOnce("0123456789"),
       });
+
+      const result = await Fetcher.html({ ...mockRequest, max_length: 4, start_index: 2 });
+      expect(result.content).toEqual([
+        { type: "text", text: "2345" },
+        {
+          type: "text",
+          text: JSON.stringify({
+            pagination: { total_length: 10, start_index: 2, end_index: 6, next_start_index: 6 },
+          }),
+        },
+      ]);
+    });
+
+    it("should return empty content past the end of the document", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ "Content-Type": "text/html" }),
+        text: jest.fn().mockResolvedValueOnce("0123456789"),
+      });
+
+      const result = await Fetcher.html({ ...mockRequest, start_index: 20 });
+      expect(result.content).toEqual([
+        { type: "text", text: "" },
+        {
+          type: "text",
+          text: JSON.stringify({
+            pagination: { total_length: 10, start_index: 10, end_index: 10, next_start_index: null },
+          }),
+        },
+      ]);
     });
 
     it("should handle errors", async () => {
-      (fetch as jest.Mock).mockRejectedValueOnce(new Error("Network error"));
+      mockFetch.mockRejectedValueOnce(new Error("Network error"));
 
       const result = await Fetcher.html(mockRequest);
       expect(result).toEqual({
@@ -65,20 +132,18 @@ describe("Fetcher", () => {
   describe("json", () => {
     it("should parse and return JSON content", async () => {
       const mockJson = { key: "value" };
-      (fetch as jest.Mock).mockResolvedValueOnce({
+      mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: new Headers({ "Content-Type": "application/json" }),
         json: jest.fn().mockResolvedValueOnce(mockJson),
       });
 
       const result = await Fetcher.json(mockRequest);
-      expect(result).toEqual({
-        content: [{ type: "text", text: JSON.stringify(mockJson) }],
-        isError: false,
-      });
+      expect(result).toEqual(completeResult(JSON.stringify(mockJson)));
     });
 
     it("should handle errors", async () => {
-      (fetch as jest.Mock).mockRejectedValueOnce(new Error("Invalid JSON"));
+      mockFetch.mockRejectedValueOnce(new Error("Invalid JSON"));
 
       const result = await Fetcher.json(mockRequest);
       expect(result).toEqual({
@@ -95,8 +160,9 @@ describe("Fetcher", () => {
 
   describe("txt", () => {
     it("should return plain text content without HTML tags, scripts, and styles", async () => {
-      (fetch as jest.Mock).mockResolvedValueOnce({
+      mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: new Headers({ "Content-Type": "text/html" }),
         text: jest.fn().mockResolvedValueOnce(mockHtml),
       });
 
@@ -114,14 +180,11 @@ describe("Fetcher", () => {
       }));
 
       const result = await Fetcher.txt(mockRequest);
-      expect(result).toEqual({
-        content: [{ type: "text", text: mockTextContent }],
-        isError: false,
-      });
+      expect(result).toEqual(completeResult(mockTextContent));
     });
 
     it("should handle errors", async () => {
-      (fetch as jest.Mock).mockRejectedValueOnce(new Error("Parsing error"));
+      mockFetch.mockRejectedValueOnce(new Error("Parsing error"));
 
       const result = await Fetcher.txt(mockRequest);
       expect(result).toEqual({
@@ -138,8 +201,9 @@ describe("Fetcher", () => {
 
   describe("markdown", () => {
     it("should convert HTML to markdown", async () => {
-      (fetch as jest.Mock).mockResolvedValueOnce({
+      mockFetch.mockResolvedValueOnce({
         ok: true,
+        headers: new Headers({ "Content-Type": "text/html" }),
         text: jest.fn().mockResolvedValueOnce(mockHtml),
       });
 
@@ -149,14 +213,11 @@ describe("Fetcher", () => {
       }));
 
       const result = await Fetcher.markdown(mockRequest);
-      expect(result).toEqual({
-        content: [{ type: "text", text: mockMarkdown }],
-        isError: false,
-      });
+      expect(result).toEqual(completeResult(mockMarkdown));
     });
 
     it("should handle errors", async () => {
-      (fetch as jest.Mock).mockRejectedValueOnce(new Error("Conversion error"));
+      mockFetch.mockRejectedValueOnce(new Error("Conversion error"));
 
       const result = await Fetcher.markdown(mockRequest);
       expect(result).toEqual({
@@ -171,9 +232,214 @@ describe("Fetcher", () => {
     });
   });
 
+  describe("article", () => {
+    it("should convert the extracted article to markdown with a header", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ "Content-Type": "text/html" }),
+        text: jest.fn().mockResolvedValueOnce(mockHtml),
+      });
+
+      // @ts-expect-error Mocking JSDOM
+      (JSDOM as jest.Mock).mockImplementationOnce(() => ({
+        window: { document: {} },
+      }));
+      (Readability as jest.Mock).mockImplementationOnce(() => ({
+        parse: () => ({
+          title: "Test Page",
+          byline: "Jane Doe",
+          siteName: "Example",
+          publishedTime: "2024-01-02",
+          content: "<p>This is a test paragraph.</p>",
+        }),
+      }));
+      const turndown = jest.fn().mockReturnValueOnce("This is a test paragraph.");
+      (TurndownService as jest.Mock).mockImplementationOnce(() => ({ turndown }));
+
+      const result = await Fetcher.article(mockRequest);
+      expect(JSDOM).toHaveBeenCalledWith(mockHtml, { url: mockRequest.url });
+      expect(turndown).toHaveBeenCalledWith("<p>This is a test paragraph.</p>");
+      expect(result).toEqual(
+        completeResult(
+          "# Test Page\n\nBy Jane Doe · Example · Published 2024-01-02\n\nThis is a test paragraph.",
+        ),
+      );
+    });
+
+    it("should return an error when no article can be extracted", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ "Content-Type": "text/html" }),
+        text: jest.fn().mockResolvedValueOnce(mockHtml),
+      });
+
+      // @ts-expect-error Mocking JSDOM
+      (JSDOM as jest.Mock).mockImplementationOnce(() => ({
+        window: { document: {} },
+      }));
+      (Readability as jest.Mock).mockImplementationOnce(() => ({
+        parse: () => null,
+      }));
+
+      const result = await Fetcher.article(mockRequest);
+      expect(result).toEqual({
+        content: [
+          {
+            type: "text",
+            text: "Could not extract article content from https://example.com. Use fetch_markdown to get the full page instead.",
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+
+  describe("extraction", () => {
+    const { JSDOM: RealJSDOM } = jest.requireActual("jsdom");
+
+    const respondWith = (body: string, contentType = "text/html") => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ "Content-Type": contentType }),
+        text: jest.fn().mockResolvedValueOnce(body),
+      });
+      // @ts-expect-error Mocking JSDOM
+      (JSDOM as jest.Mock).mockImplementationOnce(
+        (html: string, options: object) => new RealJSDOM(html, options),
+      );
+    };
+
+    const paginationOf = (result: { content: { text?: string }[] }) =>
+      JSON.parse(result.content[1].text as string).pagination;
+
+    it("should page table rows across tables and keep the JSON whole", async () => {
+      respondWith(`
+        <table><tr><th>n</th></tr><tr><td>1</td></tr><tr><td>2</td></tr></table>
+        <table><tr><th>n</th></tr><tr><td>3</td></tr><tr><td>4</td></tr></table>
+      `);
+
+      const result = await Fetcher.tables({ ...mockRequest, offset: 1, limit: 2 });
+      expect(JSON.parse(result.content[0].text as string)).toEqual({
+        tables: [
+          { index: 0, headers: ["n"], total_rows: 2, row_offset: 1, rows: [{ n: "2" }] },
+          { index: 1, headers: ["n"], total_rows: 2, row_offset: 0, rows: [{ n: "3" }] },
+        ],
+      });
+      expect(paginationOf(result)).toEqual({
+        total_items: 4,
+        offset: 1,
+        limit: 2,
+        next_offset: 3,
+      });
+    });
+
+    it("should page links by item", async () => {
+      respondWith(`<a href="/a">A</a><a href="/b">B</a><a href="/c">C</a>`);
+
+      const result = await Fetcher.links({ ...mockRequest, offset: 2, limit: 5 });
+      expect(JSON.parse(result.content[0].text as string)).toEqual({
+        links: [{ url: "https://example.com/c", text: "C", external: false }],
+      });
+      expect(paginationOf(result)).toEqual({
+        total_items: 3,
+        offset: 2,
+        limit: 5,
+        next_offset: null,
+      });
+    });
+
+    it("should page feed entries", async () => {
+      respondWith(
+        `<rss><channel><title>Blog</title><item><title>1</title></item><item><title>2</title></item></channel></rss>`,
+        "application/rss+xml",
+      );
+
+      const result = await Fetcher.feed({ ...mockRequest, limit: 1 });
+      expect(JSON.parse(result.content[0].text as string)).toEqual({
+        type: "rss",
+        title: "Blog",
+        entries: [{ title: "1" }],
+      });
+      expect(paginationOf(result)).toEqual({
+        total_items: 2,
+        offset: 0,
+        limit: 1,
+        next_offset: 1,
+      });
+    });
+
+    it("should return metadata as a single JSON part", async () => {
+      respondWith(`<html><head><title>${"Long ".repeat(2000)}</title></head></html>`);
+
+      const result = await Fetcher.metadata(mockRequest);
+      expect(result.content).toHaveLength(1);
+      expect(JSON.parse(result.content[0].text).title).toHaveLength(9999);
+    });
+  });
+
+  describe("binary documents", () => {
+    const binaryResponse = (contentType: string, bytes: number[]) => ({
+      ok: true,
+      headers: new Headers({ "Content-Type": contentType }),
+      arrayBuffer: jest.fn().mockResolvedValueOnce(new Uint8Array(bytes).buffer),
+      text: jest.fn(),
+    });
+
+    it("should convert PDFs to text with page markers", async () => {
+      const response = binaryResponse("application/pdf", [0x25, 0x50, 0x44, 0x46]);
+      mockFetch.mockResolvedValueOnce(response);
+
+      const result = await Fetcher.markdown(mockRequest);
+      expect(result).toEqual(completeResult("--- Page 1 of 1 ---\n\nHello PDF"));
+      expect(response.text).not.toHaveBeenCalled();
+    });
+
+    it("should return images as image content", async () => {
+      mockFetch.mockResolvedValueOnce(
+        binaryResponse("image/png; charset=binary", [0x89, 0x50, 0x4e, 0x47]),
+      );
+
+      const result = await Fetcher.txt(mockRequest);
+      expect(result).toEqual({
+        content: [{ type: "image", data: "iVBORw==", mimeType: "image/png" }],
+        isError: false,
+      });
+    });
+
+    it("should reject unsupported binary content", async () => {
+      mockFetch.mockResolvedValueOnce(binaryResponse("application/zip", [0x50, 0x4b]));
+
+      const result = await Fetcher.html(mockRequest);
+      expect(result).toEqual({
+        content: [
+          {
+            type: "text",
+            text: "Unsupported content type application/zip at https://example.com. Fetcher can read HTML, text, JSON, XML, PDF, DOCX and PNG/JPEG/GIF/WebP images.",
+          },
+        ],
+        isError: true,
+      });
+    });
+
+    it("should refuse to extract page data from documents", async () => {
+      mockFetch.mockResolvedValueOnce(binaryResponse("application/pdf", [0x25]));
+
+      const result = await Fetcher.links(mockRequest);
+      expect(result).toEqual({
+        content: [
+          {
+            type: "text",
+            text: "Expected an HTML or XML page at https://example.com but got application/pdf. Use fetch_markdown to read PDF, DOCX and image responses.",
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+
   describe("error handling", () => {
     it("should handle non-OK responses", async () => {
-      (fetch as jest.Mock).mockResolvedValueOnce({
+      mockFetch.mockResolvedValueOnce({
         ok: false,
         status: 404,
       });
@@ -191,7 +457,7 @@ describe("Fetcher", () => {
     });
 
     it("should handle unknown errors", async () => {
-      (fetch as jest.Mock).mockRejectedValueOnce("Unknown error");
+      mockFetch.mockRejectedValueOnce("Unknown error");
 
       const result = await Fetcher.html(mockRequest);
       expect(result).toEqual({
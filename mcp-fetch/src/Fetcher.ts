@@ -1,34 +1,121 @@
 import { JSDOM } from "jsdom";
 import TurndownService from "turndown";
-import is_ip_private from "private-ip";
-import { RequestPayload } from "./types.js";
+import { Readability } from "@mozilla/readability";
+import {
+  RequestPayload,
+  PagePayload,
+  ItemPayload,
+  SelectorPayload,
+  TablesPayload,
+  FeedPayload,
+  Pagination,
+  ItemPagination,
+} from "./types.js";
+import {
+  getScope,
+  extractTables,
+  countTableRows,
+  extractLinks,
+  extractMetadata,
+  extractFeed,
+} from "./extract.js";
+import {
+  classifyContentType,
+  getMimeType,
+  pdfToText,
+  docxToHtml,
+  docxToText,
+} from "./documents.js";
+import { FetchConfig } from "./config.js";
+import { HttpClient } from "./HttpClient.js";
+
+type TextFormat = "html" | "markdown" | "text";
+
+const SUPPORTED_FORMATS = "HTML, text, JSON, XML, PDF, DOCX and PNG/JPEG/GIF/WebP images";
 
 export class Fetcher {
-  private static applyLengthLimits(text: string, maxLength: number, startIndex: number): string {
-    if (startIndex >= text.length) {
-      return "";
+  private static client = new HttpClient();
+
+  /** Applies the User-Agent, cache, robots.txt and rate limit settings */
+  static configure(config: FetchConfig) {
+    this.client = new HttpClient(config);
+  }
+
+  private static applyLengthLimits(
+    text: string,
+    maxLength: number,
+    startIndex: number,
+  ): { text: string; pagination: Pagination } {
+    const start = Math.min(startIndex, text.length);
+    const end = Math.min(start + maxLength, text.length);
+    return {
+      text: text.substring(start, end),
+      pagination: {
+        total_length: text.length,
+        start_index: start,
+        end_index: end,
+        next_start_index: end < text.length ? end : null,
+      },
+    };
+  }
+
+  /**
+   * Builds the tool result: the requested slice of the content followed by
+   * pagination metadata so the model can request the next slice.
+   */
+  private static toResult(text: string, requestPayload: RequestPayload) {
+    const slice = this.applyLengthLimits(
+      text,
+      requestPayload.max_length ?? 5000,
+      requestPayload.start_index ?? 0,
+    );
+    return {
+      content: [
+        { type: "text", text: slice.text },
+        { type: "text", text: JSON.stringify({ pagination: slice.pagination }) },
+      ],
+      isError: false,
+    };
+  }
+
+  /** Serializes extraction results whole, so the text part is always valid JSON */
+  private static toJsonResult(data: unknown, pagination?: ItemPagination) {
+    const content = [{ type: "text", text: JSON.stringify(data) }];
+    if (pagination) {
+      content.push({ type: "text", text: JSON.stringify({ pagination }) });
     }
-    
-    const end = Math.min(startIndex + maxLength, text.length);
-    return text.substring(startIndex, end);
+    return { content, isError: false };
+  }
+
+  private static itemWindow(requestPayload: ItemPayload) {
+    return { offset: requestPayload.offset ?? 0, limit: requestPayload.limit ?? 50 };
+  }
+
+  private static itemPagination(
+    total: number,
+    { offset, limit }: { offset: number; limit: number },
+  ): ItemPagination {
+    return {
+      total_items: total,
+      offset,
+      limit,
+      next_offset: offset + limit < total ? offset + limit : null,
+    };
   }
+
+  private static toError(error: unknown) {
+    return {
+      content: [{ type: "text", text: (error as Error).message }],
+      isError: true,
+    };
+  }
+
   private static async _fetch({
     url,
     headers,
-  }: RequestPayload): Promise<Response> {
+  }: PagePayload): Promise<Response> {
     try {
-      if (is_ip_private(url)) {
-        throw new Error(
-          `Fetcher blocked an attempt to fetch a private IP ${url}. This is to prevent a security vulnerability where a local MCP could fetch privileged local IPs and exfiltrate data.`,
-        );
-      }
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-          ...headers,
-        },
-      });
+      const response = await this.client.fetch(url, headers);
 
       if (!response.ok) {
         throw new Error(`HTTP error: ${response.status}`);
@@ -43,24 +130,88 @@ export class Fetcher {
     }
   }
 
+  private static unsupported(response: Response, url: string) {
+    const mimeType = getMimeType(response.headers.get("content-type"));
+    return new Error(
+      `Unsupported content type ${mimeType} at ${url}. Fetcher can read ${SUPPORTED_FORMATS}.`,
+    );
+  }
+
+  /**
+   * Handles non-text responses for the text tools: PDFs become text with page
+   * markers, DOCX becomes HTML, Markdown or text depending on the tool, and
+   * images are returned as image content. Returns undefined for text responses.
+   */
+  private static async _binary(
+    response: Response,
+    requestPayload: RequestPayload,
+    format: TextFormat,
+  ) {
+    const kind = classifyContentType(response.headers.get("content-type"));
+    if (kind === "text") {
+      return undefined;
+    }
+    if (kind === "unsupported") {
+      throw this.unsupported(response, requestPayload.url);
+    }
+
+    const data = Buffer.from(await response.arrayBuffer());
+    if (kind === "image") {
+      return {
+        content: [
+          {
+            type: "image",
+            data: data.toString("base64"),
+            mimeType: getMimeType(response.headers.get("content-type")),
+          },
+        ],
+        isError: false,
+      };
+    }
+    if (kind === "pdf") {
+      return this.toResult(await pdfToText(data), requestPayload);
+    }
+    if (format === "text") {
+      return this.toResult(await docxToText(data), requestPayload);
+    }
+    const html = await docxToHtml(data);
+    return this.toResult(
+      format === "html" ? html : new TurndownService().turndown(html),
+      requestPayload,
+    );
+  }
+
+  /** Fetches the page and parses it with JSDOM, resolving relative URLs against the page URL */
+  private static async _document(
+    requestPayload: PagePayload,
+    contentType?: string,
+  ): Promise<Document> {
+    const response = await this._fetch(requestPayload);
+    const kind = classifyContentType(response.headers.get("content-type"));
+    if (kind === "unsupported") {
+      throw this.unsupported(response, requestPayload.url);
+    }
+    if (kind !== "text") {
+      const mimeType = getMimeType(response.headers.get("content-type"));
+      throw new Error(
+        `Expected an HTML or XML page at ${requestPayload.url} but got ${mimeType}. Use fetch_markdown to read PDF, DOCX and image responses.`,
+      );
+    }
+    const text = await response.text();
+    return new JSDOM(text, { url: requestPayload.url, contentType }).window.document;
+  }
+
   static async html(requestPayload: RequestPayload) {
     try {
       const response = await this._fetch(requestPayload);
-      let html = await response.text();
-      
-      // Apply length limits
-      html = this.applyLengthLimits(
-        html, 
-        requestPayload.max_length ?? 5000, 
-        requestPayload.start_index ?? 0
-      );
-      
-      return { content: [{ type: "text", text: html }], isError: false };
+      const binary = await this._binary(response, requestPayload, "html");
+      if (binary) {
+        return binary;
+      }
+      const html = await response.text();
+      return this.toResult(html, requestPayload);
     } catch (error) {
-      return {
-        content: [{ type: "text", text: (error as Error).message }],
-        isError: true,
-      };
+      return this.toError(error);
     }
   }
 
@@ -68,30 +219,19 @@ export class Fetcher {
     try {
       const response = await this._fetch(requestPayload);
       const json = await response.json();
-      let jsonString = JSON.stringify(json);
-      
-      // Apply length limits
-      jsonString = this.applyLengthLimits(
-        jsonString,
-        requestPayload.max_length ?? 5000,
-        requestPayload.start_index ?? 0
-      );
-      
-      return {
-        content: [{ type: "text", text: jsonString }],
-        isError: false,
-      };
+      return this.toResult(JSON.stringify(json), requestPayload);
     } catch (error) {
-      return {
-        content: [{ type: "text", text: (error as Error).message }],
-        isError: true,
-      };
+      return this.toError(error);
     }
   }
 
   static async txt(requestPayload: RequestPayload) {
     try {
       const response = await this._fetch(requestPayload);
+      const binary = await this._binary(response, requestPayload, "text");
+      if (binary) {
+        return binary;
+      }
       const html = await response.text();
 
       const dom = new JSDOM(html);
@@ -103,47 +243,121 @@ export class Fetcher {
       Array.from(styles).forEach((style) => style.remove());
 
       const text = document.body.textContent || "";
-      let normalizedText = text.replace(/\s+/g, " ").trim();
-      
-      // Apply length limits
-      normalizedText = this.applyLengthLimits(
-        normalizedText,
-        requestPayload.max_length ?? 5000,
-        requestPayload.start_index ?? 0
-      );
-
-      return {
-        content: [{ type: "text", text: normalizedText }],
-        isError: false,
-      };
+      const normalizedText = text.replace(/\s+/g, " ").trim();
+      return this.toResult(normalizedText, requestPayload);
     } catch (error) {
-      return {
-        content: [{ type: "text", text: (error as Error).message }],
-        isError: true,
-      };
+      return this.toError(error);
     }
   }
 
   static async markdown(requestPayload: RequestPayload) {
     try {
       const response = await this._fetch(requestPayload);
+      const binary = await this._binary(response, requestPayload, "markdown");
+      if (binary) {
+        return binary;
+      }
       const html = await response.text();
       const turndownService = new TurndownService();
-      let markdown = turndownService.turndown(html);
-      
-      // Apply length limits
-      markdown = this.applyLengthLimits(
-        markdown,
-        requestPayload.max_length ?? 5000,
-        requestPayload.start_index ?? 0
+      const markdown = turndownService.turndown(html);
+      return this.toResult(markdown, requestPayload);
+    } catch (error) {
+      return this.toError(error);
+    }
+  }
+
+  /**
+   * Extracts the main content of the page with Readability, dropping navigation,
+   * footers and ads, and returns it as Markdown with a title/byline header.
+   */
+  static async article(requestPayload: RequestPayload) {
+    try {
+      const response = await this._fetch(requestPayload);
+      const binary = await this._binary(response, requestPayload, "markdown");
+      if (binary) {
+        return binary;
+      }
+      const html = await response.text();
+
+      // The URL lets JSDOM resolve relative links and images in the article body
+      const dom = new JSDOM(html, { url: requestPayload.url });
+      const article = new Readability(dom.window.document).parse();
+      if (!article?.content) {
+        throw new Error(
+          `Could not extract article content from ${requestPayload.url}. Use fetch_markdown to get the full page instead.`,
+        );
+      }
+
+      const header = [`# ${article.title || requestPayload.url}`];
+      const details = [
+        article.byline && `By ${article.byline}`,
+        article.siteName,
+        article.publishedTime && `Published ${article.publishedTime}`,
+      ].filter(Boolean);
+      if (details.length > 0) {
+        header.push(details.join(" · "));
+      }
+
+      const turndownService = new TurndownService();
+      const body = turndownService.turndown(article.content);
+      return this.toResult(`${header.join("\n\n")}\n\n${body}`, requestPayload);
+    } catch (error) {
+      return this.toError(error);
+    }
+  }
+
+  static async tables(requestPayload: TablesPayload) {
+    try {
+      const document = await this._document(requestPayload);
+      const scope = getScope(document, requestPayload.selector);
+      const window = this.itemWindow(requestPayload);
+      const tables = extractTables(scope, requestPayload.format, window);
+      return this.toJsonResult(
+        { tables },
+        this.itemPagination(countTableRows(scope), window),
       );
-      
-      return { content: [{ type: "text", text: markdown }], isError: false };
     } catch (error) {
-      return {
-        content: [{ type: "text", text: (error as Error).message }],
-        isError: true,
-      };
+      return this.toError(error);
+    }
+  }
+
+  static async links(requestPayload: SelectorPayload) {
+    try {
+      const document = await this._document(requestPayload);
+      const links = extractLinks(
+        getScope(document, requestPayload.selector),
+        requestPayload.url,
+      );
+      const window = this.itemWindow(requestPayload);
+      return this.toJsonResult(
+        { links: links.slice(window.offset, window.offset + window.limit) },
+        this.itemPagination(links.length, window),
+      );
+    } catch (error) {
+      return this.toError(error);
+    }
+  }
+
+  static async metadata(requestPayload: PagePayload) {
+    try {
+      const document = await this._document(requestPayload);
+      return this.toJsonResult(extractMetadata(document));
+    } catch (error) {
+      return this.toError(error);
+    }
+  }
+
+  static async feed(requestPayload: FeedPayload) {
+    try {
+      const document = await this._document(requestPayload, "application/xml");
+      const feed = extractFeed(document);
+      const window = this.itemWindow(requestPayload);
+      return this.toJsonResult(
+        { ...feed, entries: feed.entries.slice(window.offset, window.offset + window.limit) },
+        this.itemPagination(feed.entries.length, window),
+      );
+    } catch (error) {
+      return this.toError(error);
     }
   }
 }
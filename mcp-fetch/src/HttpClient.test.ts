@@ -0,0 +1,242 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { HttpClient } from "./HttpClient";
+import { FetchConfig } from "./config";
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+const makeConfig = (overrides: Partial<FetchConfig> = {}): FetchConfig => ({
+  userAgent: "test-agent/1.0",
+  cache: { enabled: true, ttlSeconds: 300, maxEntries: 10 },
+  respectRobots: false,
+  rateLimit: { maxConcurrentPerHost: 2, minIntervalMs: 0 },
+  // The stub server runs on loopback, which is blocked by default
+  allowHosts: ["127.0.0.1"],
+  denyHosts: [],
+  maxRedirects: 3,
+  maxResponseBytes: 1024,
+  ...overrides,
+});
+
+describe("HttpClient", () => {
+  let server: Server;
+  let baseUrl: string;
+  let handler: Handler;
+  let requests: IncomingMessage[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req);
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    handler = (req, res) => {
+      if (req.headers["if-none-match"] === '"v1"') {
+        res.writeHead(304).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/plain", ETag: '"v1"' }).end("hello");
+    };
+  });
+
+  it("should send the configured User-Agent", async () => {
+    const client = new HttpClient(makeConfig({ cache: { ...makeConfig().cache, enabled: false } }));
+    await client.fetch(`${baseUrl}/page`, { Accept: "text/plain" });
+    expect(requests[0].headers["user-agent"]).toBe("test-agent/1.0");
+    expect(requests[0].headers.accept).toBe("text/plain");
+  });
+
+  it("should serve fresh responses from the cache", async () => {
+    const client = new HttpClient(makeConfig());
+    const first = await client.fetch(`${baseUrl}/page`);
+    const second = await client.fetch(`${baseUrl}/page`);
+    expect(await first.text()).toBe("hello");
+    expect(await second.text()).toBe("hello");
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should key the cache by request headers", async () => {
+    const client = new HttpClient(makeConfig());
+    await client.fetch(`${baseUrl}/page`, { "Accept-Language": "en" });
+    await client.fetch(`${baseUrl}/page`, { "Accept-Language": "de" });
+    expect(requests).toHaveLength(2);
+  });
+
+  it("should revalidate stale entries with the ETag", async () => {
+    const client = new HttpClient(makeConfig({ cache: { ...makeConfig().cache, ttlSeconds: 0 } }));
+    await client.fetch(`${baseUrl}/page`);
+    const revalidated = await client.fetch(`${baseUrl}/page`);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].headers["if-none-match"]).toBe('"v1"');
+    expect(revalidated.status).toBe(200);
+    expect(await revalidated.text()).toBe("hello");
+  });
+
+  it("should not cache no-store responses", async () => {
+    handler = (req, res) => {
+      res.writeHead(200, { "Cache-Control": "no-store" }).end("secret");
+    };
+    const client = new HttpClient(makeConfig());
+    await client.fetch(`${baseUrl}/page`);
+    await client.fetch(`${baseUrl}/page`);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("should persist the cache to disk", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "fetch-cache-"));
+    try {
+      const config = makeConfig({ cache: { ...makeConfig().cache, dir } });
+      await new HttpClient(config).fetch(`${baseUrl}/page`);
+      const response = await new HttpClient(config).fetch(`${baseUrl}/page`);
+      expect(await response.text()).toBe("hello");
+      expect(requests).toHaveLength(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should enforce robots.txt when enabled", async () => {
+    handler = (req, res) => {
+      if (req.url === "/robots.txt") {
+        res.writeHead(200).end("User-agent: *\nDisallow: /private\n");
+        return;
+      }
+      res.writeHead(200).end("ok");
+    };
+    const client = new HttpClient(makeConfig({ respectRobots: true }));
+    await expect(client.fetch(`${baseUrl}/private/page`)).rejects.toThrow(
+      `robots.txt of ${baseUrl} disallows fetching /private/page`,
+    );
+    expect(await (await client.fetch(`${baseUrl}/public`)).text()).toBe("ok");
+    expect(requests.map((req) => req.url)).toEqual(["/robots.txt", "/public"]);
+  });
+
+  it("should limit concurrent requests per host", async () => {
+    let active = 0;
+    let maxActive = 0;
+    handler = (req, res) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      setTimeout(() => {
+        active--;
+        res.writeHead(200).end("ok");
+      }, 50);
+    };
+    const client = new HttpClient(
+      makeConfig({
+        cache: { ...makeConfig().cache, enabled: false },
+        rateLimit: { maxConcurrentPerHost: 1, minIntervalMs: 0 },
+      }),
+    );
+    await Promise.all([1, 2, 3].map((i) => client.fetch(`${baseUrl}/page/${i}`)));
+    expect(requests).toHaveLength(3);
+    expect(maxActive).toBe(1);
+  });
+
+  it("should space out request starts by the minimum interval", async () => {
+    const starts: number[] = [];
+    handler = (req, res) => {
+      starts.push(Date.now());
+      res.writeHead(200).end("ok");
+    };
+    const client = new HttpClient(
+      makeConfig({
+        cache: { ...makeConfig().cache, enabled: false },
+        rateLimit: { maxConcurrentPerHost: 5, minIntervalMs: 100 },
+      }),
+    );
+    await Promise.all([1, 2].map((i) => client.fetch(`${baseUrl}/page/${i}`)));
+    expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(90);
+  });
+
+  describe("redirects and limits", () => {
+    const uncached = () => makeConfig({ cache: { ...makeConfig().cache, enabled: false } });
+
+    const redirectTo = (location: string): Handler => (req, res) => {
+      if (req.url === "/start") {
+        res.writeHead(302, { Location: location }).end();
+        return;
+      }
+      res.writeHead(200).end(`final ${req.url}`);
+    };
+
+    it("should follow redirects within allowed hosts", async () => {
+      handler = redirectTo("/final");
+      const response = await new HttpClient(uncached()).fetch(`${baseUrl}/start`);
+      expect(await response.text()).toBe("final /final");
+    });
+
+    it("should block redirects to private addresses", async () => {
+      for (const location of [
+        "http://169.254.169.254/latest/meta-data/",
+        "http://127.0.0.2/admin",
+        "http://[::1]/admin",
+      ]) {
+        handler = redirectTo(location);
+        await expect(new HttpClient(uncached()).fetch(`${baseUrl}/start`)).rejects.toThrow(
+          "private IP",
+        );
+      }
+    });
+
+    it("should block redirects to non-http schemes", async () => {
+      handler = redirectTo("file:///etc/passwd");
+      await expect(new HttpClient(uncached()).fetch(`${baseUrl}/start`)).rejects.toThrow(
+        "only supports http and https",
+      );
+    });
+
+    it("should connect to the validated address instead of resolving the host again", async () => {
+      // rebind.test does not exist in DNS, so the request only succeeds on the pinned address
+      const resolve = jest.fn().mockResolvedValue(["127.0.0.1"]);
+      const port = new URL(baseUrl).port;
+      const response = await new HttpClient(uncached(), resolve).fetch(
+        `http://rebind.test:${port}/pinned`,
+      );
+      expect(await response.text()).toBe("hello");
+      expect(resolve).toHaveBeenCalledWith("rebind.test");
+    });
+
+    it("should stop after the maximum number of redirects", async () => {
+      handler = (req, res) => {
+        res.writeHead(302, { Location: "/loop" }).end();
+      };
+      await expect(new HttpClient(uncached()).fetch(`${baseUrl}/loop`)).rejects.toThrow(
+        "Too many redirects (more than 3)",
+      );
+      expect(requests).toHaveLength(4);
+    });
+
+    it("should refuse responses larger than the size cap", async () => {
+      handler = (req, res) => {
+        res.writeHead(200, { "Content-Length": "2048" }).end("x".repeat(2048));
+      };
+      await expect(new HttpClient(uncached()).fetch(`${baseUrl}/large`)).rejects.toThrow(
+        "Response exceeds the maximum size of 1024 bytes",
+      );
+    });
+
+    it("should enforce the size cap on streamed responses without a length", async () => {
+      handler = (req, res) => {
+        res.writeHead(200);
+        res.write("x".repeat(800));
+        res.end("x".repeat(800));
+      };
+      await expect(new HttpClient(uncached()).fetch(`${baseUrl}/stream`)).rejects.toThrow(
+        "Response exceeds the maximum size of 1024 bytes",
+      );
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { isIP, LookupFunction } from "node:net";
+import { Agent } from "undici";
+import { FetchConfig, loadConfig } from "./config.js";
+import { ResponseCache } from "./cache.js";
+import { RobotsChecker } from "./robots.js";
+import { HostRateLimiter } from "./rateLimit.js";
+import { UrlGuard } from "./ssrf.js";
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Credentials are only sent to the origin the caller addressed
+const SENSITIVE_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+/**
+ * Performs the network requests for `Fetcher`: sends the configured User-Agent,
+ * enforces robots.txt and per-host rate limits, and serves repeated requests
+ * (e.g. paging with start_index) from the cache, revalidating with ETag/Last-Modified.
+ * Every hop, including redirects, is checked by `UrlGuard` before connecting,
+ * and the connection goes to the addresses that were checked.
+ */
+export class HttpClient {
+  private cache?: ResponseCache;
+  private robots?: RobotsChecker;
+  private limiter: HostRateLimiter;
+  private guard: UrlGuard;
+  // Addresses validated by the guard, by hostname; the only answers connections get
+  private pinned = new Map<string, string[]>();
+  private dispatcher: Agent;
+
+  constructor(
+    private config: FetchConfig = loadConfig([], {}),
+    resolve?: (hostname: string) => Promise<string[]>,
+  ) {
+    this.guard = new UrlGuard(config, resolve);
+    this.dispatcher = new Agent({ connect: { lookup: this.pinnedLookup } });
+    this.limiter = new HostRateLimiter(
+      config.rateLimit.maxConcurrentPerHost,
+      config.rateLimit.minIntervalMs,
+    );
+    if (config.cache.enabled) {
+      this.cache = new ResponseCache(config.cache);
+    }
+    if (config.respectRobots) {
+      this.robots = new RobotsChecker(config.userAgent, (url) =>
+        this.request(new URL(url), { "User-Agent": config.userAgent }),
+      );
+    }
+  }
+
+  async fetch(url: string, headers: Record<string, string> = {}): Promise<Response> {
+    const target = new URL(url);
+    if (this.robots && !(await this.robots.isAllowed(target))) {
+      throw new Error(`robots.txt of ${target.origin} disallows fetching ${target.pathname}`);
+    }
+
+    const requestHeaders = { "User-Agent": this.config.userAgent, ...headers };
+    if (!this.cache) {
+      return this.request(target, requestHeaders);
+    }
+
+    const key = ResponseCache.key(target.href, requestHeaders);
+    const cached = await this.cache.get(key);
+    if (cached && this.cache.isFresh(cached)) {
+      return ResponseCache.toResponse(cached);
+    }
+
+    const response = await this.request(target, {
+      ...requestHeaders,
+      ...(cached ? ResponseCache.conditionalHeaders(cached) : {}),
+    });
+    if (cached && response.status === 304) {
+      const revalidated = { ...cached, storedAt: Date.now() };
+      await this.cache.set(key, revalidated);
+      return ResponseCache.toResponse(revalidated);
+    }
+    if (!ResponseCache.isCacheable(response)) {
+      return response;
+    }
+    const entry = await ResponseCache.toEntry(target.href, response);
+    await this.cache.set(key, entry);
+    return ResponseCache.toResponse(entry);
+  }
+
+  /** Follows redirects manually so each hop is validated, then enforces the size cap */
+  private async request(target: URL, headers: Record<string, string>): Promise<Response> {
+    let current = target;
+    let currentHeaders = headers;
+    for (let hop = 0; ; hop++) {
+      const addresses = await this.guard.check(current);
+      this.pinned.set(current.hostname.toLowerCase(), addresses);
+      const requestHeaders = currentHeaders;
+      const response = await this.limiter.schedule(current.host, () =>
+        fetch(current.href, {
+          headers: requestHeaders,
+          redirect: "manual",
+          dispatcher: this.dispatcher,
+        } as RequestInit),
+      );
+      const location = REDIRECT_STATUSES.has(response.status)
+        ? response.headers.get("location")
+        : null;
+      if (!location) {
+        return this.limitSize(response);
+      }
+      if (hop >= this.config.maxRedirects) {
+        throw new Error(`Too many redirects (more than ${this.config.maxRedirects})`);
+      }
+      const next = new URL(location, current);
+      if (next.origin !== current.origin) {
+        currentHeaders = Object.fromEntries(
+          Object.entries(currentHeaders).filter(
+            ([name]) => !SENSITIVE_HEADERS.includes(name.toLowerCase()),
+          ),
+        );
+      }
+      current = next;
+    }
+  }
+
+  /**
+   * Resolves hostnames for fetch() from the addresses the guard validated instead of
+   * asking DNS again, so a host that re-resolves to a private address after the check
+   * (DNS rebinding) cannot redirect the connection there.
+   */
+  private pinnedLookup: LookupFunction = (hostname, options, callback) => {
+    const addresses = this.pinned.get(hostname.toLowerCase());
+    if (!addresses?.length) {
+      const error: NodeJS.ErrnoException = new Error(`${hostname} was not validated before connecting`);
+      error.code = "ENOTFOUND";
+      callback(error, "", 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses.map((address) => ({ address, family: isIP(address) })));
+    } else {
+      callback(null, addresses[0], isIP(addresses[0]));
+    }
+  };
+
+  private async limitSize(response: Response): Promise<Response> {
+    if (!response.body) {
+      return response;
+    }
+    const limit = this.config.maxResponseBytes;
+    const tooLarge = () =>
+      new Error(`Response exceeds the maximum size of ${limit} bytes`);
+    if (Number(response.headers.get("content-length") ?? 0) > limit) {
+      await response.body.cancel();
+      throw tooLarge();
+    }
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      size += value.byteLength;
+      if (size > limit) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(value);
+    }
+    // 304 and similar statuses must not carry a body
+    const body = [204, 304].includes(response.status) ? null : Buffer.concat(chunks);
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+}
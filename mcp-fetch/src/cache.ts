@@ -0,0 +1,113 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export type CachedResponse = {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  // Base64 so binary bodies survive the JSON round trip to disk
+  body: string;
+  storedAt: number;
+};
+
+/**
+ * In-memory LRU cache of fetched responses, optionally persisted as JSON
+ * files so it survives restarts.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CachedResponse>();
+
+  constructor(
+    private options: { ttlSeconds: number; maxEntries: number; dir?: string },
+  ) {}
+
+  static key(url: string, headers: Record<string, string>): string {
+    const sorted = Object.keys(headers)
+      .sort()
+      .map((name) => [name.toLowerCase(), headers[name]]);
+    return createHash("sha256").update(JSON.stringify([url, sorted])).digest("hex");
+  }
+
+  static async toEntry(url: string, response: Response): Promise<CachedResponse> {
+    const body = Buffer.from(await response.arrayBuffer());
+    return {
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+      body: body.toString("base64"),
+      storedAt: Date.now(),
+    };
+  }
+
+  static toResponse(entry: CachedResponse): Response {
+    return new Response(Buffer.from(entry.body, "base64"), {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers,
+    });
+  }
+
+  /** Responses the server asked us not to store are never cached */
+  static isCacheable(response: Response): boolean {
+    if (response.status !== 200) {
+      return false;
+    }
+    return !/no-store|private/i.test(response.headers.get("cache-control") ?? "");
+  }
+
+  /** Headers that let the server answer 304 Not Modified for a stale entry */
+  static conditionalHeaders(entry: CachedResponse): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.headers.etag) {
+      headers["If-None-Match"] = entry.headers.etag;
+    }
+    if (entry.headers["last-modified"]) {
+      headers["If-Modified-Since"] = entry.headers["last-modified"];
+    }
+    return headers;
+  }
+
+  isFresh(entry: CachedResponse): boolean {
+    if (/no-cache/i.test(entry.headers["cache-control"] ?? "")) {
+      return false;
+    }
+    return Date.now() - entry.storedAt < this.options.ttlSeconds * 1000;
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    let entry = this.entries.get(key);
+    if (!entry && this.options.dir) {
+      try {
+        entry = JSON.parse(await fs.readFile(this.filePath(key), "utf8")) as CachedResponse;
+      } catch {
+        return undefined;
+      }
+    }
+    if (entry) {
+      // Re-insert to mark the entry as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+    if (this.options.dir) {
+      await fs.mkdir(this.options.dir, { recursive: true });
+      await fs.writeFile(this.filePath(key), JSON.stringify(entry));
+    }
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.options.dir as string, `${key}.json`);
+  }
+}
@@ -0,0 +1,108 @@
+import { parseArgs } from "node:util";
+
+export const DEFAULT_USER_AGENT = "fetch-mcp/1.0.0 (+https://github.com/zcaceres/fetch-mcp)";
+
+export type FetchConfig = {
+  userAgent: string;
+  cache: {
+    enabled: boolean;
+    // Directory for the on-disk cache; responses are kept in memory only when unset
+    dir?: string;
+    ttlSeconds: number;
+    maxEntries: number;
+  };
+  respectRobots: boolean;
+  rateLimit: {
+    maxConcurrentPerHost: number;
+    minIntervalMs: number;
+  };
+  // Hostnames ("*.example.com") or IPs/CIDRs exempt from the private address block
+  allowHosts: string[];
+  // Hostnames or IPs/CIDRs that are always refused
+  denyHosts: string[];
+  maxRedirects: number;
+  maxResponseBytes: number;
+};
+
+const toNumber = (value: string | boolean | undefined, fallback: number) => {
+  const parsed = typeof value === "string" ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const toList = (value: string | boolean | undefined) =>
+  typeof value === "string" ? value.split(",").map((entry) => entry.trim()).filter(Boolean) : [];
+
+const toBoolean = (value: string | boolean | undefined, fallback: boolean) => {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (value == null || value === "") {
+    return fallback;
+  }
+  return !["0", "false", "off", "no"].includes(value.toLowerCase());
+};
+
+/**
+ * Reads the fetch settings from CLI flags, falling back to environment variables:
+ *
+ * --user-agent / FETCH_USER_AGENT
+ * --no-cache / FETCH_CACHE=off
+ * --cache-dir / FETCH_CACHE_DIR
+ * --cache-ttl / FETCH_CACHE_TTL (seconds, default 300)
+ * --respect-robots / FETCH_RESPECT_ROBOTS
+ * --max-concurrency / FETCH_MAX_CONCURRENCY_PER_HOST (default 2)
+ * --min-interval / FETCH_MIN_REQUEST_INTERVAL_MS (default 0)
+ * --allow-hosts / FETCH_ALLOW_HOSTS (comma-separated hostnames, IPs or CIDRs)
+ * --deny-hosts / FETCH_DENY_HOSTS (comma-separated hostnames, IPs or CIDRs)
+ * --max-redirects / FETCH_MAX_REDIRECTS (default 5)
+ * --max-response-bytes / FETCH_MAX_RESPONSE_BYTES (default 10 MB)
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): FetchConfig {
+  const { values } = parseArgs({
+    args: argv,
+    strict: false,
+    options: {
+      "user-agent": { type: "string" },
+      "no-cache": { type: "boolean" },
+      "cache-dir": { type: "string" },
+      "cache-ttl": { type: "string" },
+      "respect-robots": { type: "boolean" },
+      "max-concurrency": { type: "string" },
+      "min-interval": { type: "string" },
+      "allow-hosts": { type: "string" },
+      "deny-hosts": { type: "string" },
+      "max-redirects": { type: "string" },
+      "max-response-bytes": { type: "string" },
+    },
+  });
+
+  const userAgent = values["user-agent"] ?? env.FETCH_USER_AGENT;
+  const cacheDir = values["cache-dir"] ?? env.FETCH_CACHE_DIR;
+  return {
+    userAgent: typeof userAgent === "string" && userAgent ? userAgent : DEFAULT_USER_AGENT,
+    cache: {
+      enabled: values["no-cache"] === true ? false : toBoolean(env.FETCH_CACHE, true),
+      dir: typeof cacheDir === "string" && cacheDir ? cacheDir : undefined,
+      ttlSeconds: toNumber(values["cache-ttl"] ?? env.FETCH_CACHE_TTL, 300),
+      maxEntries: toNumber(env.FETCH_CACHE_MAX_ENTRIES, 100),
+    },
+    respectRobots: toBoolean(values["respect-robots"] ?? env.FETCH_RESPECT_ROBOTS, false),
+    rateLimit: {
+      maxConcurrentPerHost: Math.max(
+        1,
+        toNumber(values["max-concurrency"] ?? env.FETCH_MAX_CONCURRENCY_PER_HOST, 2),
+      ),
+      minIntervalMs: toNumber(values["min-interval"] ?? env.FETCH_MIN_REQUEST_INTERVAL_MS, 0),
+    },
+    allowHosts: toList(values["allow-hosts"] ?? env.FETCH_ALLOW_HOSTS),
+    denyHosts: toList(values["deny-hosts"] ?? env.FETCH_DENY_HOSTS),
+    maxRedirects: toNumber(values["max-redirects"] ?? env.FETCH_MAX_REDIRECTS, 5),
+    maxResponseBytes: toNumber(
+      values["max-response-bytes"] ?? env.FETCH_MAX_RESPONSE_BYTES,
+      10 * 1024 * 1024,
+    ),
+  };
+}
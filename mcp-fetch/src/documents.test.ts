@@ -0,0 +1,71 @@
+import { classifyContentType, getMimeType, pdfToText } from "./documents";
+
+/** Builds a minimal PDF with one line of Helvetica text per page */
+function makePdf(pages: string[]): Buffer {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    );
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
+
+describe("classifyContentType", () => {
+  it("should treat markup, JSON and missing types as text", () => {
+    expect(classifyContentType("text/html; charset=utf-8")).toBe("text");
+    expect(classifyContentType("application/json")).toBe("text");
+    expect(classifyContentType("application/rss+xml")).toBe("text");
+    expect(classifyContentType("image/svg+xml")).toBe("text");
+    expect(classifyContentType(null)).toBe("text");
+  });
+
+  it("should recognise documents and images", () => {
+    expect(classifyContentType("application/pdf")).toBe("pdf");
+    expect(
+      classifyContentType(
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      ),
+    ).toBe("docx");
+    expect(classifyContentType("IMAGE/JPEG")).toBe("image");
+  });
+
+  it("should flag other binaries as unsupported", () => {
+    expect(classifyContentType("application/octet-stream")).toBe("unsupported");
+    expect(classifyContentType("video/mp4")).toBe("unsupported");
+    expect(classifyContentType("image/tiff")).toBe("unsupported");
+  });
+});
+
+describe("getMimeType", () => {
+  it("should strip parameters and normalise case", () => {
+    expect(getMimeType("Text/HTML; charset=UTF-8")).toBe("text/html");
+    expect(getMimeType(null)).toBe("");
+  });
+});
+
+describe("pdfToText", () => {
+  it("should prefix each page with a page marker", async () => {
+    const text = await pdfToText(makePdf(["First page", "Second page"]));
+    expect(text).toBe(
+      "--- Page 1 of 2 ---\n\nFirst page\n\n--- Page 2 of 2 ---\n\nSecond page",
+    );
+  });
+});
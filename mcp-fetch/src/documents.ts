@@ -0,0 +1,86 @@
+import pdf from "pdf-parse";
+import mammoth from "mammoth";
+
+export type DocumentKind = "text" | "pdf" | "docx" | "image" | "unsupported";
+
+const DOCX_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// Formats vision models accept as image content
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+const TEXT_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/javascript",
+  "application/ecmascript",
+  "application/x-www-form-urlencoded",
+];
+
+/** Returns the lower-cased MIME type without parameters, e.g. "text/html" */
+export function getMimeType(contentType: string | null): string {
+  return (contentType ?? "").split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Decides how a response body should be read. Responses without a
+ * Content-Type are treated as text, as servers often omit it for HTML.
+ */
+export function classifyContentType(contentType: string | null): DocumentKind {
+  const mimeType = getMimeType(contentType);
+  if (
+    !mimeType ||
+    mimeType.startsWith("text/") ||
+    mimeType.endsWith("+json") ||
+    mimeType.endsWith("+xml") ||
+    TEXT_TYPES.includes(mimeType)
+  ) {
+    return "text";
+  }
+  if (mimeType === "application/pdf") {
+    return "pdf";
+  }
+  if (mimeType === DOCX_TYPE) {
+    return "docx";
+  }
+  if (IMAGE_TYPES.includes(mimeType)) {
+    return "image";
+  }
+  return "unsupported";
+}
+
+/** Extracts the text of every page, each preceded by a "--- Page N of M ---" marker */
+export async function pdfToText(data: Uint8Array): Promise<string> {
+  const pages: string[] = [];
+  // pdf.js reads through `bytes.buffer`, which breaks on small Buffers that share
+  // Node's allocation pool, so it gets a plain copy with its own ArrayBuffer
+  const { numpages } = await pdf(new Uint8Array(data) as Buffer, {
+    // Same line joining as the pdf-parse default, but kept per page
+    pagerender: async (page) => {
+      const { items } = await page.getTextContent();
+      let lastY: number | undefined;
+      let text = "";
+      for (const item of items as Array<{ str: string; transform: number[] }>) {
+        const y = item.transform[5];
+        text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+        lastY = y;
+      }
+      pages[page.pageIndex] = text.trim();
+      return text;
+    },
+  });
+  return pages
+    .map((text, index) => `--- Page ${index + 1} of ${numpages} ---\n\n${text}`)
+    .join("\n\n");
+}
+
+/** Converts a Word document to HTML, keeping headings, lists, tables and links */
+export async function docxToHtml(data: Buffer): Promise<string> {
+  const { value } = await mammoth.convertToHtml({ buffer: data });
+  return value;
+}
+
+/** Extracts the plain text of a Word document, one paragraph per line */
+export async function docxToText(data: Buffer): Promise<string> {
+  const { value } = await mammoth.extractRawText({ buffer: data });
+  return value.replace(/\n{3,}/g, "\n\n").trim();
+}
@@ -0,0 +1,208 @@
+import { JSDOM } from "jsdom";
+import {
+  getScope,
+  extractTables,
+  extractLinks,
+  extractMetadata,
+  extractFeed,
+} from "./extract";
+
+const pageUrl = "https://example.com/docs/page";
+
+const parse = (html: string, contentType?: string) =>
+  new JSDOM(html, { url: pageUrl, contentType }).window.document;
+
+describe("extract", () => {
+  const page = parse(`
+    <html lang="en">
+      <head>
+        <title> Pricing </title>
+        <meta name="description" content="Plans and prices">
+        <meta property="og:title" content="Pricing | Example">
+        <meta name="twitter:card" content="summary">
+        <link rel="canonical" href="https://example.com/pricing">
+        <script type="application/ld+json">{"@type": "Product", "name": "Example"}</script>
+        <script type="application/ld+json">{ broken</script>
+      </head>
+      <body>
+        <nav><a href="/">Home</a><a href="mailto:hi@example.com">Mail</a></nav>
+        <main id="content">
+          <table>
+            <caption>Plans</caption>
+            <tr><th>Plan</th><th>Price</th></tr>
+            <tr><td>Free</td><td>$0</td></tr>
+            <tr><td>Pro, yearly</td><td>$10</td></tr>
+          </table>
+          <a href="https://other.org/a">Other</a>
+          <a href="https://other.org/a">Other</a>
+          <a href="../guide">Guide</a>
+        </main>
+        <footer><table><tr><td>a</td><td>b</td></tr></table></footer>
+      </body>
+    </html>
+  `);
+
+  describe("getScope", () => {
+    it("should throw when the selector matches nothing", () => {
+      expect(() => getScope(page, "#missing")).toThrow('No elements match selector "#missing"');
+    });
+  });
+
+  describe("extractTables", () => {
+    it("should key rows by header cells", () => {
+      const tables = extractTables(getScope(page, "#content"));
+      expect(tables).toEqual([
+        {
+          index: 0,
+          caption: "Plans",
+          headers: ["Plan", "Price"],
+          total_rows: 2,
+          row_offset: 0,
+          rows: [
+            { Plan: "Free", Price: "$0" },
+            { Plan: "Pro, yearly", Price: "$10" },
+          ],
+        },
+      ]);
+    });
+
+    it("should generate column names for tables without headers", () => {
+      const [, footer] = extractTables(getScope(page));
+      expect(footer.headers).toEqual(["column_1", "column_2"]);
+      expect(footer.rows).toEqual([{ column_1: "a", column_2: "b" }]);
+    });
+
+    it("should only return rows inside the window", () => {
+      const tables = extractTables(getScope(page), "json", { offset: 1, limit: 2 });
+      expect(tables.map(({ index, row_offset, rows }) => ({ index, row_offset, rows }))).toEqual([
+        { index: 0, row_offset: 1, rows: [{ Plan: "Pro, yearly", Price: "$10" }] },
+        { index: 1, row_offset: 0, rows: [{ column_1: "a", column_2: "b" }] },
+      ]);
+    });
+
+    it("should leave out tables before the window", () => {
+      const [table] = extractTables(getScope(page), "csv", { offset: 2, limit: 10 });
+      expect(table).toMatchObject({ index: 1, total_rows: 1, row_offset: 0 });
+      expect(table.csv).toBe("column_1,column_2\na,b");
+    });
+
+    it("should format rows as csv", () => {
+      const [table] = extractTables(getScope(page, "main table"), "csv");
+      expect(table.csv).toBe('Plan,Price\nFree,$0\n"Pro, yearly",$10');
+    });
+  });
+
+  describe("extractLinks", () => {
+    it("should return unique absolute http links with an external flag", () => {
+      expect(extractLinks(getScope(page), pageUrl)).toEqual([
+        { url: "https://example.com/", text: "Home", rel: undefined, external: false },
+        { url: "https://other.org/a", text: "Other", rel: undefined, external: true },
+        { url: "https://example.com/guide", text: "Guide", rel: undefined, external: false },
+      ]);
+    });
+
+    it("should only include links inside the selector", () => {
+      const links = extractLinks(getScope(page, "nav"), pageUrl);
+      expect(links.map((link) => link.text)).toEqual(["Home"]);
+    });
+  });
+
+  describe("extractMetadata", () => {
+    it("should collect meta tags and valid JSON-LD blocks", () => {
+      expect(extractMetadata(page)).toEqual({
+        title: "Pricing",
+        description: "Plans and prices",
+        canonical: "https://example.com/pricing",
+        lang: "en",
+        openGraph: { title: "Pricing | Example" },
+        twitter: { card: "summary" },
+        jsonLd: [{ "@type": "Product", name: "Example" }],
+      });
+    });
+  });
+
+  describe("extractFeed", () => {
+    it("should parse RSS items", () => {
+      const rss = parse(
+        `<?xml version="1.0"?>
+        <rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+          <channel>
+            <title>Blog</title>
+            <link>https://example.com/blog</link>
+            <description>Posts</description>
+            <item>
+              <title>First</title>
+              <link>https://example.com/blog/1</link>
+              <guid>1</guid>
+              <pubDate>Tue, 02 Jan 2024 10:00:00 GMT</pubDate>
+              <dc:creator>Jane</dc:creator>
+              <description>Hello</description>
+            </item>
+            <item><title>Second</title></item>
+          </channel>
+        </rss>`,
+        "application/xml",
+      );
+
+      const feed = extractFeed(rss);
+      expect(feed).toEqual({
+        type: "rss",
+        title: "Blog",
+        link: "https://example.com/blog",
+        description: "Posts",
+        entries: [
+          {
+            id: "1",
+            title: "First",
+            link: "https://example.com/blog/1",
+            published: "Tue, 02 Jan 2024 10:00:00 GMT",
+            author: "Jane",
+            summary: "Hello",
+          },
+          { title: "Second" },
+        ],
+      });
+    });
+
+    it("should parse Atom entries", () => {
+      const atom = parse(
+        `<?xml version="1.0"?>
+        <feed xmlns="http://www.w3.org/2005/Atom">
+          <title>Changelog</title>
+          <link rel="self" href="https://example.com/feed.xml"/>
+          <link href="https://example.com/changelog"/>
+          <entry>
+            <id>urn:1</id>
+            <title>v1.0</title>
+            <link href="https://example.com/changelog/1"/>
+            <updated>2024-01-02T00:00:00Z</updated>
+            <author><name>Team</name></author>
+            <summary>Released</summary>
+          </entry>
+        </feed>`,
+        "application/xml",
+      );
+
+      const feed = extractFeed(atom);
+      expect(feed.type).toBe("atom");
+      expect(feed.link).toBe("https://example.com/changelog");
+      expect(feed.entries).toEqual([
+        {
+          id: "urn:1",
+          title: "v1.0",
+          link: "https://example.com/changelog/1",
+          published: undefined,
+          updated: "2024-01-02T00:00:00Z",
+          author: "Team",
+          summary: "Released",
+        },
+      ]);
+    });
+
+    it("should reject documents that are not feeds", () => {
+      expect(() => extractFeed(parse("<html><body></body></html>"))).toThrow(
+        "Response is not an RSS or Atom feed",
+      );
+    });
+  });
+});
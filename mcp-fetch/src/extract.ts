@@ -0,0 +1,299 @@
+/**
+ * Structured extraction from a parsed page. Every function takes the JSDOM
+ * document so it can be tested without the network.
+ */
+
+export type TableFormat = "json" | "csv";
+
+export type ExtractedTable = {
+  index: number;
+  caption?: string;
+  headers: string[];
+  // Number of body rows in the table, and the position of the first returned row
+  total_rows: number;
+  row_offset: number;
+  rows?: Record<string, string>[];
+  csv?: string;
+};
+
+// Range of items to return, counted across all tables, links or entries
+export type ItemWindow = { offset: number; limit: number };
+
+const ALL_ITEMS: ItemWindow = { offset: 0, limit: Infinity };
+
+export type ExtractedLink = {
+  url: string;
+  text: string;
+  rel?: string;
+  external: boolean;
+};
+
+export type PageMetadata = {
+  title?: string;
+  description?: string;
+  canonical?: string;
+  lang?: string;
+  openGraph: Record<string, string>;
+  twitter: Record<string, string>;
+  jsonLd: unknown[];
+};
+
+export type FeedEntry = {
+  id?: string;
+  title?: string;
+  link?: string;
+  published?: string;
+  updated?: string;
+  author?: string;
+  summary?: string;
+};
+
+export type Feed = {
+  type: "rss" | "atom";
+  title?: string;
+  link?: string;
+  description?: string;
+  entries: FeedEntry[];
+};
+
+const normalize = (text: string | null | undefined) => (text ?? "").replace(/\s+/g, " ").trim();
+
+/** Returns the elements to extract from: the whole document, or the elements matching `selector` */
+export function getScope(document: Document, selector?: string): Element[] {
+  if (!selector) {
+    return [document.documentElement];
+  }
+  const elements = Array.from(document.querySelectorAll(selector));
+  if (elements.length === 0) {
+    throw new Error(`No elements match selector "${selector}"`);
+  }
+  return elements;
+}
+
+/** Finds elements matching `tag` inside (or being) the scope elements, without duplicates */
+function findWithin(scope: Element[], tag: string): Element[] {
+  const found = new Set<Element>();
+  for (const element of scope) {
+    if (element.matches(tag)) {
+      found.add(element);
+    }
+    element.querySelectorAll(tag).forEach((match) => found.add(match));
+  }
+  return Array.from(found);
+}
+
+function toCsvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Extracts the tables in scope. Rows are numbered across all tables in document
+ * order; only rows inside `window` are returned, and tables without any of them
+ * are left out.
+ */
+export function extractTables(
+  scope: Element[],
+  format: TableFormat = "json",
+  window: ItemWindow = ALL_ITEMS,
+): ExtractedTable[] {
+  let rowsBefore = 0;
+  const windowEnd = window.offset + window.limit;
+  return findWithin(scope, "table").flatMap((table, index): ExtractedTable[] => {
+    // Rows of nested tables belong to the nested table, not this one
+    const rows = Array.from(table.querySelectorAll("tr")).filter(
+      (row) => row.closest("table") === table,
+    );
+    const cells = rows.map((row) =>
+      Array.from(row.children)
+        .filter((cell) => cell.matches("td, th"))
+        .map((cell) => normalize(cell.textContent)),
+    );
+
+    const headerRow = rows.findIndex((row) =>
+      Array.from(row.children).every((cell) => cell.matches("th")),
+    );
+    let headers: string[];
+    let body: string[][];
+    if (headerRow >= 0) {
+      headers = cells[headerRow];
+      body = cells.filter((_, i) => i !== headerRow);
+    } else {
+      const width = Math.max(0, ...cells.map((row) => row.length));
+      headers = Array.from({ length: width }, (_, i) => `column_${i + 1}`);
+      body = cells;
+    }
+    body = body.filter((row) => row.length > 0);
+
+    const first = rowsBefore;
+    rowsBefore += body.length;
+    const start = Math.max(0, window.offset - first);
+    const end = Math.max(0, windowEnd - first);
+    // Tables without body rows are kept when they sit inside the window
+    const inWindow =
+      body.length > 0
+        ? start < Math.min(end, body.length)
+        : first >= window.offset && first < windowEnd;
+    if (!inWindow) {
+      return [];
+    }
+    const page = body.slice(start, end);
+
+    const caption = normalize(table.querySelector("caption")?.textContent) || undefined;
+    const position = { total_rows: body.length, row_offset: Math.min(start, body.length) };
+    if (format === "csv") {
+      const csv = [headers, ...page].map((row) => row.map(toCsvField).join(",")).join("\n");
+      return [{ index, caption, headers, ...position, csv }];
+    }
+    return [
+      {
+        index,
+        caption,
+        headers,
+        ...position,
+        rows: page.map((row) =>
+          Object.fromEntries(
+            headers.map((header, i) => [header || `column_${i + 1}`, row[i] ?? ""]),
+          ),
+        ),
+      },
+    ];
+  });
+}
+
+/** Counts the body rows of all tables in scope, as paged by `extractTables` */
+export function countTableRows(scope: Element[]): number {
+  return extractTables(scope, "json").reduce((total, table) => total + table.total_rows, 0);
+}
+
+export function extractLinks(scope: Element[], pageUrl: string): ExtractedLink[] {
+  const host = new URL(pageUrl).host;
+  const seen = new Set<string>();
+  const links: ExtractedLink[] = [];
+  for (const anchor of findWithin(scope, "a[href]")) {
+    let url: URL;
+    try {
+      url = new URL(anchor.getAttribute("href") ?? "", pageUrl);
+    } catch {
+      continue;
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      continue;
+    }
+    const text = normalize(anchor.textContent) || normalize(anchor.getAttribute("title"));
+    const key = `${url.href} ${text}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    links.push({
+      url: url.href,
+      text,
+      rel: anchor.getAttribute("rel") ?? undefined,
+      external: url.host !== host,
+    });
+  }
+  return links;
+}
+
+export function extractMetadata(document: Document): PageMetadata {
+  const openGraph: Record<string, string> = {};
+  const twitter: Record<string, string> = {};
+  let description: string | undefined;
+
+  document.querySelectorAll("meta").forEach((meta) => {
+    const key = meta.getAttribute("property") ?? meta.getAttribute("name");
+    const content = meta.getAttribute("content");
+    if (!key || content == null) {
+      return;
+    }
+    if (key.startsWith("og:")) {
+      openGraph[key.slice(3)] = content;
+    } else if (key.startsWith("twitter:")) {
+      twitter[key.slice(8)] = content;
+    } else if (key.toLowerCase() === "description") {
+      description = content;
+    }
+  });
+
+  const jsonLd: unknown[] = [];
+  document.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+    try {
+      const data = JSON.parse(script.textContent ?? "");
+      jsonLd.push(...(Array.isArray(data) ? data : [data]));
+    } catch {
+      // Ignore malformed JSON-LD blocks; pages often ship broken ones
+    }
+  });
+
+  return {
+    title: normalize(document.title) || undefined,
+    description,
+    canonical: document.querySelector('link[rel="canonical"]')?.getAttribute("href") ?? undefined,
+    lang: document.documentElement.getAttribute("lang") ?? undefined,
+    openGraph,
+    twitter,
+    jsonLd,
+  };
+}
+
+/** Text of the first direct child with the given tag name (namespace prefixes are ignored) */
+function childText(element: Element, name: string): string | undefined {
+  const child = Array.from(element.children).find((c) => c.localName === name);
+  return normalize(child?.textContent) || undefined;
+}
+
+/** Parses an RSS 2.0 or Atom document */
+export function extractFeed(document: Document): Feed {
+  const root = document.documentElement;
+  if (root.localName === "feed") {
+    const linkOf = (element: Element) => {
+      const links = Array.from(element.children).filter((c) => c.localName === "link");
+      const link =
+        links.find((l) => (l.getAttribute("rel") ?? "alternate") === "alternate") ?? links[0];
+      return link?.getAttribute("href") ?? undefined;
+    };
+    const entries = Array.from(root.children)
+      .filter((c) => c.localName === "entry")
+      .map((entry) => {
+        const author = Array.from(entry.children).find((c) => c.localName === "author");
+        return {
+          id: childText(entry, "id"),
+          title: childText(entry, "title"),
+          link: linkOf(entry),
+          published: childText(entry, "published"),
+          updated: childText(entry, "updated"),
+          author: author ? childText(author, "name") : undefined,
+          summary: childText(entry, "summary") ?? childText(entry, "content"),
+        };
+      });
+    return {
+      type: "atom",
+      title: childText(root, "title"),
+      link: linkOf(root),
+      description: childText(root, "subtitle"),
+      entries,
+    };
+  }
+
+  const channel = Array.from(root.children).find((c) => c.localName === "channel");
+  if (root.localName !== "rss" || !channel) {
+    throw new Error("Response is not an RSS or Atom feed");
+  }
+  const entries = Array.from(channel.children)
+    .filter((c) => c.localName === "item")
+    .map((item) => ({
+      id: childText(item, "guid"),
+      title: childText(item, "title"),
+      link: childText(item, "link"),
+      published: childText(item, "pubDate"),
+      author: childText(item, "creator") ?? childText(item, "author"),
+      summary: childText(item, "description"),
+    }));
+  return {
+    type: "rss",
+    title: childText(channel, "title"),
+    link: childText(channel, "link"),
+    description: childText(channel, "description"),
+    entries,
+  };
+}
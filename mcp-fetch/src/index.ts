@@ -6,8 +6,15 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { RequestPayloadSchema } from "./types.js";
+import {
+  RequestPayloadSchema,
+  PagePayloadSchema,
+  SelectorPayloadSchema,
+  TablesPayloadSchema,
+  FeedPayloadSchema,
+} from "./types.js";
 import { Fetcher } from "./Fetcher.js";
+import { loadConfig } from "./config.js";
 
 const server = new Server(
   {
@@ -45,7 +52,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             start_index: {
               type: "number",
-              description: "Start content from this character index (default: 0)",
+              description:
+                "Start content from this character index (default: 0). Use next_start_index from the previous result to continue",
             },
           },
           required: ["url"],
@@ -53,7 +61,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: "fetch_markdown",
-        description: "Fetch a website and return the content as Markdown",
+        description:
+          "Fetch a website and return the content as Markdown. PDF and DOCX files are converted to text (PDFs with page markers) and images are returned as image content",
         inputSchema: {
           type: "object",
           properties: {
@@ -71,7 +80,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             start_index: {
               type: "number",
-              description: "Start content from this character index (default: 0)",
+              description:
+                "Start content from this character index (default: 0). Use next_start_index from the previous result to continue",
             },
           },
           required: ["url"],
@@ -98,7 +108,153 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             start_index: {
               type: "number",
-              description: "Start content from this character index (default: 0)",
+              description:
+                "Start content from this character index (default: 0). Use next_start_index from the previous result to continue",
+            },
+          },
+          required: ["url"],
+        },
+      },
+      {
+        name: "fetch_article",
+        description:
+          "Fetch a web page and return only its main article content (title, byline, published date and body) as Markdown, without navigation, footers or ads",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: {
+              type: "string",
+              description: "URL of the article to fetch",
+            },
+            headers: {
+              type: "object",
+              description: "Optional headers to include in the request",
+            },
+            max_length: {
+              type: "number",
+              description: "Maximum number of characters to return (default: 5000)",
+            },
+            start_index: {
+              type: "number",
+              description:
+                "Start content from this character index (default: 0). Use next_start_index from the previous result to continue",
+            },
+          },
+          required: ["url"],
+        },
+      },
+      {
+        name: "fetch_tables",
+        description:
+          "Fetch a web page and return its HTML tables as structured JSON (rows keyed by column header) or CSV",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: {
+              type: "string",
+              description: "URL of the web page to fetch",
+            },
+            headers: {
+              type: "object",
+              description: "Optional headers to include in the request",
+            },
+            offset: {
+              type: "number",
+              description:
+                "Index of the first table row to return (default: 0). Use next_offset from the previous result to continue",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of table rows to return (default: 50)",
+            },
+            selector: {
+              type: "string",
+              description:
+                "Optional CSS selector limiting extraction to the matching elements (e.g. '#content', 'main table')",
+            },
+            format: {
+              type: "string",
+              enum: ["json", "csv"],
+              description: "Row format: json objects keyed by header (default) or csv text",
+            },
+          },
+          required: ["url"],
+        },
+      },
+      {
+        name: "fetch_links",
+        description:
+          "Fetch a web page and return its links as JSON with absolute URL, anchor text and whether the link is external",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: {
+              type: "string",
+              description: "URL of the web page to fetch",
+            },
+            headers: {
+              type: "object",
+              description: "Optional headers to include in the request",
+            },
+            offset: {
+              type: "number",
+              description:
+                "Index of the first link to return (default: 0). Use next_offset from the previous result to continue",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of links to return (default: 50)",
+            },
+            selector: {
+              type: "string",
+              description:
+                "Optional CSS selector limiting extraction to the matching elements (e.g. '#content', 'main table')",
+            },
+          },
+          required: ["url"],
+        },
+      },
+      {
+        name: "fetch_metadata",
+        description:
+          "Fetch a web page and return its metadata as JSON: title, description, canonical URL, language, OpenGraph and Twitter tags, and JSON-LD blocks",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: {
+              type: "string",
+              description: "URL of the web page to fetch",
+            },
+            headers: {
+              type: "object",
+              description: "Optional headers to include in the request",
+            },
+          },
+          required: ["url"],
+        },
+      },
+      {
+        name: "fetch_feed",
+        description: "Fetch an RSS or Atom feed and return its entries as JSON",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: {
+              type: "string",
+              description: "URL of the feed to fetch",
+            },
+            headers: {
+              type: "object",
+              description: "Optional headers to include in the request",
+            },
+            offset: {
+              type: "number",
+              description:
+                "Index of the first entry to return (default: 0). Use next_offset from the previous result to continue",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of entries to return (default: 50)",
             },
           },
           required: ["url"],
@@ -124,7 +280,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             start_index: {
               type: "number",
-              description: "Start content from this character index (default: 0)",
+              description:
+                "Start content from this character index (default: 0). Use next_start_index from the previous result to continue",
             },
           },
           required: ["url"],
@@ -137,28 +294,47 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
   const { name, arguments: args } = request.params;
 
-  const validatedArgs = RequestPayloadSchema.parse(args);
-
-  if (request.params.name === "fetch_html") {
-    const fetchResult = await Fetcher.html(validatedArgs);
+  if (name === "fetch_html") {
+    const fetchResult = await Fetcher.html(RequestPayloadSchema.parse(args));
+    return fetchResult;
+  }
+  if (name === "fetch_json") {
+    const fetchResult = await Fetcher.json(RequestPayloadSchema.parse(args));
+    return fetchResult;
+  }
+  if (name === "fetch_txt") {
+    const fetchResult = await Fetcher.txt(RequestPayloadSchema.parse(args));
+    return fetchResult;
+  }
+  if (name === "fetch_markdown") {
+    const fetchResult = await Fetcher.markdown(RequestPayloadSchema.parse(args));
+    return fetchResult;
+  }
+  if (name === "fetch_article") {
+    const fetchResult = await Fetcher.article(RequestPayloadSchema.parse(args));
+    return fetchResult;
+  }
+  if (name === "fetch_tables") {
+    const fetchResult = await Fetcher.tables(TablesPayloadSchema.parse(args));
     return fetchResult;
   }
-  if (request.params.name === "fetch_json") {
-    const fetchResult = await Fetcher.json(validatedArgs);
+  if (name === "fetch_links") {
+    const fetchResult = await Fetcher.links(SelectorPayloadSchema.parse(args));
     return fetchResult;
   }
-  if (request.params.name === "fetch_txt") {
-    const fetchResult = await Fetcher.txt(validatedArgs);
+  if (name === "fetch_metadata") {
+    const fetchResult = await Fetcher.metadata(PagePayloadSchema.parse(args));
     return fetchResult;
   }
-  if (request.params.name === "fetch_markdown") {
-    const fetchResult = await Fetcher.markdown(validatedArgs);
+  if (name === "fetch_feed") {
+    const fetchResult = await Fetcher.feed(FeedPayloadSchema.parse(args));
     return fetchResult;
   }
   throw new Error("Tool not found");
 });
 
 async function main() {
+  Fetcher.configure(loadConfig());
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
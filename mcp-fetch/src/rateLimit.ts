@@ -0,0 +1,51 @@
+type HostState = {
+  active: number;
+  lastStart: number;
+  queue: Array<() => void>;
+  timer?: NodeJS.Timeout;
+};
+
+/** Limits concurrent requests and the interval between request starts for each host */
+export class HostRateLimiter {
+  private hosts = new Map<string, HostState>();
+
+  constructor(
+    private maxConcurrent: number,
+    private minIntervalMs: number,
+  ) {}
+
+  async schedule<T>(host: string, task: () => Promise<T>): Promise<T> {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, lastStart: 0, queue: [] };
+      this.hosts.set(host, state);
+    }
+    const hostState = state;
+    await new Promise<void>((resolve) => {
+      hostState.queue.push(resolve);
+      this.drain(hostState);
+    });
+    try {
+      return await task();
+    } finally {
+      hostState.active--;
+      this.drain(hostState);
+    }
+  }
+
+  private drain(state: HostState) {
+    while (!state.timer && state.active < this.maxConcurrent && state.queue.length > 0) {
+      const wait = state.lastStart + this.minIntervalMs - Date.now();
+      if (wait > 0) {
+        state.timer = setTimeout(() => {
+          state.timer = undefined;
+          this.drain(state);
+        }, wait);
+        return;
+      }
+      state.active++;
+      state.lastStart = Date.now();
+      state.queue.shift()?.();
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { RobotsTxt } from "./robots";
+
+describe("RobotsTxt", () => {
+  const robots = new RobotsTxt(`
+    # Generic crawlers
+    User-agent: *
+    Disallow: /private
+    Allow: /private/public
+    Disallow: /*.pdf$
+    Disallow: /search?
+
+    User-agent: fetch-mcp
+    User-agent: other-bot
+    Disallow: /drafts
+  `);
+
+  it("should apply the longest matching rule", () => {
+    expect(robots.isAllowed("/private/data", "curl/8.0")).toBe(false);
+    expect(robots.isAllowed("/private/public/page", "curl/8.0")).toBe(true);
+    expect(robots.isAllowed("/about", "curl/8.0")).toBe(true);
+  });
+
+  it("should support wildcards and end anchors", () => {
+    expect(robots.isAllowed("/files/report.pdf", "curl/8.0")).toBe(false);
+    expect(robots.isAllowed("/files/report.pdf?download=1", "curl/8.0")).toBe(true);
+    expect(robots.isAllowed("/search?q=test", "curl/8.0")).toBe(false);
+  });
+
+  it("should use the group naming the user agent instead of the wildcard group", () => {
+    const userAgent = "fetch-mcp/1.0.0 (+https://github.com/zcaceres/fetch-mcp)";
+    expect(robots.isAllowed("/drafts/1", userAgent)).toBe(false);
+    expect(robots.isAllowed("/private/data", userAgent)).toBe(true);
+  });
+
+  it("should allow everything for an empty file", () => {
+    expect(new RobotsTxt("").isAllowed("/anything", "curl/8.0")).toBe(true);
+  });
+});
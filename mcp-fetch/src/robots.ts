@@ -0,0 +1,109 @@
+type Rule = { allow: boolean; pattern: string; regex: RegExp };
+
+type Group = { agents: string[]; rules: Rule[] };
+
+const toRegex = (pattern: string) => {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+};
+
+/** Parsed robots.txt following RFC 9309: the most specific matching rule wins, ties go to Allow */
+export class RobotsTxt {
+  private groups: Group[] = [];
+
+  constructor(text: string) {
+    let current: Group | undefined;
+    let lastWasAgent = false;
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, "").trim();
+      const separator = line.indexOf(":");
+      if (separator < 0) {
+        continue;
+      }
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === "user-agent") {
+        // Consecutive user-agent lines share one group
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: [] };
+          this.groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      }
+      lastWasAgent = false;
+      if (current && (field === "allow" || field === "disallow") && value) {
+        current.rules.push({ allow: field === "allow", pattern: value, regex: toRegex(value) });
+      }
+    }
+  }
+
+  isAllowed(pathWithQuery: string, userAgent: string): boolean {
+    // Match on the product token, e.g. "fetch-mcp" from "fetch-mcp/1.0.0 (+https://...)"
+    const product = userAgent.split(/[/\s]/)[0].toLowerCase();
+    const named = this.groups.filter((group) =>
+      group.agents.some((agent) => agent !== "*" && product.includes(agent)),
+    );
+    const groups = named.length > 0 ? named : this.groups.filter((g) => g.agents.includes("*"));
+
+    let best: Rule | undefined;
+    for (const rule of groups.flatMap((group) => group.rules)) {
+      if (!rule.regex.test(pathWithQuery)) {
+        continue;
+      }
+      if (
+        !best ||
+        rule.pattern.length > best.pattern.length ||
+        (rule.pattern.length === best.pattern.length && rule.allow)
+      ) {
+        best = rule;
+      }
+    }
+    return best?.allow ?? true;
+  }
+}
+
+/** Downloads and caches robots.txt per origin */
+export class RobotsChecker {
+  private cache = new Map<string, { robots: RobotsTxt | "allow" | "deny"; fetchedAt: number }>();
+
+  constructor(
+    private userAgent: string,
+    private fetchRobots: (url: string) => Promise<Response>,
+    private ttlMs = 60 * 60 * 1000,
+  ) {}
+
+  async isAllowed(url: URL): Promise<boolean> {
+    if (url.pathname === "/robots.txt") {
+      return true;
+    }
+    let cached = this.cache.get(url.origin);
+    if (!cached || Date.now() - cached.fetchedAt > this.ttlMs) {
+      cached = { robots: await this.load(url.origin), fetchedAt: Date.now() };
+      this.cache.set(url.origin, cached);
+    }
+    if (typeof cached.robots === "string") {
+      return cached.robots === "allow";
+    }
+    return cached.robots.isAllowed(url.pathname + url.search, this.userAgent);
+  }
+
+  private async load(origin: string): Promise<RobotsTxt | "allow" | "deny"> {
+    try {
+      const response = await this.fetchRobots(`${origin}/robots.txt`);
+      if (response.ok) {
+        return new RobotsTxt(await response.text());
+      }
+      // RFC 9309: a missing robots.txt allows everything, a server error disallows everything
+      return response.status >= 500 ? "deny" : "allow";
+    } catch {
+      return "allow";
+    }
+  }
+}
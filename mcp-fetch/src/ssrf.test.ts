@@ -0,0 +1,77 @@
+import { UrlGuard } from "./ssrf";
+
+const records: Record<string, string[]> = {
+  "example.com": ["93.184.216.34"],
+  "metadata.evil.test": ["169.254.169.254"],
+  "mixed.evil.test": ["93.184.216.34", "10.0.0.5"],
+  "v6.evil.test": ["::ffff:127.0.0.1"],
+  "intranet.corp": ["10.1.2.3"],
+};
+
+const resolve = async (hostname: string) => records[hostname] ?? [];
+
+const makeGuard = (allowHosts: string[] = [], denyHosts: string[] = []) =>
+  new UrlGuard({ allowHosts, denyHosts }, resolve);
+
+describe("UrlGuard", () => {
+  it("should allow public hosts", async () => {
+    await expect(makeGuard().check(new URL("https://example.com/page"))).resolves.toEqual([
+      "93.184.216.34",
+    ]);
+  });
+
+  it("should block non-http schemes", async () => {
+    await expect(makeGuard().check(new URL("file:///etc/passwd"))).rejects.toThrow(
+      "only supports http and https",
+    );
+    await expect(makeGuard().check(new URL("gopher://example.com"))).rejects.toThrow(
+      "only supports http and https",
+    );
+  });
+
+  it("should block private address literals", async () => {
+    for (const url of [
+      "http://127.0.0.1/",
+      "http://2130706433/",
+      "http://[::1]/",
+      "http://[::ffff:169.254.169.254]/",
+      "http://192.168.1.1/",
+      "http://0.0.0.0/",
+    ]) {
+      await expect(makeGuard().check(new URL(url))).rejects.toThrow("private IP");
+    }
+  });
+
+  it("should block hostnames that resolve to private addresses", async () => {
+    for (const host of ["metadata.evil.test", "mixed.evil.test", "v6.evil.test"]) {
+      await expect(makeGuard().check(new URL(`http://${host}/`))).rejects.toThrow("private IP");
+    }
+  });
+
+  it("should reject hosts that do not resolve", async () => {
+    await expect(makeGuard().check(new URL("http://missing.test/"))).rejects.toThrow(
+      "Could not resolve missing.test",
+    );
+  });
+
+  it("should exempt allowed hosts and CIDRs from the private address block", async () => {
+    await expect(
+      makeGuard(["*.corp"]).check(new URL("http://intranet.corp/")),
+    ).resolves.toEqual(["10.1.2.3"]);
+    await expect(
+      makeGuard(["10.0.0.0/8"]).check(new URL("http://intranet.corp/")),
+    ).resolves.toEqual(["10.1.2.3"]);
+    await expect(
+      makeGuard(["10.0.0.0/8"]).check(new URL("http://metadata.evil.test/")),
+    ).rejects.toThrow("private IP");
+  });
+
+  it("should refuse denied hosts and CIDRs", async () => {
+    await expect(
+      makeGuard([], ["*.example.com"]).check(new URL("https://www.example.com/")),
+    ).rejects.toThrow("denied host www.example.com");
+    await expect(
+      makeGuard([], ["93.184.216.0/24"]).check(new URL("https://example.com/")),
+    ).rejects.toThrow("denied address 93.184.216.34");
+  });
+});
@@ -0,0 +1,116 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+// Ranges that must never be reachable from a fetch issued by a model
+const BLOCKED_RANGES: Array<[string, number, "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.0.2.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["198.51.100.0", 24, "ipv4"],
+  ["203.0.113.0", 24, "ipv4"],
+  ["224.0.0.0", 4, "ipv4"],
+  ["240.0.0.0", 4, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["64:ff9b::", 96, "ipv6"],
+  ["2001:db8::", 32, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+const family = (address: string) => (isIP(address) === 6 ? "ipv6" : "ipv4");
+
+type HostRules = { hosts: string[]; cidrs: BlockList; hasCidrs: boolean };
+
+/** Splits host list entries into hostname patterns and IP/CIDR ranges */
+function toHostRules(entries: string[]): HostRules {
+  const rules: HostRules = { hosts: [], cidrs: new BlockList(), hasCidrs: false };
+  for (const entry of entries.map((e) => e.trim().toLowerCase()).filter(Boolean)) {
+    const [address, prefix] = entry.split("/");
+    if (isIP(address)) {
+      const type = family(address);
+      rules.cidrs.addSubnet(address, prefix ? Number(prefix) : type === "ipv6" ? 128 : 32, type);
+      rules.hasCidrs = true;
+    } else {
+      rules.hosts.push(entry);
+    }
+  }
+  return rules;
+}
+
+/** Matches exact hostnames and "*.example.com" patterns */
+function matchesHost(hostname: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.startsWith("*.")
+      ? hostname.endsWith(pattern.slice(1)) || hostname === pattern.slice(2)
+      : hostname === pattern,
+  );
+}
+
+export type UrlGuardOptions = {
+  // Hostnames ("*.example.com") or IPs/CIDRs that may be fetched even if they resolve to private ranges
+  allowHosts: string[];
+  // Hostnames or IPs/CIDRs that are always refused
+  denyHosts: string[];
+};
+
+/**
+ * Validates every URL (including each redirect hop) before it is requested:
+ * only http(s) is allowed, and the host is resolved so names pointing at
+ * loopback, private or link-local addresses are refused. The validated
+ * addresses are returned so the caller can connect to exactly those.
+ */
+export class UrlGuard {
+  private blocked = new BlockList();
+  private allow: HostRules;
+  private deny: HostRules;
+
+  constructor(
+    options: UrlGuardOptions,
+    private resolve: (hostname: string) => Promise<string[]> = async (hostname) =>
+      (await lookup(hostname, { all: true, verbatim: true })).map((r) => r.address),
+  ) {
+    for (const [address, prefix, type] of BLOCKED_RANGES) {
+      this.blocked.addSubnet(address, prefix, type);
+    }
+    this.allow = toHostRules(options.allowHosts);
+    this.deny = toHostRules(options.denyHosts);
+  }
+
+  async check(url: URL): Promise<string[]> {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error(`Fetcher only supports http and https URLs, got ${url.protocol}`);
+    }
+    const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+    if (matchesHost(hostname, this.deny.hosts)) {
+      throw new Error(`Fetcher blocked a request to denied host ${hostname}`);
+    }
+    const hostAllowed = matchesHost(hostname, this.allow.hosts);
+
+    const addresses = isIP(hostname) ? [hostname] : await this.resolve(hostname);
+    if (addresses.length === 0) {
+      throw new Error(`Could not resolve ${hostname}`);
+    }
+    for (const address of addresses) {
+      const type = family(address);
+      if (this.deny.hasCidrs && this.deny.cidrs.check(address, type)) {
+        throw new Error(`Fetcher blocked a request to denied address ${address} (${hostname})`);
+      }
+      const allowed = hostAllowed || (this.allow.hasCidrs && this.allow.cidrs.check(address, type));
+      if (!allowed && this.blocked.check(address, type)) {
+        throw new Error(
+          `Fetcher blocked an attempt to fetch a private IP ${address} (${hostname}). This is to prevent a security vulnerability where a local MCP could fetch privileged local IPs and exfiltrate data.`,
+        );
+      }
+    }
+    return addresses;
+  }
+}
@@ -7,6 +7,27 @@ export const RequestPayloadSchema = z.object({
   start_index: z.number().int().min(0).optional().default(0),
 });
 
+// The extraction tools return JSON, so they page by item instead of by character
+export const PagePayloadSchema = z.object({
+  url: z.string().url(),
+  headers: z.record(z.string()).optional(),
+});
+
+export const ItemPayloadSchema = PagePayloadSchema.extend({
+  offset: z.number().int().min(0).optional().default(0),
+  limit: z.number().int().min(1).optional().default(50),
+});
+
+export const SelectorPayloadSchema = ItemPayloadSchema.extend({
+  selector: z.string().min(1).optional(),
+});
+
+export const TablesPayloadSchema = SelectorPayloadSchema.extend({
+  format: z.enum(["json", "csv"]).optional().default("json"),
+});
+
+export const FeedPayloadSchema = ItemPayloadSchema;
+
 // Make sure TypeScript treats the fields as optional with defaults
 export type RequestPayload = {
   url: string;
@@ -14,3 +35,42 @@ export type RequestPayload = {
   max_length?: number;
   start_index?: number;
 };
+
+export type PagePayload = {
+  url: string;
+  headers?: Record<string, string>;
+};
+
+export type ItemPayload = PagePayload & {
+  // Index of the first item (table row, link or feed entry) to return
+  offset?: number;
+  // Maximum number of items to return
+  limit?: number;
+};
+
+export type SelectorPayload = ItemPayload & {
+  // CSS selector limiting extraction to one section of the page
+  selector?: string;
+};
+
+export type TablesPayload = SelectorPayload & {
+  format?: "json" | "csv";
+};
+
+export type FeedPayload = ItemPayload;
+
+// Reported with every fetch result so long documents can be paged through with start_index
+export type Pagination = {
+  total_length: number;
+  start_index: number;
+  end_index: number;
+  next_start_index: number | null;
+};
+
+// Reported by the extraction tools, which page through table rows, links or feed entries
+export type ItemPagination = {
+  total_items: number;
+  offset: number;
+  limit: number;
+  next_offset: number | null;
+};
@@ -0,0 +1,259 @@
+import { ContactsService } from '../../../services/contacts/index.js';
+import { CONTACTS_SCOPES } from '../../../modules/contacts/scopes.js';
+import { ContactsError } from '../../../modules/contacts/types.js';
+import { getAccountManager } from '../../../modules/accounts/index.js';
+
+jest.mock('../../../modules/accounts/index.js');
+
+describe('ContactsService', () => {
+  let contactsService: ContactsService;
+  let mockPeopleClient: any;
+  let mockAccountManager: any;
+  const testEmail = 'test@example.com';
+
+  const anna = {
+    resourceName: 'people/c1',
+    names: [{ displayName: 'Anna Schmidt' }],
+    emailAddresses: [{ value: 'anna@example.com' }],
+    organizations: [{ name: 'Example', department: 'Finance' }]
+  };
+  const annaSales = {
+    resourceName: 'people/c2',
+    names: [{ displayName: 'Anna Berg' }],
+    emailAddresses: [{ value: 'anna.berg@example.com' }],
+    organizations: [{ name: 'Example', department: 'Sales' }]
+  };
+
+  const grantScopes = (scopes: string[]) => {
+    mockAccountManager.validateToken.mockResolvedValue({ valid: true, token: {}, requiredScopes: scopes });
+  };
+
+  beforeEach(async () => {
+    process.env.CONTACTS_WRITE_ENABLED = 'true';
+    process.env.CONTACTS_OTHER_ENABLED = 'true';
+    process.env.CONTACTS_DIRECTORY_ENABLED = 'true';
+    mockPeopleClient = {
+      people: {
+        get: jest.fn().mockResolvedValue({ data: {} }),
+        searchContacts: jest.fn().mockResolvedValue({ data: {} }),
+        searchDirectoryPeople: jest.fn().mockResolvedValue({ data: {} }),
+        createContact: jest.fn().mockResolvedValue({ data: {} }),
+        updateContact: jest.fn().mockResolvedValue({ data: {} }),
+        connections: { list: jest.fn().mockResolvedValue({ data: {} }) }
+      },
+      otherContacts: {
+        search: jest.fn().mockResolvedValue({ data: {} })
+      }
+    };
+
+    mockAccountManager = {
+      validateToken: jest.fn(),
+      getAuthClient: jest.fn().mockResolvedValue({}),
+      withTokenRenewal: jest.fn().mockImplementation((email, operation) => operation())
+    };
+    (getAccountManager as jest.Mock).mockReturnValue(mockAccountManager);
+    grantScopes(Object.values(CONTACTS_SCOPES));
+
+    contactsService = new ContactsService();
+    await contactsService.initialize();
+    (contactsService as any).getAuthenticatedClient = jest.fn().mockResolvedValue(mockPeopleClient);
+  });
+
+  afterEach(() => {
+    delete process.env.CONTACTS_WRITE_ENABLED;
+    delete process.env.CONTACTS_OTHER_ENABLED;
+    delete process.env.CONTACTS_DIRECTORY_ENABLED;
+  });
+
+  describe('searchContacts', () => {
+    it('should search all sources and tag results with their source', async () => {
+      mockPeopleClient.people.searchContacts.mockResolvedValue({ data: { results: [{ person: anna }] } });
+      mockPeopleClient.people.searchDirectoryPeople.mockResolvedValue({ data: { people: [annaSales] } });
+
+      const result = await contactsService.searchContacts({ email: testEmail, query: 'anna' });
+
+      expect(result.results.map(contact => [contact.resourceName, contact.source])).toEqual([
+        ['people/c1', 'contacts'],
+        ['people/c2', 'directory']
+      ]);
+      expect(result.skippedSources).toBeUndefined();
+      expect(mockPeopleClient.otherContacts.search).toHaveBeenCalledWith(
+        expect.objectContaining({ query: 'anna' })
+      );
+    });
+
+    it('should skip sources whose scope was not granted', async () => {
+      grantScopes([CONTACTS_SCOPES.READONLY]);
+      mockPeopleClient.people.searchContacts.mockResolvedValue({ data: { results: [{ person: anna }] } });
+
+      const result = await contactsService.searchContacts({ email: testEmail, query: 'anna' });
+
+      expect(result.results).toHaveLength(1);
+      expect(result.skippedSources?.map(skipped => skipped.source)).toEqual(['otherContacts', 'directory']);
+      expect(mockPeopleClient.people.searchDirectoryPeople).not.toHaveBeenCalled();
+    });
+
+    it('should report failing sources without failing the search', async () => {
+      mockPeopleClient.people.searchDirectoryPeople.mockRejectedValue(new Error('Not a Workspace account'));
+
+      const result = await contactsService.searchContacts({ email: testEmail, query: 'anna' });
+
+      expect(result.skippedSources).toEqual([{ source: 'directory', reason: 'Not a Workspace account' }]);
+    });
+
+    it('should only search the directory when directory search is enabled', async () => {
+      delete process.env.CONTACTS_DIRECTORY_ENABLED;
+
+      const result = await contactsService.searchContacts({ email: testEmail, query: 'anna' });
+      expect(result.skippedSources).toBeUndefined();
+
+      const explicit = await contactsService.searchContacts({ email: testEmail, query: 'anna', sources: ['contacts', 'directory'] });
+      expect(explicit.skippedSources?.map(skipped => skipped.source)).toEqual(['directory']);
+      expect(mockPeopleClient.people.searchDirectoryPeople).not.toHaveBeenCalled();
+    });
+
+    it('should only search other contacts when it is enabled', async () => {
+      delete process.env.CONTACTS_OTHER_ENABLED;
+      grantScopes([CONTACTS_SCOPES.READONLY, CONTACTS_SCOPES.DIRECTORY_READONLY]);
+
+      const result = await contactsService.searchContacts({ email: testEmail, query: 'anna' });
+      expect(result.skippedSources).toBeUndefined();
+
+      const explicit = await contactsService.searchContacts({ email: testEmail, query: 'anna', sources: ['contacts', 'otherContacts'] });
+      expect(explicit.skippedSources).toEqual([
+        { source: 'otherContacts', reason: 'Other contacts search is disabled, set CONTACTS_OTHER_ENABLED=true to enable it' }
+      ]);
+      expect(mockPeopleClient.otherContacts.search).not.toHaveBeenCalled();
+    });
+
+    it('should require a query', async () => {
+      await expect(contactsService.searchContacts({ email: testEmail, query: ' ' }))
+        .rejects.toThrow(ContactsError);
+    });
+  });
+
+  describe('createContact', () => {
+    it('should map contact fields to a person', async () => {
+      mockPeopleClient.people.createContact.mockResolvedValue({ data: { resourceName: 'people/c3', etag: 'e1' } });
+
+      const result = await contactsService.createContact({
+        email: testEmail,
+        contact: { givenName: 'Anna', emailAddresses: [{ value: 'anna@example.com' }], notes: 'Met at the fair' }
+      });
+
+      expect(result).toEqual({ resourceName: 'people/c3', etag: 'e1' });
+      expect(mockPeopleClient.people.createContact).toHaveBeenCalledWith(expect.objectContaining({
+        requestBody: {
+          names: [{ givenName: 'Anna', familyName: undefined }],
+          emailAddresses: [{ value: 'anna@example.com', type: undefined }],
+          biographies: [{ value: 'Met at the fair', contentType: 'TEXT_PLAIN' }]
+        }
+      }));
+    });
+
+    it('should require the contacts write scope', async () => {
+      grantScopes([CONTACTS_SCOPES.READONLY]);
+
+      await expect(contactsService.createContact({ email: testEmail, contact: { givenName: 'Anna' } }))
+        .rejects.toThrow(ContactsError);
+      expect(mockPeopleClient.people.createContact).not.toHaveBeenCalled();
+    });
+
+    it('should fail when write access is not enabled', async () => {
+      delete process.env.CONTACTS_WRITE_ENABLED;
+
+      await expect(contactsService.createContact({ email: testEmail, contact: { givenName: 'Anna' } }))
+        .rejects.toMatchObject({ code: 'WRITE_DISABLED' });
+      expect(mockPeopleClient.people.createContact).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateContact', () => {
+    it('should fetch the etag and update only the given fields', async () => {
+      mockPeopleClient.people.get.mockResolvedValue({ data: { etag: 'current' } });
+
+      await contactsService.updateContact({
+        email: testEmail,
+        resourceName: 'people/c1',
+        contact: { phoneNumbers: [{ value: '+49 30 1234' }] }
+      });
+
+      expect(mockPeopleClient.people.updateContact).toHaveBeenCalledWith(expect.objectContaining({
+        resourceName: 'people/c1',
+        updatePersonFields: 'phoneNumbers',
+        requestBody: { phoneNumbers: [{ value: '+49 30 1234', type: undefined }], etag: 'current' }
+      }));
+    });
+
+    it('should keep the name parts that are not updated', async () => {
+      mockPeopleClient.people.get.mockResolvedValue({
+        data: { etag: 'current', names: [{ displayName: 'Dr. Anna Maria Schmidt', honorificPrefix: 'Dr.', givenName: 'Anna', middleName: 'Maria', familyName: 'Schmidt' }] }
+      });
+
+      await contactsService.updateContact({
+        email: testEmail,
+        resourceName: 'people/c1',
+        etag: 'given',
+        contact: { givenName: 'Anne' }
+      });
+
+      expect(mockPeopleClient.people.get).toHaveBeenCalledWith({ resourceName: 'people/c1', personFields: 'metadata,names' });
+      expect(mockPeopleClient.people.updateContact).toHaveBeenCalledWith(expect.objectContaining({
+        updatePersonFields: 'names',
+        requestBody: {
+          names: [{ givenName: 'Anne', middleName: 'Maria', familyName: 'Schmidt', honorificPrefix: 'Dr.' }],
+          etag: 'given'
+        }
+      }));
+    });
+
+    it('should not fetch the contact when the etag is given and no name changes', async () => {
+      await contactsService.updateContact({
+        email: testEmail,
+        resourceName: 'people/c1',
+        etag: 'given',
+        contact: { notes: 'Prefers email' }
+      });
+
+      expect(mockPeopleClient.people.get).not.toHaveBeenCalled();
+      expect(mockPeopleClient.people.updateContact).toHaveBeenCalledWith(expect.objectContaining({
+        requestBody: { biographies: [{ value: 'Prefers email', contentType: 'TEXT_PLAIN' }], etag: 'given' }
+      }));
+    });
+  });
+
+  describe('resolveRecipient', () => {
+    beforeEach(() => {
+      mockPeopleClient.people.searchContacts.mockResolvedValue({ data: { results: [{ person: anna }] } });
+      mockPeopleClient.people.searchDirectoryPeople.mockResolvedValue({ data: { people: [annaSales] } });
+    });
+
+    it('should resolve a name qualified by department', async () => {
+      const result = await contactsService.resolveRecipient(testEmail, 'Anna from finance');
+
+      expect(result).toEqual({
+        recipient: 'Anna from finance',
+        address: 'anna@example.com',
+        displayName: 'Anna Schmidt',
+        resourceName: 'people/c1',
+        source: 'contacts'
+      });
+      expect(mockPeopleClient.people.searchContacts).toHaveBeenCalledWith(
+        expect.objectContaining({ query: 'anna' })
+      );
+    });
+
+    it('should fail with the candidates when the name is ambiguous', async () => {
+      await expect(contactsService.resolveRecipient(testEmail, 'Anna')).rejects.toMatchObject({
+        code: 'AMBIGUOUS_RECIPIENT',
+        message: expect.stringContaining('anna.berg@example.com')
+      });
+    });
+
+    it('should fail when no contact matches', async () => {
+      await expect(contactsService.resolveRecipient(testEmail, 'Anna from legal')).rejects.toMatchObject({
+        code: 'RECIPIENT_NOT_FOUND'
+      });
+    });
+  });
+});
@@ -21,6 +21,15 @@ describe('GmailService', () => {
           list: jest.fn().mockImplementation(() => Promise.resolve({ data: {} })),
           get: jest.fn().mockImplementation(() => Promise.resolve({ data: {} })),
           send: jest.fn().mockImplementation(() => Promise.resolve({ data: {} })),
+          batchModify: jest.fn().mockImplementation(() => Promise.resolve({ data: {} })),
+          trash: jest.fn().mockImplementation(() => Promise.resolve({ data: {} })),
+          untrash: jest.fn().mockImplementation(() => Promise.resolve({ data: {} })),
+        },
+        threads: {
+          get: jest.fn().mockImplementation(() => Promise.resolve({ data: {} })),
+          modify: jest.fn().mockImplementation(() => Promise.resolve({ data: {} })),
+          trash: jest.fn().mockImplementation(() => Promise.resolve({ data: {} })),
+          untrash: jest.fn().mockImplementation(() => Promise.resolve({ data: {} })),
         },
         drafts: {
           create: jest.fn().mockImplementation(() => Promise.resolve({ data: {} })),
@@ -62,6 +71,8 @@ describe('GmailService', () => {
     
     (gmailService as any).settingsService.gmailClient = mockGmailClient;
     (gmailService as any).settingsService.getAuthenticatedClient = jest.fn().mockResolvedValue(mockGmailClient);
+
+    (gmailService as any).threadService.gmailClient = mockGmailClient;
   });
 
   describe('getEmails', () => {
@@ -122,6 +133,14 @@ describe('GmailService', () => {
 
       await expect(gmailService.sendEmail(emailParams)).rejects.toThrow();
     });
+
+    it('should reject line breaks in headers without sending', async () => {
+      await expect(gmailService.sendEmail({
+        ...emailParams,
+        subject: 'Test\r\nBcc: eve@example.com'
+      })).rejects.toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+      expect(mockGmailClient.users.messages.send).not.toHaveBeenCalled();
+    });
   });
 
   describe('manageDraft', () => {
@@ -148,6 +167,19 @@ describe('GmailService', () => {
       expect(result).toHaveProperty('id', 'draft1');
     });
 
+    it('should reject line breaks in draft recipients', async () => {
+      await expect(gmailService.manageDraft({
+        action: 'create',
+        email: testEmail,
+        data: {
+          to: ['test@example.com\nBcc: eve@example.com'],
+          subject: 'Draft',
+          body: 'Content'
+        }
+      })).rejects.toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+      expect(mockGmailClient.users.drafts.create).not.toHaveBeenCalled();
+    });
+
     it('should list drafts', async () => {
       // Mock the list call to return draft IDs
       (mockGmailClient.users.drafts.list as jest.Mock).mockImplementation(() =>
@@ -247,4 +279,177 @@ describe('GmailService', () => {
       })).rejects.toThrow();
     });
   });
+
+  describe('threads', () => {
+    const header = (name: string, value: string) => ({ name, value });
+    const base64 = (text: string) => Buffer.from(text).toString('base64');
+    const decodeRaw = (raw: string) => Buffer.from(raw, 'base64').toString();
+
+    it('should get a thread oldest first with a summary', async () => {
+      (mockGmailClient.users.threads.get as jest.Mock).mockImplementation(() =>
+        Promise.resolve({
+          data: {
+            id: 'thread1',
+            messages: [
+              {
+                id: 'msg2',
+                internalDate: '2000',
+                labelIds: ['INBOX', 'UNREAD'],
+                payload: {
+                  headers: [
+                    header('From', 'Anna <anna@example.com>'),
+                    header('To', testEmail),
+                    header('Subject', 'Re: Budget'),
+                    header('Date', 'Tue, 2 Jan 2024 10:00:00 +0000')
+                  ],
+                  mimeType: 'text/plain',
+                  body: { data: base64('Looks good.\n\nOn Mon, Anna wrote:\n> Draft attached') }
+                }
+              },
+              {
+                id: 'msg1',
+                internalDate: '1000',
+                labelIds: ['SENT'],
+                payload: {
+                  headers: [
+                    header('From', testEmail),
+                    header('To', 'Anna <anna@example.com>'),
+                    header('Cc', '"Berg, Tom" <tom@example.com>'),
+                    header('Subject', 'Budget'),
+                    header('Date', 'Mon, 1 Jan 2024 10:00:00 +0000')
+                  ],
+                  mimeType: 'text/plain',
+                  body: { data: base64('Draft attached') }
+                }
+              }
+            ]
+          }
+        })
+      );
+
+      const result = await gmailService.getThread({ email: testEmail, threadId: 'thread1' });
+
+      expect(result.subject).toBe('Budget');
+      expect(result.messages.map(message => message.id)).toEqual(['msg1', 'msg2']);
+      expect(result.messages[1].body).toBe('Looks good.');
+      expect(result.summary).toMatchObject({
+        messageCount: 2,
+        unreadCount: 1,
+        participants: [testEmail, 'Anna <anna@example.com>', '"Berg, Tom" <tom@example.com>'],
+        lastMessageFrom: 'Anna <anna@example.com>',
+        awaitingReply: true
+      });
+    });
+
+    it('should reply all within the thread with threading headers', async () => {
+      (mockGmailClient.users.messages.get as jest.Mock).mockImplementation(() =>
+        Promise.resolve({
+          data: {
+            id: 'msg2',
+            threadId: 'thread1',
+            labelIds: ['INBOX'],
+            payload: {
+              headers: [
+                header('From', 'Anna <anna@example.com>'),
+                header('To', `${testEmail}, tom@example.com`),
+                header('Subject', 'Budget'),
+                header('Message-ID', '<msg2@example.com>'),
+                header('References', '<msg1@example.com>')
+              ]
+            }
+          }
+        })
+      );
+      (mockGmailClient.users.messages.send as jest.Mock).mockImplementation(() =>
+        Promise.resolve({ data: { id: 'msg3', threadId: 'thread1' } })
+      );
+
+      const result = await gmailService.replyToEmail({
+        email: testEmail,
+        messageId: 'msg2',
+        body: 'Thanks',
+        replyAll: true
+      });
+
+      expect(result).toMatchObject({ messageId: 'msg3', threadId: 'thread1', to: ['Anna <anna@example.com>'], cc: ['tom@example.com'] });
+      const request = (mockGmailClient.users.messages.send as jest.Mock).mock.calls[0][0] as any;
+      expect(request.requestBody.threadId).toBe('thread1');
+      const raw = decodeRaw(request.requestBody.raw);
+      expect(raw).toContain('Subject: Re: Budget');
+      expect(raw).toContain('In-Reply-To: <msg2@example.com>');
+      expect(raw).toContain('References: <msg1@example.com> <msg2@example.com>');
+      expect(raw).not.toContain(`Cc: ${testEmail}`);
+    });
+
+    it('should forward a message with its attachments', async () => {
+      (mockGmailClient.users.messages.get as jest.Mock).mockImplementation(() =>
+        Promise.resolve({
+          data: {
+            id: 'msg1',
+            threadId: 'thread1',
+            payload: {
+              headers: [header('From', 'anna@example.com'), header('Subject', 'Report')],
+              mimeType: 'multipart/mixed',
+              parts: [
+                { mimeType: 'text/plain', body: { data: base64('See report') } },
+                { mimeType: 'application/pdf', filename: 'report.pdf', body: { attachmentId: 'att1', size: 3 } }
+              ]
+            }
+          }
+        })
+      );
+      (mockGmailClient.users.messages as any).attachments = {
+        get: jest.fn().mockImplementation(() => Promise.resolve({ data: { data: base64('pdf') } }))
+      };
+      (mockGmailClient.users.messages.send as jest.Mock).mockImplementation(() =>
+        Promise.resolve({ data: { id: 'msg2', threadId: 'thread1' } })
+      );
+
+      const result = await gmailService.forwardEmail({
+        email: testEmail,
+        messageId: 'msg1',
+        to: ['tom@example.com']
+      });
+
+      expect(result.attachments?.map(attachment => attachment.name)).toEqual(['report.pdf']);
+      const request = (mockGmailClient.users.messages.send as jest.Mock).mock.calls[0][0] as any;
+      const raw = decodeRaw(request.requestBody.raw);
+      expect(raw).toContain('Subject: Fwd: Report');
+      expect(raw).toContain('filename="report.pdf"');
+      expect(raw).toContain(base64('pdf'));
+    });
+
+    it('should archive and mark messages and threads as read', async () => {
+      const result = await gmailService.modifyEmails({
+        email: testEmail,
+        messageIds: ['msg1', 'msg2'],
+        threadIds: ['thread1'],
+        action: 'archive',
+        removeLabelIds: ['UNREAD']
+      });
+
+      expect(mockGmailClient.users.messages.batchModify).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: { ids: ['msg1', 'msg2'], addLabelIds: [], removeLabelIds: ['UNREAD', 'INBOX'] }
+      });
+      expect(mockGmailClient.users.threads.modify).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'thread1',
+        requestBody: { addLabelIds: [], removeLabelIds: ['UNREAD', 'INBOX'] }
+      });
+      expect(result).toMatchObject({ modifiedMessages: 2, modifiedThreads: 1 });
+    });
+
+    it('should trash threads', async () => {
+      const result = await gmailService.modifyEmails({ email: testEmail, threadIds: ['thread1'], action: 'trash' });
+
+      expect(mockGmailClient.users.threads.trash).toHaveBeenCalledWith({ userId: 'me', id: 'thread1' });
+      expect(mockGmailClient.users.messages.batchModify).not.toHaveBeenCalled();
+      expect(result.trashed).toBe(true);
+    });
+
+    it('should require messages or threads to modify', async () => {
+      await expect(gmailService.modifyEmails({ email: testEmail, action: 'archive' })).rejects.toThrow('No messages to modify');
+    });
+  });
 });
@@ -0,0 +1,65 @@
+import { registerContactsScopes, CONTACTS_SCOPES } from '../scopes.js';
+import { scopeRegistry } from '../../tools/scope-registry.js';
+
+describe('Contacts Scopes', () => {
+  beforeEach(() => {
+    // Reset the scope registry before each test
+    // @ts-expect-error - accessing private property for testing
+    scopeRegistry.scopes = new Map();
+    // @ts-expect-error - accessing private property for testing
+    scopeRegistry.scopeOrder = [];
+  });
+
+  afterEach(() => {
+    delete process.env.CONTACTS_WRITE_ENABLED;
+    delete process.env.CONTACTS_OTHER_ENABLED;
+    delete process.env.CONTACTS_DIRECTORY_ENABLED;
+  });
+
+  it('should only register the read-only contacts scope by default', () => {
+    registerContactsScopes();
+
+    expect(scopeRegistry.getAllScopes()).toEqual([CONTACTS_SCOPES.READONLY]);
+  });
+
+  it('should register all Contacts scopes when write access and every lookup source are enabled', () => {
+    process.env.CONTACTS_WRITE_ENABLED = 'true';
+    process.env.CONTACTS_OTHER_ENABLED = 'true';
+    process.env.CONTACTS_DIRECTORY_ENABLED = 'true';
+    registerContactsScopes();
+    const registeredScopes = scopeRegistry.getAllScopes();
+
+    const requiredScopes = [
+      CONTACTS_SCOPES.READONLY,          // For reading and searching contacts
+      CONTACTS_SCOPES.CONTACTS,          // For creating/updating contacts
+      CONTACTS_SCOPES.OTHER_READONLY,    // For searching other contacts
+      CONTACTS_SCOPES.DIRECTORY_READONLY // For searching the domain directory
+    ];
+
+    requiredScopes.forEach(scope => {
+      expect(registeredScopes).toContain(scope);
+    });
+  });
+
+  it('should register the readonly scope first', () => {
+    process.env.CONTACTS_WRITE_ENABLED = 'true';
+    process.env.CONTACTS_OTHER_ENABLED = 'true';
+    registerContactsScopes();
+    const registeredScopes = scopeRegistry.getAllScopes();
+
+    expect(registeredScopes.indexOf(CONTACTS_SCOPES.READONLY))
+      .toBeLessThan(registeredScopes.indexOf(CONTACTS_SCOPES.CONTACTS));
+    expect(registeredScopes.indexOf(CONTACTS_SCOPES.CONTACTS))
+      .toBeLessThan(registeredScopes.indexOf(CONTACTS_SCOPES.OTHER_READONLY));
+  });
+
+  it('should maintain scope registration when re-registering', () => {
+    registerContactsScopes();
+    const initialScopes = scopeRegistry.getAllScopes();
+
+    registerContactsScopes();
+    const finalScopes = scopeRegistry.getAllScopes();
+
+    expect(finalScopes).toEqual(initialScopes);
+  });
+});
@@ -2,19 +2,38 @@
  * Contacts module entry point.
  * Exports types, services, and initialization functions for the contacts module.
  */
+import { ContactsService } from '../../services/contacts/index.js';
 
 // Export types
 export * from './types.js';
 
 // Export scopes
-export { CONTACTS_SCOPES } from './scopes.js';
+export {
+  CONTACTS_SCOPES,
+  registerContactsScopes,
+  isContactsWriteEnabled,
+  isOtherContactsSearchEnabled,
+  isDirectorySearchEnabled
+} from './scopes.js';
+
+export { ContactsService };
+
+// Get singleton instance
+let serviceInstance: ContactsService | undefined;
+
+export async function getContactsService(): Promise<ContactsService> {
+  if (!serviceInstance) {
+    serviceInstance = new ContactsService();
+    await serviceInstance.ensureInitialized();
+  }
+  return serviceInstance;
+}
 
 /**
  * Initialize the contacts module.
  * This function is called during server startup to set up any required resources.
  */
 export async function initializeContactsModule(): Promise<void> {
-  // Currently no async initialization needed
-  // This function is a placeholder for future initialization logic
-  return Promise.resolve();
+  const service = await getContactsService();
+  await service.ensureInitialized();
 }
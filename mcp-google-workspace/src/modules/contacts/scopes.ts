@@ -3,10 +3,67 @@ import { scopeRegistry } from "../../modules/tools/scope-registry.js";
 // Define Contacts scopes as constants
 // Reference: https://developers.google.com/people/api/rest/v1/people.connections/list (and other People API docs)
 export const CONTACTS_SCOPES = {
-  READONLY: "https://www.googleapis.com/auth/contacts.readonly",
-  // Add other scopes like write/modify later if needed
-  // CONTACTS: 'https://www.googleapis.com/auth/contacts'
+  // Core functionality scopes
+  READONLY: "https://www.googleapis.com/auth/contacts.readonly", // Required for reading and searching contacts
+  CONTACTS: "https://www.googleapis.com/auth/contacts", // Required for creating/updating contacts, opt-in
+
+  // Lookup scopes used to resolve recipients by name
+  OTHER_READONLY: "https://www.googleapis.com/auth/contacts.other.readonly", // "Other contacts": people the user interacted with, opt-in
+  DIRECTORY_READONLY: "https://www.googleapis.com/auth/directory.readonly" // Google Workspace domain directory, opt-in
 };
 
-// Register the contacts scopes with the scope registry
-scopeRegistry.registerScope("contacts", CONTACTS_SCOPES.READONLY);
+/**
+ * Whether creating and updating contacts is enabled (CONTACTS_WRITE_ENABLED=true).
+ * Off by default so accounts only grant read access to their contacts.
+ */
+export function isContactsWriteEnabled(): boolean {
+  return process.env.CONTACTS_WRITE_ENABLED === "true";
+}
+
+/**
+ * Whether "other contacts" are searched (CONTACTS_OTHER_ENABLED=true).
+ * Off by default as accounts authorized without it would have to sign in again.
+ */
+export function isOtherContactsSearchEnabled(): boolean {
+  return process.env.CONTACTS_OTHER_ENABLED === "true";
+}
+
+/**
+ * Whether the Google Workspace domain directory is searched (CONTACTS_DIRECTORY_ENABLED=true).
+ * Off by default as it exposes every profile of the user's domain.
+ */
+export function isDirectorySearchEnabled(): boolean {
+  return process.env.CONTACTS_DIRECTORY_ENABLED === "true";
+}
+
+/**
+ * Contacts scopes to request: read access to saved contacts, plus the scopes of the enabled
+ * write access and lookup sources
+ */
+export function getContactsScopes(): string[] {
+  return [
+    CONTACTS_SCOPES.READONLY,
+    ...(isContactsWriteEnabled() ? [CONTACTS_SCOPES.CONTACTS] : []),
+    ...(isOtherContactsSearchEnabled() ? [CONTACTS_SCOPES.OTHER_READONLY] : []),
+    ...(isDirectorySearchEnabled() ? [CONTACTS_SCOPES.DIRECTORY_READONLY] : [])
+  ];
+}
+
+/**
+ * Register Contacts OAuth scopes at startup.
+ *
+ * IMPORTANT: The order of scope registration matters for auth URL generation.
+ * The readonly scope is registered first, followed by the write scope and the lookup scopes.
+ */
+export function registerContactsScopes() {
+  const requiredScopes = getContactsScopes();
+  requiredScopes.forEach(scope => scopeRegistry.registerScope("contacts", scope));
+
+  // Verify all scopes are registered
+  const registeredScopes = scopeRegistry.getAllScopes();
+
+  const missingScopes = requiredScopes.filter(scope => !registeredScopes.includes(scope));
+  if (missingScopes.length > 0) {
+    throw new Error(`Failed to register Contacts scopes: ${missingScopes.join(", ")}`);
+  }
+}
@@ -19,6 +19,87 @@ export interface GetContactsResponse {
   totalItems?: number; // Deprecated
 }
 
+/**
+ * Where a contact search looks:
+ * - contacts: the user's own contacts
+ * - otherContacts: people the user interacted with (e.g. emailed) but never saved
+ * - directory: the Google Workspace domain directory
+ */
+export type ContactSource = "contacts" | "otherContacts" | "directory";
+
+/**
+ * Parameters for searching contacts by name, email address, phone number or organization.
+ */
+export interface SearchContactsParams {
+  email: string; // The user account email
+  query: string;
+  pageSize?: number; // Max number of results per source
+  sources?: ContactSource[]; // Defaults to all sources
+}
+
+/**
+ * Response structure for a contact search.
+ */
+export interface SearchContactsResponse {
+  results: ContactSearchResult[];
+  // Sources that could not be searched, e.g. because the scope was not granted
+  skippedSources?: { source: ContactSource; reason: string }[];
+}
+
+export interface ContactSearchResult extends Contact {
+  source: ContactSource;
+}
+
+/**
+ * Parameters for retrieving a single contact.
+ */
+export interface GetContactParams {
+  email: string; // The user account email
+  resourceName: string; // e.g. 'people/c12345'
+  personFields?: string; // Defaults to names, email addresses, phone numbers and organizations
+}
+
+/**
+ * Contact fields that can be written. Lists replace the existing values of the contact.
+ */
+export interface ContactInput {
+  givenName?: string;
+  familyName?: string;
+  emailAddresses?: EmailAddress[];
+  phoneNumbers?: PhoneNumber[];
+  organizations?: Organization[];
+  notes?: string;
+}
+
+/**
+ * Parameters for creating a contact.
+ */
+export interface CreateContactParams {
+  email: string; // The user account email
+  contact: ContactInput;
+}
+
+/**
+ * Parameters for updating a contact.
+ */
+export interface UpdateContactParams {
+  email: string; // The user account email
+  resourceName: string;
+  etag?: string; // Fetched automatically when omitted
+  contact: ContactInput;
+}
+
+/**
+ * An email address resolved from a recipient name.
+ */
+export interface ResolvedRecipient {
+  recipient: string; // The name as given, e.g. "Anna from finance"
+  address: string;
+  displayName?: string;
+  resourceName?: string;
+  source: ContactSource;
+}
+
 /**
  * Represents a Google Contact (Person).
  * Based on People API Person resource.
@@ -30,7 +111,9 @@ export interface Contact {
   names?: Name[];
   emailAddresses?: EmailAddress[];
   phoneNumbers?: PhoneNumber[];
-  // Add other fields as needed (e.g. photos, addresses, organizations, etc.)
+  organizations?: Organization[];
+  biographies?: Biography[];
+  // Add other fields as needed (e.g. photos, addresses, etc.)
 }
 
 // --- Sub-types based on People API ---
@@ -57,6 +140,18 @@ export interface PhoneNumber {
   // ... other phone fields
 }
 
+export interface Organization {
+  name?: string;
+  department?: string;
+  title?: string;
+  // ... other organization fields
+}
+
+export interface Biography {
+  value?: string;
+  contentType?: string; // e.g. 'TEXT_PLAIN'
+}
+
 /**
  * Base error class for Contacts service.
  */
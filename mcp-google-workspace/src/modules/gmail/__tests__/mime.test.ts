@@ -0,0 +1,56 @@
+import { buildRawMessage } from '../services/mime.js';
+import { GmailError } from '../types.js';
+
+describe('buildRawMessage', () => {
+  const decode = (raw: string) => Buffer.from(raw, 'base64url').toString();
+  const message = {
+    to: ['anna@example.com', '"Berg, Tom" <tom@example.com>'],
+    subject: 'Budget',
+    body: 'Hello'
+  };
+
+  it('should build a base64url encoded multipart message', () => {
+    const raw = buildRawMessage({
+      ...message,
+      cc: ['cc@example.com'],
+      headers: { 'In-Reply-To': '<msg1@example.com>' },
+      attachments: [{ name: 'report "final".pdf', mimeType: 'application/pdf', content: Buffer.from('pdf').toString('base64') }]
+    });
+
+    expect(raw).not.toMatch(/[+/=]/);
+    const text = decode(raw);
+    const boundary = text.match(/boundary="([^"]+)"/)![1];
+    expect(text).toContain('To: anna@example.com, "Berg, Tom" <tom@example.com>\n');
+    expect(text).toContain('Cc: cc@example.com\n');
+    expect(text).not.toContain('Bcc:');
+    expect(text).toContain('In-Reply-To: <msg1@example.com>\n');
+    expect(text).toContain('Subject: Budget\n\n');
+    expect(text).toContain(`Content-Transfer-Encoding: base64\n\n${Buffer.from('Hello').toString('base64')}\n`);
+    expect(text).toContain('Content-Disposition: attachment; filename="report \\"final\\".pdf"\n\n');
+    expect(text.endsWith(`--${boundary}--`)).toBe(true);
+  });
+
+  it('should encode non-ASCII subjects and bodies', () => {
+    const text = decode(buildRawMessage({ ...message, subject: 'Grüße', body: 'Schöne Grüße' }));
+
+    expect(text).toContain(`Subject: =?UTF-8?B?${Buffer.from('Grüße').toString('base64')}?=\n`);
+    expect(text).toContain(Buffer.from('Schöne Grüße').toString('base64'));
+  });
+
+  it.each([
+    ['recipients', { to: ['anna@example.com\r\nBcc: eve@example.com'] }, 'To'],
+    ['cc', { cc: ['cc@example.com\nBcc: eve@example.com'] }, 'Cc'],
+    ['bcc', { bcc: ['bcc@example.com\r'] }, 'Bcc'],
+    ['the subject', { subject: 'Budget\r\nBcc: eve@example.com' }, 'Subject'],
+    ['custom headers', { headers: { References: '<msg1@example.com>\nBcc: eve@example.com' } }, 'References'],
+    ['attachment names', { attachments: [{ name: 'a.pdf\r\n\r\ninjected', mimeType: 'application/pdf', content: '' }] }, 'Attachment names']
+  ])('should reject line breaks in %s', (_, overrides, name) => {
+    const build = () => buildRawMessage({ ...message, ...overrides });
+
+    expect(build).toThrow(GmailError);
+    expect(build).toThrow(expect.objectContaining({
+      code: 'VALIDATION_ERROR',
+      details: `${name} must not contain line breaks`
+    }));
+  });
+});
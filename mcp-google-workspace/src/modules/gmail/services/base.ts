@@ -14,7 +14,14 @@ import {
   Label,
   GetLabelsResponse,
   GetLabelFiltersResponse,
-  LabelFilter
+  LabelFilter,
+  GetThreadParams,
+  GetThreadResponse,
+  ReplyEmailParams,
+  ReplyEmailResponse,
+  ForwardEmailParams,
+  ModifyEmailsParams,
+  ModifyEmailsResponse
 } from '../types.js';
 import { AttachmentIndexService } from '../../attachments/index-service.js';
 
@@ -30,6 +37,7 @@ import { DraftService } from './draft.js';
 import { SettingsService } from './settings.js';
 import { LabelService } from './label.js';
 import { GmailAttachmentService } from './attachment.js';
+import { ThreadService } from './thread.js';
 
 /**
  * Gmail service implementation extending BaseGoogleService for common auth handling.
@@ -41,6 +49,7 @@ export class GmailService extends BaseGoogleService<ReturnType<typeof google.gma
   private settingsService: SettingsService;
   private labelService: LabelService;
   private attachmentService: GmailAttachmentService;
+  private threadService: ThreadService;
   private initialized = false;
   
   constructor(config?: GmailModuleConfig) {
@@ -52,6 +61,7 @@ export class GmailService extends BaseGoogleService<ReturnType<typeof google.gma
     this.draftService = new DraftService(this.attachmentService);
     this.settingsService = new SettingsService();
     this.labelService = new LabelService();
+    this.threadService = new ThreadService(this.attachmentService);
   }
 
   private async ensureInitialized(email: string) {
@@ -109,6 +119,7 @@ export class GmailService extends BaseGoogleService<ReturnType<typeof google.gma
         this.settingsService.updateClient(client);
         this.labelService.updateClient(client);
         this.attachmentService.updateClient(client);
+        this.threadService.updateClient(client);
         
         return client;
       }
@@ -125,6 +136,26 @@ export class GmailService extends BaseGoogleService<ReturnType<typeof google.gma
     return this.emailService.sendEmail(params);
   }
 
+  async getThread(params: GetThreadParams): Promise<GetThreadResponse> {
+    await this.getGmailClient(params.email);
+    return this.threadService.getThread(params);
+  }
+
+  async replyToEmail(params: ReplyEmailParams): Promise<ReplyEmailResponse> {
+    await this.getGmailClient(params.email);
+    return this.threadService.replyToEmail(params);
+  }
+
+  async forwardEmail(params: ForwardEmailParams): Promise<SendEmailResponse> {
+    await this.getGmailClient(params.email);
+    return this.threadService.forwardEmail(params);
+  }
+
+  async modifyEmails(params: ModifyEmailsParams): Promise<ModifyEmailsResponse> {
+    await this.getGmailClient(params.email);
+    return this.threadService.modifyEmails(params);
+  }
+
   async manageDraft(params: ManageDraftParams): Promise<DraftResponse | GetDraftsResponse | SendEmailResponse | void> {
     await this.getGmailClient(params.email);
     return this.draftService.manageDraft(params);
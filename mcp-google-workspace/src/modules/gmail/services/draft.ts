@@ -6,6 +6,7 @@ import {
   IncomingGmailAttachment 
 } from '../types.js';
 import { GmailAttachmentService } from './attachment.js';
+import { buildRawMessage } from './mime.js';
 
 export type DraftAction = 'create' | 'read' | 'update' | 'delete' | 'send';
 
@@ -59,43 +60,25 @@ export class DraftService {
         return this.attachmentService.prepareAttachment(attachment);
       }) || [];
 
-      // Construct email with attachments
-      const boundary = `boundary_${Date.now()}`;
-      const messageParts = [
-        'MIME-Version: 1.0\n',
-        `Content-Type: multipart/mixed; boundary="${boundary}"\n`,
-        `To: ${data.to.join(', ')}\n`,
-        data.cc?.length ? `Cc: ${data.cc.join(', ')}\n` : '',
-        data.bcc?.length ? `Bcc: ${data.bcc.join(', ')}\n` : '',
-        `Subject: ${data.subject}\n\n`,
-        `--${boundary}\n`,
-        'Content-Type: text/plain; charset="UTF-8"\n',
-        'Content-Transfer-Encoding: 7bit\n\n',
-        data.body,
-        '\n'
-      ];
-
-      // Add attachments
-      for (const attachment of processedAttachments) {
-        messageParts.push(
-          `--${boundary}\n`,
-          `Content-Type: ${attachment.mimeType}\n`,
-          'Content-Transfer-Encoding: base64\n',
-          `Content-Disposition: attachment; filename="${attachment.filename}"\n\n`,
-            attachment.content.toString(),
-          '\n'
-        );
-      }
-
-      messageParts.push(`--${boundary}--`);
-      const fullMessage = messageParts.join('');
+      const raw = buildRawMessage({
+        to: data.to,
+        cc: data.cc,
+        bcc: data.bcc,
+        subject: data.subject,
+        body: data.body,
+        attachments: processedAttachments.map(attachment => ({
+          name: attachment.filename,
+          mimeType: attachment.mimeType,
+          content: attachment.content
+        }))
+      });
 
       // Create draft with threadId if it's a reply
       const { data: draft } = await client.users.drafts.create({
         userId: 'me',
         requestBody: {
           message: {
-            raw: Buffer.from(fullMessage).toString('base64'),
+            raw,
             threadId: data.threadId // Include threadId for replies
           }
         }
@@ -112,6 +95,9 @@ export class DraftService {
         attachments: data.attachments
       };
     } catch (error) {
+      if (error instanceof GmailError) {
+        throw error;
+      }
       throw new GmailError(
         'Failed to create draft',
         'CREATE_ERROR',
@@ -203,36 +189,18 @@ export class DraftService {
         return this.attachmentService.prepareAttachment(attachment);
       }) || [];
 
-      // Construct updated email
-      const boundary = `boundary_${Date.now()}`;
-      const messageParts = [
-        'MIME-Version: 1.0\n',
-        `Content-Type: multipart/mixed; boundary="${boundary}"\n`,
-        `To: ${data.to.join(', ')}\n`,
-        data.cc?.length ? `Cc: ${data.cc.join(', ')}\n` : '',
-        data.bcc?.length ? `Bcc: ${data.bcc.join(', ')}\n` : '',
-        `Subject: ${data.subject}\n\n`,
-        `--${boundary}\n`,
-        'Content-Type: text/plain; charset="UTF-8"\n',
-        'Content-Transfer-Encoding: 7bit\n\n',
-        data.body,
-        '\n'
-      ];
-
-      // Add attachments
-      for (const attachment of processedAttachments) {
-        messageParts.push(
-          `--${boundary}\n`,
-          `Content-Type: ${attachment.mimeType}\n`,
-          'Content-Transfer-Encoding: base64\n',
-          `Content-Disposition: attachment; filename="${attachment.filename}"\n\n`,
-          attachment.content,
-          '\n'
-        );
-      }
-
-      messageParts.push(`--${boundary}--`);
-      const fullMessage = messageParts.join('');
+      const raw = buildRawMessage({
+        to: data.to,
+        cc: data.cc,
+        bcc: data.bcc,
+        subject: data.subject,
+        body: data.body,
+        attachments: processedAttachments.map(attachment => ({
+          name: attachment.filename,
+          mimeType: attachment.mimeType,
+          content: attachment.content
+        }))
+      });
 
       // Update draft
       const { data: draft } = await client.users.drafts.update({
@@ -240,7 +208,7 @@ export class DraftService {
         id: draftId,
         requestBody: {
           message: {
-            raw: Buffer.from(fullMessage).toString('base64')
+            raw
           }
         }
       });
@@ -256,6 +224,9 @@ export class DraftService {
         attachments: data.attachments
       };
     } catch (error) {
+      if (error instanceof GmailError) {
+        throw error;
+      }
       throw new GmailError(
         'Failed to update draft',
         'UPDATE_ERROR',
@@ -12,6 +12,7 @@ import {
 } from '../types.js';
 import { SearchService } from './search.js';
 import { GmailAttachmentService } from './attachment.js';
+import { buildRawMessage } from './mime.js';
 import { AttachmentResponseTransformer } from '../../attachments/response-transformer.js';
 import { AttachmentIndexService } from '../../attachments/index-service.js';
 
@@ -270,43 +271,18 @@ export class EmailService {
         } as OutgoingGmailAttachment;
       }) || [];
 
-      // Construct email with attachments
-      const boundary = `boundary_${Date.now()}`;
-      const messageParts = [
-        'MIME-Version: 1.0\n',
-        `Content-Type: multipart/mixed; boundary="${boundary}"\n`,
-        `To: ${to.join(', ')}\n`,
-        cc.length > 0 ? `Cc: ${cc.join(', ')}\n` : '',
-        bcc.length > 0 ? `Bcc: ${bcc.join(', ')}\n` : '',
-        `Subject: ${subject}\n\n`,
-        `--${boundary}\n`,
-        'Content-Type: text/plain; charset="UTF-8"\n',
-        'Content-Transfer-Encoding: 7bit\n\n',
+      const encodedMessage = buildRawMessage({
+        to,
+        cc,
+        bcc,
+        subject,
         body,
-        '\n'
-      ];
-
-      // Add attachments directly from content
-      for (const attachment of processedAttachments) {
-        messageParts.push(
-          `--${boundary}\n`,
-          `Content-Type: ${attachment.mimeType}\n`,
-          'Content-Transfer-Encoding: base64\n',
-          `Content-Disposition: attachment; filename="${attachment.name}"\n\n`,
-          attachment.content,
-          '\n'
-        );
-      }
-
-      messageParts.push(`--${boundary}--`);
-      const fullMessage = messageParts.join('');
-
-      // Encode the email in base64
-      const encodedMessage = Buffer.from(fullMessage)
-        .toString('base64')
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=+$/, '');
+        attachments: processedAttachments.map(attachment => ({
+          name: attachment.name,
+          mimeType: attachment.mimeType,
+          content: attachment.content
+        }))
+      });
 
       // Send the email
       const client = this.ensureClient();
@@ -0,0 +1,79 @@
+import { GmailError } from '../types.js';
+
+export interface RawAttachment {
+  name: string;
+  mimeType: string;
+  content: string; // Base64
+}
+
+export interface RawMessage {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+  headers?: { [name: string]: string };
+  attachments?: RawAttachment[];
+}
+
+/**
+ * Rejects header values with line breaks, which would let a value add headers
+ * of its own or start the message body early
+ */
+function headerValue(name: string, value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new GmailError(
+      'Invalid email header',
+      'VALIDATION_ERROR',
+      `${name} must not contain line breaks`
+    );
+  }
+  return value;
+}
+
+/**
+ * Builds a base64url encoded MIME message, as the Gmail API expects it for sending
+ * messages and saving drafts. Text and attachments are base64 encoded so that
+ * non-ASCII content survives, and non-ASCII subjects use RFC 2047 encoding.
+ */
+export function buildRawMessage({ to, cc = [], bcc = [], subject, body, headers = {}, attachments = [] }: RawMessage): string {
+  const wrap = (base64: string) => base64.replace(/.{1,76}/g, '$&\n');
+  const addressHeader = (name: string, addresses: string[]) =>
+    addresses.length > 0 ? `${name}: ${headerValue(name, addresses.join(', '))}\n` : '';
+  const encodedSubject = /^[\x20-\x7e]*$/.test(headerValue('Subject', subject))
+    ? subject
+    : `=?UTF-8?B?${Buffer.from(subject).toString('base64')}?=`;
+
+  const boundary = `boundary_${Date.now()}`;
+  const messageParts = [
+    'MIME-Version: 1.0\n',
+    `Content-Type: multipart/mixed; boundary="${boundary}"\n`,
+    addressHeader('To', to),
+    addressHeader('Cc', cc),
+    addressHeader('Bcc', bcc),
+    ...Object.entries(headers).map(([name, value]) => `${headerValue('Header names', name)}: ${headerValue(name, value)}\n`),
+    `Subject: ${encodedSubject}\n\n`,
+    `--${boundary}\n`,
+    'Content-Type: text/plain; charset="UTF-8"\n',
+    'Content-Transfer-Encoding: base64\n\n',
+    wrap(Buffer.from(body).toString('base64'))
+  ];
+
+  for (const attachment of attachments) {
+    messageParts.push(
+      `--${boundary}\n`,
+      `Content-Type: ${headerValue('Attachment MIME types', attachment.mimeType)}\n`,
+      'Content-Transfer-Encoding: base64\n',
+      `Content-Disposition: attachment; filename="${headerValue('Attachment names', attachment.name).replace(/"/g, '\\"')}"\n\n`,
+      wrap(attachment.content.replace(/\s/g, ''))
+    );
+  }
+
+  messageParts.push(`--${boundary}--`);
+
+  return Buffer.from(messageParts.join(''))
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
@@ -0,0 +1,553 @@
+import { google, gmail_v1 } from 'googleapis';
+import {
+  GetThreadParams,
+  GetThreadResponse,
+  ThreadMessage,
+  ThreadSummary,
+  ReplyEmailParams,
+  ReplyEmailResponse,
+  ForwardEmailParams,
+  SendEmailResponse,
+  ModifyEmailsParams,
+  ModifyEmailsResponse,
+  EmailStateAction,
+  GmailError,
+  IncomingGmailAttachment
+} from '../types.js';
+import { GmailAttachmentService } from './attachment.js';
+import { RawAttachment, RawMessage, buildRawMessage } from './mime.js';
+
+type GmailMessage = gmail_v1.Schema$Message;
+type GmailMessagePart = gmail_v1.Schema$MessagePart;
+
+// Label changes made by each state action
+const ACTION_LABELS: Record<Exclude<EmailStateAction, 'trash' | 'untrash'>, { add?: string; remove?: string }> = {
+  archive: { remove: 'INBOX' },
+  unarchive: { add: 'INBOX' },
+  mark_read: { remove: 'UNREAD' },
+  mark_unread: { add: 'UNREAD' },
+  star: { add: 'STARRED' },
+  unstar: { remove: 'STARRED' }
+};
+
+// Gmail accepts at most 1000 message IDs per batchModify request
+const BATCH_MODIFY_LIMIT = 1000;
+
+/**
+ * Conversation-level operations: reading whole threads, replying within them,
+ * forwarding messages and changing the state of many messages at once.
+ */
+export class ThreadService {
+  constructor(
+    private attachmentService: GmailAttachmentService,
+    private gmailClient?: ReturnType<typeof google.gmail>
+  ) {}
+
+  /**
+   * Updates the Gmail client instance
+   * @param client - New Gmail client instance
+   */
+  updateClient(client: ReturnType<typeof google.gmail>) {
+    this.gmailClient = client;
+  }
+
+  private ensureClient(): ReturnType<typeof google.gmail> {
+    if (!this.gmailClient) {
+      throw new GmailError(
+        'Gmail client not initialized',
+        'CLIENT_ERROR',
+        'Please ensure the service is initialized'
+      );
+    }
+    return this.gmailClient;
+  }
+
+  /**
+   * Gets all messages of a thread, oldest first, together with a summary of the conversation
+   */
+  async getThread({ email, threadId, includeBodies = true, stripQuotedText = true }: GetThreadParams): Promise<GetThreadResponse> {
+    try {
+      const client = this.ensureClient();
+      const { data } = await client.users.threads.get({
+        userId: 'me',
+        id: threadId,
+        format: includeBodies ? 'full' : 'metadata'
+      });
+
+      const messages = (data.messages || [])
+        .slice()
+        .sort((a, b) => Number(a.internalDate || 0) - Number(b.internalDate || 0))
+        .map(message => this.toThreadMessage(message, includeBodies, stripQuotedText));
+
+      if (messages.length === 0) {
+        throw new GmailError('Thread not found', 'THREAD_ERROR', `Thread ${threadId} has no messages`);
+      }
+
+      return {
+        threadId: data.id || threadId,
+        subject: messages[0].subject,
+        summary: this.summarizeThread(email, messages),
+        messages
+      };
+    } catch (error) {
+      if (error instanceof GmailError) {
+        throw error;
+      }
+      throw new GmailError(
+        'Failed to get thread',
+        'THREAD_ERROR',
+        `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Replies to a message within its thread. The reply goes to the sender (or the
+   * recipients, when replying to a message the account sent) and, for reply-all,
+   * to everyone else on the message except the account itself.
+   */
+  async replyToEmail({ email, messageId, body, replyAll = false, cc = [], bcc = [], attachments = [] }: ReplyEmailParams): Promise<ReplyEmailResponse> {
+    try {
+      const client = this.ensureClient();
+      const { data: original } = await client.users.messages.get({
+        userId: 'me',
+        id: messageId,
+        format: 'metadata',
+        metadataHeaders: ['Subject', 'From', 'To', 'Cc', 'Reply-To', 'Message-ID', 'References']
+      });
+
+      const header = (name: string) => this.getHeader(original.payload, name);
+      const sentByAccount = original.labelIds?.includes('SENT') ||
+        this.addressOf(header('From')) === email.toLowerCase();
+
+      const to = sentByAccount
+        ? this.parseAddressList(header('To'))
+        : this.parseAddressList(header('Reply-To') || header('From'));
+      const replyCc = replyAll
+        ? [...(sentByAccount ? [] : this.parseAddressList(header('To'))), ...this.parseAddressList(header('Cc'))]
+        : [];
+
+      const recipients = this.uniqueAddresses(to, [email]);
+      const ccRecipients = this.uniqueAddresses([...replyCc, ...cc], [email, ...recipients]);
+      if (recipients.length === 0) {
+        throw new GmailError(
+          'Cannot determine reply recipients',
+          'VALIDATION_ERROR',
+          'The original message has no sender or recipients to reply to'
+        );
+      }
+
+      const subject = header('Subject');
+      const response = await this.send(client, original.threadId, {
+        to: recipients,
+        cc: ccRecipients,
+        bcc,
+        subject: /^re:/i.test(subject) ? subject : `Re: ${subject}`,
+        body,
+        headers: this.threadingHeaders(header('Message-ID'), header('References')),
+        attachments: attachments.map(attachment => {
+          const prepared = this.attachmentService.prepareAttachment(attachment);
+          return { name: prepared.filename, mimeType: prepared.mimeType, content: prepared.content };
+        })
+      });
+
+      return {
+        ...response,
+        to: recipients,
+        cc: ccRecipients.length > 0 ? ccRecipients : undefined
+      };
+    } catch (error) {
+      if (error instanceof GmailError) {
+        throw error;
+      }
+      throw new GmailError(
+        'Failed to reply to email',
+        'REPLY_ERROR',
+        `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Forwards a message with its original headers, text and (optionally) attachments
+   */
+  async forwardEmail({ messageId, to, cc = [], bcc = [], body, includeAttachments = true }: ForwardEmailParams): Promise<SendEmailResponse> {
+    try {
+      const client = this.ensureClient();
+      const { data: original } = await client.users.messages.get({
+        userId: 'me',
+        id: messageId,
+        format: 'full'
+      });
+
+      const header = (name: string) => this.getHeader(original.payload, name);
+      const subject = header('Subject');
+      const forwardedHeaders = [
+        '---------- Forwarded message ---------',
+        `From: ${header('From')}`,
+        `Date: ${header('Date')}`,
+        `Subject: ${subject}`,
+        `To: ${header('To')}`,
+        header('Cc') ? `Cc: ${header('Cc')}` : ''
+      ].filter(Boolean).join('\n');
+
+      const attachments: RawAttachment[] = [];
+      if (includeAttachments) {
+        for (const part of this.getAttachmentParts(original.payload)) {
+          attachments.push({
+            name: part.filename!,
+            mimeType: part.mimeType || 'application/octet-stream',
+            content: await this.getPartContent(client, messageId, part)
+          });
+        }
+      }
+
+      return await this.send(client, original.threadId, {
+        to,
+        cc,
+        bcc,
+        subject: /^(fwd?|fw):/i.test(subject) ? subject : `Fwd: ${subject}`,
+        body: `${body ? `${body}\n\n` : ''}${forwardedHeaders}\n\n${this.getBodyText(original.payload)}`,
+        headers: this.threadingHeaders(header('Message-ID'), header('References')),
+        attachments
+      });
+    } catch (error) {
+      if (error instanceof GmailError) {
+        throw error;
+      }
+      throw new GmailError(
+        'Failed to forward email',
+        'FORWARD_ERROR',
+        `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Archives, trashes, marks as read, stars or relabels messages and whole threads.
+   * Messages are modified in batches; threads one by one, as Gmail has no batch API for them.
+   */
+  async modifyEmails({ messageIds = [], threadIds = [], action, addLabelIds = [], removeLabelIds = [] }: ModifyEmailsParams): Promise<ModifyEmailsResponse> {
+    if (messageIds.length === 0 && threadIds.length === 0) {
+      throw new GmailError(
+        'No messages to modify',
+        'VALIDATION_ERROR',
+        'Provide messageIds and/or threadIds'
+      );
+    }
+    if (!action && addLabelIds.length === 0 && removeLabelIds.length === 0) {
+      throw new GmailError(
+        'Nothing to change',
+        'VALIDATION_ERROR',
+        'Provide an action and/or addLabelIds/removeLabelIds'
+      );
+    }
+
+    const add = [...addLabelIds];
+    const remove = [...removeLabelIds];
+    if (action && action !== 'trash' && action !== 'untrash') {
+      const labels = ACTION_LABELS[action];
+      if (labels.add) add.push(labels.add);
+      if (labels.remove) remove.push(labels.remove);
+    }
+
+    try {
+      const client = this.ensureClient();
+
+      if (add.length > 0 || remove.length > 0) {
+        for (let i = 0; i < messageIds.length; i += BATCH_MODIFY_LIMIT) {
+          await client.users.messages.batchModify({
+            userId: 'me',
+            requestBody: {
+              ids: messageIds.slice(i, i + BATCH_MODIFY_LIMIT),
+              addLabelIds: add,
+              removeLabelIds: remove
+            }
+          });
+        }
+        for (const threadId of threadIds) {
+          await client.users.threads.modify({
+            userId: 'me',
+            id: threadId,
+            requestBody: { addLabelIds: add, removeLabelIds: remove }
+          });
+        }
+      }
+
+      if (action === 'trash' || action === 'untrash') {
+        for (const id of messageIds) {
+          await (action === 'trash'
+            ? client.users.messages.trash({ userId: 'me', id })
+            : client.users.messages.untrash({ userId: 'me', id }));
+        }
+        for (const id of threadIds) {
+          await (action === 'trash'
+            ? client.users.threads.trash({ userId: 'me', id })
+            : client.users.threads.untrash({ userId: 'me', id }));
+        }
+      }
+
+      const response: ModifyEmailsResponse = {
+        modifiedMessages: messageIds.length,
+        modifiedThreads: threadIds.length,
+        addLabelIds: add,
+        removeLabelIds: remove
+      };
+      if (action === 'trash' || action === 'untrash') {
+        response.trashed = action === 'trash';
+      }
+      return response;
+    } catch (error) {
+      if (error instanceof GmailError) {
+        throw error;
+      }
+      throw new GmailError(
+        'Failed to modify emails',
+        'MODIFY_ERROR',
+        `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private toThreadMessage(message: GmailMessage, includeBody: boolean, stripQuotedText: boolean): ThreadMessage {
+    const header = (name: string) => this.getHeader(message.payload, name);
+
+    let attachments: IncomingGmailAttachment[] | undefined;
+    const attachmentParts = this.getAttachmentParts(message.payload).filter(part => part.body?.attachmentId);
+    if (attachmentParts.length > 0) {
+      attachments = attachmentParts.map(part => ({
+        id: part.body!.attachmentId!,
+        name: part.filename!,
+        mimeType: part.mimeType || 'application/octet-stream',
+        size: parseInt(String(part.body?.size || '0'))
+      }));
+      // Store in the index so the attachments can be downloaded with manage_workspace_attachment
+      attachments.forEach(attachment => this.attachmentService.addAttachment(message.id!, attachment));
+    }
+
+    let body: string | undefined;
+    if (includeBody) {
+      const text = this.getBodyText(message.payload);
+      body = stripQuotedText ? this.stripQuotedText(text) : text;
+    }
+
+    return {
+      id: message.id!,
+      from: header('From'),
+      to: header('To'),
+      cc: header('Cc') || undefined,
+      date: header('Date'),
+      subject: header('Subject'),
+      snippet: message.snippet || undefined,
+      body,
+      labelIds: message.labelIds || undefined,
+      isUnread: message.labelIds?.includes('UNREAD') || false,
+      attachments
+    };
+  }
+
+  private summarizeThread(email: string, messages: ThreadMessage[]): ThreadSummary {
+    const participants = new Map<string, string>();
+    for (const message of messages) {
+      for (const entry of [message.from, message.to, message.cc].flatMap(value => this.parseAddressList(value))) {
+        const address = this.addressOf(entry);
+        if (address && !participants.has(address)) {
+          participants.set(address, entry);
+        }
+      }
+    }
+
+    const last = messages[messages.length - 1];
+    const lastFromAccount = last.labelIds?.includes('SENT') || this.addressOf(last.from) === email.toLowerCase();
+
+    return {
+      messageCount: messages.length,
+      unreadCount: messages.filter(message => message.isUnread).length,
+      participants: [...participants.values()],
+      firstMessageDate: messages[0].date,
+      lastMessageDate: last.date,
+      lastMessageFrom: last.from,
+      awaitingReply: !lastFromAccount,
+      hasAttachments: messages.some(message => (message.attachments?.length || 0) > 0),
+      labelIds: [...new Set(messages.flatMap(message => message.labelIds || []))]
+    };
+  }
+
+  private getHeader(payload: GmailMessagePart | undefined, name: string): string {
+    const lowerName = name.toLowerCase();
+    return payload?.headers?.find(h => h.name?.toLowerCase() === lowerName)?.value || '';
+  }
+
+  /**
+   * Builds In-Reply-To and References so that mail clients thread the message
+   */
+  private threadingHeaders(messageIdHeader: string, references: string): { [name: string]: string } {
+    if (!messageIdHeader) {
+      return {};
+    }
+    return {
+      'In-Reply-To': messageIdHeader,
+      'References': [references, messageIdHeader].filter(Boolean).join(' ')
+    };
+  }
+
+  /**
+   * Splits an address list header on the commas that separate addresses, not those in quoted names
+   */
+  private parseAddressList(value: string | undefined): string[] {
+    if (!value) {
+      return [];
+    }
+    const entries: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (const char of value) {
+      if (char === '"') {
+        quoted = !quoted;
+      }
+      if (char === ',' && !quoted) {
+        entries.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    entries.push(current);
+    return entries.map(entry => entry.trim()).filter(Boolean);
+  }
+
+  private addressOf(entry: string): string {
+    const match = entry.match(/<([^>]+)>/);
+    return (match ? match[1] : entry).trim().toLowerCase();
+  }
+
+  /**
+   * Removes duplicates and excluded addresses, comparing by address only
+   */
+  private uniqueAddresses(entries: string[], exclude: string[]): string[] {
+    const seen = new Set(exclude.map(entry => this.addressOf(entry)));
+    return entries.filter(entry => {
+      const address = this.addressOf(entry);
+      if (!address || seen.has(address)) {
+        return false;
+      }
+      seen.add(address);
+      return true;
+    });
+  }
+
+  private findPart(part: GmailMessagePart | undefined, mimeType: string): GmailMessagePart | undefined {
+    if (!part) {
+      return undefined;
+    }
+    if (part.mimeType === mimeType && !part.filename && part.body?.data) {
+      return part;
+    }
+    for (const child of part.parts || []) {
+      const found = this.findPart(child, mimeType);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the plain text body, falling back to the HTML body with the markup removed
+   */
+  private getBodyText(payload: GmailMessagePart | undefined): string {
+    const textPart = this.findPart(payload, 'text/plain');
+    if (textPart) {
+      return Buffer.from(textPart.body!.data!, 'base64').toString();
+    }
+    const htmlPart = this.findPart(payload, 'text/html');
+    if (htmlPart) {
+      return Buffer.from(htmlPart.body!.data!, 'base64').toString()
+        .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<br\s*\/?>|<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, '\'')
+        .replace(/&amp;/g, '&')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+    }
+    return '';
+  }
+
+  /**
+   * Drops the quoted earlier messages that replies usually carry
+   */
+  private stripQuotedText(text: string): string {
+    const lines = text.split(/\r?\n/);
+    const kept: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      // "On <date>, <name> wrote:" may be wrapped over two lines
+      if (/^On .+wrote:\s*$/.test(line) || (/^On /.test(line) && /wrote:\s*$/.test(lines[i + 1] || '')) ||
+          /^-{2,}\s*Original Message\s*-{2,}/i.test(line)) {
+        break;
+      }
+      if (!line.startsWith('>')) {
+        kept.push(line);
+      }
+    }
+    return kept.join('\n').trim();
+  }
+
+  private getAttachmentParts(part: GmailMessagePart | undefined): GmailMessagePart[] {
+    if (!part) {
+      return [];
+    }
+    const own = part.filename && (part.body?.attachmentId || part.body?.data) ? [part] : [];
+    return [...own, ...(part.parts || []).flatMap(child => this.getAttachmentParts(child))];
+  }
+
+  /**
+   * Gets the content of an attachment part as standard base64
+   */
+  private async getPartContent(client: ReturnType<typeof google.gmail>, messageId: string, part: GmailMessagePart): Promise<string> {
+    let data = part.body?.data;
+    if (!data && part.body?.attachmentId) {
+      const { data: attachment } = await client.users.messages.attachments.get({
+        userId: 'me',
+        messageId,
+        id: part.body.attachmentId
+      });
+      data = attachment.data;
+    }
+    if (!data) {
+      throw new GmailError('Failed to forward attachment', 'ATTACHMENT_ERROR', `No content for ${part.filename}`);
+    }
+    // Gmail returns base64url, MIME needs standard base64
+    return Buffer.from(data, 'base64').toString('base64');
+  }
+
+  private async send(client: ReturnType<typeof google.gmail>, threadId: string | null | undefined, message: RawMessage): Promise<SendEmailResponse> {
+    const { data } = await client.users.messages.send({
+      userId: 'me',
+      requestBody: {
+        raw: buildRawMessage(message),
+        threadId: threadId || undefined
+      }
+    });
+
+    const response: SendEmailResponse = {
+      messageId: data.id!,
+      threadId: data.threadId!,
+      labelIds: data.labelIds || undefined
+    };
+    if (message.attachments && message.attachments.length > 0) {
+      response.attachments = message.attachments.map(attachment => ({
+        id: '',
+        name: attachment.name,
+        mimeType: attachment.mimeType,
+        size: Buffer.byteLength(attachment.content, 'base64')
+      }));
+    }
+    return response;
+  }
+}
@@ -295,6 +295,101 @@ export interface SendEmailResponse {
   attachments?: GmailAttachment[];
 }
 
+export interface GetThreadParams {
+  email: string;
+  threadId: string;
+  includeBodies?: boolean;    // Defaults to true
+  stripQuotedText?: boolean;  // Remove quoted earlier messages from bodies, defaults to true
+}
+
+export interface ThreadMessage {
+  id: string;
+  from: string;
+  to: string;
+  cc?: string;
+  date: string;
+  subject: string;
+  snippet?: string;
+  body?: string;
+  labelIds?: string[];
+  isUnread: boolean;
+  attachments?: IncomingGmailAttachment[];
+}
+
+/**
+ * Overview of a conversation, derived from its messages
+ */
+export interface ThreadSummary {
+  messageCount: number;
+  unreadCount: number;
+  participants: string[];
+  firstMessageDate: string;
+  lastMessageDate: string;
+  lastMessageFrom: string;
+  awaitingReply: boolean;     // The last message was not sent by the account
+  hasAttachments: boolean;
+  labelIds: string[];
+}
+
+export interface GetThreadResponse {
+  threadId: string;
+  subject: string;
+  summary: ThreadSummary;
+  messages: ThreadMessage[];  // Oldest first
+}
+
+export interface ReplyEmailParams {
+  email: string;
+  messageId: string;          // The message to reply to
+  body: string;
+  replyAll?: boolean;
+  cc?: string[];
+  bcc?: string[];
+  attachments?: OutgoingGmailAttachment[];
+}
+
+export interface ReplyEmailResponse extends SendEmailResponse {
+  to: string[];
+  cc?: string[];
+}
+
+export interface ForwardEmailParams {
+  email: string;
+  messageId: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  body?: string;              // Text placed above the forwarded message
+  includeAttachments?: boolean; // Defaults to true
+}
+
+export type EmailStateAction =
+  | 'archive'
+  | 'unarchive'
+  | 'mark_read'
+  | 'mark_unread'
+  | 'star'
+  | 'unstar'
+  | 'trash'
+  | 'untrash';
+
+export interface ModifyEmailsParams {
+  email: string;
+  messageIds?: string[];
+  threadIds?: string[];
+  action?: EmailStateAction;
+  addLabelIds?: string[];
+  removeLabelIds?: string[];
+}
+
+export interface ModifyEmailsResponse {
+  modifiedMessages: number;
+  modifiedThreads: number;
+  addLabelIds: string[];
+  removeLabelIds: string[];
+  trashed?: boolean;
+}
+
 export class GmailError extends Error implements GmailError {
   code: string;
   details?: string;
@@ -1,4 +1,4 @@
-import { google } from "googleapis";
+import { google, people_v1 } from "googleapis";
 import {
   BaseGoogleService,
   GoogleServiceError
@@ -7,31 +7,93 @@ import { McpError } from "@modelcontextprotocol/sdk/types.js";
 import {
   GetContactsParams,
   GetContactsResponse,
+  GetContactParams,
+  SearchContactsParams,
+  SearchContactsResponse,
+  ContactSearchResult,
+  ContactSource,
+  CreateContactParams,
+  UpdateContactParams,
+  ContactInput,
+  Contact,
+  ResolvedRecipient,
   ContactsError
 } from "../../modules/contacts/types.js";
-import { CONTACTS_SCOPES } from "../../modules/contacts/scopes.js";
+import {
+  CONTACTS_SCOPES,
+  isContactsWriteEnabled,
+  isDirectorySearchEnabled,
+  isOtherContactsSearchEnabled
+} from "../../modules/contacts/scopes.js";
+import { getAccountManager } from "../../modules/accounts/index.js";
 
 // Type alias for the Google People API client
 type PeopleApiClient = ReturnType<typeof google.people>;
 
+// Fields returned by search, get, create and update unless asked otherwise
+const DEFAULT_PERSON_FIELDS = "names,emailAddresses,phoneNumbers,organizations";
+
+const ALL_SOURCES: ContactSource[] = ["contacts", "otherContacts", "directory"];
+
+const SOURCE_SCOPES: Record<ContactSource, string> = {
+  contacts: CONTACTS_SCOPES.READONLY,
+  otherContacts: CONTACTS_SCOPES.OTHER_READONLY,
+  directory: CONTACTS_SCOPES.DIRECTORY_READONLY
+};
+
+/** Why an opt-in source is not searched, if the server has not enabled it */
+function disabledSourceReason(source: ContactSource): string | undefined {
+  if (source === "otherContacts" && !isOtherContactsSearchEnabled()) {
+    return "Other contacts search is disabled, set CONTACTS_OTHER_ENABLED=true to enable it";
+  }
+  if (source === "directory" && !isDirectorySearchEnabled()) {
+    return "Directory search is disabled, set CONTACTS_DIRECTORY_ENABLED=true to enable it";
+  }
+  return undefined;
+}
+
+// Name parts kept from the current name when an update only changes some of them
+const WRITABLE_NAME_FIELDS = ["givenName", "middleName", "familyName", "honorificPrefix", "honorificSuffix"] as const;
+
+// Words joining a name and its qualifiers, as in "Anna from finance"
+const RECIPIENT_FILLER_WORDS = new Set(["from", "in", "at", "of", "the", "on"]);
+
 /**
  * Contacts service implementation extending BaseGoogleService.
  * Handles Google Contacts (People API) specific operations.
  */
 export class ContactsService extends BaseGoogleService<PeopleApiClient> {
+  private initialized = false;
+
   constructor() {
     super({
       serviceName: "people", // Use 'people' for the People API
       version: "v1"
     });
-    // Initialize immediately or ensure initialized before first use
-    this.initialize();
+  }
+
+  /**
+   * Initialize the Contacts service and all dependencies
+   */
+  public async initialize(): Promise<void> {
+    await super.initialize();
+    this.initialized = true;
+  }
+
+  /**
+   * Ensure the Contacts service is initialized
+   */
+  public async ensureInitialized(): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
   }
 
   /**
    * Gets an authenticated People API client for the specified account.
    */
   private async getPeopleClient(email: string): Promise<PeopleApiClient> {
+    await this.ensureInitialized();
     // The clientFactory function tells BaseGoogleService how to create the specific client
     return this.getAuthenticatedClient(email, (auth) =>
       google.people({ version: "v1", auth })
@@ -72,44 +134,379 @@ export class ContactsService extends BaseGoogleService<PeopleApiClient> {
       // Need to handle potential nulls if strict null checks are enabled
       return response.data as GetContactsResponse;
     } catch (error) {
-      // Handle known GoogleServiceError specifically
-      if (error instanceof GoogleServiceError) {
-        // Assuming GoogleServiceError inherits message and data from McpError
-        // Use type assertion as the linter seems unsure
-        const gError = error as McpError & {
-          data?: { code?: string; details?: string };
-        };
-        throw new ContactsError(
-          gError.message || "Error retrieving contacts", // Fallback message
-          gError.data?.code || "GOOGLE_SERVICE_ERROR", // Code from data
-          gError.data?.details // Details from data
-        );
+      throw this.toContactsError(error, "retrieve contacts");
+    }
+  }
+
+  /**
+   * Searches the user's contacts, "other contacts" and the domain directory.
+   * Sources whose scope was not granted, or that do not apply to the account
+   * (e.g. the directory of a personal Gmail account), are skipped and reported.
+   * Other contacts and the directory are only searched when the server enables them.
+   */
+  async searchContacts(params: SearchContactsParams): Promise<SearchContactsResponse> {
+    const {
+      email,
+      query,
+      pageSize = 10,
+      sources = ALL_SOURCES.filter(source => !disabledSourceReason(source))
+    } = params;
+
+    if (!query || !query.trim()) {
+      throw new ContactsError(
+        "Missing required parameter: query",
+        "INVALID_PARAMS",
+        "Specify a name, email address, phone number or organization to search for"
+      );
+    }
+
+    try {
+      const peopleApi = await this.getPeopleClient(email);
+      const grantedScopes = await this.getGrantedScopes(email);
+      const results: ContactSearchResult[] = [];
+      const skippedSources: { source: ContactSource; reason: string }[] = [];
+
+      for (const source of sources) {
+        const disabledReason = disabledSourceReason(source);
+        if (disabledReason) {
+          skippedSources.push({ source, reason: disabledReason });
+          continue;
+        }
+        if (!grantedScopes.includes(SOURCE_SCOPES[source])) {
+          skippedSources.push({ source, reason: `Missing required scope: ${SOURCE_SCOPES[source]}` });
+          continue;
+        }
+        try {
+          const people = await this.searchSource(peopleApi, source, query.trim(), pageSize);
+          results.push(...people.map(person => ({ ...this.toContact(person), source })));
+        } catch (error) {
+          // One failing source should not hide the results of the others
+          skippedSources.push({ source, reason: error instanceof Error ? error.message : "Unknown error" });
+        }
       }
-      // Handle other potential errors (e.g. network errors)
-      else if (error instanceof Error) {
+
+      if (results.length === 0 && skippedSources.length === sources.length) {
         throw new ContactsError(
-          `Failed to retrieve contacts: ${error.message}`,
-          "UNKNOWN_API_ERROR" // More specific code
+          "No contact source could be searched",
+          "SEARCH_UNAVAILABLE",
+          skippedSources.map(skipped => `${skipped.source}: ${skipped.reason}`).join("; ")
         );
       }
-      // Handle non-Error throws
-      else {
-        throw new ContactsError(
-          "Failed to retrieve contacts due to an unknown issue",
-          "UNKNOWN_INTERNAL_ERROR" // More specific code
-        );
+
+      return skippedSources.length > 0 ? { results, skippedSources } : { results };
+    } catch (error) {
+      throw this.toContactsError(error, "search contacts");
+    }
+  }
+
+  /**
+   * Retrieves a single contact by resource name.
+   */
+  async getContact(params: GetContactParams): Promise<Contact> {
+    const { email, resourceName, personFields = DEFAULT_PERSON_FIELDS } = params;
+
+    try {
+      await this.validateScopes(email, [CONTACTS_SCOPES.READONLY]);
+      const peopleApi = await this.getPeopleClient(email);
+      const { data } = await peopleApi.people.get({ resourceName, personFields });
+      return this.toContact(data);
+    } catch (error) {
+      throw this.toContactsError(error, "get contact");
+    }
+  }
+
+  /**
+   * Creates a contact. Requires write access to be enabled and the contacts write scope.
+   */
+  async createContact(params: CreateContactParams): Promise<Contact> {
+    const { email, contact } = params;
+    this.assertWriteEnabled();
+    this.assertContactInput(contact);
+
+    try {
+      await this.validateScopes(email, [CONTACTS_SCOPES.CONTACTS]);
+      const peopleApi = await this.getPeopleClient(email);
+      const { data } = await peopleApi.people.createContact({
+        personFields: DEFAULT_PERSON_FIELDS,
+        requestBody: this.toPerson(contact)
+      });
+      return this.toContact(data);
+    } catch (error) {
+      throw this.toContactsError(error, "create contact");
+    }
+  }
+
+  /**
+   * Updates the given fields of a contact. Requires write access to be enabled and
+   * the contacts write scope.
+   * The People API rejects updates based on a stale etag, so the current one
+   * is fetched when the caller does not pass it. Names are replaced as a whole,
+   * so name parts that are not given are kept from the current name.
+   */
+  async updateContact(params: UpdateContactParams): Promise<Contact> {
+    const { email, resourceName, contact } = params;
+    this.assertWriteEnabled();
+    this.assertContactInput(contact);
+
+    try {
+      await this.validateScopes(email, [CONTACTS_SCOPES.CONTACTS]);
+      const peopleApi = await this.getPeopleClient(email);
+
+      const person = this.toPerson(contact);
+      let etag = params.etag;
+      if (!etag || person.names) {
+        const { data: current } = await peopleApi.people.get({
+          resourceName,
+          personFields: person.names ? "metadata,names" : "metadata"
+        });
+        etag = etag ?? current.etag ?? undefined;
+        if (person.names) {
+          person.names = [this.mergeName(current.names?.[0], contact)];
+        }
       }
+
+      const { data } = await peopleApi.people.updateContact({
+        resourceName,
+        updatePersonFields: Object.keys(person).join(","),
+        personFields: DEFAULT_PERSON_FIELDS,
+        requestBody: { ...person, etag }
+      });
+      return this.toContact(data);
+    } catch (error) {
+      throw this.toContactsError(error, "update contact");
     }
   }
 
-  // Add other methods like searchContacts, createContact, updateContact, deleteContact later
-}
+  /**
+   * Resolves a recipient name such as "Anna" or "Anna from finance" to an email address.
+   * The first word is searched for; the remaining words must all match the contact's
+   * name, email address or organization (name, department or title).
+   * Fails with the candidates when the name is ambiguous.
+   */
+  async resolveRecipient(email: string, recipient: string): Promise<ResolvedRecipient> {
+    const terms = recipient
+      .toLowerCase()
+      .split(/[\s,]+/)
+      .filter(term => term && !RECIPIENT_FILLER_WORDS.has(term));
+
+    if (terms.length === 0) {
+      throw new ContactsError(`Cannot resolve recipient "${recipient}"`, "INVALID_PARAMS", "Use an email address or a contact name");
+    }
+
+    const { results } = await this.searchContacts({ email, query: terms[0], pageSize: 25 });
+    const candidates = new Map<string, { contact: ContactSearchResult; address: string }>();
+    for (const contact of results) {
+      const address = contact.emailAddresses?.find(entry => entry.value)?.value;
+      if (!address || candidates.has(address.toLowerCase())) {
+        continue;
+      }
+      const haystack = [
+        ...(contact.names ?? []).map(name => name.displayName),
+        ...(contact.emailAddresses ?? []).map(entry => entry.value),
+        ...(contact.organizations ?? []).flatMap(org => [org.name, org.department, org.title])
+      ].filter(Boolean).join(" ").toLowerCase();
+      if (terms.every(term => haystack.includes(term))) {
+        candidates.set(address.toLowerCase(), { contact, address });
+      }
+    }
+
+    const matches = [...candidates.values()];
+    if (matches.length === 0) {
+      throw new ContactsError(
+        `No contact with an email address matches "${recipient}"`,
+        "RECIPIENT_NOT_FOUND",
+        "Ask the user for the email address, or search with search_workspace_contacts"
+      );
+    }
+    if (matches.length > 1) {
+      const listed = matches
+        .slice(0, 10)
+        .map(({ contact, address }) => `${this.describeContact(contact)} <${address}>`)
+        .join(", ");
+      throw new ContactsError(
+        `"${recipient}" matches ${matches.length} contacts: ${listed}`,
+        "AMBIGUOUS_RECIPIENT",
+        "Ask the user which contact they mean and use the email address"
+      );
+    }
+
+    const [{ contact, address }] = matches;
+    return {
+      recipient,
+      address,
+      displayName: contact.names?.[0]?.displayName,
+      resourceName: contact.resourceName,
+      source: contact.source
+    };
+  }
+
+  private async searchSource(peopleApi: PeopleApiClient, source: ContactSource, query: string, pageSize: number): Promise<people_v1.Schema$Person[]> {
+    if (source === "contacts") {
+      const { data } = await peopleApi.people.searchContacts({ query, pageSize, readMask: DEFAULT_PERSON_FIELDS });
+      return (data.results ?? []).map(result => result.person).filter((person): person is people_v1.Schema$Person => !!person);
+    }
+    if (source === "otherContacts") {
+      // Other contacts only support a subset of the person fields
+      const { data } = await peopleApi.otherContacts.search({ query, pageSize, readMask: "names,emailAddresses,phoneNumbers" });
+      return (data.results ?? []).map(result => result.person).filter((person): person is people_v1.Schema$Person => !!person);
+    }
+    const { data } = await peopleApi.people.searchDirectoryPeople({
+      query,
+      pageSize,
+      readMask: DEFAULT_PERSON_FIELDS,
+      sources: ["DIRECTORY_SOURCE_TYPE_DOMAIN_PROFILE", "DIRECTORY_SOURCE_TYPE_DOMAIN_CONTACT"]
+    });
+    return data.people ?? [];
+  }
+
+  private async getGrantedScopes(email: string): Promise<string[]> {
+    const tokenInfo = await getAccountManager().validateToken(email);
+    return tokenInfo.requiredScopes ?? [];
+  }
+
+  private describeContact(contact: Contact): string {
+    const name = contact.names?.[0]?.displayName ?? "Unnamed contact";
+    const organization = contact.organizations?.[0];
+    const details = [organization?.title, organization?.department, organization?.name].filter(Boolean).join(", ");
+    return details ? `${name} (${details})` : name;
+  }
+
+  private assertWriteEnabled(): void {
+    if (!isContactsWriteEnabled()) {
+      throw new ContactsError(
+        "Creating and updating contacts is disabled",
+        "WRITE_DISABLED",
+        "Set CONTACTS_WRITE_ENABLED=true and re-authenticate the account to grant Contacts write access"
+      );
+    }
+  }
+
+  private assertContactInput(contact: ContactInput | undefined): void {
+    if (!contact || Object.values(contact).every(value => value === undefined)) {
+      throw new ContactsError(
+        "Missing contact fields",
+        "INVALID_PARAMS",
+        "Provide at least one of givenName, familyName, emailAddresses, phoneNumbers, organizations or notes"
+      );
+    }
+  }
 
-// Optional: Export a singleton instance if needed by the module structure
-// let contactsServiceInstance: ContactsService | null = null;
-// export function getContactsService(): ContactsService {
-//   if (!contactsServiceInstance) {
-//     contactsServiceInstance = new ContactsService();
-//   }
-//   return contactsServiceInstance;
-// }
+  /**
+   * Maps writable contact fields to a People API person, keyed by the person field names
+   */
+  private toPerson(contact: ContactInput): people_v1.Schema$Person {
+    const person: people_v1.Schema$Person = {};
+    if (contact.givenName !== undefined || contact.familyName !== undefined) {
+      person.names = [{ givenName: contact.givenName, familyName: contact.familyName }];
+    }
+    if (contact.emailAddresses) {
+      person.emailAddresses = contact.emailAddresses.map(({ value, type }) => ({ value, type }));
+    }
+    if (contact.phoneNumbers) {
+      person.phoneNumbers = contact.phoneNumbers.map(({ value, type }) => ({ value, type }));
+    }
+    if (contact.organizations) {
+      person.organizations = contact.organizations.map(({ name, department, title }) => ({ name, department, title }));
+    }
+    if (contact.notes !== undefined) {
+      person.biographies = [{ value: contact.notes, contentType: "TEXT_PLAIN" }];
+    }
+    return person;
+  }
+
+  /**
+   * Applies the given name parts to the contact's current name
+   */
+  private mergeName(current: people_v1.Schema$Name | undefined, contact: ContactInput): people_v1.Schema$Name {
+    const name: people_v1.Schema$Name = {};
+    for (const field of WRITABLE_NAME_FIELDS) {
+      if (current?.[field]) {
+        name[field] = current[field];
+      }
+    }
+    if (contact.givenName !== undefined) {
+      name.givenName = contact.givenName;
+    }
+    if (contact.familyName !== undefined) {
+      name.familyName = contact.familyName;
+    }
+    return name;
+  }
+
+  /**
+   * Maps a People API person to a Contact, dropping nulls and metadata
+   */
+  private toContact(person: people_v1.Schema$Person): Contact {
+    const contact: Contact = { resourceName: person.resourceName ?? "" };
+    if (person.etag) {
+      contact.etag = person.etag;
+    }
+    if (person.names?.length) {
+      contact.names = person.names.map(name => ({
+        displayName: name.displayName ?? undefined,
+        givenName: name.givenName ?? undefined,
+        familyName: name.familyName ?? undefined
+      }));
+    }
+    if (person.emailAddresses?.length) {
+      contact.emailAddresses = person.emailAddresses.map(entry => ({
+        value: entry.value ?? undefined,
+        type: entry.type ?? undefined
+      }));
+    }
+    if (person.phoneNumbers?.length) {
+      contact.phoneNumbers = person.phoneNumbers.map(entry => ({
+        value: entry.value ?? undefined,
+        type: entry.type ?? undefined
+      }));
+    }
+    if (person.organizations?.length) {
+      contact.organizations = person.organizations.map(org => ({
+        name: org.name ?? undefined,
+        department: org.department ?? undefined,
+        title: org.title ?? undefined
+      }));
+    }
+    if (person.biographies?.length) {
+      contact.biographies = person.biographies.map(bio => ({
+        value: bio.value ?? undefined,
+        contentType: bio.contentType ?? undefined
+      }));
+    }
+    return contact;
+  }
+
+  /**
+   * Converts any error raised by an operation into a ContactsError
+   */
+  private toContactsError(error: unknown, operation: string): ContactsError {
+    if (error instanceof ContactsError) {
+      return error;
+    }
+    // Handle known GoogleServiceError specifically
+    if (error instanceof GoogleServiceError) {
+      // Assuming GoogleServiceError inherits message and data from McpError
+      // Use type assertion as the linter seems unsure
+      const gError = error as McpError & {
+        data?: { code?: string; details?: string };
+      };
+      return new ContactsError(
+        gError.message || `Failed to ${operation}`, // Fallback message
+        gError.data?.code || "GOOGLE_SERVICE_ERROR", // Code from data
+        gError.data?.details // Details from data
+      );
+    }
+    // Handle other potential errors (e.g. network errors)
+    if (error instanceof Error) {
+      return new ContactsError(
+        `Failed to ${operation}: ${error.message}`,
+        "UNKNOWN_API_ERROR" // More specific code
+      );
+    }
+    // Handle non-Error throws
+    return new ContactsError(
+      `Failed to ${operation} due to an unknown issue`,
+      "UNKNOWN_INTERNAL_ERROR" // More specific code
+    );
+  }
+}
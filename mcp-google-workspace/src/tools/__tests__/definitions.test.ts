@@ -0,0 +1,22 @@
+import { allTools, getEnabledTools } from '../definitions.js';
+
+describe('getEnabledTools', () => {
+  const names = () => getEnabledTools().map(tool => tool.name);
+
+  afterEach(() => {
+    delete process.env.CONTACTS_WRITE_ENABLED;
+  });
+
+  it('should leave out the contacts write tools by default', () => {
+    expect(names()).toContain('search_workspace_contacts');
+    expect(names()).not.toContain('create_workspace_contact');
+    expect(names()).not.toContain('update_workspace_contact');
+    expect(getEnabledTools()).toHaveLength(allTools.length - 2);
+  });
+
+  it('should offer the contacts write tools when write access is enabled', () => {
+    process.env.CONTACTS_WRITE_ENABLED = 'true';
+
+    expect(names()).toEqual(allTools.map(tool => tool.name));
+  });
+});
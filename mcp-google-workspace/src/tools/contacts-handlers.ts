@@ -1,28 +1,31 @@
 import {
   GetContactsParams,
   GetContactsResponse,
-  ContactsError
-} from "../modules/contacts/types.js";
+  SearchContactsParams,
+  SearchContactsResponse,
+  GetContactParams,
+  CreateContactParams,
+  UpdateContactParams,
+  Contact,
+  ResolvedRecipient,
+  ContactsError,
+  getContactsService
+} from "../modules/contacts/index.js";
 import { ContactsService } from "../services/contacts/index.js";
 import { validateEmail } from "../utils/account.js";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 import { getAccountManager } from "../modules/accounts/index.js";
 
-// Singleton instances - Initialize or inject as per project pattern
+// Singleton instances
 let contactsService: ContactsService;
 let accountManager: ReturnType<typeof getAccountManager>;
 
 /**
- * Initialize required services.
- * This should likely be integrated into a central initialization process.
+ * Initialize required services
  */
 async function initializeServices() {
   if (!contactsService) {
-    // Assuming ContactsService has a static getInstance or similar
-    // or needs to be instantiated here. Using direct instantiation for now.
-    contactsService = new ContactsService();
-    // If ContactsService requires async initialization await it here.
-    // await contactsService.initialize();
+    contactsService = await getContactsService();
   }
 
   if (!accountManager) {
@@ -30,6 +33,41 @@ async function initializeServices() {
   }
 }
 
+/**
+ * Maps errors raised by the contacts service to McpError
+ */
+function toMcpError(error: unknown, operation: string): McpError {
+  if (error instanceof ContactsError) {
+    const errorCode = error.code === "INVALID_PARAMS" ||
+      error.code === "AMBIGUOUS_RECIPIENT" ||
+      error.code === "RECIPIENT_NOT_FOUND"
+      ? ErrorCode.InvalidParams
+      : ErrorCode.InternalError;
+    return new McpError(
+      errorCode,
+      `Contacts API Error: ${error.message}`,
+      { code: error.code, details: error.details }
+    );
+  }
+  if (error instanceof McpError) {
+    // Re-throw existing McpErrors (like auth errors from token renewal)
+    return error;
+  }
+  return new McpError(
+    ErrorCode.InternalError,
+    `Failed to ${operation}: ${
+      error instanceof Error ? error.message : "Unknown error"
+    }`
+  );
+}
+
+function validateAccountEmail(email: string | undefined): asserts email is string {
+  if (!email) {
+    throw new McpError(ErrorCode.InvalidParams, "Email address is required");
+  }
+  validateEmail(email);
+}
+
 /**
  * Handler function for retrieving Google Contacts.
  */
@@ -39,10 +77,7 @@ export async function handleGetContacts(
   await initializeServices(); // Ensure services are ready
   const { email, personFields, pageSize, pageToken } = params;
 
-  if (!email) {
-    throw new McpError(ErrorCode.InvalidParams, "Email address is required");
-  }
-  validateEmail(email);
+  validateAccountEmail(email);
 
   if (!personFields) {
     throw new McpError(
@@ -54,35 +89,140 @@ export async function handleGetContacts(
   // Use accountManager for token renewal like in Gmail handlers
   return accountManager.withTokenRenewal(email, async () => {
     try {
-      const result = await contactsService.getContacts({
+      return await contactsService.getContacts({
         email,
         personFields,
         pageSize,
         pageToken
       });
-      return result;
     } catch (error) {
-      if (error instanceof ContactsError) {
-        // Map ContactsError to McpError
-        throw new McpError(
-          ErrorCode.InternalError, // Or map specific error codes
-          `Contacts API Error: ${error.message}`,
-          { code: error.code, details: error.details }
-        );
-      } else if (error instanceof McpError) {
-        // Re-throw existing McpErrors (like auth errors from token renewal)
-        throw error;
-      } else {
-        // Catch unexpected errors
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Failed to get contacts: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`
-        );
-      }
+      throw toMcpError(error, "get contacts");
+    }
+  });
+}
+
+/**
+ * Handler function for searching contacts, other contacts and the domain directory.
+ */
+export async function handleSearchContacts(
+  params: SearchContactsParams
+): Promise<SearchContactsResponse> {
+  await initializeServices();
+  const { email, query, pageSize, sources } = params;
+
+  validateAccountEmail(email);
+
+  if (!query) {
+    throw new McpError(ErrorCode.InvalidParams, "Search query is required");
+  }
+
+  return accountManager.withTokenRenewal(email, async () => {
+    try {
+      return await contactsService.searchContacts({ email, query, pageSize, sources });
+    } catch (error) {
+      throw toMcpError(error, "search contacts");
+    }
+  });
+}
+
+/**
+ * Handler function for retrieving a single contact.
+ */
+export async function handleGetContact(
+  params: GetContactParams
+): Promise<Contact> {
+  await initializeServices();
+  const { email, resourceName, personFields } = params;
+
+  validateAccountEmail(email);
+
+  if (!resourceName) {
+    throw new McpError(ErrorCode.InvalidParams, "Contact resourceName is required");
+  }
+
+  return accountManager.withTokenRenewal(email, async () => {
+    try {
+      return await contactsService.getContact({ email, resourceName, personFields });
+    } catch (error) {
+      throw toMcpError(error, "get contact");
+    }
+  });
+}
+
+/**
+ * Handler function for creating a contact.
+ */
+export async function handleCreateContact(
+  params: CreateContactParams
+): Promise<Contact> {
+  await initializeServices();
+  const { email, contact } = params;
+
+  validateAccountEmail(email);
+  contact.emailAddresses?.forEach(entry => entry.value && validateEmail(entry.value));
+
+  return accountManager.withTokenRenewal(email, async () => {
+    try {
+      return await contactsService.createContact({ email, contact });
+    } catch (error) {
+      throw toMcpError(error, "create contact");
+    }
+  });
+}
+
+/**
+ * Handler function for updating a contact.
+ */
+export async function handleUpdateContact(
+  params: UpdateContactParams
+): Promise<Contact> {
+  await initializeServices();
+  const { email, resourceName, etag, contact } = params;
+
+  validateAccountEmail(email);
+
+  if (!resourceName) {
+    throw new McpError(ErrorCode.InvalidParams, "Contact resourceName is required");
+  }
+  contact.emailAddresses?.forEach(entry => entry.value && validateEmail(entry.value));
+
+  return accountManager.withTokenRenewal(email, async () => {
+    try {
+      return await contactsService.updateContact({ email, resourceName, etag, contact });
+    } catch (error) {
+      throw toMcpError(error, "update contact");
     }
   });
 }
 
-// Add other handlers like handleSearchContacts later
+/**
+ * Resolves recipients given by name (e.g. "Anna from finance") to email addresses
+ * through the contacts of the account. Entries that already are email addresses
+ * are returned unchanged.
+ */
+export async function resolveRecipientAddresses(
+  email: string,
+  recipients: string[]
+): Promise<{ addresses: string[]; resolved: ResolvedRecipient[] }> {
+  const addresses: string[] = [];
+  const resolved: ResolvedRecipient[] = [];
+
+  for (const recipient of recipients) {
+    if (recipient.includes("@")) {
+      addresses.push(recipient);
+      continue;
+    }
+    await initializeServices();
+    const result = await accountManager.withTokenRenewal(email, async () => {
+      try {
+        return await contactsService.resolveRecipient(email, recipient);
+      } catch (error) {
+        throw toMcpError(error, `resolve recipient "${recipient}"`);
+      }
+    });
+    addresses.push(result.address);
+    resolved.push(result);
+  }
+
+  return { addresses, resolved };
+}
@@ -1,4 +1,5 @@
 import { ToolMetadata } from "../modules/tools/registry.js";
+import { isContactsWriteEnabled } from "../modules/contacts/scopes.js";
 
 // Account Management Tools
 export const accountTools: ToolMetadata[] = [
@@ -301,6 +302,13 @@ export const gmailTools: ToolMetadata[] = [
     3. Validate all recipient addresses
     4. Check content for completeness
     
+    Recipients by Name:
+    - to, cc and bcc also accept contact names, e.g. "Anna" or "Anna from finance"
+    - Names are looked up in contacts and, if enabled, other contacts and the domain directory
+    - Words after the name must match the contact's email or organization
+    - Ambiguous or unknown names fail with the candidates; ask the user then
+    - The result lists the addresses the names resolved to in resolvedRecipients
+    
     Common Patterns:
     - Gather all required info before sending
     - Confirm critical details with user
@@ -323,7 +331,7 @@ export const gmailTools: ToolMetadata[] = [
         to: {
           type: 'array',
           items: { type: 'string' },
-          description: 'List of recipient email addresses'
+          description: 'List of recipient email addresses or contact names'
         },
         subject: {
           type: 'string',
@@ -336,17 +344,227 @@ export const gmailTools: ToolMetadata[] = [
         cc: {
           type: 'array',
           items: { type: 'string' },
-          description: 'List of CC recipient email addresses'
+          description: 'List of CC recipient email addresses or contact names'
         },
         bcc: {
           type: 'array',
           items: { type: 'string' },
-          description: 'List of BCC recipient email addresses'
+          description: 'List of BCC recipient email addresses or contact names'
         }
       },
       required: ['email', 'to', 'subject', 'body']
     }
   },
+  {
+    name: 'get_workspace_email_thread',
+    category: 'Gmail/Threads',
+    description: `Get an entire email conversation with a summary.
+    
+    IMPORTANT: Before using this tool:
+    1. Verify account access with list_workspace_accounts
+    2. Get the threadId from search_workspace_emails results
+    
+    Returns:
+    - messages: All messages of the thread, oldest first
+    - summary: Participants, message and unread counts, date range,
+      who wrote last and whether the thread is awaiting a reply
+    
+    Quoted earlier messages are removed from the bodies by default, so each
+    message only shows what was newly written. Set includeBodies to false for
+    a quick overview of long threads.
+    
+    Common Usage:
+    - Read a conversation before replying
+    - Summarize a thread for the user
+    - Find the latest message ID to reply to`,
+    aliases: ['get_thread', 'get_email_thread', 'read_thread', 'get_conversation'],
+    inputSchema: {
+      type: 'object',
+      properties: {
+        email: {
+          type: 'string',
+          description: 'Email address of the Gmail account'
+        },
+        threadId: {
+          type: 'string',
+          description: 'ID of the thread to get'
+        },
+        includeBodies: {
+          type: 'boolean',
+          description: 'Include message bodies (default: true)'
+        },
+        stripQuotedText: {
+          type: 'boolean',
+          description: 'Remove quoted earlier messages from the bodies (default: true)'
+        }
+      },
+      required: ['email', 'threadId']
+    }
+  },
+  {
+    name: 'reply_workspace_email',
+    category: 'Gmail/Threads',
+    description: `Reply to an email within its thread.
+    
+    IMPORTANT: Before replying:
+    1. Verify account access with list_workspace_accounts
+    2. Read the conversation with get_workspace_email_thread
+    3. Confirm the reply content and recipients with the user
+    
+    Behavior:
+    - Replies to the sender, or to the original recipients when replying
+      to a message the account sent
+    - replyAll also copies everyone else on the message, except the account itself
+    - Keeps the subject and sets In-Reply-To/References so the reply stays
+      in the same conversation in every mail client
+    - cc and bcc also accept contact names
+    
+    Reply to the latest message of the thread unless the user asks otherwise.`,
+    aliases: ['reply_email', 'reply_to_email', 'reply_all'],
+    inputSchema: {
+      type: 'object',
+      properties: {
+        email: {
+          type: 'string',
+          description: 'Email address to reply from'
+        },
+        messageId: {
+          type: 'string',
+          description: 'ID of the message to reply to'
+        },
+        body: {
+          type: 'string',
+          description: 'Reply body content'
+        },
+        replyAll: {
+          type: 'boolean',
+          description: 'Reply to all recipients of the message (default: false)'
+        },
+        cc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Additional CC recipient email addresses or contact names'
+        },
+        bcc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'BCC recipient email addresses or contact names'
+        }
+      },
+      required: ['email', 'messageId', 'body']
+    }
+  },
+  {
+    name: 'forward_workspace_email',
+    category: 'Gmail/Threads',
+    description: `Forward an email to other recipients.
+    
+    IMPORTANT: Before forwarding:
+    1. Verify account access with list_workspace_accounts
+    2. Confirm the recipients with the user
+    3. Check whether the attachments should be forwarded
+    
+    The forwarded message contains the optional note, the original From, Date,
+    Subject, To and Cc, the original text and, by default, its attachments.
+    Recipients can be email addresses or contact names.`,
+    aliases: ['forward_email', 'forward_mail'],
+    inputSchema: {
+      type: 'object',
+      properties: {
+        email: {
+          type: 'string',
+          description: 'Email address to forward from'
+        },
+        messageId: {
+          type: 'string',
+          description: 'ID of the message to forward'
+        },
+        to: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'List of recipient email addresses or contact names'
+        },
+        cc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'List of CC recipient email addresses or contact names'
+        },
+        bcc: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'List of BCC recipient email addresses or contact names'
+        },
+        body: {
+          type: 'string',
+          description: 'Note to put above the forwarded message'
+        },
+        includeAttachments: {
+          type: 'boolean',
+          description: 'Forward the attachments of the message (default: true)'
+        }
+      },
+      required: ['email', 'messageId', 'to']
+    }
+  },
+  {
+    name: 'modify_workspace_emails',
+    category: 'Gmail/Threads',
+    description: `Archive, trash, mark read/unread, star or relabel many messages or threads at once.
+    
+    IMPORTANT: Before modifying:
+    1. Verify account access with list_workspace_accounts
+    2. Get message or thread IDs from search_workspace_emails
+    3. Confirm trashing with the user
+    
+    Actions:
+    - archive / unarchive: Remove from or return to the inbox
+    - mark_read / mark_unread: Change the read state
+    - star / unstar: Change the star
+    - trash / untrash: Move to or restore from the trash
+    
+    addLabelIds and removeLabelIds can be combined with an action or used alone.
+    Thread IDs apply the change to every message of the conversation.
+    
+    Common Usage:
+    - Triage: archive handled threads, mark the rest as read
+    - Clean up: trash all results of a search`,
+    aliases: ['modify_emails', 'archive_email', 'trash_email', 'mark_email_read', 'batch_modify_emails'],
+    inputSchema: {
+      type: 'object',
+      properties: {
+        email: {
+          type: 'string',
+          description: 'Email address of the Gmail account'
+        },
+        messageIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the messages to modify'
+        },
+        threadIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs of the threads to modify'
+        },
+        action: {
+          type: 'string',
+          enum: ['archive', 'unarchive', 'mark_read', 'mark_unread', 'star', 'unstar', 'trash', 'untrash'],
+          description: 'State change to apply'
+        },
+        addLabelIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Label IDs to add'
+        },
+        removeLabelIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Label IDs to remove'
+        }
+      },
+      required: ['email']
+    }
+  },
   {
     name: 'get_workspace_gmail_settings',
     category: 'Gmail/Settings',
@@ -1454,6 +1672,197 @@ export const contactsTools: ToolMetadata[] = [
       },
       required: ["email", "personFields"]
     }
+  },
+  {
+    name: "search_workspace_contacts",
+    category: "Contacts",
+    description: `Search contacts by name, email address, phone number or organization.
+
+    IMPORTANT: Before using this tool:
+    1. Verify account access with list_workspace_accounts
+    2. Confirm account if multiple exist
+
+    Searched Sources:
+    - contacts: the user's saved contacts
+    - otherContacts: people the user has interacted with but not saved
+      (searched when the server sets CONTACTS_OTHER_ENABLED=true)
+    - directory: the Google Workspace domain directory (Workspace accounts only,
+      searched when the server sets CONTACTS_DIRECTORY_ENABLED=true)
+
+    Sources whose access was not granted or that are unavailable for the account
+    are listed in skippedSources instead of failing the search.
+
+    Common Usage:
+    - Find someone's email address before sending or sharing
+    - Look up colleagues by name, team or job title
+    - Get the resourceName needed for get/update_workspace_contact`,
+    aliases: ["search_contacts", "find_contact", "lookup_contact"],
+    inputSchema: {
+      type: "object",
+      properties: {
+        email: {
+          type: "string",
+          description: "Email address of the Google account"
+        },
+        query: {
+          type: "string",
+          description: "Prefix of a name, email address, phone number or organization to search for"
+        },
+        pageSize: {
+          type: "number",
+          description: "Maximum number of results per source (default: 10)"
+        },
+        sources: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["contacts", "otherContacts", "directory"]
+          },
+          description: "Sources to search (default: all)"
+        }
+      },
+      required: ["email", "query"]
+    }
+  },
+  {
+    name: "get_workspace_contact",
+    category: "Contacts",
+    description: `Get a single contact by resource name.
+
+    IMPORTANT: Before using this tool:
+    1. Verify account access with list_workspace_accounts
+    2. Get the resourceName from search_workspace_contacts or get_workspace_contacts
+
+    The response includes the contact's etag, which update_workspace_contact
+    uses to detect concurrent changes.`,
+    aliases: ["get_contact", "read_contact"],
+    inputSchema: {
+      type: "object",
+      properties: {
+        email: {
+          type: "string",
+          description: "Email address of the Google account"
+        },
+        resourceName: {
+          type: "string",
+          description: 'Resource name of the contact (e.g. "people/c12345")'
+        },
+        personFields: {
+          type: "string",
+          description: 'Comma-separated fields to include (default: "names,emailAddresses,phoneNumbers,organizations")'
+        }
+      },
+      required: ["email", "resourceName"]
+    }
+  },
+  {
+    name: "create_workspace_contact",
+    category: "Contacts",
+    description: `Create a contact in a Google account.
+
+    IMPORTANT: Before using this tool:
+    1. Verify account access with list_workspace_accounts
+    2. Confirm the contact details with the user
+    3. Check for an existing contact with search_workspace_contacts to avoid duplicates
+    4. Requires Contacts write access: the server must set CONTACTS_WRITE_ENABLED=true
+       and the account must be re-authenticated if it was missing
+
+    Provide at least one contact field.`,
+    aliases: ["create_contact", "add_contact", "new_contact"],
+    inputSchema: {
+      type: "object",
+      properties: {
+        email: {
+          type: "string",
+          description: "Email address of the Google account"
+        },
+        contact: {
+          type: "object",
+          description: "Contact fields",
+          properties: {
+            givenName: { type: "string", description: "First name" },
+            familyName: { type: "string", description: "Last name" },
+            emailAddresses: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  value: { type: "string", description: "Email address" },
+                  type: { type: "string", description: 'Type, e.g. "work" or "home"' }
+                },
+                required: ["value"]
+              },
+              description: "Email addresses"
+            },
+            phoneNumbers: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  value: { type: "string", description: "Phone number" },
+                  type: { type: "string", description: 'Type, e.g. "mobile" or "work"' }
+                },
+                required: ["value"]
+              },
+              description: "Phone numbers"
+            },
+            organizations: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string", description: "Organization name" },
+                  department: { type: "string", description: "Department" },
+                  title: { type: "string", description: "Job title" }
+                }
+              },
+              description: "Organizations"
+            },
+            notes: { type: "string", description: "Free-text notes" }
+          }
+        }
+      },
+      required: ["email", "contact"]
+    }
+  },
+  {
+    name: "update_workspace_contact",
+    category: "Contacts",
+    description: `Update fields of an existing contact.
+
+    IMPORTANT: Before using this tool:
+    1. Verify account access with list_workspace_accounts
+    2. Get the contact with get_workspace_contact and confirm the changes with the user
+    3. Requires Contacts write access: the server must set CONTACTS_WRITE_ENABLED=true
+       and the account must be re-authenticated if it was missing
+
+    Only the given fields are changed; givenName and familyName can be changed on
+    their own. List fields (emailAddresses, phoneNumbers, organizations) replace
+    the existing values, so include the values to keep.
+    Pass the etag from get_workspace_contact to fail if the contact changed meanwhile.`,
+    aliases: ["update_contact", "edit_contact"],
+    inputSchema: {
+      type: "object",
+      properties: {
+        email: {
+          type: "string",
+          description: "Email address of the Google account"
+        },
+        resourceName: {
+          type: "string",
+          description: 'Resource name of the contact (e.g. "people/c12345")'
+        },
+        etag: {
+          type: "string",
+          description: "Etag from get_workspace_contact (optional, the current etag is used when omitted)"
+        },
+        contact: {
+          type: "object",
+          description: "Contact fields to change, same shape as in create_workspace_contact"
+        }
+      },
+      required: ["email", "resourceName", "contact"]
+    }
   }
 ];
 
@@ -1466,3 +1875,13 @@ export const allTools: ToolMetadata[] = [
   ...driveTools,
   ...contactsTools
 ];
+
+// Tools that change contacts, only offered when Contacts write access is enabled
+const contactsWriteTools = new Set(["create_workspace_contact", "update_workspace_contact"]);
+
+/**
+ * Tools this server offers, leaving out those of features the server has not enabled
+ */
+export function getEnabledTools(): ToolMetadata[] {
+  return allTools.filter(tool => isContactsWriteEnabled() || !contactsWriteTools.has(tool.name));
+}
@@ -1,7 +1,13 @@
 import { getGmailService } from '../modules/gmail/index.js';
 import { validateEmail } from '../utils/account.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import { SendEmailParams } from '../modules/gmail/types.js';
+import {
+  SendEmailParams,
+  GetThreadParams,
+  ReplyEmailParams,
+  ForwardEmailParams,
+  ModifyEmailsParams
+} from '../modules/gmail/types.js';
 import {
   ManageLabelParams,
   ManageLabelAssignmentParams,
@@ -10,6 +16,7 @@ import {
 import { getAccountManager } from '../modules/accounts/index.js';
 import { AttachmentService } from '../modules/attachments/service.js';
 import { ATTACHMENT_FOLDERS } from '../modules/attachments/types.js';
+import { resolveRecipientAddresses } from './contacts-handlers.js';
 
 // Singleton instances
 let gmailService: ReturnType<typeof getGmailService>;
@@ -148,19 +155,27 @@ export async function handleSendWorkspaceEmail(params: SendEmailRequestParams) {
   }
 
   validateEmail(email);
-  to.forEach(validateEmail);
-  if (cc) cc.forEach(validateEmail);
-  if (bcc) bcc.forEach(validateEmail);
+
+  // Recipients given by name, e.g. "Anna from finance", are looked up in the contacts
+  const resolvedTo = await resolveRecipientAddresses(email, to);
+  const resolvedCc = cc ? await resolveRecipientAddresses(email, cc) : undefined;
+  const resolvedBcc = bcc ? await resolveRecipientAddresses(email, bcc) : undefined;
+  const resolvedRecipients = [resolvedTo, resolvedCc, resolvedBcc]
+    .flatMap(result => result?.resolved ?? []);
+
+  resolvedTo.addresses.forEach(validateEmail);
+  resolvedCc?.addresses.forEach(validateEmail);
+  resolvedBcc?.addresses.forEach(validateEmail);
 
   return accountManager.withTokenRenewal(email, async () => {
     try {
       const emailParams: SendEmailParams = {
         email,
-        to,
+        to: resolvedTo.addresses,
         subject,
         body,
-        cc,
-        bcc,
+        cc: resolvedCc?.addresses,
+        bcc: resolvedBcc?.addresses,
         attachments: attachments?.map(attachment => {
           if (!attachment.content) {
             throw new McpError(
@@ -178,7 +193,8 @@ export async function handleSendWorkspaceEmail(params: SendEmailRequestParams) {
         })
       };
 
-      return await gmailService.sendEmail(emailParams);
+      const result = await gmailService.sendEmail(emailParams);
+      return resolvedRecipients.length > 0 ? { ...result, resolvedRecipients } : result;
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
@@ -574,3 +590,172 @@ export async function handleManageWorkspaceLabelFilter(params: ManageLabelFilter
     }
   });
 }
+
+export async function handleGetWorkspaceEmailThread(params: GetThreadParams) {
+  await initializeServices();
+  const { email, threadId } = params;
+
+  if (!email) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Email address is required'
+    );
+  }
+
+  if (!threadId) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Thread ID is required'
+    );
+  }
+
+  validateEmail(email);
+
+  return accountManager.withTokenRenewal(email, async () => {
+    try {
+      return await gmailService.getThread(params);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get thread: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  });
+}
+
+export async function handleReplyWorkspaceEmail(params: ReplyEmailParams) {
+  await initializeServices();
+  const { email, messageId, body, cc, bcc } = params;
+
+  if (!email) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Sender email address is required'
+    );
+  }
+
+  if (!messageId) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'ID of the message to reply to is required'
+    );
+  }
+
+  if (!body) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Reply body is required'
+    );
+  }
+
+  validateEmail(email);
+
+  // Additional recipients given by name are looked up in the contacts
+  const resolvedCc = cc ? await resolveRecipientAddresses(email, cc) : undefined;
+  const resolvedBcc = bcc ? await resolveRecipientAddresses(email, bcc) : undefined;
+  resolvedCc?.addresses.forEach(validateEmail);
+  resolvedBcc?.addresses.forEach(validateEmail);
+
+  return accountManager.withTokenRenewal(email, async () => {
+    try {
+      return await gmailService.replyToEmail({
+        ...params,
+        cc: resolvedCc?.addresses,
+        bcc: resolvedBcc?.addresses
+      });
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to reply to email: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  });
+}
+
+export async function handleForwardWorkspaceEmail(params: ForwardEmailParams) {
+  await initializeServices();
+  const { email, messageId, to, cc, bcc } = params;
+
+  if (!email) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Sender email address is required'
+    );
+  }
+
+  if (!messageId) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'ID of the message to forward is required'
+    );
+  }
+
+  if (!to || !Array.isArray(to) || to.length === 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'At least one recipient email address is required'
+    );
+  }
+
+  validateEmail(email);
+
+  // Recipients given by name are looked up in the contacts
+  const resolvedTo = await resolveRecipientAddresses(email, to);
+  const resolvedCc = cc ? await resolveRecipientAddresses(email, cc) : undefined;
+  const resolvedBcc = bcc ? await resolveRecipientAddresses(email, bcc) : undefined;
+  const resolvedRecipients = [resolvedTo, resolvedCc, resolvedBcc]
+    .flatMap(result => result?.resolved ?? []);
+
+  resolvedTo.addresses.forEach(validateEmail);
+  resolvedCc?.addresses.forEach(validateEmail);
+  resolvedBcc?.addresses.forEach(validateEmail);
+
+  return accountManager.withTokenRenewal(email, async () => {
+    try {
+      const result = await gmailService.forwardEmail({
+        ...params,
+        to: resolvedTo.addresses,
+        cc: resolvedCc?.addresses,
+        bcc: resolvedBcc?.addresses
+      });
+      return resolvedRecipients.length > 0 ? { ...result, resolvedRecipients } : result;
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to forward email: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  });
+}
+
+export async function handleModifyWorkspaceEmails(params: ModifyEmailsParams) {
+  await initializeServices();
+  const { email, messageIds, threadIds } = params;
+
+  if (!email) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Email address is required'
+    );
+  }
+
+  if (!messageIds?.length && !threadIds?.length) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'At least one message or thread ID is required'
+    );
+  }
+
+  validateEmail(email);
+
+  return accountManager.withTokenRenewal(email, async () => {
+    try {
+      return await gmailService.modifyEmails(params);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to modify emails: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  });
+}
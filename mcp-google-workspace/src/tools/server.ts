@@ -11,8 +11,8 @@ import {
 const DOCKER_HASH = process.env.DOCKER_HASH || 'unknown';
 
 // Import tool definitions and registry
-import { allTools } from './definitions.js';
-import { ToolRegistry } from '../modules/tools/registry.js';
+import { getEnabledTools } from './definitions.js';
+import { ToolRegistry, ToolMetadata } from '../modules/tools/registry.js';
 
 // Import handlers
 import {
@@ -30,7 +30,11 @@ import {
   handleManageWorkspaceLabel,
   handleManageWorkspaceLabelAssignment,
   handleManageWorkspaceLabelFilter,
-  handleManageWorkspaceAttachment
+  handleManageWorkspaceAttachment,
+  handleGetWorkspaceEmailThread,
+  handleReplyWorkspaceEmail,
+  handleForwardWorkspaceEmail,
+  handleModifyWorkspaceEmails
 } from './gmail-handlers.js';
 
 import {
@@ -52,7 +56,13 @@ import {
 } from './drive-handlers.js';
 
 // Import contact handlers
-import { handleGetContacts } from './contacts-handlers.js';
+import {
+  handleGetContacts,
+  handleSearchContacts,
+  handleGetContact,
+  handleCreateContact,
+  handleUpdateContact
+} from './contacts-handlers.js';
 
 // Import error types
 import { AccountError } from '../modules/accounts/types.js';
@@ -94,15 +104,25 @@ import {
   assertDrivePermissionArgs,
   assertDriveDeleteArgs,
   assertManageAttachmentParams,
-  assertGetContactsParams
+  assertGetContactsParams,
+  assertSearchContactsParams,
+  assertGetContactParams,
+  assertCreateContactParams,
+  assertUpdateContactParams,
+  assertGetThreadParams,
+  assertReplyEmailParams,
+  assertForwardEmailParams,
+  assertModifyEmailsParams
 } from './type-guards.js';
 
 export class GSuiteServer {
   private server: Server;
+  private tools: ToolMetadata[];
   private toolRegistry: ToolRegistry;
 
   constructor() {
-    this.toolRegistry = new ToolRegistry(allTools);
+    this.tools = getEnabledTools();
+    this.toolRegistry = new ToolRegistry(this.tools);
     this.server = new Server(
       {
         name: "Google Workspace MCP Server",
@@ -125,7 +145,7 @@ export class GSuiteServer {
     // Tools are registered through the ToolRegistry which serves as a single source of truth
     // for both tool discovery (ListToolsRequestSchema) and execution (CallToolRequestSchema).
     // Tools only need to be defined once in allTools and the registry handles making them
-    // available to both handlers.
+    // available to both handlers. Tools of features the server has not enabled are left out.
     
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
@@ -143,7 +163,7 @@ export class GSuiteServer {
       }
 
       return {
-        tools: allTools.map(tool => ({
+        tools: this.tools.map(tool => ({
           name: tool.name,
           description: tool.description,
           inputSchema: tool.inputSchema
@@ -151,7 +171,7 @@ export class GSuiteServer {
         _meta: {
           categories: toolsByCategory,
           aliases: Object.fromEntries(
-            allTools.flatMap(tool => 
+            this.tools.flatMap(tool => 
               (tool.aliases || []).map(alias => [alias, tool.name])
             )
           )
@@ -201,6 +221,22 @@ export class GSuiteServer {
             assertSendEmailArgs(args);
             result = await handleSendWorkspaceEmail(args as SendEmailArgs);
             break;
+          case 'get_workspace_email_thread':
+            assertGetThreadParams(args);
+            result = await handleGetWorkspaceEmailThread(args);
+            break;
+          case 'reply_workspace_email':
+            assertReplyEmailParams(args);
+            result = await handleReplyWorkspaceEmail(args);
+            break;
+          case 'forward_workspace_email':
+            assertForwardEmailParams(args);
+            result = await handleForwardWorkspaceEmail(args);
+            break;
+          case 'modify_workspace_emails':
+            assertModifyEmailsParams(args);
+            result = await handleModifyWorkspaceEmails(args);
+            break;
           case 'get_workspace_gmail_settings':
             assertBaseToolArguments(args);
             result = await handleGetWorkspaceGmailSettings(args);
@@ -286,6 +322,22 @@ export class GSuiteServer {
             assertGetContactsParams(args);
             result = await handleGetContacts(args);
             break;
+          case 'search_workspace_contacts':
+            assertSearchContactsParams(args);
+            result = await handleSearchContacts(args);
+            break;
+          case 'get_workspace_contact':
+            assertGetContactParams(args);
+            result = await handleGetContact(args);
+            break;
+          case 'create_workspace_contact':
+            assertCreateContactParams(args);
+            result = await handleCreateContact(args);
+            break;
+          case 'update_workspace_contact':
+            assertUpdateContactParams(args);
+            result = await handleUpdateContact(args);
+            break;
 
           default:
             throw new Error(`Unknown tool: ${request.params.name}`);
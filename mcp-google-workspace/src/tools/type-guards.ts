@@ -15,7 +15,20 @@ BaseToolArguments,
   DriveDeleteArgs,
   ManageAttachmentParams
 } from './types.js';
-import { GetContactsParams } from '../modules/contacts/types.js';
+import {
+  GetContactsParams,
+  SearchContactsParams,
+  GetContactParams,
+  CreateContactParams,
+  UpdateContactParams,
+  ContactInput
+} from '../modules/contacts/types.js';
+import {
+  GetThreadParams,
+  ReplyEmailParams,
+  ForwardEmailParams,
+  ModifyEmailsParams
+} from '../modules/gmail/types.js';
 
 // Base Tool Arguments
 export function isBaseToolArguments(args: Record<string, unknown>): args is BaseToolArguments {
@@ -70,6 +83,85 @@ export function assertSendEmailArgs(args: Record<string, unknown>): asserts args
   }
 }
 
+function isOptionalStringArray(value: unknown): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+}
+
+export function isGetThreadParams(args: unknown): args is GetThreadParams {
+  if (typeof args !== 'object' || args === null) return false;
+  const params = args as Partial<GetThreadParams>;
+
+  return typeof params.email === 'string' &&
+    typeof params.threadId === 'string' &&
+    (params.includeBodies === undefined || typeof params.includeBodies === 'boolean') &&
+    (params.stripQuotedText === undefined || typeof params.stripQuotedText === 'boolean');
+}
+
+export function assertGetThreadParams(args: unknown): asserts args is GetThreadParams {
+  if (!isGetThreadParams(args)) {
+    throw new Error('Invalid thread parameters. Required: email, threadId');
+  }
+}
+
+export function isReplyEmailParams(args: unknown): args is ReplyEmailParams {
+  if (typeof args !== 'object' || args === null) return false;
+  const params = args as Partial<ReplyEmailParams>;
+
+  return typeof params.email === 'string' &&
+    typeof params.messageId === 'string' &&
+    typeof params.body === 'string' &&
+    (params.replyAll === undefined || typeof params.replyAll === 'boolean') &&
+    isOptionalStringArray(params.cc) &&
+    isOptionalStringArray(params.bcc) &&
+    (params.attachments === undefined || Array.isArray(params.attachments));
+}
+
+export function assertReplyEmailParams(args: unknown): asserts args is ReplyEmailParams {
+  if (!isReplyEmailParams(args)) {
+    throw new Error('Invalid reply parameters. Required: email, messageId, body');
+  }
+}
+
+export function isForwardEmailParams(args: unknown): args is ForwardEmailParams {
+  if (typeof args !== 'object' || args === null) return false;
+  const params = args as Partial<ForwardEmailParams>;
+
+  return typeof params.email === 'string' &&
+    typeof params.messageId === 'string' &&
+    Array.isArray(params.to) &&
+    params.to.every(to => typeof to === 'string') &&
+    isOptionalStringArray(params.cc) &&
+    isOptionalStringArray(params.bcc) &&
+    (params.body === undefined || typeof params.body === 'string') &&
+    (params.includeAttachments === undefined || typeof params.includeAttachments === 'boolean');
+}
+
+export function assertForwardEmailParams(args: unknown): asserts args is ForwardEmailParams {
+  if (!isForwardEmailParams(args)) {
+    throw new Error('Invalid forward parameters. Required: email, messageId, to');
+  }
+}
+
+const EMAIL_STATE_ACTIONS = ['archive', 'unarchive', 'mark_read', 'mark_unread', 'star', 'unstar', 'trash', 'untrash'];
+
+export function isModifyEmailsParams(args: unknown): args is ModifyEmailsParams {
+  if (typeof args !== 'object' || args === null) return false;
+  const params = args as Partial<ModifyEmailsParams>;
+
+  return typeof params.email === 'string' &&
+    isOptionalStringArray(params.messageIds) &&
+    isOptionalStringArray(params.threadIds) &&
+    (params.action === undefined || EMAIL_STATE_ACTIONS.includes(params.action)) &&
+    isOptionalStringArray(params.addLabelIds) &&
+    isOptionalStringArray(params.removeLabelIds);
+}
+
+export function assertModifyEmailsParams(args: unknown): asserts args is ModifyEmailsParams {
+  if (!isModifyEmailsParams(args)) {
+    throw new Error(`Invalid modify parameters. Required: email, messageIds and/or threadIds. Action must be one of: ${EMAIL_STATE_ACTIONS.join(', ')}`);
+  }
+}
+
 // Drive Type Guards
 export function isDriveFileListArgs(args: unknown): args is DriveFileListArgs {
   if (typeof args !== 'object' || args === null) return false;
@@ -346,3 +438,85 @@ export function assertGetContactsParams(args: unknown): asserts args is GetConta
     throw new Error('Invalid contacts parameters. Required: email, personFields');
   }
 }
+
+const CONTACT_SOURCES = ['contacts', 'otherContacts', 'directory'];
+
+export function isSearchContactsParams(args: unknown): args is SearchContactsParams {
+  if (typeof args !== 'object' || args === null) return false;
+  const params = args as Partial<SearchContactsParams>;
+
+  return typeof params.email === 'string' &&
+    typeof params.query === 'string' &&
+    (params.pageSize === undefined || typeof params.pageSize === 'number') &&
+    (params.sources === undefined || (Array.isArray(params.sources) &&
+      params.sources.every(source => CONTACT_SOURCES.includes(source))));
+}
+
+export function assertSearchContactsParams(args: unknown): asserts args is SearchContactsParams {
+  if (!isSearchContactsParams(args)) {
+    throw new Error('Invalid contact search parameters. Required: email, query. Sources must be contacts, otherContacts or directory');
+  }
+}
+
+export function isGetContactParams(args: unknown): args is GetContactParams {
+  if (typeof args !== 'object' || args === null) return false;
+  const params = args as Partial<GetContactParams>;
+
+  return typeof params.email === 'string' &&
+    typeof params.resourceName === 'string' &&
+    (params.personFields === undefined || typeof params.personFields === 'string');
+}
+
+export function assertGetContactParams(args: unknown): asserts args is GetContactParams {
+  if (!isGetContactParams(args)) {
+    throw new Error('Invalid contact parameters. Required: email, resourceName');
+  }
+}
+
+function isValueList(value: unknown): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(item =>
+    typeof item === 'object' && item !== null && typeof item.value === 'string' &&
+    (item.type === undefined || typeof item.type === 'string')));
+}
+
+function isContactInput(contact: unknown): contact is ContactInput {
+  if (typeof contact !== 'object' || contact === null) return false;
+  const input = contact as Partial<ContactInput>;
+
+  return (input.givenName === undefined || typeof input.givenName === 'string') &&
+    (input.familyName === undefined || typeof input.familyName === 'string') &&
+    isValueList(input.emailAddresses) &&
+    isValueList(input.phoneNumbers) &&
+    (input.organizations === undefined || (Array.isArray(input.organizations) &&
+      input.organizations.every(org => typeof org === 'object' && org !== null))) &&
+    (input.notes === undefined || typeof input.notes === 'string');
+}
+
+export function isCreateContactParams(args: unknown): args is CreateContactParams {
+  if (typeof args !== 'object' || args === null) return false;
+  const params = args as Partial<CreateContactParams>;
+
+  return typeof params.email === 'string' && isContactInput(params.contact);
+}
+
+export function assertCreateContactParams(args: unknown): asserts args is CreateContactParams {
+  if (!isCreateContactParams(args)) {
+    throw new Error('Invalid contact creation parameters. Required: email, contact');
+  }
+}
+
+export function isUpdateContactParams(args: unknown): args is UpdateContactParams {
+  if (typeof args !== 'object' || args === null) return false;
+  const params = args as Partial<UpdateContactParams>;
+
+  return typeof params.email === 'string' &&
+    typeof params.resourceName === 'string' &&
+    (params.etag === undefined || typeof params.etag === 'string') &&
+    isContactInput(params.contact);
+}
+
+export function assertUpdateContactParams(args: unknown): asserts args is UpdateContactParams {
+  if (!isUpdateContactParams(args)) {
+    throw new Error('Invalid contact update parameters. Required: email, resourceName, contact');
+  }
+}
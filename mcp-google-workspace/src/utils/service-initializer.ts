@@ -7,14 +7,7 @@ import { initializeContactsModule } from '../modules/contacts/index.js';
 import { registerGmailScopes } from '../modules/gmail/scopes.js';
 import { registerCalendarScopes } from '../modules/calendar/scopes.js';
 import { registerDriveScopes } from '../modules/drive/scopes.js';
-import { CONTACTS_SCOPES } from '../modules/contacts/scopes.js';
-import { scopeRegistry } from '../modules/tools/scope-registry.js';
-
-// Function to register contacts scopes
-function registerContactsScopes(): void {
-  scopeRegistry.registerScope("contacts", CONTACTS_SCOPES.READONLY);
-  logger.info('Contacts scopes registered');
-}
+import { registerContactsScopes } from '../modules/contacts/scopes.js';
 
 export async function initializeAllServices(): Promise<void> {
   try {
@@ -125,4 +125,32 @@ export type Config = {
    * Whether to send image responses to the client. Can be "allow", "omit", or "auto". Defaults to "auto", which sends images if the client can display them.
    */
   imageResponses?: 'allow' | 'omit' | 'auto';
+
+  /**
+   * Reuse the same browser context between all connected HTTP clients. By default each client gets its own isolated browser context,
+   * unless `browser.userDataDir` is set.
+   */
+  sharedBrowserContext?: boolean;
+
+  profiles?: {
+    /**
+     * Directory where named browser profiles (cookies and localStorage) are saved. Defaults to `mcp-profiles` in the Playwright cache directory.
+     * Profiles of HTTP clients are saved under `clients/<id>`, where the id is derived from the bearer token of the client.
+     */
+    dir?: string;
+
+    /**
+     * Profile to load for sessions that do not select one. HTTP clients can select a profile with the `profile` query parameter of the server URL.
+     * HTTP clients without a bearer token cannot use profiles.
+     */
+    default?: string;
+  };
+
+  macros?: {
+    /**
+     * Directory where recorded macros are saved. Defaults to `mcp-macros` in the Playwright cache directory.
+     * Macros of HTTP clients are saved under `clients/<id>`, like profiles.
+     */
+    dir?: string;
+  };
 };
@@ -40,10 +40,17 @@ export function contextFactory(browserConfig: FullConfig['browser']): BrowserCon
   return new PersistentContextFactory(browserConfig);
 }
 
+export type CreateContextOptions = {
+  // Storage state to start the context with, used for named profiles.
+  storageState?: playwright.BrowserContextOptions['storageState'];
+};
+
 export interface BrowserContextFactory {
-  createContext(): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }>;
+  createContext(options?: CreateContextOptions): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }>;
 }
 
+const sharedContextError = 'Browser profiles need an isolated browser context. Start the server with --isolated, or over HTTP without --shared-browser-context and --user-data-dir.';
+
 class BaseContextFactory implements BrowserContextFactory {
   readonly browserConfig: FullConfig['browser'];
   protected _browserPromise: Promise<playwright.Browser> | undefined;
@@ -73,14 +80,14 @@ class BaseContextFactory implements BrowserContextFactory {
     throw new Error('Not implemented');
   }
 
-  async createContext(): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> {
+  async createContext(options: CreateContextOptions = {}): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> {
     testDebug(`create browser context (${this.name})`);
     const browser = await this._obtainBrowser();
-    const browserContext = await this._doCreateContext(browser);
+    const browserContext = await this._doCreateContext(browser, options);
     return { browserContext, close: () => this._closeBrowserContext(browserContext, browser) };
   }
 
-  protected async _doCreateContext(browser: playwright.Browser): Promise<playwright.BrowserContext> {
+  protected async _doCreateContext(browser: playwright.Browser, options: CreateContextOptions): Promise<playwright.BrowserContext> {
     throw new Error('Not implemented');
   }
 
@@ -115,8 +122,11 @@ class IsolatedContextFactory extends BaseContextFactory {
     });
   }
 
-  protected override async _doCreateContext(browser: playwright.Browser): Promise<playwright.BrowserContext> {
-    return browser.newContext(this.browserConfig.contextOptions);
+  protected override async _doCreateContext(browser: playwright.Browser, options: CreateContextOptions): Promise<playwright.BrowserContext> {
+    return browser.newContext({
+      ...this.browserConfig.contextOptions,
+      storageState: options.storageState ?? this.browserConfig.contextOptions.storageState,
+    });
   }
 }
 
@@ -129,8 +139,10 @@ class CdpContextFactory extends BaseContextFactory {
     return playwright.chromium.connectOverCDP(this.browserConfig.cdpEndpoint!);
   }
 
-  protected override async _doCreateContext(browser: playwright.Browser): Promise<playwright.BrowserContext> {
-    return this.browserConfig.isolated ? await browser.newContext() : browser.contexts()[0];
+  protected override async _doCreateContext(browser: playwright.Browser, options: CreateContextOptions): Promise<playwright.BrowserContext> {
+    if (!this.browserConfig.isolated && options.storageState)
+      throw new Error(sharedContextError);
+    return this.browserConfig.isolated ? await browser.newContext({ storageState: options.storageState }) : browser.contexts()[0];
   }
 }
 
@@ -147,8 +159,8 @@ class RemoteContextFactory extends BaseContextFactory {
     return playwright[this.browserConfig.browserName].connect(String(url));
   }
 
-  protected override async _doCreateContext(browser: playwright.Browser): Promise<playwright.BrowserContext> {
-    return browser.newContext();
+  protected override async _doCreateContext(browser: playwright.Browser, options: CreateContextOptions): Promise<playwright.BrowserContext> {
+    return browser.newContext({ storageState: options.storageState });
   }
 }
 
@@ -160,7 +172,10 @@ class PersistentContextFactory implements BrowserContextFactory {
     this.browserConfig = browserConfig;
   }
 
-  async createContext(): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> {
+  async createContext(options: CreateContextOptions = {}): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> {
+    // The persistent profile is shared by everyone using this user data directory.
+    if (options.storageState)
+      throw new Error(sharedContextError);
     await injectCdpPort(this.browserConfig);
     testDebug('create browser context (persistent)');
     const userDataDir = this.browserConfig.userDataDir ?? await this._createUserDataDir();
@@ -238,8 +253,10 @@ export class BrowserServerContextFactory extends BaseContextFactory {
     return await playwright.chromium.connectOverCDP(`http://localhost:${info.cdpPort}/`);
   }
 
-  protected override async _doCreateContext(browser: playwright.Browser): Promise<playwright.BrowserContext> {
-    return this.browserConfig.isolated ? await browser.newContext() : browser.contexts()[0];
+  protected override async _doCreateContext(browser: playwright.Browser, options: CreateContextOptions): Promise<playwright.BrowserContext> {
+    if (!this.browserConfig.isolated && options.storageState)
+      throw new Error(sharedContextError);
+    return this.browserConfig.isolated ? await browser.newContext({ storageState: options.storageState }) : browser.contexts()[0];
   }
 
   private async _createUserDataDir() {
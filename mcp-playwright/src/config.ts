@@ -22,6 +22,7 @@ import { devices } from 'playwright';
 import type { Config as PublicConfig, ToolCapability } from '../config.js';
 import type { BrowserContextOptions, LaunchOptions } from 'playwright';
 import { sanitizeForFilePath } from './tools/utils.js';
+import { validateProfileName } from './profiles.js';
 
 type Config = PublicConfig & {
   /**
@@ -47,12 +48,16 @@ export type CLIOptions = {
   ignoreHttpsErrors?: boolean;
   isolated?: boolean;
   imageResponses?: 'allow' | 'omit' | 'auto';
+  macrosDir?: string;
+  profile?: string;
+  profilesDir?: string;
   sandbox: boolean;
   outputDir?: string;
   port?: number;
   proxyBypass?: string;
   proxyServer?: string;
   saveTrace?: boolean;
+  sharedBrowserContext?: boolean;
   storageState?: string;
   userAgent?: string;
   userDataDir?: string;
@@ -113,6 +118,8 @@ export function validateConfig(config: Config) {
     if (config.browser?.browserName !== 'chromium')
       throw new Error('Extension mode is only supported for Chromium browsers.');
   }
+  if (config.profiles?.default)
+    validateProfileName(config.profiles.default);
 }
 
 export async function configFromCLIOptions(cliOptions: CLIOptions): Promise<Config> {
@@ -212,6 +219,14 @@ export async function configFromCLIOptions(cliOptions: CLIOptions): Promise<Conf
     saveTrace: cliOptions.saveTrace,
     outputDir: cliOptions.outputDir,
     imageResponses: cliOptions.imageResponses,
+    sharedBrowserContext: cliOptions.sharedBrowserContext,
+    profiles: {
+      dir: cliOptions.profilesDir,
+      default: cliOptions.profile,
+    },
+    macros: {
+      dir: cliOptions.macrosDir,
+    },
   };
 
   return result;
@@ -272,5 +287,13 @@ function mergeConfig(base: FullConfig, overrides: Config): FullConfig {
       ...pickDefined(base.server),
       ...pickDefined(overrides.server),
     },
+    profiles: {
+      ...pickDefined(base.profiles),
+      ...pickDefined(overrides.profiles),
+    },
+    macros: {
+      ...pickDefined(base.macros),
+      ...pickDefined(overrides.macros),
+    },
   } as FullConfig;
 }
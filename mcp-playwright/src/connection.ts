@@ -25,12 +25,14 @@ import { packageJSON } from './package.js';
 import { FullConfig, validateConfig } from './config.js';
 
 import type { BrowserContextFactory } from './browserContextFactory.js';
+import type { ProfileStore } from './profiles.js';
+import type { MacroStore } from './macros.js';
 
-export function createConnection(config: FullConfig, browserContextFactory: BrowserContextFactory): Connection {
+export function createConnection(config: FullConfig, browserContextFactory: BrowserContextFactory, profiles: ProfileStore | undefined, macros: MacroStore | undefined, profile?: string): Connection {
   const allTools = config.vision ? visionTools : snapshotTools;
   const tools = allTools.filter(tool => !config.capabilities || tool.capability === 'core' || config.capabilities.includes(tool.capability));
   validateConfig(config);
-  const context = new Context(tools, config, browserContextFactory);
+  const context = new Context(tools, config, browserContextFactory, profiles, macros, profile);
   const server = new McpServer({ name: 'Playwright', version: packageJSON.version }, {
     capabilities: {
       tools: {},
@@ -93,6 +95,6 @@ export class Connection {
 
   async close() {
     await this.server.close();
-    await this.context.close();
+    await this.context.dispose();
   }
 }
@@ -21,16 +21,39 @@ import { callOnPageNoTrace, waitForCompletion } from './tools/utils.js';
 import { ManualPromise } from './manualPromise.js';
 import { Tab } from './tab.js';
 import { outputFile } from './config.js';
+import { anonymousMacrosError, MacroRecording } from './macros.js';
+import { anonymousProfilesError } from './profiles.js';
 
 import type { ImageContent, TextContent } from '@modelcontextprotocol/sdk/types.js';
 import type { ModalState, Tool, ToolActionResult } from './tools/tool.js';
 import type { FullConfig } from './config.js';
 import type { BrowserContextFactory } from './browserContextFactory.js';
+import type { ProfileStore } from './profiles.js';
+import type { MacroStore } from './macros.js';
 
 type PendingAction = {
   dialogShown: ManualPromise<void>;
 };
 
+export type RouteMockOptions = {
+  // Glob pattern matched against the request URL, see BrowserContext.route().
+  pattern: string;
+  action: 'fulfill' | 'abort' | 'modify';
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  body?: string;
+  // Literal replacements applied to the real response body when modifying.
+  replace?: { search: string, replacement: string }[];
+  errorCode?: string;
+};
+
+export type RouteMock = RouteMockOptions & {
+  id: number;
+  hits: number;
+  handler: (route: playwright.Route) => Promise<void>;
+};
+
 const testDebug = debug('pw:mcp:test');
 
 export class Context {
@@ -43,15 +66,97 @@ export class Context {
   private _modalStates: (ModalState & { tab: Tab })[] = [];
   private _pendingAction: PendingAction | undefined;
   private _downloads: { download: playwright.Download, finished: boolean, outputFile: string }[] = [];
+  private _routeMocks: RouteMock[] = [];
+  private _lastRouteMockId = 0;
+  private _profiles: ProfileStore | undefined;
+  private _profile: string | undefined;
+  private _macros: MacroStore | undefined;
+  private _macroRecording: MacroRecording | undefined;
   clientVersion: { name: string; version: string; } | undefined;
 
-  constructor(tools: Tool[], config: FullConfig, browserContextFactory: BrowserContextFactory) {
+  constructor(tools: Tool[], config: FullConfig, browserContextFactory: BrowserContextFactory, profiles: ProfileStore | undefined, macros: MacroStore | undefined, profile?: string) {
     this.tools = tools;
     this.config = config;
     this._browserContextFactory = browserContextFactory;
+    this._profiles = profiles;
+    this._macros = macros;
+    this._profile = profile;
     testDebug('create context');
   }
 
+  profiles(): ProfileStore {
+    // Over HTTP profiles belong to a client, so anonymous connections cannot use them.
+    if (!this._profiles)
+      throw new Error(anonymousProfilesError);
+    return this._profiles;
+  }
+
+  profile(): string | undefined {
+    return this._profile;
+  }
+
+  /**
+   * Switches the session to another named profile. The current browser context is saved
+   * into the current profile and closed; the next browser action starts with the new profile.
+   */
+  async useProfile(name: string | undefined) {
+    if (name)
+      this.profiles().acquire(name, this);
+    try {
+      await this.close();
+    } catch (error) {
+      if (name && name !== this._profile)
+        this.profiles().release(name, this);
+      throw error;
+    }
+    if (this._profile && this._profile !== name)
+      this.profiles().release(this._profile, this);
+    this._profile = name;
+  }
+
+  async saveProfile(name: string) {
+    if (!this._browserContextPromise)
+      throw new Error('The browser is not open, there is nothing to save.');
+    const { browserContext } = await this._browserContextPromise;
+    const state = await browserContext.storageState();
+    await this.profiles().save(name, state, this);
+    return state;
+  }
+
+  async deleteProfile(name: string) {
+    await this.profiles().delete(name, this);
+    // Keep the browser open, but do not save the deleted profile back when it closes.
+    if (this._profile === name) {
+      this.profiles().release(name, this);
+      this._profile = undefined;
+    }
+  }
+
+  macros(): MacroStore {
+    if (!this._macros)
+      throw new Error(anonymousMacrosError);
+    return this._macros;
+  }
+
+  macroRecording(): MacroRecording | undefined {
+    return this._macroRecording;
+  }
+
+  startMacroRecording(name: string, description?: string): MacroRecording {
+    if (this._macroRecording)
+      throw new Error(`Already recording macro "${this._macroRecording.name}", stop it first.`);
+    this._macroRecording = new MacroRecording(name, description);
+    return this._macroRecording;
+  }
+
+  stopMacroRecording(): MacroRecording {
+    if (!this._macroRecording)
+      throw new Error('No macro is being recorded.');
+    const recording = this._macroRecording;
+    this._macroRecording = undefined;
+    return recording;
+  }
+
   clientSupportsImages(): boolean {
     if (this.config.imageResponses === 'allow')
       return true;
@@ -133,8 +238,19 @@ export class Context {
   }
 
   async run(tool: Tool, params: Record<string, unknown> | undefined) {
+    const parsedParams = tool.schema.inputSchema.parse(params || {});
+    const recording = this._macroRecording;
+    const step = await recording?.prepareStep(this, tool, parsedParams);
+    const result = await this._runTool(tool, parsedParams);
+    // Only steps that succeeded make it into the macro.
+    if (step)
+      recording!.addStep(step);
+    return result;
+  }
+
+  private async _runTool(tool: Tool, params: Record<string, unknown>) {
     // Tab management is done outside of the action() call.
-    const toolResult = await tool.handle(this, tool.schema.inputSchema.parse(params || {}));
+    const toolResult = await tool.handle(this, params);
     const { code, action, waitForNetwork, captureSnapshot, resultOverride } = toolResult;
     const racingAction = action ? () => this._raceAgainstModalDialogs(action) : undefined;
 
@@ -290,6 +406,92 @@ ${code.join('\n')}
       void this.close();
   }
 
+  routeMocks(): RouteMock[] {
+    return this._routeMocks;
+  }
+
+  async addRouteMock(options: RouteMockOptions): Promise<RouteMock> {
+    const mock: RouteMock = {
+      ...options,
+      id: ++this._lastRouteMockId,
+      hits: 0,
+      handler: route => this._handleRouteMock(mock, route),
+    };
+    this._routeMocks.push(mock);
+    // Mocks added before the browser starts are installed by _setupRequestInterception.
+    if (this._browserContextPromise) {
+      const { browserContext } = await this._browserContextPromise;
+      await browserContext.route(mock.pattern, mock.handler);
+    }
+    return mock;
+  }
+
+  async removeRouteMocks(filter: { id?: number, pattern?: string }): Promise<RouteMock[]> {
+    const removed = this._routeMocks.filter(mock => (filter.id === undefined || mock.id === filter.id) && (filter.pattern === undefined || mock.pattern === filter.pattern));
+    this._routeMocks = this._routeMocks.filter(mock => !removed.includes(mock));
+    if (this._browserContextPromise && removed.length) {
+      const { browserContext } = await this._browserContextPromise;
+      for (const mock of removed)
+        await browserContext.unroute(mock.pattern, mock.handler);
+    }
+    return removed;
+  }
+
+  private async _handleRouteMock(mock: RouteMock, route: playwright.Route) {
+    mock.hits++;
+    if (mock.action === 'abort') {
+      await route.abort(mock.errorCode ?? 'blockedbyclient');
+      return;
+    }
+    if (mock.action === 'fulfill') {
+      await route.fulfill({
+        status: mock.status ?? 200,
+        headers: mock.headers,
+        contentType: mock.contentType,
+        body: mock.body ?? '',
+      });
+      return;
+    }
+    // Mocks run before the origin rules, so re-check them before fetching the real response.
+    if (!this._isOriginAllowed(route.request().url())) {
+      await route.abort('blockedbyclient');
+      return;
+    }
+    const response = await route.fetch();
+    let body: string | Buffer | undefined = mock.body;
+    if (body === undefined && mock.replace?.length) {
+      body = await response.text();
+      for (const { search, replacement } of mock.replace)
+        body = body.split(search).join(replacement);
+    }
+    const headers = { ...response.headers(), ...mock.headers };
+    if (mock.contentType)
+      headers['content-type'] = mock.contentType;
+    // The body below is already decoded and may have a different length.
+    delete headers['content-encoding'];
+    delete headers['content-length'];
+    await route.fulfill({
+      response,
+      status: mock.status,
+      headers,
+      body: body ?? await response.body(),
+    });
+  }
+
+  private _isOriginAllowed(url: string): boolean {
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      return true;
+    }
+    if (this.config.network?.blockedOrigins?.includes(host))
+      return false;
+    if (this.config.network?.allowedOrigins?.length)
+      return this.config.network.allowedOrigins.includes(host);
+    return true;
+  }
+
   async close() {
     if (!this._browserContextPromise)
       return;
@@ -300,12 +502,23 @@ ${code.join('\n')}
     this._browserContextPromise = undefined;
 
     await promise.then(async ({ browserContext, close }) => {
+      if (this._profile) {
+        const state = await browserContext.storageState().catch(() => undefined);
+        if (state)
+          await this.profiles().save(this._profile, state, this).catch(error => testDebug(`failed to save profile: ${error}`));
+      }
       if (this.config.saveTrace)
         await browserContext.tracing.stop();
       await close();
     });
   }
 
+  async dispose() {
+    await this.close();
+    if (this._profile)
+      this.profiles().release(this._profile, this);
+  }
+
   private async _setupRequestInterception(context: playwright.BrowserContext) {
     if (this.config.network?.allowedOrigins?.length) {
       await context.route('**', route => route.abort('blockedbyclient'));
@@ -318,6 +531,10 @@ ${code.join('\n')}
       for (const origin of this.config.network.blockedOrigins)
         await context.route(`*://${origin}/**`, route => route.abort('blockedbyclient'));
     }
+
+    // Registered last so that they take precedence over the origin rules above.
+    for (const mock of this._routeMocks)
+      await context.route(mock.pattern, mock.handler);
   }
 
   private _ensureBrowserContext() {
@@ -332,7 +549,12 @@ ${code.join('\n')}
 
   private async _setupBrowserContext(): Promise<{ browserContext: playwright.BrowserContext, close: () => Promise<void> }> {
     // TODO: move to the browser context factory to make it based on isolation mode.
-    const result = await this._browserContextFactory.createContext();
+    let storageState: playwright.BrowserContextOptions['storageState'];
+    if (this._profile) {
+      this.profiles().acquire(this._profile, this);
+      storageState = await this.profiles().load(this._profile) ?? { cookies: [], origins: [] };
+    }
+    const result = await this._browserContextFactory.createContext({ storageState });
     const { browserContext } = result;
     await this._setupRequestInterception(browserContext);
     for (const page of browserContext.pages())
@@ -0,0 +1,348 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+import debug from 'debug';
+
+import { cacheDir } from './fileUtils.js';
+import { generateLocator } from './tools/utils.js';
+
+import type * as playwright from 'playwright';
+import type { Context } from './context.js';
+import type { FullConfig } from './config.js';
+import type { Tab } from './tab.js';
+import type { Tool } from './tools/tool.js';
+
+export type MacroStep = {
+  tool: string;
+  params: Record<string, unknown>;
+  // Locators of the elements the step refers to, keyed by the ref parameter.
+  // Refs are only valid for one snapshot, replay uses the locators to find the elements again.
+  locators?: Record<string, string>;
+  // Set when the step typed into a password field; its text is never saved.
+  secret?: boolean;
+};
+
+export type MacroParameter = {
+  name: string;
+  description?: string;
+  default?: string;
+};
+
+export type Macro = {
+  name: string;
+  description?: string;
+  parameters: MacroParameter[];
+  steps: MacroStep[];
+  created: string;
+};
+
+const macroNamePattern = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,63}$/;
+const parameterNamePattern = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const placeholderPattern = /\{\{([a-zA-Z_][a-zA-Z0-9_]*)\}\}/g;
+
+// Ref parameters of the snapshot tools and the element description that goes with each of them.
+const refParams: Record<string, string> = {
+  ref: 'element',
+  startRef: 'startElement',
+  endRef: 'endElement',
+};
+
+// Tools that only inspect the browser or manage macros and profiles are left out of recordings.
+const unrecordedTools = new Set([
+  'browser_audit',
+  'browser_console_messages',
+  'browser_extract',
+  'browser_generate_playwright_test',
+  'browser_macro_delete',
+  'browser_macro_list',
+  'browser_macro_run',
+  'browser_macro_start',
+  'browser_macro_stop',
+  'browser_network_export_har',
+  'browser_network_request_details',
+  'browser_network_requests',
+  'browser_profile_delete',
+  'browser_profile_list',
+  'browser_profile_load',
+  'browser_profile_save',
+  'browser_route_list',
+  'browser_snapshot',
+  'browser_tab_list',
+]);
+
+// Text typed by these tools becomes a macro parameter unless the parameters are given explicitly.
+const typingTools = new Set(['browser_type', 'browser_screen_type']);
+
+const testDebug = debug('pw:mcp:test');
+
+export const anonymousMacrosError = 'Macros over HTTP belong to a client: send an "Authorization: Bearer <token>" header to identify it.';
+
+export function isRefParam(name: string): boolean {
+  return name in refParams;
+}
+
+export function validateMacroName(name: string): string {
+  if (!macroNamePattern.test(name))
+    throw new Error(`Invalid macro name "${name}": use up to 64 letters, digits, ".", "_" or "-", starting with a letter or digit.`);
+  return name;
+}
+
+/**
+ * Steps recorded from the tools run in a session, see Context.run().
+ */
+export class MacroRecording {
+  readonly name: string;
+  readonly description: string | undefined;
+  readonly steps: MacroStep[] = [];
+
+  constructor(name: string, description: string | undefined) {
+    this.name = validateMacroName(name);
+    this.description = description;
+  }
+
+  /**
+   * Called before the tool runs, while the refs in its parameters still point into the current snapshot.
+   */
+  async prepareStep(context: Context, tool: Tool, params: Record<string, unknown>): Promise<MacroStep | undefined> {
+    if (unrecordedTools.has(tool.schema.name))
+      return undefined;
+    const step: MacroStep = { tool: tool.schema.name, params };
+    for (const [refParam, elementParam] of Object.entries(refParams)) {
+      const ref = params[refParam];
+      if (typeof ref !== 'string')
+        continue;
+      const snapshot = context.currentTabOrDie().snapshotOrDie();
+      const locator = snapshot.refLocator({ ref, element: String(params[elementParam] ?? '') });
+      step.locators = { ...step.locators, [refParam]: await generateLocator(locator) };
+      if (typingTools.has(step.tool) && await isPasswordField(locator))
+        step.secret = true;
+    }
+    return step;
+  }
+
+  addStep(step: MacroStep) {
+    testDebug(`record macro step ${step.tool}`);
+    this.steps.push(step);
+  }
+
+  /**
+   * Turns the recording into a macro. Each given parameter replaces every occurrence of its value
+   * in the step parameters with a {{name}} placeholder; without explicit parameters, typed text is
+   * parameterized automatically. Typed text is never kept as a default, and text typed into password
+   * fields is always replaced by a parameter, so the saved macro holds no credentials.
+   */
+  toMacro(parameters?: { name: string, value: string, description?: string }[]): Macro {
+    const steps = this.steps.map(step => ({ ...step, params: { ...step.params } }));
+    const macroParameters: MacroParameter[] = [];
+
+    if (parameters) {
+      for (const parameter of parameters) {
+        if (!parameterNamePattern.test(parameter.name))
+          throw new Error(`Invalid parameter name "${parameter.name}": use letters, digits and "_", starting with a letter or "_".`);
+        if (macroParameters.some(p => p.name === parameter.name))
+          throw new Error(`Parameter "${parameter.name}" is defined twice.`);
+        if (!parameter.value)
+          throw new Error(`Parameter "${parameter.name}" needs a non-empty value.`);
+        let used = false;
+        for (const step of steps) {
+          step.params = mapParams(step.params, value => {
+            if (!value.includes(parameter.value))
+              return value;
+            used = true;
+            return value.split(parameter.value).join(`{{${parameter.name}}}`);
+          });
+        }
+        if (!used)
+          throw new Error(`The value of parameter "${parameter.name}" does not appear in any recorded step.`);
+        const secret = this.steps.some(step => step.secret && String(step.params.text).includes(parameter.value));
+        macroParameters.push({ name: parameter.name, description: parameter.description, default: secret ? undefined : parameter.value });
+      }
+    }
+
+    for (const step of steps) {
+      if (!typingTools.has(step.tool) || typeof step.params.text !== 'string')
+        continue;
+      // Explicit parameters only leave out the text of password fields, and only when a parameter covers it.
+      if (parameters && (!step.secret || isPlaceholderOnly(step.params.text)))
+        continue;
+      const element = typeof step.params.element === 'string' ? step.params.element : '';
+      const name = uniqueName(parameterName(element), macroParameters);
+      macroParameters.push({ name, description: element ? `Text typed into ${element}` : undefined });
+      step.params.text = `{{${name}}}`;
+    }
+
+    return {
+      name: this.name,
+      description: this.description,
+      parameters: macroParameters,
+      steps,
+      created: new Date().toISOString(),
+    };
+  }
+}
+
+async function isPasswordField(locator: playwright.Locator): Promise<boolean> {
+  return await locator.evaluate(element => element instanceof HTMLInputElement && element.type === 'password').catch(() => false);
+}
+
+function isPlaceholderOnly(text: string): boolean {
+  return !text.replace(placeholderPattern, '');
+}
+
+function parameterName(element: string): string {
+  const name = element.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40);
+  return name && !/^\d/.test(name) ? name : 'text';
+}
+
+function uniqueName(name: string, parameters: MacroParameter[]): string {
+  let result = name;
+  for (let i = 2; parameters.some(p => p.name === result); i++)
+    result = `${name}_${i}`;
+  return result;
+}
+
+function mapParams(params: Record<string, unknown>, map: (value: string) => string): Record<string, unknown> {
+  const mapValue = (value: unknown): unknown => {
+    if (typeof value === 'string')
+      return map(value);
+    if (Array.isArray(value))
+      return value.map(mapValue);
+    if (value && typeof value === 'object')
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapValue(item)]));
+    return value;
+  };
+  return Object.fromEntries(Object.entries(params).map(([key, value]) => [key, isRefParam(key) ? value : mapValue(value)]));
+}
+
+/**
+ * Returns the steps of the macro with the placeholders replaced by the arguments or the parameter defaults.
+ */
+export function applyMacroArguments(macro: Macro, args: Record<string, string>): MacroStep[] {
+  for (const name of Object.keys(args)) {
+    if (!macro.parameters.some(parameter => parameter.name === name))
+      throw new Error(`Macro "${macro.name}" has no parameter "${name}". Parameters: ${macro.parameters.map(p => p.name).join(', ') || 'none'}.`);
+  }
+  const values = new Map<string, string>();
+  for (const parameter of macro.parameters) {
+    const value = args[parameter.name] ?? parameter.default;
+    if (value === undefined)
+      throw new Error(`Macro "${macro.name}" requires a value for parameter "${parameter.name}".`);
+    values.set(parameter.name, value);
+  }
+  return macro.steps.map(step => ({
+    ...step,
+    params: mapParams(step.params, value => value.replace(placeholderPattern, (placeholder, name) => values.get(name) ?? placeholder)),
+  }));
+}
+
+/**
+ * Points the ref parameters of a recorded step at the elements of the current snapshot
+ * that match the recorded locators.
+ */
+export async function resolveMacroRefs(tab: Tab, step: MacroStep): Promise<Record<string, unknown>> {
+  if (!step.locators)
+    return step.params;
+  await tab.captureSnapshot();
+  const snapshot = tab.snapshotOrDie();
+  const refs = [...snapshot.text().matchAll(/\[ref=([^\]]+)\]/g)].map(match => match[1]);
+  const params = { ...step.params };
+  for (const [refParam, expected] of Object.entries(step.locators)) {
+    const element = String(params[refParams[refParam]] ?? '');
+    const recordedRef = String(params[refParam]);
+    // Try the recorded ref first, it is still right when the page renders the same way.
+    const candidates = refs.includes(recordedRef) ? [recordedRef, ...refs.filter(ref => ref !== recordedRef)] : refs;
+    let found: string | undefined;
+    for (const ref of candidates) {
+      const locator = await generateLocator(snapshot.refLocator({ ref, element })).catch(() => undefined);
+      if (locator === expected) {
+        found = ref;
+        break;
+      }
+    }
+    if (!found)
+      throw new Error(`Could not find ${element ? `"${element}"` : 'the element'} on the page, it was recorded as page.${expected}`);
+    params[refParam] = found;
+  }
+  return params;
+}
+
+/**
+ * Recorded macros, one JSON file per macro. Like profiles, the macros of each HTTP client
+ * are kept apart, see `forClient`.
+ */
+export class MacroStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  static fromConfig(config: FullConfig): MacroStore {
+    return new MacroStore(config.macros?.dir ?? path.join(cacheDir(), 'mcp-macros'));
+  }
+
+  /** Returns the macros of one remote client, which no other client can list, run or delete */
+  forClient(clientId: string): MacroStore {
+    return new MacroStore(path.join(this.dir, 'clients', clientId));
+  }
+
+  macroFile(name: string): string {
+    return path.join(this.dir, `${validateMacroName(name)}.json`);
+  }
+
+  async load(name: string): Promise<Macro> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.macroFile(name), 'utf8')) as Macro;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT')
+        throw new Error(`Macro "${name}" does not exist.`);
+      throw new Error(`Failed to read macro "${name}": ${error}`);
+    }
+  }
+
+  async save(macro: Macro) {
+    const file = this.macroFile(macro.name);
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const tempFile = `${file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempFile, JSON.stringify(macro, null, 2));
+    await fs.promises.rename(tempFile, file);
+  }
+
+  async delete(name: string) {
+    await fs.promises.rm(this.macroFile(name)).catch((error: NodeJS.ErrnoException) => {
+      throw error.code === 'ENOENT' ? new Error(`Macro "${name}" does not exist.`) : error;
+    });
+  }
+
+  async list(): Promise<Macro[]> {
+    const names = await fs.promises.readdir(this.dir).catch(() => [] as string[]);
+    const result: Macro[] = [];
+    for (const fileName of names.filter(name => name.endsWith('.json')).sort()) {
+      const name = fileName.slice(0, -'.json'.length);
+      if (!macroNamePattern.test(name))
+        continue;
+      try {
+        result.push(await this.load(name));
+      } catch (error) {
+        testDebug(`skip unreadable macro ${fileName}: ${error}`);
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+import debug from 'debug';
+
+import { cacheDir } from './fileUtils.js';
+
+import type * as playwright from 'playwright';
+import type { FullConfig } from './config.js';
+
+type StorageState = Awaited<ReturnType<playwright.BrowserContext['storageState']>>;
+
+export type ProfileInfo = {
+  name: string;
+  updated: string;
+  cookies: number;
+  origins: string[];
+  inUse: boolean;
+};
+
+const profileNamePattern = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,63}$/;
+
+const testDebug = debug('pw:mcp:test');
+
+export const anonymousProfilesError = 'Browser profiles over HTTP belong to a client: send an "Authorization: Bearer <token>" header to identify it.';
+
+export function validateProfileName(name: string): string {
+  if (!profileNamePattern.test(name))
+    throw new Error(`Invalid profile name "${name}": use up to 64 letters, digits, ".", "_" or "-", starting with a letter or digit.`);
+  return name;
+}
+
+/**
+ * Named browser profiles, saved as Playwright storage states (cookies and localStorage).
+ * Local clients use the profiles directory itself; HTTP clients each get a store of their
+ * own through `forClient`. A profile is used by at most one connection at a time so that
+ * sessions never see each other's cookies.
+ */
+export class ProfileStore {
+  readonly dir: string;
+  // Connections using a profile, keyed by profile file and shared by the stores of all clients.
+  private _owners: Map<string, object>;
+
+  constructor(dir: string, owners = new Map<string, object>()) {
+    this.dir = dir;
+    this._owners = owners;
+  }
+
+  static fromConfig(config: FullConfig): ProfileStore {
+    return new ProfileStore(config.profiles?.dir ?? path.join(cacheDir(), 'mcp-profiles'));
+  }
+
+  /**
+   * Returns the profiles of one remote client. They live in a directory of their own,
+   * so a client can neither list nor load, save or delete the profiles of another.
+   */
+  forClient(clientId: string): ProfileStore {
+    return new ProfileStore(path.join(this.dir, 'clients', clientId), this._owners);
+  }
+
+  profileFile(name: string): string {
+    return path.join(this.dir, `${validateProfileName(name)}.json`);
+  }
+
+  async exists(name: string): Promise<boolean> {
+    return await fs.promises.access(this.profileFile(name)).then(() => true, () => false);
+  }
+
+  private _checkOwner(name: string, owner: object) {
+    const current = this._owners.get(this.profileFile(name));
+    if (current && current !== owner)
+      throw new Error(`Profile "${name}" is in use by another session.`);
+  }
+
+  acquire(name: string, owner: object) {
+    this._checkOwner(name, owner);
+    testDebug(`acquire profile ${name}`);
+    this._owners.set(this.profileFile(name), owner);
+  }
+
+  release(name: string, owner: object) {
+    const file = this.profileFile(name);
+    if (this._owners.get(file) !== owner)
+      return;
+    testDebug(`release profile ${name}`);
+    this._owners.delete(file);
+  }
+
+  async load(name: string): Promise<StorageState | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.profileFile(name), 'utf8')) as StorageState;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT')
+        return undefined;
+      throw new Error(`Failed to read profile "${name}": ${error}`);
+    }
+  }
+
+  async save(name: string, state: StorageState, owner: object) {
+    this._checkOwner(name, owner);
+    const file = this.profileFile(name);
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    // Write to a temporary file first so that a crash never leaves a truncated profile behind.
+    const tempFile = `${file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempFile, JSON.stringify(state, null, 2), { mode: 0o600 });
+    await fs.promises.rename(tempFile, file);
+  }
+
+  async delete(name: string, owner: object) {
+    this._checkOwner(name, owner);
+    if (!await this.exists(name))
+      throw new Error(`Profile "${name}" does not exist.`);
+    await fs.promises.rm(this.profileFile(name));
+  }
+
+  async list(): Promise<ProfileInfo[]> {
+    const names = await fs.promises.readdir(this.dir).catch(() => [] as string[]);
+    const result: ProfileInfo[] = [];
+    for (const fileName of names.filter(name => name.endsWith('.json')).sort()) {
+      const name = fileName.slice(0, -'.json'.length);
+      if (!profileNamePattern.test(name))
+        continue;
+      const file = path.join(this.dir, fileName);
+      try {
+        const [stat, content] = await Promise.all([fs.promises.stat(file), fs.promises.readFile(file, 'utf8')]);
+        const state = JSON.parse(content) as StorageState;
+        result.push({
+          name,
+          updated: stat.mtime.toISOString(),
+          cookies: state.cookies?.length ?? 0,
+          origins: state.origins?.map(origin => origin.origin) ?? [],
+          inUse: this._owners.has(file),
+        });
+      } catch (error) {
+        testDebug(`skip unreadable profile ${file}: ${error}`);
+      }
+    }
+    return result;
+  }
+}
@@ -16,6 +16,8 @@
 
 import { createConnection } from './connection.js';
 import { contextFactory } from './browserContextFactory.js';
+import { anonymousProfilesError, ProfileStore, validateProfileName } from './profiles.js';
+import { MacroStore } from './macros.js';
 
 import type { FullConfig } from './config.js';
 import type { Connection } from './connection.js';
@@ -27,20 +29,42 @@ export class Server {
   private _connectionList: Connection[] = [];
   private _browserConfig: FullConfig['browser'];
   private _contextFactory: BrowserContextFactory;
+  private _profiles: ProfileStore;
+  private _macros: MacroStore;
 
   constructor(config: FullConfig) {
     this.config = config;
     this._browserConfig = config.browser;
-    this._contextFactory = contextFactory(this._browserConfig);
+    // Over HTTP every client gets its own browser context so that sessions do not share cookies and storage.
+    // A configured user data directory is a single persistent profile, so it keeps being shared as before.
+    const isolateClients = config.server.port !== undefined && !config.sharedBrowserContext && !config.extension && !config.browser.userDataDir;
+    this._contextFactory = contextFactory(isolateClients ? { ...this._browserConfig, isolated: true } : this._browserConfig);
+    this._profiles = ProfileStore.fromConfig(config);
+    this._macros = MacroStore.fromConfig(config);
   }
 
-  async createConnection(transport: Transport): Promise<Connection> {
-    const connection = createConnection(this.config, this._contextFactory);
+  /**
+   * Connects a client. `clientId` identifies the client of an HTTP connection and selects
+   * its profiles and macros; HTTP connections without one cannot use either.
+   */
+  async createConnection(transport: Transport, options: { profile?: string, clientId?: string } = {}): Promise<Connection> {
+    const profiles = this._forClient(this._profiles, options.clientId);
+    const macros = this._forClient(this._macros, options.clientId);
+    if (options.profile && !profiles)
+      throw new Error(anonymousProfilesError);
+    const profile = options.profile ? validateProfileName(options.profile) : profiles && this.config.profiles?.default;
+    const connection = createConnection(this.config, this._contextFactory, profiles, macros, profile);
     this._connectionList.push(connection);
     await connection.server.connect(transport);
     return connection;
   }
 
+  private _forClient<T extends { forClient(clientId: string): T }>(store: T, clientId: string | undefined): T | undefined {
+    if (this.config.server.port === undefined)
+      return store;
+    return clientId ? store.forClient(clientId) : undefined;
+  }
+
   setupExitWatchdog() {
     let isExiting = false;
     const handleExit = async () => {
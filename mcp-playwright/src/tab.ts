@@ -25,6 +25,7 @@ export class Tab {
   readonly context: Context;
   readonly page: playwright.Page;
   private _consoleMessages: playwright.ConsoleMessage[] = [];
+  private _pageErrors: Error[] = [];
   private _requests: Map<playwright.Request, playwright.Response | null> = new Map();
   private _snapshot: PageSnapshot | undefined;
   private _onPageClose: (tab: Tab) => void;
@@ -34,6 +35,7 @@ export class Tab {
     this.page = page;
     this._onPageClose = onPageClose;
     page.on('console', event => this._consoleMessages.push(event));
+    page.on('pageerror', error => this._pageErrors.push(error));
     page.on('request', request => this._requests.set(request, null));
     page.on('response', response => this._requests.set(response.request(), response));
     page.on('close', () => this._onClose());
@@ -54,6 +56,7 @@ export class Tab {
 
   private _clearCollectedArtifacts() {
     this._consoleMessages.length = 0;
+    this._pageErrors.length = 0;
     this._requests.clear();
   }
 
@@ -110,6 +113,10 @@ export class Tab {
     return this._consoleMessages;
   }
 
+  pageErrors(): Error[] {
+    return this._pageErrors;
+  }
+
   requests(): Map<playwright.Request, playwright.Response | null> {
     return this._requests;
   }
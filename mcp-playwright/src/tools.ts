@@ -14,15 +14,19 @@
  * limitations under the License.
  */
 
+import audit from './tools/audit.js';
 import common from './tools/common.js';
 import console from './tools/console.js';
 import dialogs from './tools/dialogs.js';
+import extract from './tools/extract.js';
 import files from './tools/files.js';
 import install from './tools/install.js';
 import keyboard from './tools/keyboard.js';
+import macros from './tools/macros.js';
 import navigate from './tools/navigate.js';
 import network from './tools/network.js';
 import pdf from './tools/pdf.js';
+import profiles from './tools/profiles.js';
 import snapshot from './tools/snapshot.js';
 import tabs from './tools/tabs.js';
 import screenshot from './tools/screenshot.js';
@@ -33,15 +37,19 @@ import wait from './tools/wait.js';
 import type { Tool } from './tools/tool.js';
 
 export const snapshotTools: Tool<any>[] = [
+  ...audit,
   ...common(true),
   ...console,
   ...dialogs(true),
+  ...extract,
   ...files(true),
   ...install,
   ...keyboard(true),
+  ...macros,
   ...navigate(true),
   ...network,
   ...pdf,
+  ...profiles,
   ...screenshot,
   ...snapshot,
   ...tabs(true),
@@ -50,15 +58,19 @@ export const snapshotTools: Tool<any>[] = [
 ];
 
 export const visionTools: Tool<any>[] = [
+  ...audit,
   ...common(false),
   ...console,
   ...dialogs(false),
+  ...extract,
   ...files(false),
   ...install,
   ...keyboard(false),
+  ...macros,
   ...navigate(false),
   ...network,
   ...pdf,
+  ...profiles,
   ...tabs(false),
   ...testing,
   ...vision,
@@ -0,0 +1,404 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { defineTool } from './tool.js';
+import { callOnPageNoTrace } from './utils.js';
+
+import type { Tab } from '../tab.js';
+
+const allChecks = ['labels', 'contrast', 'headings', 'landmarks', 'performance', 'console'] as const;
+
+type Check = typeof allChecks[number];
+
+export type AuditIssue = {
+  check: Exclude<Check, 'performance' | 'console'> | 'document';
+  severity: 'error' | 'warning';
+  message: string;
+  // Short CSS-like description of the element, for example `input#email[name="email"]`.
+  element?: string;
+};
+
+export type AuditOptions = {
+  checks: string[];
+  maxIssues: number;
+};
+
+export type PageAudit = {
+  issues: AuditIssue[];
+  truncated: Record<string, number>;
+  headings?: { level: number, text: string }[];
+  landmarks?: Record<string, number>;
+  performance?: Record<string, unknown>;
+};
+
+const audit = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_audit',
+    title: 'Audit page',
+    description: 'Check the current page for accessibility problems (missing labels, low text contrast, heading order, landmark structure), and report page load timing and console errors. Returns a JSON report',
+    inputSchema: z.object({
+      checks: z.array(z.enum(allChecks)).optional().describe('Checks to run, all of them by default'),
+      maxIssues: z.number().int().positive().optional().describe('Maximum number of issues reported per check, defaults to 20'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params) => {
+    const tab = context.currentTabOrDie();
+    const checks = params.checks?.length ? params.checks : [...allChecks];
+    const maxIssues = params.maxIssues ?? 20;
+
+    return {
+      code: [`// <internal code to audit the page>`],
+      action: async () => {
+        const report = await auditTab(tab, checks, maxIssues);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(report, null, 2) }],
+        };
+      },
+      captureSnapshot: false,
+      waitForNetwork: false,
+    };
+  },
+});
+
+async function auditTab(tab: Tab, checks: Check[], maxIssues: number) {
+  const options: AuditOptions = { checks: checks.filter(check => check !== 'console'), maxIssues };
+  const pageAudit = await callOnPageNoTrace(tab.page, page => page.evaluate(auditPage, options));
+
+  const errors = pageAudit.issues.filter(issue => issue.severity === 'error').length;
+  const summary: Record<string, unknown> = {
+    url: tab.page.url(),
+    title: await tab.title(),
+    checks,
+    errors,
+    warnings: pageAudit.issues.length - errors,
+  };
+  const report: Record<string, unknown> = { summary, issues: pageAudit.issues };
+  if (Object.keys(pageAudit.truncated).length)
+    report.truncated = pageAudit.truncated;
+  if (pageAudit.headings)
+    report.headings = pageAudit.headings;
+  if (pageAudit.landmarks)
+    report.landmarks = pageAudit.landmarks;
+  if (pageAudit.performance)
+    report.performance = pageAudit.performance;
+
+  if (checks.includes('console')) {
+    const messages = tab.consoleMessages();
+    const consoleErrors = messages.filter(message => message.type() === 'error');
+    const failedRequests = [...tab.requests().entries()]
+        .filter(([request, response]) => request.failure() || (response && response.status() >= 400))
+        .map(([request, response]) => `[${request.method()}] ${request.url()} => ${response ? `[${response.status()}] ${response.statusText()}` : request.failure()?.errorText}`);
+    report.console = {
+      errors: consoleErrors.length,
+      warnings: messages.filter(message => message.type() === 'warning').length,
+      uncaughtExceptions: tab.pageErrors().length,
+      failedRequests: failedRequests.length,
+      samples: [
+        ...consoleErrors.map(message => `[ERROR] ${message.text()}`),
+        ...tab.pageErrors().map(error => `[EXCEPTION] ${error.message}`),
+        ...failedRequests.map(request => `[REQUEST] ${request}`),
+      ].slice(0, maxIssues),
+    };
+    summary.consoleErrors = consoleErrors.length + tab.pageErrors().length;
+  }
+  return report;
+}
+
+// Runs inside the page, so it must not refer to anything outside of its own body.
+export async function auditPage(options: AuditOptions): Promise<PageAudit> {
+  const issues: AuditIssue[] = [];
+  const counts = new Map<string, number>();
+  const truncated: Record<string, number> = {};
+  const report = (issue: AuditIssue) => {
+    const count = (counts.get(issue.check) ?? 0) + 1;
+    counts.set(issue.check, count);
+    if (count <= options.maxIssues)
+      issues.push(issue);
+    else
+      truncated[issue.check] = count - options.maxIssues;
+  };
+
+  const describe = (element: Element) => {
+    let result = element.localName;
+    if (element.id)
+      result += `#${element.id}`;
+    for (const attribute of ['name', 'type', 'role', 'href', 'src']) {
+      const value = element.getAttribute(attribute);
+      if (value)
+        result += `[${attribute}="${value.length > 40 ? value.slice(0, 37) + '...' : value}"]`;
+    }
+    const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+    if (text)
+      result += ` "${text.length > 40 ? text.slice(0, 37) + '...' : text}"`;
+    return result;
+  };
+
+  const isHidden = (element: Element) => !element.getClientRects().length || !!element.closest('[aria-hidden="true"]') || getComputedStyle(element).visibility === 'hidden';
+
+  const textOf = (element: Element): string => {
+    const parts: string[] = [];
+    for (const node of element.childNodes) {
+      if (node.nodeType === Node.TEXT_NODE)
+        parts.push(node.textContent ?? '');
+      else if (node instanceof HTMLImageElement)
+        parts.push(node.alt);
+      else if (node instanceof Element && node.getAttribute('aria-hidden') !== 'true')
+        parts.push(node.getAttribute('aria-label') ?? textOf(node));
+    }
+    return parts.join(' ').replace(/\s+/g, ' ').trim();
+  };
+
+  // A simplified accessible name: enough to tell whether there is one.
+  const accessibleName = (element: Element): string => {
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\s+/).map(id => document.getElementById(id)).filter(Boolean).map(label => textOf(label!)).join(' ').trim();
+      if (text)
+        return text;
+    }
+    const label = element.getAttribute('aria-label')?.trim();
+    if (label)
+      return label;
+    const labels = (element as HTMLInputElement).labels;
+    if (labels?.length)
+      return [...labels].map(textOf).join(' ').trim();
+    return element.getAttribute('title')?.trim() ?? '';
+  };
+
+  if (options.checks.includes('labels')) {
+    const controls = document.querySelectorAll('input:not([type=hidden]):not([type=submit]):not([type=button]):not([type=reset]):not([type=image]), select, textarea, [role=textbox], [role=combobox], [role=checkbox], [role=radio], [role=switch], [role=slider]');
+    for (const control of controls) {
+      if (isHidden(control) || accessibleName(control))
+        continue;
+      if (control.getAttribute('placeholder'))
+        report({ check: 'labels', severity: 'warning', message: 'Form field is only labelled by its placeholder', element: describe(control) });
+      else
+        report({ check: 'labels', severity: 'error', message: 'Form field has no label', element: describe(control) });
+    }
+    for (const button of document.querySelectorAll('button, [role=button], input[type=image], a[href], [role=link]')) {
+      if (isHidden(button))
+        continue;
+      const name = accessibleName(button) || (button instanceof HTMLInputElement ? button.alt : textOf(button));
+      if (!name) {
+        const kind = button.matches('a[href], [role=link]') ? 'Link' : 'Button';
+        report({ check: 'labels', severity: 'error', message: `${kind} has no accessible name`, element: describe(button) });
+      }
+    }
+    for (const image of document.querySelectorAll('img, [role=img]')) {
+      if (isHidden(image))
+        continue;
+      if (image instanceof HTMLImageElement ? !image.hasAttribute('alt') && !accessibleName(image) : !accessibleName(image))
+        report({ check: 'labels', severity: 'error', message: 'Image has no alt text, use alt="" for decorative images', element: describe(image) });
+    }
+  }
+
+  if (options.checks.includes('contrast')) {
+    type Rgba = [number, number, number, number];
+    const parseColor = (value: string): Rgba | undefined => {
+      const match = value.match(/^rgba?\(([\d.]+),\s*([\d.]+),\s*([\d.]+)(?:,\s*([\d.]+))?\)$/);
+      return match ? [+match[1], +match[2], +match[3], match[4] === undefined ? 1 : +match[4]] : undefined;
+    };
+    const blend = (top: Rgba, bottom: Rgba): Rgba => {
+      const alpha = top[3];
+      return [0, 1, 2].map(i => top[i] * alpha + bottom[i] * (1 - alpha)).concat(1) as Rgba;
+    };
+    const luminance = (color: Rgba) => {
+      const [r, g, b] = color.slice(0, 3).map(channel => {
+        const value = channel / 255;
+        return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+      });
+      return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    };
+    // Background images and gradients are not analyzed, the background is undefined then.
+    const background = (element: Element): Rgba | undefined => {
+      const layers: Rgba[] = [];
+      for (let current: Element | null = element; current; current = current.parentElement) {
+        const style = getComputedStyle(current);
+        if (style.backgroundImage !== 'none')
+          return undefined;
+        const color = parseColor(style.backgroundColor);
+        if (color && color[3] > 0)
+          layers.push(color);
+        if (color && color[3] === 1)
+          break;
+      }
+      return layers.reduceRight<Rgba>((bottom, layer) => blend(layer, bottom), [255, 255, 255, 1]);
+    };
+
+    const checked = new Set<Element>();
+    const walker = document.createTreeWalker(document.body ?? document.documentElement, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const element = node.parentElement;
+      if (!element || checked.has(element) || !node.textContent?.trim() || element.closest('script, style, noscript, template'))
+        continue;
+      checked.add(element);
+      if (isHidden(element))
+        continue;
+      const style = getComputedStyle(element);
+      const color = parseColor(style.color);
+      const backgroundColor = background(element);
+      if (!color || !backgroundColor)
+        continue;
+      const foreground = blend(color, backgroundColor);
+      const [lighter, darker] = [luminance(foreground), luminance(backgroundColor)].sort((a, b) => b - a);
+      const ratio = (lighter + 0.05) / (darker + 0.05);
+      const fontSize = parseFloat(style.fontSize);
+      const large = fontSize >= 24 || (fontSize >= 18.66 && parseInt(style.fontWeight, 10) >= 700);
+      const required = large ? 3 : 4.5;
+      if (ratio < required)
+        report({ check: 'contrast', severity: 'error', message: `Text contrast ${ratio.toFixed(2)}:1 is below ${required}:1 (${style.color} on ${`rgb(${backgroundColor.slice(0, 3).map(Math.round).join(', ')})`})`, element: describe(element) });
+    }
+  }
+
+  let headings: { level: number, text: string }[] | undefined;
+  if (options.checks.includes('headings')) {
+    headings = [...document.querySelectorAll('h1, h2, h3, h4, h5, h6, [role=heading]')]
+        .filter(heading => !isHidden(heading))
+        .map(heading => {
+          const level = Number(heading.getAttribute('aria-level')) || Number(heading.localName.slice(1)) || 2;
+          const text = accessibleName(heading) || textOf(heading);
+          if (!text)
+            report({ check: 'headings', severity: 'error', message: 'Heading is empty', element: describe(heading) });
+          return { level, text, heading };
+        })
+        .map(({ level, text, heading }, index, all) => {
+          const previous = all[index - 1];
+          if (previous && level > previous.level + 1)
+            report({ check: 'headings', severity: 'warning', message: `Heading level jumps from ${previous.level} to ${level}`, element: describe(heading) });
+          return { level, text };
+        });
+    const topLevel = headings.filter(heading => heading.level === 1).length;
+    if (!headings.length)
+      report({ check: 'headings', severity: 'warning', message: 'Page has no headings' });
+    else if (!topLevel)
+      report({ check: 'headings', severity: 'warning', message: 'Page has no level 1 heading' });
+    else if (topLevel > 1)
+      report({ check: 'headings', severity: 'warning', message: `Page has ${topLevel} level 1 headings` });
+    else if (headings[0].level !== 1)
+      report({ check: 'headings', severity: 'warning', message: `First heading is level ${headings[0].level}, not 1` });
+  }
+
+  let landmarks: Record<string, number> | undefined;
+  if (options.checks.includes('landmarks')) {
+    // header and footer are only landmarks outside of sectioning content.
+    const sectioning = 'article, aside, main, nav, section';
+    const landmarkSelectors: Record<string, string> = {
+      banner: 'header, [role=banner]',
+      navigation: 'nav, [role=navigation]',
+      main: 'main, [role=main]',
+      complementary: 'aside, [role=complementary]',
+      contentinfo: 'footer, [role=contentinfo]',
+      search: 'search, [role=search]',
+      region: 'section[aria-label], section[aria-labelledby], [role=region][aria-label], [role=region][aria-labelledby]',
+      form: 'form[aria-label], form[aria-labelledby], [role=form]',
+    };
+    const found: Record<string, Element[]> = {};
+    for (const [role, selector] of Object.entries(landmarkSelectors)) {
+      found[role] = [...document.querySelectorAll(selector)].filter(element => {
+        if (isHidden(element))
+          return false;
+        if ((role === 'banner' || role === 'contentinfo') && !element.hasAttribute('role'))
+          return !element.parentElement?.closest(sectioning);
+        return true;
+      });
+    }
+    landmarks = Object.fromEntries(Object.entries(found).map(([role, elements]) => [role, elements.length]));
+
+    if (!found.main.length)
+      report({ check: 'landmarks', severity: 'error', message: 'Page has no main landmark' });
+    if (found.main.length > 1)
+      report({ check: 'landmarks', severity: 'error', message: `Page has ${found.main.length} main landmarks` });
+    for (const role of ['banner', 'contentinfo']) {
+      if (found[role].length > 1)
+        report({ check: 'landmarks', severity: 'warning', message: `Page has ${found[role].length} ${role} landmarks` });
+    }
+    for (const role of ['navigation', 'complementary', 'region', 'form']) {
+      const names = found[role].map(accessibleName);
+      if (names.length > 1 && new Set(names).size < names.length)
+        report({ check: 'landmarks', severity: 'warning', message: `${names.length} ${role} landmarks do not have distinct labels` });
+    }
+
+    const allLandmarks = new Set(Object.values(found).flat());
+    const outside = new Set<Element>();
+    const walker = document.createTreeWalker(document.body ?? document.documentElement, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const element = node.parentElement;
+      if (!element || outside.has(element) || !node.textContent?.trim() || element.closest('script, style, noscript, template') || isHidden(element))
+        continue;
+      let inLandmark = false;
+      for (let current: Element | null = element; current && !inLandmark; current = current.parentElement)
+        inLandmark = allLandmarks.has(current);
+      if (!inLandmark)
+        outside.add(element);
+    }
+    for (const element of outside)
+      report({ check: 'landmarks', severity: 'warning', message: 'Content is outside of any landmark', element: describe(element) });
+  }
+
+  if (options.checks.some(check => check !== 'performance')) {
+    if (!document.documentElement.getAttribute('lang'))
+      report({ check: 'document', severity: 'error', message: 'The <html> element has no lang attribute' });
+    if (!document.title.trim())
+      report({ check: 'document', severity: 'error', message: 'Page has no title' });
+  }
+
+  let performanceReport: Record<string, unknown> | undefined;
+  if (options.checks.includes('performance')) {
+    const round = (value: number | undefined) => value === undefined ? undefined : Math.round(value);
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    const paints = Object.fromEntries(performance.getEntriesByType('paint').map(entry => [entry.name, round(entry.startTime)]));
+    const largestPaint = await new Promise<number | undefined>(resolve => {
+      if (!PerformanceObserver.supportedEntryTypes?.includes('largest-contentful-paint'))
+        return resolve(undefined);
+      const observer = new PerformanceObserver(list => {
+        const entries = list.getEntries();
+        observer.disconnect();
+        resolve(entries.length ? entries[entries.length - 1].startTime : undefined);
+      });
+      observer.observe({ type: 'largest-contentful-paint', buffered: true });
+      // The observer is not called at all when nothing was painted.
+      setTimeout(() => {
+        observer.disconnect();
+        resolve(undefined);
+      }, 100);
+    });
+    const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+    performanceReport = {
+      // All times are in milliseconds since the navigation started.
+      timeToFirstByte: round(navigation?.responseStart),
+      domContentLoaded: round(navigation?.domContentLoadedEventEnd) || undefined,
+      load: round(navigation?.loadEventEnd) || undefined,
+      firstContentfulPaint: paints['first-contentful-paint'],
+      largestContentfulPaint: round(largestPaint),
+      documentTransferSize: navigation?.transferSize,
+      resources: resources.length,
+      resourcesTransferSize: resources.reduce((total, resource) => total + resource.transferSize, 0),
+      slowestResources: [...resources].sort((a, b) => b.duration - a.duration).slice(0, 3).map(resource => ({ url: resource.name, duration: round(resource.duration) })),
+      domElements: document.getElementsByTagName('*').length,
+    };
+  }
+
+  return { issues, truncated, headings, landmarks, performance: performanceReport };
+}
+
+export default [
+  audit,
+];
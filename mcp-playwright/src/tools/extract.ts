@@ -0,0 +1,334 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+
+import { defineTool } from './tool.js';
+import { waitForCompletion } from './utils.js';
+import * as javascript from '../javascript.js';
+
+import type * as playwright from 'playwright';
+import type { Context } from '../context.js';
+import type { Tab } from '../tab.js';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'url';
+
+// Normalized field description, evaluated inside the page for every matched item.
+type FieldSpec = {
+  // CSS selectors tried in order inside the item, the item itself is used when empty.
+  selectors: string[];
+  attribute?: string;
+  type: FieldType;
+  multiple: boolean;
+};
+
+type ItemSpec = {
+  // Undefined means automatic extraction: table rows keyed by header, or text and link otherwise.
+  fields?: Record<string, FieldSpec>;
+};
+
+const fieldSchema = z.union([
+  z.string().describe('CSS selector of the element inside the item whose text is the field value'),
+  z.object({
+    selector: z.string().optional().describe('CSS selector of the element inside the item, defaults to the item itself'),
+    attribute: z.string().optional().describe('Attribute to read instead of the text content, for example "href" or "src"'),
+    type: z.enum(['string', 'number', 'boolean', 'url']).optional().describe('How to convert the value, "url" resolves relative links. Defaults to "string"'),
+    multiple: z.boolean().optional().describe('Return an array with the values of all matching elements'),
+  }),
+]);
+
+const extractSchema = z.object({
+  selector: z.string().optional().describe('CSS or ARIA selector matching each item to extract, for example ".product", "table.results" or "role=listitem". Matching a table extracts one item per row. Can be omitted when the JSON schema has "x-selector"'),
+  fields: z.record(fieldSchema).optional().describe('Map of output field name to the element it is read from. Omit both fields and schema to extract table rows keyed by their headers, or the text and link of each item'),
+  schema: z.record(z.any()).optional().describe('JSON schema of one item (or an array of items). Properties may set "x-selector" and "x-attribute"; properties without them are looked up by itemprop, data-field, name or class. "type": "number"/"integer"/"boolean" and "format": "uri" convert values'),
+  element: z.string().optional().describe('Human-readable description of the container to extract from'),
+  ref: z.string().optional().describe('Exact container element reference from the page snapshot, limits extraction to that element. Cannot be combined with nextSelector, use a selector that includes the container instead'),
+  nextSelector: z.string().optional().describe('CSS or ARIA selector of the "next page" link or button, enables pagination'),
+  maxPages: z.number().int().min(1).max(20).optional().describe('Maximum number of pages to visit when paginating, defaults to 5'),
+  limit: z.number().int().min(1).max(1000).optional().describe('Maximum number of items to return, defaults to 100'),
+});
+
+type ExtractParams = z.output<typeof extractSchema>;
+
+const extract = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_extract',
+    title: 'Extract structured data',
+    description: 'Extract repeated items such as product lists, search results or table rows from the current page as JSON, optionally following "next" links',
+    inputSchema: extractSchema,
+    type: 'readOnly',
+  },
+
+  handle: async (context, params) => {
+    const tab = context.currentTabOrDie();
+    const itemSelector = params.selector ?? schemaSelector(params.schema);
+    if (!itemSelector)
+      throw new Error('Provide "selector" or an "x-selector" in the JSON schema to locate the items to extract.');
+    // Snapshot refs only exist on the current page, the container could not be found after following "next".
+    if (params.ref && params.nextSelector)
+      throw new Error('"ref" cannot be combined with "nextSelector", include the container in "selector" instead, for example "#results .product".');
+    const spec = resolveItemSpec(params);
+    const limit = params.limit ?? 100;
+    const maxPages = params.nextSelector ? params.maxPages ?? 5 : 1;
+    const container = params.ref ? tab.snapshotOrDie().refLocator({ ref: params.ref, element: params.element ?? 'container' }) : undefined;
+
+    const code = [
+      `// Extract items matching ${itemSelector}`,
+      `const items = await page.locator(${javascript.quote(itemSelector)}).evaluateAll(/* <internal extraction code> */);`,
+    ];
+    if (params.nextSelector) {
+      code.push(
+          `// Follow ${params.nextSelector} for up to ${maxPages} pages`,
+          `await page.locator(${javascript.quote(params.nextSelector)}).first().click();`,
+      );
+    }
+
+    return {
+      code,
+      action: async () => {
+        const result = await extractPages(context, tab, { container, itemSelector, spec, nextSelector: params.nextSelector, maxPages, limit });
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      },
+      // Pagination navigates, so the previous snapshot refs no longer apply.
+      captureSnapshot: !!params.nextSelector,
+      waitForNetwork: false,
+    };
+  },
+});
+
+async function extractPages(
+  context: Context,
+  tab: Tab,
+  options: { container?: playwright.Locator, itemSelector: string, spec: ItemSpec, nextSelector?: string, maxPages: number, limit: number }
+) {
+  const items: Record<string, unknown>[] = [];
+  const visited: string[] = [];
+  let previousPage: string | undefined;
+  let stopReason = 'no next page';
+
+  for (let pageIndex = 0; pageIndex < options.maxPages; pageIndex++) {
+    const pageItems = await (options.container ?? tab.page).locator(options.itemSelector).evaluateAll(extractItems, options.spec);
+    // A "next" control that does not change the page would loop over the same items.
+    const pageKey = tab.page.url() + JSON.stringify(pageItems);
+    if (pageKey === previousPage) {
+      stopReason = 'next page repeated the previous page';
+      break;
+    }
+    previousPage = pageKey;
+    visited.push(tab.page.url());
+    items.push(...pageItems.map(item => options.maxPages > 1 ? { ...item, _page: pageIndex + 1 } : item));
+
+    if (items.length >= options.limit) {
+      stopReason = 'limit reached';
+      break;
+    }
+    if (!options.nextSelector)
+      break;
+    if (pageIndex === options.maxPages - 1) {
+      stopReason = 'maxPages reached';
+      break;
+    }
+    const next = tab.page.locator(options.nextSelector).first();
+    if (!await next.count() || !await next.isVisible() || !await next.isEnabled() || await next.getAttribute('aria-disabled') === 'true')
+      break;
+    await waitForCompletion(context, tab, () => next.click());
+  }
+
+  return {
+    items: items.slice(0, options.limit),
+    count: Math.min(items.length, options.limit),
+    truncated: items.length > options.limit,
+    pages: visited,
+    ...(options.nextSelector ? { stopReason } : {}),
+  };
+}
+
+function schemaSelector(schema: Record<string, any> | undefined): string | undefined {
+  if (!schema)
+    return undefined;
+  return schema['x-selector'] ?? schema.items?.['x-selector'];
+}
+
+function resolveItemSpec(params: ExtractParams): ItemSpec {
+  if (params.fields && params.schema)
+    throw new Error('Use either "fields" or "schema", not both.');
+
+  if (params.fields) {
+    const fields: Record<string, FieldSpec> = {};
+    for (const [name, field] of Object.entries(params.fields)) {
+      if (typeof field === 'string') {
+        fields[name] = { selectors: [field], type: 'string', multiple: false };
+        continue;
+      }
+      fields[name] = {
+        selectors: field.selector ? [field.selector] : [],
+        attribute: field.attribute,
+        type: field.type ?? (field.attribute === 'href' || field.attribute === 'src' ? 'url' : 'string'),
+        multiple: !!field.multiple,
+      };
+    }
+    return { fields };
+  }
+
+  if (params.schema) {
+    const itemSchema = params.schema.type === 'array' ? params.schema.items : params.schema;
+    if (!itemSchema || typeof itemSchema.properties !== 'object')
+      throw new Error('The JSON schema must describe an object with "properties", or an array of such objects.');
+    const fields: Record<string, FieldSpec> = {};
+    for (const [name, property] of Object.entries<Record<string, any>>(itemSchema.properties))
+      fields[name] = fieldFromSchema(name, property);
+    return { fields };
+  }
+
+  return {};
+}
+
+function fieldFromSchema(name: string, property: Record<string, any>): FieldSpec {
+  const multiple = property.type === 'array';
+  const valueSchema = multiple ? property.items ?? {} : property;
+  let type: FieldType = 'string';
+  if (valueSchema.type === 'number' || valueSchema.type === 'integer')
+    type = 'number';
+  else if (valueSchema.type === 'boolean')
+    type = 'boolean';
+  else if (valueSchema.format === 'uri' || valueSchema.format === 'url')
+    type = 'url';
+
+  const selector = property['x-selector'];
+  const selectors = selector !== undefined ? [selector].filter(Boolean) : [
+    `[itemprop="${name}"]`,
+    `[data-field="${name}"]`,
+    `[name="${name}"]`,
+    `.${cssIdentifier(name)}`,
+  ];
+  return { selectors, attribute: property['x-attribute'], type, multiple };
+}
+
+function cssIdentifier(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, ch => `\\${ch}`);
+}
+
+// Runs inside the page, must not reference anything from the module scope.
+function extractItems(elements: Element[], spec: ItemSpec): Record<string, unknown>[] {
+  const text = (element: Element) => ((element as HTMLElement).innerText ?? element.textContent ?? '').replace(/\s+/g, ' ').trim();
+
+  const toNumber = (value: string): number | null => {
+    const match = value.replace(/\s/g, '').match(/-?\d[\d.,]*/);
+    if (!match)
+      return null;
+    let digits = match[0];
+    const lastComma = digits.lastIndexOf(',');
+    const lastDot = digits.lastIndexOf('.');
+    if (lastComma !== -1 && lastDot !== -1) {
+      // Whichever separator comes last is the decimal one.
+      digits = lastComma > lastDot ? digits.replace(/\./g, '').replace(',', '.') : digits.replace(/,/g, '');
+    } else if (lastComma !== -1) {
+      digits = /^-?\d{1,3}(,\d{3})+$/.test(digits) ? digits.replace(/,/g, '') : digits.replace(',', '.');
+    }
+    const result = parseFloat(digits);
+    return isNaN(result) ? null : result;
+  };
+
+  const convert = (element: Element, field: FieldSpec): unknown => {
+    if (field.type === 'boolean' && !field.attribute) {
+      if (element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio'))
+        return element.checked;
+      const value = text(element).toLowerCase();
+      return !!value && !['false', 'no', '0', 'off'].includes(value);
+    }
+    let raw: string | null;
+    if (field.attribute)
+      raw = element.getAttribute(field.attribute);
+    else if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement)
+      raw = element.value;
+    else if (element instanceof HTMLMetaElement)
+      raw = element.content;
+    else
+      raw = text(element);
+    if (raw === null)
+      return null;
+    switch (field.type) {
+      case 'number': return toNumber(raw);
+      case 'boolean': return !['false', 'no', '0', 'off', ''].includes(raw.trim().toLowerCase());
+      case 'url':
+        try {
+          return new URL(raw, document.baseURI).href;
+        } catch {
+          return raw;
+        }
+      default: return raw.trim();
+    }
+  };
+
+  const readField = (item: Element, field: FieldSpec): unknown => {
+    let matches: Element[] = [item];
+    for (const selector of field.selectors) {
+      try {
+        matches = [...item.querySelectorAll(selector)];
+      } catch {
+        matches = [];
+      }
+      if (matches.length)
+        break;
+    }
+    if (field.selectors.length && !matches.length)
+      return field.multiple ? [] : null;
+    if (field.multiple)
+      return matches.map(match => convert(match, field));
+    return convert(matches[0], field);
+  };
+
+  const tableRows = (table: HTMLTableElement, rows: HTMLTableRowElement[]) => {
+    const headerRow = table.tHead?.rows[0] ?? [...table.rows].find(row => [...row.cells].every(cell => cell.tagName === 'TH'));
+    const headers = headerRow ? [...headerRow.cells].map((cell, index) => text(cell) || `column${index + 1}`) : [];
+    return rows.filter(row => row !== headerRow && row.parentElement?.tagName !== 'THEAD').map(row => {
+      const result: Record<string, unknown> = {};
+      [...row.cells].forEach((cell, index) => {
+        result[headers[index] ?? `column${index + 1}`] = text(cell);
+      });
+      return result;
+    });
+  };
+
+  const results: Record<string, unknown>[] = [];
+  for (const element of elements) {
+    if (spec.fields) {
+      const result: Record<string, unknown> = {};
+      for (const [name, field] of Object.entries(spec.fields))
+        result[name] = readField(element, field);
+      results.push(result);
+    } else if (element instanceof HTMLTableElement) {
+      results.push(...tableRows(element, [...element.rows]));
+    } else if (element instanceof HTMLTableRowElement && element.closest('table')) {
+      results.push(...tableRows(element.closest('table')!, [element]));
+    } else {
+      const link = element.closest('a[href]') ?? element.querySelector('a[href]');
+      results.push({
+        text: text(element),
+        ...(link ? { href: (link as HTMLAnchorElement).href } : {}),
+      });
+    }
+  }
+  return results;
+}
+
+export default [
+  extract,
+];
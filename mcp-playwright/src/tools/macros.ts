@@ -0,0 +1,266 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { defineTool } from './tool.js';
+import { applyMacroArguments, isRefParam, resolveMacroRefs } from '../macros.js';
+
+import type { Context } from '../context.js';
+import type { Macro, MacroStep } from '../macros.js';
+
+const macroName = z.string().describe('Macro name: letters, digits, ".", "_" or "-"');
+
+const startRecording = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_macro_start',
+    title: 'Start recording a macro',
+    description: 'Start recording the browser actions of this session into a named macro. Actions that only inspect the page, such as snapshots, are not recorded. An existing macro with the same name is replaced when the recording is stopped',
+    inputSchema: z.object({
+      name: macroName,
+      description: z.string().optional().describe('What the macro does'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params) => {
+    context.startMacroRecording(params.name, params.description);
+    return {
+      code: [`// <internal code to start recording macro "${params.name}">`],
+      captureSnapshot: false,
+      waitForNetwork: false,
+      resultOverride: {
+        content: [{ type: 'text', text: `Recording macro "${params.name}". Perform the actions, then use browser_macro_stop to save it.` }],
+      },
+    };
+  },
+});
+
+const stopRecording = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_macro_stop',
+    title: 'Stop recording a macro',
+    description: 'Stop recording and save the macro. Recorded values can be turned into parameters that are passed when the macro is run; without explicit parameters, every typed text becomes a required parameter. Text typed into password fields is never saved',
+    inputSchema: z.object({
+      parameters: z.array(z.object({
+        name: z.string().describe('Parameter name, used as {{name}} in the recorded steps'),
+        value: z.string().describe('Recorded value to replace with the parameter; it also becomes the default value, unless it was typed into a password field'),
+        description: z.string().optional().describe('What the parameter is for'),
+      })).optional().describe('Values to parameterize'),
+      discard: z.boolean().optional().describe('Stop recording without saving the macro'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params) => {
+    const recording = context.macroRecording();
+    if (!recording)
+      throw new Error('No macro is being recorded, use browser_macro_start first.');
+    if (params.discard) {
+      context.stopMacroRecording();
+      return {
+        code: [`// <internal code to discard macro "${recording.name}">`],
+        captureSnapshot: false,
+        waitForNetwork: false,
+        resultOverride: {
+          content: [{ type: 'text', text: `Discarded the recording of macro "${recording.name}"` }],
+        },
+      };
+    }
+    if (!recording.steps.length)
+      throw new Error('No actions were recorded yet. Perform some browser actions first, or pass "discard" to stop without saving.');
+
+    // Build the macro before stopping so that a bad parameter can be fixed and the stop retried.
+    const macro = recording.toMacro(params.parameters);
+    const store = context.macros();
+    await store.save(macro);
+    context.stopMacroRecording();
+
+    return {
+      code: [`// <internal code to save macro "${macro.name}">`],
+      captureSnapshot: false,
+      waitForNetwork: false,
+      resultOverride: {
+        content: [{ type: 'text', text: [`Saved macro "${macro.name}" to ${store.macroFile(macro.name)}`, '', ...describeMacro(macro)].join('\n') }],
+      },
+    };
+  },
+});
+
+const listMacros = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_macro_list',
+    title: 'List macros',
+    description: 'List the saved macros with their parameters and steps',
+    inputSchema: z.object({}),
+    type: 'readOnly',
+  },
+
+  handle: async context => {
+    const macros = await context.macros().list();
+    const recording = context.macroRecording();
+    const lines: string[] = [];
+    if (recording)
+      lines.push(`### Recording`, `- "${recording.name}", ${recording.steps.length} steps so far`, '');
+    if (!macros.length)
+      lines.push('### No saved macros');
+    for (const macro of macros)
+      lines.push(...describeMacro(macro), '');
+
+    return {
+      code: [`// <internal code to list macros>`],
+      captureSnapshot: false,
+      waitForNetwork: false,
+      resultOverride: {
+        content: [{ type: 'text', text: lines.join('\n').trimEnd() }],
+      },
+    };
+  },
+});
+
+const runMacro = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_macro_run',
+    title: 'Run a macro',
+    description: 'Replay a saved macro step by step. Stops at the first failing step and returns the log of all steps together with a snapshot of the page',
+    inputSchema: z.object({
+      name: macroName,
+      arguments: z.record(z.string()).optional().describe('Values for the macro parameters, by parameter name. Parameters that are left out use their default value; parameters without one are required'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params) => {
+    const macro = await context.macros().load(params.name);
+    const steps = applyMacroArguments(macro, params.arguments ?? {});
+    const log: string[] = [];
+    let failed = false;
+    for (let i = 0; i < steps.length; i++) {
+      const title = `${i + 1}. ${describeStep(steps[i])}`;
+      if (failed) {
+        log.push(`${title}: skipped`);
+        continue;
+      }
+      try {
+        await runStep(context, steps[i]);
+        log.push(`${title}: done`);
+      } catch (error) {
+        log.push(`${title}: failed, ${String(error).split('\n')[0]}`);
+        failed = true;
+      }
+    }
+
+    const result = [`### Macro "${macro.name}" ${failed ? 'failed' : 'completed'}`, ...log, ''];
+    if (context.tabs().length) {
+      const tab = context.currentTabOrDie();
+      await tab.captureSnapshot();
+      result.push(`- Page URL: ${tab.page.url()}`, `- Page Title: ${await tab.title()}`, tab.snapshotOrDie().text());
+    } else {
+      result.push('### No open pages');
+    }
+
+    return {
+      code: [`// <internal code to run macro "${macro.name}">`],
+      captureSnapshot: false,
+      waitForNetwork: false,
+      resultOverride: {
+        content: [{ type: 'text', text: result.join('\n') }],
+      },
+    };
+  },
+});
+
+const deleteMacro = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_macro_delete',
+    title: 'Delete a macro',
+    description: 'Delete a saved macro',
+    inputSchema: z.object({
+      name: macroName,
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params) => {
+    await context.macros().delete(params.name);
+    return {
+      code: [`// <internal code to delete macro "${params.name}">`],
+      captureSnapshot: false,
+      waitForNetwork: false,
+      resultOverride: {
+        content: [{ type: 'text', text: `Deleted macro "${params.name}"` }],
+      },
+    };
+  },
+});
+
+async function runStep(context: Context, step: MacroStep) {
+  const tool = context.tools.find(tool => tool.schema.name === step.tool);
+  if (!tool)
+    throw new Error(`Tool "${step.tool}" is not available in this server.`);
+  // Same checks as for tools called by the client, see createConnection().
+  const modalStates = context.modalStates().map(state => state.type);
+  if (tool.clearsModalState && !modalStates.includes(tool.clearsModalState))
+    throw new Error(`The tool "${step.tool}" can only be used when there is related modal state present.`);
+  if (!tool.clearsModalState && modalStates.length)
+    throw new Error(`Tool "${step.tool}" does not handle the modal state: ${context.modalStatesMarkdown().slice(1).join(' ')}`);
+  const params = step.locators ? await resolveMacroRefs(context.currentTabOrDie(), step) : step.params;
+  await context.run(tool, params);
+}
+
+function describeStep(step: MacroStep): string {
+  const details = Object.entries(step.params)
+      .filter(([key, value]) => !isRefParam(key) && value !== undefined)
+      .map(([key, value]) => {
+        const text = JSON.stringify(value);
+        return `${key}: ${text.length > 60 ? text.slice(0, 57) + '...' : text}`;
+      });
+  return details.length ? `${step.tool} (${details.join(', ')})` : step.tool;
+}
+
+function describeMacro(macro: Macro): string[] {
+  const lines = [`### ${macro.name}`];
+  if (macro.description)
+    lines.push(macro.description);
+  lines.push('Parameters:');
+  if (!macro.parameters.length)
+    lines.push('- None');
+  for (const parameter of macro.parameters) {
+    const description = parameter.description ? ` ${parameter.description}.` : '';
+    const defaultValue = parameter.default !== undefined ? ` Default: ${JSON.stringify(parameter.default)}` : '';
+    lines.push(`- ${parameter.name}:${description}${defaultValue}`);
+  }
+  lines.push('Steps:');
+  macro.steps.forEach((step, index) => lines.push(`${index + 1}. ${describeStep(step)}`));
+  return lines;
+}
+
+export default [
+  startRecording,
+  stopRecording,
+  listMacros,
+  runMacro,
+  deleteMacro,
+];
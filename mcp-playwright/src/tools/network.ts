@@ -14,10 +14,20 @@
  * limitations under the License.
  */
 
+import fs from 'fs';
+
 import { z } from 'zod';
 import { defineTool } from './tool.js';
+import { outputFile } from '../config.js';
+import { packageJSON } from '../package.js';
+import * as javascript from '../javascript.js';
 
 import type * as playwright from 'playwright';
+import type { RouteMock } from '../context.js';
+
+// Bodies larger than this are summarized instead of returned or exported.
+const maxBodySize = 1024 * 1024;
+const maxBodyPreview = 10000;
 
 const requests = defineTool({
   capability: 'core',
@@ -25,14 +35,14 @@ const requests = defineTool({
   schema: {
     name: 'browser_network_requests',
     title: 'List network requests',
-    description: 'Returns all network requests since loading the page',
+    description: 'Returns all network requests since loading the page, numbered for browser_network_request_details',
     inputSchema: z.object({}),
     type: 'readOnly',
   },
 
   handle: async context => {
     const requests = context.currentTabOrDie().requests();
-    const log = [...requests.entries()].map(([request, response]) => renderRequest(request, response)).join('\n');
+    const log = [...requests.entries()].map(([request, response], index) => `#${index + 1} ${renderRequest(request, response)}`).join('\n');
     return {
       code: [`// <internal code to list network requests>`],
       action: async () => {
@@ -54,6 +64,340 @@ function renderRequest(request: playwright.Request, response: playwright.Respons
   return result.join(' ');
 }
 
+const requestDetails = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_network_request_details',
+    title: 'Show network request details',
+    description: 'Returns the headers and bodies of a request and its response',
+    inputSchema: z.object({
+      id: z.number().int().min(1).describe('Request number from browser_network_requests'),
+      includeBody: z.boolean().optional().describe('Whether to include the request and response bodies, defaults to true'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params) => {
+    const entries = [...context.currentTabOrDie().requests().entries()];
+    const entry = entries[params.id - 1];
+    if (!entry)
+      throw new Error(`Request #${params.id} not found, there are ${entries.length} requests since loading the page. Use browser_network_requests to list them.`);
+    const [request, response] = entry;
+
+    return {
+      code: [`// <internal code to show request #${params.id}>`],
+      action: async () => {
+        const text = await renderRequestDetails(request, response, params.includeBody ?? true);
+        return {
+          content: [{ type: 'text', text }]
+        };
+      },
+      captureSnapshot: false,
+      waitForNetwork: false,
+    };
+  },
+});
+
+const route = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_route',
+    title: 'Mock network requests',
+    description: 'Intercept requests whose URL matches a glob pattern and answer them with a mocked response, block them, or modify the real response. Applies to all tabs until removed with browser_unroute',
+    inputSchema: z.object({
+      pattern: z.string().describe('Glob pattern for the request URL, for example "**/api/users*" or "https://example.com/**/*.png"'),
+      action: z.enum(['fulfill', 'abort', 'modify']).describe('"fulfill" answers with the given response without hitting the network, "abort" fails the request, "modify" fetches the real response and overrides parts of it'),
+      status: z.number().int().min(100).max(599).optional().describe('Response status code, defaults to 200 for "fulfill"'),
+      headers: z.record(z.string()).optional().describe('Response headers to set'),
+      contentType: z.string().optional().describe('Response content type, for example "application/json"'),
+      body: z.string().optional().describe('Response body, replaces the real body when modifying'),
+      replace: z.array(z.object({
+        search: z.string().describe('Text to search for in the real response body'),
+        replacement: z.string().describe('Text to replace it with'),
+      })).optional().describe('Text replacements applied to the real response body, only for "modify"'),
+      errorCode: z.enum([
+        'aborted', 'accessdenied', 'addressunreachable', 'blockedbyclient', 'blockedbyresponse',
+        'connectionaborted', 'connectionclosed', 'connectionfailed', 'connectionrefused', 'connectionreset',
+        'internetdisconnected', 'namenotresolved', 'timedout', 'failed',
+      ]).optional().describe('Network error for "abort", defaults to "blockedbyclient"'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params) => {
+    if (params.action !== 'modify' && params.replace?.length)
+      throw new Error('"replace" can only be used with the "modify" action.');
+    const mock = await context.addRouteMock(params);
+
+    return {
+      code: [
+        `// Route ${params.pattern}`,
+        `await page.context().route(${javascript.quote(params.pattern)}, async route => route.${routeCall(mock)});`,
+      ],
+      captureSnapshot: false,
+      waitForNetwork: false,
+      resultOverride: {
+        content: [{ type: 'text', text: `Added route #${mock.id}: ${renderRouteMock(mock)}` }],
+      },
+    };
+  },
+});
+
+const routeList = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_route_list',
+    title: 'List network mocks',
+    description: 'List the active request routes added with browser_route',
+    inputSchema: z.object({}),
+    type: 'readOnly',
+  },
+
+  handle: async context => {
+    const mocks = context.routeMocks();
+    return {
+      code: [`// <internal code to list routes>`],
+      captureSnapshot: false,
+      waitForNetwork: false,
+      resultOverride: {
+        content: [{
+          type: 'text',
+          text: mocks.length ? mocks.map(mock => `- #${mock.id}: ${renderRouteMock(mock)}`).join('\n') : 'No active routes',
+        }],
+      },
+    };
+  },
+});
+
+const unroute = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_unroute',
+    title: 'Remove network mocks',
+    description: 'Remove routes added with browser_route, by id, by pattern, or all of them',
+    inputSchema: z.object({
+      id: z.number().int().optional().describe('Route number from browser_route_list'),
+      pattern: z.string().optional().describe('Remove all routes with this pattern'),
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params) => {
+    const removed = await context.removeRouteMocks(params);
+    return {
+      code: [unrouteCode(params)],
+      captureSnapshot: false,
+      waitForNetwork: false,
+      resultOverride: {
+        content: [{
+          type: 'text',
+          text: removed.length ? `Removed routes ${removed.map(mock => `#${mock.id}`).join(', ')}` : 'No matching routes',
+        }],
+      },
+    };
+  },
+});
+
+const exportHar = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_network_export_har',
+    title: 'Export network traffic as HAR',
+    description: 'Save the network requests since loading the page as a HAR file in the output directory',
+    inputSchema: z.object({
+      filename: z.string().optional().describe('File name to save the HAR to. Defaults to `traffic-{timestamp}.har` if not specified.'),
+      includeBodies: z.boolean().optional().describe('Whether to include response bodies up to 1MB each, defaults to true'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params) => {
+    const requests = [...context.currentTabOrDie().requests().entries()];
+    const fileName = await outputFile(context.config, params.filename ?? `traffic-${new Date().toISOString()}.har`);
+
+    return {
+      code: [`// <internal code to save network traffic to ${fileName}>`],
+      action: async () => {
+        const entries = [];
+        for (const [request, response] of requests)
+          entries.push(await harEntry(request, response, params.includeBodies ?? true));
+        const har = {
+          log: {
+            version: '1.2',
+            creator: { name: 'Playwright MCP', version: packageJSON.version },
+            pages: [],
+            entries,
+          },
+        };
+        await fs.promises.writeFile(fileName, JSON.stringify(har, null, 2));
+        return {
+          content: [{ type: 'text', text: `Saved ${entries.length} requests to ${fileName}` }]
+        };
+      },
+      captureSnapshot: false,
+      waitForNetwork: false,
+    };
+  },
+});
+
+function routeCall(mock: RouteMock): string {
+  if (mock.action === 'abort')
+    return `abort(${javascript.quote(mock.errorCode ?? 'blockedbyclient')})`;
+  if (mock.action === 'fulfill')
+    return `fulfill(${javascript.formatObject({ status: mock.status ?? 200, headers: mock.headers, contentType: mock.contentType, body: mock.body ?? '' })})`;
+  return `fulfill(${javascript.formatObject({ status: mock.status, headers: mock.headers, contentType: mock.contentType, body: mock.body })} /* with the response from route.fetch() */)`;
+}
+
+function unrouteCode(params: { id?: number, pattern?: string }): string {
+  if (params.id !== undefined)
+    return `// <internal code to remove route #${params.id}>`;
+  if (params.pattern !== undefined)
+    return `await page.context().unroute(${javascript.quote(params.pattern)});`;
+  return `await page.context().unrouteAll();`;
+}
+
+function renderRouteMock(mock: RouteMock): string {
+  const details: string[] = [];
+  if (mock.status)
+    details.push(`status ${mock.status}`);
+  if (mock.contentType)
+    details.push(mock.contentType);
+  if (mock.body !== undefined)
+    details.push(`${mock.body.length} character body`);
+  if (mock.replace?.length)
+    details.push(`${mock.replace.length} replacements`);
+  if (mock.errorCode)
+    details.push(`error ${mock.errorCode}`);
+  const suffix = details.length ? ` (${details.join(', ')})` : '';
+  return `${mock.action} ${mock.pattern}${suffix}, matched ${mock.hits} times`;
+}
+
+function isTextual(contentType: string | undefined): boolean {
+  if (!contentType)
+    return false;
+  return /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded|graphql)\b/.test(contentType);
+}
+
+async function responseBody(response: playwright.Response): Promise<Buffer | undefined> {
+  try {
+    return await response.body();
+  } catch {
+    // The body is gone once the page navigated away or the request was redirected.
+    return undefined;
+  }
+}
+
+async function renderRequestDetails(request: playwright.Request, response: playwright.Response | null, includeBody: boolean) {
+  const result: string[] = [`### Request`, `${request.method().toUpperCase()} ${request.url()}`, `Resource type: ${request.resourceType()}`];
+  result.push('', ...renderHeaders(await request.allHeaders()));
+  const postData = request.postDataBuffer();
+  if (includeBody && postData)
+    result.push('', 'Body:', renderBody(postData, await request.headerValue('content-type') ?? undefined));
+
+  result.push('', '### Response');
+  if (!response) {
+    const failure = request.failure();
+    result.push(failure ? `Failed: ${failure.errorText}` : 'No response received yet');
+    return result.join('\n');
+  }
+  result.push(`${response.status()} ${response.statusText()}`);
+  result.push('', ...renderHeaders(await response.allHeaders()));
+  if (includeBody) {
+    const body = await responseBody(response);
+    result.push('', 'Body:', body ? renderBody(body, response.headers()['content-type']) : '(not available)');
+  }
+  return result.join('\n');
+}
+
+function renderHeaders(headers: Record<string, string>): string[] {
+  return ['Headers:', ...Object.entries(headers).map(([name, value]) => `- ${name}: ${value}`)];
+}
+
+function renderBody(body: Buffer, contentType: string | undefined): string {
+  if (!body.length)
+    return '(empty)';
+  if (!isTextual(contentType))
+    return `(${body.length} bytes of ${contentType ?? 'unknown type'})`;
+  const text = body.toString('utf8');
+  if (text.length <= maxBodyPreview)
+    return text;
+  return `${text.substring(0, maxBodyPreview)}\n... (${text.length - maxBodyPreview} more characters)`;
+}
+
+async function harEntry(request: playwright.Request, response: playwright.Response | null, includeBodies: boolean) {
+  const timing = request.timing();
+  const span = (start: number, end: number) => start >= 0 && end >= 0 ? end - start : -1;
+  const timings = {
+    blocked: -1,
+    dns: span(timing.domainLookupStart, timing.domainLookupEnd),
+    connect: span(timing.connectStart, timing.connectEnd),
+    ssl: span(timing.secureConnectionStart, timing.connectEnd),
+    send: 0,
+    wait: span(timing.requestStart, timing.responseStart),
+    receive: span(timing.responseStart, timing.responseEnd),
+  };
+  const url = new URL(request.url());
+  const postData = request.postData();
+  const requestContentType = await request.headerValue('content-type');
+
+  const content: { size: number, mimeType: string, text?: string, encoding?: string, comment?: string } = {
+    size: -1,
+    mimeType: response?.headers()['content-type'] ?? 'x-unknown',
+  };
+  if (response && includeBodies) {
+    const body = await responseBody(response);
+    if (body) {
+      content.size = body.length;
+      if (body.length > maxBodySize)
+        content.comment = 'Body omitted, larger than 1MB';
+      else if (isTextual(content.mimeType))
+        content.text = body.toString('utf8');
+      else
+        Object.assign(content, { text: body.toString('base64'), encoding: 'base64' });
+    }
+  }
+
+  return {
+    startedDateTime: new Date(timing.startTime).toISOString(),
+    time: Object.values(timings).filter(value => value > 0).reduce((sum, value) => sum + value, 0),
+    request: {
+      method: request.method(),
+      url: request.url(),
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: await request.headersArray(),
+      queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+      ...(postData !== null ? { postData: { mimeType: requestContentType ?? 'application/octet-stream', text: postData } } : {}),
+      headersSize: -1,
+      bodySize: postData !== null ? Buffer.byteLength(postData) : 0,
+    },
+    response: {
+      status: response?.status() ?? 0,
+      statusText: response?.statusText() ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: response ? await response.headersArray() : [],
+      content,
+      redirectURL: response?.headers()['location'] ?? '',
+      headersSize: -1,
+      bodySize: content.size,
+      ...(response ? {} : { _failureText: request.failure()?.errorText ?? 'No response' }),
+    },
+    cache: {},
+    timings,
+  };
+}
+
 export default [
   requests,
+  requestDetails,
+  route,
+  routeList,
+  unroute,
+  exportHar,
 ];
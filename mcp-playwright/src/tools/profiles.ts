@@ -0,0 +1,158 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { defineTool } from './tool.js';
+
+import * as javascript from '../javascript.js';
+
+const profileName = z.string().describe('Profile name: letters, digits, ".", "_" or "-"');
+
+const listProfiles = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_profile_list',
+    title: 'List browser profiles',
+    description: 'List the saved browser profiles (cookies and localStorage) and the profile used by this session',
+    inputSchema: z.object({}),
+    type: 'readOnly',
+  },
+
+  handle: async context => {
+    const profiles = await context.profiles().list();
+    const current = context.profile();
+    const lines = [`### Current profile`, current ? `- ${current}` : '- None, the browser state is not saved', '', '### Saved profiles'];
+    if (!profiles.length)
+      lines.push('- There are no saved profiles');
+    for (const profile of profiles) {
+      const origins = profile.origins.length ? `, localStorage for ${profile.origins.join(', ')}` : '';
+      const inUse = profile.inUse && profile.name !== current ? ' (in use by another session)' : '';
+      lines.push(`- ${profile.name}: ${profile.cookies} cookies${origins}, saved ${profile.updated}${inUse}`);
+    }
+    return {
+      code: [`// <internal code to list browser profiles>`],
+      captureSnapshot: false,
+      waitForNetwork: false,
+      resultOverride: {
+        content: [{ type: 'text', text: lines.join('\n') }],
+      },
+    };
+  },
+});
+
+const loadProfile = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_profile_load',
+    title: 'Load browser profile',
+    description: 'Switch this session to a named browser profile. Closes the open tabs, saves the current profile, and starts a fresh browser context with the cookies and localStorage of the profile. A new profile is created if it does not exist yet. The profile is saved again when the session ends',
+    inputSchema: z.object({
+      name: profileName,
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params) => {
+    await context.useProfile(params.name);
+    await context.ensureTab();
+    const exists = await context.profiles().exists(params.name);
+    const file = context.profiles().profileFile(params.name);
+
+    return {
+      code: [
+        `// Load browser profile "${params.name}"`,
+        `const context = await browser.newContext(${javascript.formatObject({ storageState: file })});`,
+      ],
+      captureSnapshot: false,
+      waitForNetwork: false,
+      resultOverride: {
+        content: [{
+          type: 'text',
+          text: exists ? `Loaded profile "${params.name}"` : `Created profile "${params.name}", it will be saved when the session ends or with browser_profile_save`,
+        }],
+      },
+    };
+  },
+});
+
+const saveProfile = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_profile_save',
+    title: 'Save browser profile',
+    description: 'Save the cookies and localStorage of the browser into a named profile, the current profile by default',
+    inputSchema: z.object({
+      name: profileName.optional().describe('Profile to save to, defaults to the profile of this session'),
+    }),
+    type: 'readOnly',
+  },
+
+  handle: async (context, params) => {
+    const name = params.name ?? context.profile();
+    if (!name)
+      throw new Error('This session does not use a profile, specify the name of the profile to save to.');
+    const state = await context.saveProfile(name);
+    const file = context.profiles().profileFile(name);
+
+    return {
+      code: [
+        `// Save browser profile "${name}"`,
+        `await page.context().storageState(${javascript.formatObject({ path: file })});`,
+      ],
+      captureSnapshot: false,
+      waitForNetwork: false,
+      resultOverride: {
+        content: [{ type: 'text', text: `Saved ${state.cookies.length} cookies and localStorage for ${state.origins.length} origins to profile "${name}"` }],
+      },
+    };
+  },
+});
+
+const deleteProfile = defineTool({
+  capability: 'core',
+
+  schema: {
+    name: 'browser_profile_delete',
+    title: 'Delete browser profile',
+    description: 'Delete a saved browser profile. If it is the profile of this session, the browser stays open but its state is no longer saved',
+    inputSchema: z.object({
+      name: profileName,
+    }),
+    type: 'destructive',
+  },
+
+  handle: async (context, params) => {
+    await context.deleteProfile(params.name);
+    return {
+      code: [`// <internal code to delete browser profile "${params.name}">`],
+      captureSnapshot: false,
+      waitForNetwork: false,
+      resultOverride: {
+        content: [{ type: 'text', text: `Deleted profile "${params.name}"` }],
+      },
+    };
+  },
+});
+
+export default [
+  listProfiles,
+  loadProfile,
+  saveProfile,
+  deleteProfile,
+];
@@ -25,6 +25,8 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 
 import type { AddressInfo } from 'node:net';
 import type { Server } from './server.js';
+import type { Connection } from './connection.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 
 export async function startStdioTransport(server: Server) {
   await server.createConnection(new StdioServerTransport());
@@ -32,6 +34,39 @@ export async function startStdioTransport(server: Server) {
 
 const testDebug = debug('pw:mcp:test');
 
+// Client that opened each HTTP session, so that its messages are only accepted from that client.
+const sessionClients = new WeakMap<Transport, string | undefined>();
+
+/**
+ * Identifies the client of an HTTP request by its bearer token. Only a hash of the token
+ * is kept, and it names the directory of the client's browser profiles.
+ */
+function clientIdFromRequest(req: http.IncomingMessage): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  return match ? crypto.createHash('sha256').update(match[1]).digest('hex').slice(0, 32) : undefined;
+}
+
+function checkSessionClient(transport: Transport, req: http.IncomingMessage, res: http.ServerResponse): boolean {
+  if (sessionClients.get(transport) === clientIdFromRequest(req))
+    return true;
+  res.statusCode = 403;
+  res.end('Session belongs to another client');
+  return false;
+}
+
+async function createConnection(server: Server, transport: Transport, req: http.IncomingMessage, url: URL, res: http.ServerResponse): Promise<Connection | undefined> {
+  const clientId = clientIdFromRequest(req);
+  try {
+    const connection = await server.createConnection(transport, { profile: url.searchParams.get('profile') ?? undefined, clientId });
+    sessionClients.set(transport, clientId);
+    return connection;
+  } catch (error) {
+    res.statusCode = 400;
+    res.end(String(error));
+    return undefined;
+  }
+}
+
 async function handleSSE(server: Server, req: http.IncomingMessage, res: http.ServerResponse, url: URL, sessions: Map<string, SSEServerTransport>) {
   if (req.method === 'POST') {
     const sessionId = url.searchParams.get('sessionId');
@@ -45,13 +80,17 @@ async function handleSSE(server: Server, req: http.IncomingMessage, res: http.Se
       res.statusCode = 404;
       return res.end('Session not found');
     }
+    if (!checkSessionClient(transport, req, res))
+      return;
 
     return await transport.handlePostMessage(req, res);
   } else if (req.method === 'GET') {
     const transport = new SSEServerTransport('/sse', res);
+    const connection = await createConnection(server, transport, req, url, res);
+    if (!connection)
+      return;
     sessions.set(transport.sessionId, transport);
     testDebug(`create SSE session: ${transport.sessionId}`);
-    const connection = await server.createConnection(transport);
     res.on('close', () => {
       testDebug(`delete SSE session: ${transport.sessionId}`);
       sessions.delete(transport.sessionId);
@@ -65,7 +104,7 @@ async function handleSSE(server: Server, req: http.IncomingMessage, res: http.Se
   res.end('Method not allowed');
 }
 
-async function handleStreamable(server: Server, req: http.IncomingMessage, res: http.ServerResponse, sessions: Map<string, StreamableHTTPServerTransport>) {
+async function handleStreamable(server: Server, req: http.IncomingMessage, res: http.ServerResponse, url: URL, sessions: Map<string, StreamableHTTPServerTransport>) {
   const sessionId = req.headers['mcp-session-id'] as string | undefined;
   if (sessionId) {
     const transport = sessions.get(sessionId);
@@ -74,6 +113,8 @@ async function handleStreamable(server: Server, req: http.IncomingMessage, res:
       res.end('Session not found');
       return;
     }
+    if (!checkSessionClient(transport, req, res))
+      return;
     return await transport.handleRequest(req, res);
   }
 
@@ -84,11 +125,18 @@ async function handleStreamable(server: Server, req: http.IncomingMessage, res:
         sessions.set(sessionId, transport);
       }
     });
-    transport.onclose = () => {
-      if (transport.sessionId)
-        sessions.delete(transport.sessionId);
+    const connection = await createConnection(server, transport, req, url, res);
+    if (!connection)
+      return;
+    // The server replaces transport.onclose when connecting, so listen on the server instead.
+    connection.server.onclose = () => {
+      if (!transport.sessionId || !sessions.delete(transport.sessionId))
+        return;
+      testDebug(`delete streamable session: ${transport.sessionId}`);
+      // Releases the session's browser context and saves its profile.
+      // eslint-disable-next-line no-console
+      void connection.close().catch(e => console.error(e));
     };
-    await server.createConnection(transport);
     await transport.handleRequest(req, res);
     return;
   }
@@ -116,7 +164,7 @@ export function startHttpTransport(httpServer: http.Server, mcpServer: Server) {
   httpServer.on('request', async (req, res) => {
     const url = new URL(`http://localhost${req.url}`);
     if (url.pathname.startsWith('/mcp'))
-      await handleStreamable(mcpServer, req, res, streamableSessions);
+      await handleStreamable(mcpServer, req, res, url, streamableSessions);
     else
       await handleSSE(mcpServer, req, res, url, sseSessions);
   });
@@ -132,6 +180,8 @@ export function startHttpTransport(httpServer: http.Server, mcpServer: Server) {
       }
     }, undefined, 2),
     'If your client supports streamable HTTP, you can use the /mcp endpoint instead.',
+    'Browser profiles and macros are kept per client: send an "Authorization: Bearer <token>" header with every request,',
+    'and add ?profile=<name> to the URL to load one of your profiles for the session.',
   ].join('\n');
     // eslint-disable-next-line no-console
   console.error(message);
@@ -0,0 +1,105 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import fs from 'node:fs';
+import path from 'node:path';
+import url from 'node:url';
+
+import { test, expect } from './fixtures.js';
+import { auditPage } from '../src/tools/audit.js';
+
+import type { Page } from '@playwright/test';
+import type { AuditOptions } from '../src/tools/audit.js';
+
+const testDataDir = path.join(path.dirname(url.fileURLToPath(import.meta.url)), 'testdata', 'audit');
+
+async function audit(page: Page, fixture: string, checks: AuditOptions['checks'], maxIssues = 20) {
+  await page.setContent(await fs.promises.readFile(path.join(testDataDir, fixture), 'utf8'));
+  return await page.evaluate(auditPage, { checks, maxIssues });
+}
+
+test.describe('auditPage', () => {
+  // The audit runs inside the page, the projects only differ in how they start the server.
+  test.skip(({ mcpMode }) => !!mcpMode);
+
+  test('reports no issues for a well-structured page', async ({ page }) => {
+    const result = await audit(page, 'clean.html', ['labels', 'contrast', 'headings', 'landmarks']);
+    expect(result.issues).toEqual([]);
+    expect(result.headings).toEqual([{ level: 1, text: 'Clean page' }, { level: 2, text: 'Section' }]);
+  });
+
+  test('reports form fields, buttons and images without labels', async ({ page }) => {
+    const result = await audit(page, 'labels.html', ['labels']);
+    expect(result.issues).toEqual([
+      { check: 'labels', severity: 'error', message: 'Form field has no label', element: 'input#phone[name="phone"]' },
+      { check: 'labels', severity: 'warning', message: 'Form field is only labelled by its placeholder', element: 'input#city[name="city"]' },
+      { check: 'labels', severity: 'error', message: 'Button has no accessible name', element: 'button#icon-button' },
+      { check: 'labels', severity: 'error', message: 'Link has no accessible name', element: 'a[href="/home"]' },
+      { check: 'labels', severity: 'error', message: 'Image has no alt text, use alt="" for decorative images', element: 'img[src="data:image/gif;base64,R0lGODlhAQABAAA..."]' },
+    ]);
+  });
+
+  test('reports text below the contrast thresholds', async ({ page }) => {
+    const result = await audit(page, 'contrast.html', ['contrast']);
+    // Large text only needs 3:1 and translucent backgrounds are blended over the page.
+    expect(result.issues.map(issue => issue.element)).toEqual(['p#faint "Faint text"']);
+    expect(result.issues[0].message).toBe('Text contrast 2.32:1 is below 4.5:1 (rgb(170, 170, 170) on rgb(255, 255, 255))');
+  });
+
+  test('reports skipped heading levels and empty headings', async ({ page }) => {
+    const result = await audit(page, 'headings.html', ['headings']);
+    expect(result.headings).toEqual([
+      { level: 2, text: 'Overview' },
+      { level: 1, text: 'Guide' },
+      { level: 4, text: 'Details' },
+      { level: 2, text: '' },
+      { level: 3, text: 'Notes' },
+    ]);
+    expect(result.issues).toEqual([
+      { check: 'headings', severity: 'error', message: 'Heading is empty', element: 'h2#empty' },
+      { check: 'headings', severity: 'warning', message: 'Heading level jumps from 1 to 4', element: 'h4#skipped "Details"' },
+      { check: 'headings', severity: 'warning', message: 'First heading is level 2, not 1' },
+    ]);
+  });
+
+  test('reports landmark structure problems', async ({ page }) => {
+    const result = await audit(page, 'landmarks.html', ['landmarks']);
+    expect(result.landmarks).toEqual({
+      banner: 1,
+      navigation: 2,
+      main: 2,
+      complementary: 0,
+      contentinfo: 1,
+      search: 0,
+      region: 0,
+      form: 0,
+    });
+    expect(result.issues).toEqual([
+      { check: 'landmarks', severity: 'error', message: 'Page has 2 main landmarks' },
+      { check: 'landmarks', severity: 'warning', message: '2 navigation landmarks do not have distinct labels' },
+      { check: 'landmarks', severity: 'warning', message: 'Content is outside of any landmark', element: 'p#stray "Stray text"' },
+      { check: 'document', severity: 'error', message: 'The <html> element has no lang attribute' },
+      { check: 'document', severity: 'error', message: 'Page has no title' },
+    ]);
+  });
+
+  test('limits the number of issues per check', async ({ page }) => {
+    const result = await audit(page, 'labels.html', ['labels'], 2);
+    expect(result.issues).toHaveLength(2);
+    expect(result.truncated).toEqual({ labels: 3 });
+  });
+});
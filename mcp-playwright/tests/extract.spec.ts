@@ -0,0 +1,207 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures.js';
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+
+type ToolResult = { content: { type: string, text: string }[], isError?: boolean };
+
+async function extract(client: Client, args: Record<string, unknown>) {
+  const result = await client.callTool({ name: 'browser_extract', arguments: args }) as ToolResult;
+  expect(result.isError, result.content[0].text).toBeFalsy();
+  return JSON.parse(result.content[0].text);
+}
+
+const products = `
+  <ul>
+    <li class="product" data-sku="A-1">
+      <a href="/products/lamp">Desk lamp</a>
+      <span class="price">$1,299.50</span>
+      <span class="tag">new</span><span class="tag">sale</span>
+      <input type="checkbox" class="stock" checked>
+    </li>
+    <li class="product" data-sku="B-2">
+      <a href="/products/chair">Chair</a>
+      <span class="price">12,5 €</span>
+      <input type="checkbox" class="stock">
+    </li>
+  </ul>`;
+
+test.describe('browser_extract', () => {
+  // Extraction runs in the page, the docker and extension projects only change how the browser is started.
+  test.skip(({ mcpMode }) => !!mcpMode);
+
+  test('extracts fields by selector, attribute and type', async ({ client, server }) => {
+    server.setContent('/', products);
+    await client.callTool({ name: 'browser_navigate', arguments: { url: server.PREFIX } });
+
+    expect(await extract(client, {
+      selector: '.product',
+      fields: {
+        name: 'a',
+        link: { selector: 'a', attribute: 'href' },
+        sku: { attribute: 'data-sku' },
+        price: { selector: '.price', type: 'number' },
+        tags: { selector: '.tag', multiple: true },
+        inStock: { selector: '.stock', type: 'boolean' },
+        missing: '.rating',
+      },
+    })).toEqual({
+      items: [
+        { name: 'Desk lamp', link: `${server.PREFIX}/products/lamp`, sku: 'A-1', price: 1299.5, tags: ['new', 'sale'], inStock: true, missing: null },
+        { name: 'Chair', link: `${server.PREFIX}/products/chair`, sku: 'B-2', price: 12.5, tags: [], inStock: false, missing: null },
+      ],
+      count: 2,
+      truncated: false,
+      pages: [`${server.PREFIX}/`],
+    });
+  });
+
+  test('parses numbers in common formats', async ({ client, server }) => {
+    const values = ['1,234', '1.234,56', '1,234.56', '3,5', '-42 pts', '1 000', 'n/a'];
+    server.setContent('/', values.map(value => `<p class="value">${value}</p>`).join(''));
+    await client.callTool({ name: 'browser_navigate', arguments: { url: server.PREFIX } });
+
+    const result = await extract(client, { selector: '.value', fields: { value: { type: 'number' } } });
+
+    expect(result.items.map((item: { value: number | null }) => item.value)).toEqual([1234, 1234.56, 1234.56, 3.5, -42, 1000, null]);
+  });
+
+  test('reads fields from a JSON schema', async ({ client, server }) => {
+    server.setContent('/', `
+      <div class="card"><h2 itemprop="title">Lamp</h2><span data-field="price">9.99</span><a class="url" href="/lamp">more</a><b class="featured">yes</b></div>
+      <div class="card"><h2 itemprop="title">Chair</h2><span data-field="price">20</span><a class="url" href="/chair">more</a><b class="featured">no</b></div>`);
+    await client.callTool({ name: 'browser_navigate', arguments: { url: server.PREFIX } });
+
+    expect((await extract(client, {
+      schema: {
+        'type': 'array',
+        'items': {
+          'x-selector': '.card',
+          'type': 'object',
+          'properties': {
+            title: { type: 'string' },
+            price: { type: 'number' },
+            url: { 'type': 'string', 'format': 'uri', 'x-attribute': 'href' },
+            featured: { type: 'boolean' },
+            heading: { 'type': 'string', 'x-selector': 'h2' },
+          },
+        },
+      },
+    })).items).toEqual([
+      { title: 'Lamp', price: 9.99, url: `${server.PREFIX}/lamp`, featured: true, heading: 'Lamp' },
+      { title: 'Chair', price: 20, url: `${server.PREFIX}/chair`, featured: false, heading: 'Chair' },
+    ]);
+  });
+
+  test('rejects ambiguous or incomplete parameters', async ({ client, server }) => {
+    server.setContent('/', products);
+    await client.callTool({ name: 'browser_navigate', arguments: { url: server.PREFIX } });
+
+    expect(await client.callTool({ name: 'browser_extract', arguments: { fields: { name: 'a' } } })).toEqual({
+      content: [{ type: 'text', text: expect.stringContaining('Provide "selector" or an "x-selector" in the JSON schema') }],
+      isError: true,
+    });
+    expect(await client.callTool({ name: 'browser_extract', arguments: { selector: '.product', fields: { name: 'a' }, schema: { properties: {} } } })).toEqual({
+      content: [{ type: 'text', text: expect.stringContaining('Use either "fields" or "schema", not both.') }],
+      isError: true,
+    });
+    expect(await client.callTool({ name: 'browser_extract', arguments: { selector: '.product', ref: 'e2', nextSelector: '.next' } })).toEqual({
+      content: [{ type: 'text', text: expect.stringContaining('"ref" cannot be combined with "nextSelector"') }],
+      isError: true,
+    });
+  });
+
+  test('extracts table rows keyed by their headers', async ({ client, server }) => {
+    server.setContent('/', `
+      <table>
+        <thead><tr><th>Name</th><th>Role</th><th></th></tr></thead>
+        <tbody>
+          <tr><td>Ada</td><td>Engineer</td><td>x</td></tr>
+          <tr><td>Grace</td><td>Admiral</td><td>y</td></tr>
+        </tbody>
+      </table>`);
+    await client.callTool({ name: 'browser_navigate', arguments: { url: server.PREFIX } });
+
+    expect((await extract(client, { selector: 'table' })).items).toEqual([
+      { Name: 'Ada', Role: 'Engineer', column3: 'x' },
+      { Name: 'Grace', Role: 'Admiral', column3: 'y' },
+    ]);
+    expect((await extract(client, { selector: 'tbody tr' })).items).toEqual([
+      { Name: 'Ada', Role: 'Engineer', column3: 'x' },
+      { Name: 'Grace', Role: 'Admiral', column3: 'y' },
+    ]);
+  });
+
+  test('extracts text and links without fields', async ({ client, server }) => {
+    server.setContent('/', products);
+    await client.callTool({ name: 'browser_navigate', arguments: { url: server.PREFIX } });
+
+    expect((await extract(client, { selector: 'a', limit: 1 }))).toEqual({
+      items: [{ text: 'Desk lamp', href: `${server.PREFIX}/products/lamp` }],
+      count: 1,
+      truncated: true,
+      pages: [`${server.PREFIX}/`],
+    });
+  });
+
+  test('follows the next link across pages', async ({ client, server }) => {
+    for (const page of [1, 2, 3]) {
+      const next = page < 3 ? `<a class="next" href="/page${page + 1}">Next</a>` : `<a class="next" aria-disabled="true">Next</a>`;
+      server.setContent(`/page${page}`, `<p class="item">Item ${page}a</p><p class="item">Item ${page}b</p>${next}`);
+    }
+    await client.callTool({ name: 'browser_navigate', arguments: { url: `${server.PREFIX}/page1` } });
+
+    const result = await extract(client, { selector: '.item', fields: { name: {} }, nextSelector: '.next' });
+
+    expect(result.items).toEqual([
+      { name: 'Item 1a', _page: 1 },
+      { name: 'Item 1b', _page: 1 },
+      { name: 'Item 2a', _page: 2 },
+      { name: 'Item 2b', _page: 2 },
+      { name: 'Item 3a', _page: 3 },
+      { name: 'Item 3b', _page: 3 },
+    ]);
+    expect(result.pages).toEqual([`${server.PREFIX}/page1`, `${server.PREFIX}/page2`, `${server.PREFIX}/page3`]);
+    expect(result.stopReason).toBe('no next page');
+  });
+
+  test('stops paginating at maxPages, the limit or a repeated page', async ({ client, server }) => {
+    for (const page of [1, 2, 3])
+      server.setContent(`/page${page}`, `<p class="item">Item ${page}</p><a class="next" href="/page${page + 1}">Next</a>`);
+    server.setContent('/loop', `<p class="item">Item</p><button class="next">Next</button>`);
+
+    await client.callTool({ name: 'browser_navigate', arguments: { url: `${server.PREFIX}/page1` } });
+    expect(await extract(client, { selector: '.item', nextSelector: '.next', maxPages: 2 })).toEqual(expect.objectContaining({
+      count: 2,
+      stopReason: 'maxPages reached',
+    }));
+
+    await client.callTool({ name: 'browser_navigate', arguments: { url: `${server.PREFIX}/page1` } });
+    expect(await extract(client, { selector: '.item', nextSelector: '.next', limit: 1 })).toEqual(expect.objectContaining({
+      count: 1,
+      pages: [`${server.PREFIX}/page1`],
+      stopReason: 'limit reached',
+    }));
+
+    await client.callTool({ name: 'browser_navigate', arguments: { url: `${server.PREFIX}/loop` } });
+    expect(await extract(client, { selector: '.item', nextSelector: '.next' })).toEqual(expect.objectContaining({
+      count: 1,
+      stopReason: 'next page repeated the previous page',
+    }));
+  });
+});
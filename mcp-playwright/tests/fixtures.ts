@@ -0,0 +1,110 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import http from 'node:http';
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { test as baseTest, expect } from '@playwright/test';
+
+import { resolveConfig } from '../src/config.js';
+import { Server } from '../src/server.js';
+
+import type { AddressInfo } from 'node:net';
+import type { Config } from '../config.js';
+
+export type TestOptions = {
+  mcpBrowser: string | undefined;
+  mcpMode: 'docker' | 'extension' | undefined;
+};
+
+/**
+ * Serves the pages of one test, `PREFIX` is its origin. `CROSS_PROCESS_PREFIX` reaches
+ * the same server from another origin.
+ */
+export type TestServer = {
+  PREFIX: string;
+  CROSS_PROCESS_PREFIX: string;
+  setContent(path: string, content: string, contentType?: string): void;
+  route(path: string, handler: http.RequestListener): void;
+};
+
+type TestFixtures = {
+  client: Client;
+  startClient: (options?: { config?: Config }) => Promise<Client>;
+  server: TestServer;
+};
+
+export const test = baseTest.extend<TestOptions & TestFixtures>({
+  mcpBrowser: ['chrome', { option: true }],
+  mcpMode: [undefined, { option: true }],
+
+  client: async ({ startClient }, use) => {
+    await use(await startClient());
+  },
+
+  // Runs the server in the test process, connected to the client through an in-memory transport.
+  startClient: async ({ mcpBrowser, launchOptions }, use, testInfo) => {
+    const clients: Client[] = [];
+    await use(async options => {
+      const browserName = mcpBrowser === 'firefox' || mcpBrowser === 'webkit' ? mcpBrowser : 'chromium';
+      const config = await resolveConfig({
+        ...options?.config,
+        browser: {
+          browserName,
+          isolated: true,
+          launchOptions: { ...launchOptions, channel: mcpBrowser, headless: true },
+        },
+        outputDir: testInfo.outputPath('output'),
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const connection = await new Server(config).createConnection(serverTransport);
+      const client = new Client({ name: 'test', version: '1.0.0' });
+      await client.connect(clientTransport);
+      client.onclose = () => void connection.close();
+      clients.push(client);
+      return client;
+    });
+    for (const client of clients)
+      await client.close();
+  },
+
+  server: async ({}, use) => {
+    const handlers = new Map<string, http.RequestListener>();
+    const httpServer = http.createServer((req, res) => {
+      const handler = handlers.get(new URL(req.url!, 'http://localhost').pathname);
+      if (handler)
+        return handler(req, res);
+      res.statusCode = 404;
+      res.end('Not found');
+    });
+    await new Promise<void>(resolve => httpServer.listen(0, resolve));
+    const { port } = httpServer.address() as AddressInfo;
+    await use({
+      PREFIX: `http://localhost:${port}`,
+      CROSS_PROCESS_PREFIX: `http://127.0.0.1:${port}`,
+      setContent: (path, content, contentType = 'text/html') => handlers.set(path, (req, res) => {
+        res.setHeader('content-type', contentType);
+        res.end(content);
+      }),
+      route: (path, handler) => handlers.set(path, handler),
+    });
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  },
+});
+
+export { expect };
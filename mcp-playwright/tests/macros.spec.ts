@@ -0,0 +1,175 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './fixtures.js';
+import { applyMacroArguments, MacroRecording, resolveMacroRefs } from '../src/macros.js';
+import { Tab } from '../src/tab.js';
+import { generateLocator } from '../src/tools/utils.js';
+
+import type { Page } from '@playwright/test';
+import type { Context } from '../src/context.js';
+import type { Macro, MacroStep } from '../src/macros.js';
+
+function recording(steps: MacroStep[]): MacroRecording {
+  const result = new MacroRecording('login', 'Logs in');
+  for (const step of steps)
+    result.addStep(step);
+  return result;
+}
+
+const loginSteps: MacroStep[] = [
+  { tool: 'browser_navigate', params: { url: 'https://example.com/login?user=alice' } },
+  { tool: 'browser_type', params: { element: 'User name', ref: 'e3', text: 'alice' }, locators: { ref: 'getByRole(\'textbox\', { name: \'User name\' })' } },
+  { tool: 'browser_type', params: { element: 'Password', ref: 'e5', text: 'hunter2' }, locators: { ref: 'getByRole(\'textbox\', { name: \'Password\' })' }, secret: true },
+  { tool: 'browser_click', params: { element: 'Sign in', ref: 'e7' } },
+];
+
+test.describe('MacroRecording.toMacro', () => {
+  // Macros are built and applied without a browser, the projects only differ in how they start the server.
+  test.skip(({ mcpMode }) => !!mcpMode);
+
+  test('turns typed text into parameters without defaults', async () => {
+    const macro = recording(loginSteps).toMacro();
+
+    expect(macro.parameters).toEqual([
+      { name: 'user_name', description: 'Text typed into User name' },
+      { name: 'password', description: 'Text typed into Password' },
+    ]);
+    expect(macro.steps.map(step => step.params.text)).toEqual([undefined, '{{user_name}}', '{{password}}', undefined]);
+    expect(JSON.stringify(macro)).not.toContain('hunter2');
+  });
+
+  test('replaces the values of explicit parameters in every step but keeps refs', async () => {
+    const macro = recording(loginSteps).toMacro([
+      { name: 'user', value: 'alice', description: 'Account' },
+      { name: 'secret', value: 'hunter2' },
+    ]);
+
+    expect(macro.parameters).toEqual([
+      { name: 'user', description: 'Account', default: 'alice' },
+      // The password was typed into a password field, so it is not kept as a default.
+      { name: 'secret', description: undefined, default: undefined },
+    ]);
+    expect(macro.steps.map(step => step.params)).toEqual([
+      { url: 'https://example.com/login?user={{user}}' },
+      { element: 'User name', ref: 'e3', text: '{{user}}' },
+      { element: 'Password', ref: 'e5', text: '{{secret}}' },
+      { element: 'Sign in', ref: 'e7' },
+    ]);
+    expect(JSON.stringify(macro)).not.toContain('hunter2');
+  });
+
+  test('still parameterizes password text that no explicit parameter covers', async () => {
+    const macro = recording(loginSteps).toMacro([{ name: 'user', value: 'alice' }]);
+
+    expect(macro.parameters.map(parameter => parameter.name)).toEqual(['user', 'password']);
+    expect(macro.steps[2].params.text).toBe('{{password}}');
+    expect(JSON.stringify(macro)).not.toContain('hunter2');
+  });
+
+  test('makes generated parameter names unique', async () => {
+    const macro = recording([
+      { tool: 'browser_type', params: { element: 'Search', ref: 'e1', text: 'one' } },
+      { tool: 'browser_type', params: { element: 'Search', ref: 'e1', text: 'two' } },
+      { tool: 'browser_type', params: { element: '42', ref: 'e2', text: 'three' } },
+    ]).toMacro();
+
+    expect(macro.parameters.map(parameter => parameter.name)).toEqual(['search', 'search_2', 'text']);
+  });
+
+  test('rejects invalid parameters', async () => {
+    const macro = recording(loginSteps);
+
+    expect(() => macro.toMacro([{ name: '1user', value: 'alice' }])).toThrow('Invalid parameter name "1user"');
+    expect(() => macro.toMacro([{ name: 'user', value: 'alice' }, { name: 'user', value: 'bob' }])).toThrow('Parameter "user" is defined twice.');
+    expect(() => macro.toMacro([{ name: 'user', value: '' }])).toThrow('Parameter "user" needs a non-empty value.');
+    expect(() => macro.toMacro([{ name: 'user', value: 'bob' }])).toThrow('The value of parameter "user" does not appear in any recorded step.');
+  });
+});
+
+test.describe('applyMacroArguments', () => {
+  test.skip(({ mcpMode }) => !!mcpMode);
+
+  const macro: Macro = recording(loginSteps).toMacro([
+    { name: 'user', value: 'alice' },
+    { name: 'secret', value: 'hunter2' },
+  ]);
+
+  test('fills in arguments and defaults', async () => {
+    const steps = applyMacroArguments(macro, { secret: 'swordfish' });
+
+    expect(steps.map(step => step.params)).toEqual([
+      { url: 'https://example.com/login?user=alice' },
+      { element: 'User name', ref: 'e3', text: 'alice' },
+      { element: 'Password', ref: 'e5', text: 'swordfish' },
+      { element: 'Sign in', ref: 'e7' },
+    ]);
+    expect(applyMacroArguments(macro, { user: 'bob', secret: 'x' })[1].params.text).toBe('bob');
+    // The macro itself is left untouched.
+    expect(macro.steps[1].params.text).toBe('{{user}}');
+  });
+
+  test('rejects unknown and missing arguments', async () => {
+    expect(() => applyMacroArguments(macro, { secret: 'x', role: 'admin' })).toThrow('Macro "login" has no parameter "role". Parameters: user, secret.');
+    expect(() => applyMacroArguments(macro, {})).toThrow('Macro "login" requires a value for parameter "secret".');
+  });
+
+  test('leaves unknown placeholders alone', async () => {
+    const steps = applyMacroArguments({ ...macro, parameters: [], steps: [{ tool: 'browser_type', params: { text: '{{other}}' } }] }, {});
+
+    expect(steps[0].params.text).toBe('{{other}}');
+  });
+});
+
+test.describe('resolveMacroRefs', () => {
+  test.skip(({ mcpMode }) => !!mcpMode);
+
+  async function recordClick(page: Page, name: string): Promise<{ tab: Tab, step: MacroStep }> {
+    const tab = new Tab({} as Context, page, () => {});
+    await tab.captureSnapshot();
+    const ref = /button "([^"]+)" \[ref=([^\]]+)\]/g;
+    const match = [...tab.snapshotOrDie().text().matchAll(ref)].find(match => match[1] === name)!;
+    const locator = await generateLocator(tab.snapshotOrDie().refLocator({ ref: match[2], element: name }));
+    return { tab, step: { tool: 'browser_click', params: { element: name, ref: match[2] }, locators: { ref: locator } } };
+  }
+
+  test('keeps steps without locators as they are', async ({ page }) => {
+    const step = { tool: 'browser_navigate', params: { url: 'https://example.com' } };
+
+    expect(await resolveMacroRefs(new Tab({} as Context, page, () => {}), step)).toBe(step.params);
+  });
+
+  test('finds the recorded element again after the page changed', async ({ page }) => {
+    await page.setContent('<button>Cancel</button><button>Save</button>');
+    const { tab, step } = await recordClick(page, 'Save');
+
+    await page.setContent('<button>Help</button><button>About</button><button>Cancel</button><button>Save</button>');
+    const params = await resolveMacroRefs(tab, step);
+
+    expect(params.ref).not.toBe(step.params.ref);
+    expect(params.element).toBe('Save');
+    await expect(page.locator(`aria-ref=${params.ref}`)).toHaveText('Save');
+  });
+
+  test('reports elements that are gone', async ({ page }) => {
+    await page.setContent('<button>Cancel</button><button>Save</button>');
+    const { tab, step } = await recordClick(page, 'Save');
+
+    await page.setContent('<button>Cancel</button>');
+
+    await expect(resolveMacroRefs(tab, step)).rejects.toThrow(`Could not find "Save" on the page, it was recorded as page.${step.locators!.ref}`);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'node:fs';
+
+import { test, expect } from './fixtures.js';
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { TestServer } from './fixtures.js';
+
+type ToolResult = { content: { type: string, text: string }[], isError?: boolean };
+
+async function callTool(client: Client, name: string, args: Record<string, unknown> = {}): Promise<string> {
+  const result = await client.callTool({ name, arguments: args }) as ToolResult;
+  expect(result.isError, result.content[0].text).toBeFalsy();
+  return result.content.map(content => content.text).join('\n');
+}
+
+// Serves an API that counts its requests, and a page that fetches the URL in its query and shows the result as its title.
+function serveApi(server: TestServer, body = 'Hello world') {
+  const api = { hits: 0 };
+  server.route('/api', (req, res) => {
+    api.hits++;
+    res.setHeader('content-type', 'text/plain');
+    res.setHeader('access-control-allow-origin', '*');
+    res.end(body);
+  });
+  server.setContent('/fetch', `<script>
+    fetch(new URLSearchParams(location.search).get('url'))
+        .then(response => response.text().then(text => 'status ' + response.status + ': ' + text), () => 'request failed')
+        .then(text => {
+          document.title = text;
+          document.body.textContent = 'done';
+        });
+  </script>`);
+  return api;
+}
+
+async function fetchThroughPage(client: Client, server: TestServer, url: string): Promise<string> {
+  await callTool(client, 'browser_navigate', { url: `${server.PREFIX}/fetch?url=${encodeURIComponent(url)}` });
+  const snapshot = await callTool(client, 'browser_wait_for', { text: 'done' });
+  return /- Page Title: (.*)/.exec(snapshot)![1];
+}
+
+test.describe('browser_route', () => {
+  // The docker and extension projects only change how the browser is started.
+  test.skip(({ mcpMode }) => !!mcpMode);
+
+  test('fulfills matching requests without hitting the network', async ({ client, server }) => {
+    const api = serveApi(server);
+
+    // Added before the browser starts, installed together with the browser context.
+    expect(await callTool(client, 'browser_route', {
+      pattern: '**/api',
+      action: 'fulfill',
+      status: 201,
+      contentType: 'application/json',
+      body: '{"users":[]}',
+    })).toContain('Added route #1: fulfill **/api (status 201, application/json, 12 character body), matched 0 times');
+
+    expect(await fetchThroughPage(client, server, '/api')).toBe('status 201: {"users":[]}');
+    expect(api.hits).toBe(0);
+    expect(await callTool(client, 'browser_route_list')).toContain('- #1: fulfill **/api (status 201, application/json, 12 character body), matched 1 times');
+  });
+
+  test('aborts matching requests until the route is removed', async ({ client, server }) => {
+    const api = serveApi(server);
+    await callTool(client, 'browser_navigate', { url: `${server.PREFIX}/fetch?url=/api` });
+
+    await callTool(client, 'browser_route', { pattern: '**/api', action: 'abort', errorCode: 'connectionrefused' });
+    expect(await fetchThroughPage(client, server, '/api')).toBe('request failed');
+    expect(api.hits).toBe(1);
+
+    expect(await callTool(client, 'browser_unroute', { pattern: '**/api' })).toContain('Removed routes #1');
+    expect(await callTool(client, 'browser_route_list')).toContain('No active routes');
+    expect(await fetchThroughPage(client, server, '/api')).toBe('status 200: Hello world');
+    expect(api.hits).toBe(2);
+  });
+
+  test('modifies the real response', async ({ client, server }) => {
+    const api = serveApi(server);
+    await callTool(client, 'browser_route', {
+      pattern: '**/api',
+      action: 'modify',
+      status: 202,
+      replace: [{ search: 'world', replacement: 'mock' }],
+    });
+
+    expect(await fetchThroughPage(client, server, '/api')).toBe('status 202: Hello mock');
+    expect(api.hits).toBe(1);
+  });
+
+  test('rejects replacements for other actions', async ({ client }) => {
+    expect(await client.callTool({
+      name: 'browser_route',
+      arguments: { pattern: '**/api', action: 'fulfill', replace: [{ search: 'a', replacement: 'b' }] },
+    })).toEqual({
+      content: [{ type: 'text', text: expect.stringContaining('"replace" can only be used with the "modify" action.') }],
+      isError: true,
+    });
+  });
+
+  test('does not fetch blocked origins when modifying', async ({ startClient, server }) => {
+    const api = serveApi(server);
+    const client = await startClient({ config: { network: { blockedOrigins: [new URL(server.CROSS_PROCESS_PREFIX).host] } } });
+    await callTool(client, 'browser_navigate', { url: `${server.PREFIX}/fetch?url=/api` });
+    expect(api.hits).toBe(1);
+
+    await callTool(client, 'browser_route', { pattern: '**/api', action: 'modify', replace: [{ search: 'world', replacement: 'mock' }] });
+
+    expect(await fetchThroughPage(client, server, `${server.CROSS_PROCESS_PREFIX}/api`)).toBe('request failed');
+    expect(api.hits).toBe(1);
+    // The allowed origin is still modified.
+    expect(await fetchThroughPage(client, server, '/api')).toBe('status 200: Hello mock');
+    expect(api.hits).toBe(2);
+  });
+});
+
+test.describe('browser_network_export_har', () => {
+  test.skip(({ mcpMode }) => !!mcpMode);
+
+  test('saves the requests of the page', async ({ client, server }, testInfo) => {
+    server.route('/api', (req, res) => {
+      res.setHeader('content-type', 'application/json');
+      res.end('{"ok":true}');
+    });
+    server.setContent('/', `<script>
+      fetch('/api?user=alice', { method: 'POST', headers: { 'content-type': 'text/plain' }, body: 'hello' })
+          .then(() => document.body.textContent = 'done');
+    </script>`);
+    await callTool(client, 'browser_navigate', { url: server.PREFIX });
+    await callTool(client, 'browser_wait_for', { text: 'done' });
+
+    expect(await callTool(client, 'browser_network_export_har', { filename: 'traffic.har' })).toContain(`Saved 2 requests to ${testInfo.outputPath('output', 'traffic.har')}`);
+    const har = JSON.parse(await fs.promises.readFile(testInfo.outputPath('output', 'traffic.har'), 'utf8'));
+
+    expect(har.log).toEqual(expect.objectContaining({ version: '1.2', creator: expect.objectContaining({ name: 'Playwright MCP' }) }));
+    const [page, api] = har.log.entries;
+    expect(page.request).toEqual(expect.objectContaining({ method: 'GET', url: `${server.PREFIX}/`, bodySize: 0 }));
+    expect(page.response).toEqual(expect.objectContaining({ status: 200, content: expect.objectContaining({ mimeType: 'text/html' }) }));
+    expect(api.request).toEqual(expect.objectContaining({
+      method: 'POST',
+      url: `${server.PREFIX}/api?user=alice`,
+      queryString: [{ name: 'user', value: 'alice' }],
+      postData: { mimeType: 'text/plain', text: 'hello' },
+      bodySize: 5,
+    }));
+    expect(api.response.content).toEqual({ size: 11, mimeType: 'application/json', text: '{"ok":true}' });
+
+    await callTool(client, 'browser_network_export_har', { filename: 'headers.har', includeBodies: false });
+    const headersOnly = JSON.parse(await fs.promises.readFile(testInfo.outputPath('output', 'headers.har'), 'utf8'));
+    expect(headersOnly.log.entries[1].response.content).toEqual({ size: -1, mimeType: 'application/json' });
+  });
+});
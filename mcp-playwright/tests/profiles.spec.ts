@@ -0,0 +1,159 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { test, expect } from './fixtures.js';
+import { resolveConfig } from '../src/config.js';
+import { ProfileStore } from '../src/profiles.js';
+import { Server } from '../src/server.js';
+import { httpAddressToString, startHttpServer, startHttpTransport } from '../src/transport.js';
+
+const state = (name: string) => ({
+  cookies: [{ name, value: '1', domain: 'example.com', path: '/', expires: -1, httpOnly: false, secure: false, sameSite: 'Lax' as const }],
+  origins: [{ origin: 'https://example.com', localStorage: [] }],
+});
+
+test.describe('ProfileStore', () => {
+  // Profiles are plain files, the projects only differ in how they start the server.
+  test.skip(({ mcpMode }) => !!mcpMode);
+
+  test('saves, lists, loads and deletes profiles', async ({}, testInfo) => {
+    const store = new ProfileStore(testInfo.outputPath('profiles'));
+    const owner = {};
+
+    expect(await store.list()).toEqual([]);
+    expect(await store.load('work')).toBeUndefined();
+
+    await store.save('work', state('sid'), owner);
+    expect(await store.load('work')).toEqual(state('sid'));
+    expect(await store.list()).toEqual([expect.objectContaining({ name: 'work', cookies: 1, origins: ['https://example.com'], inUse: false })]);
+
+    await store.delete('work', owner);
+    expect(await store.exists('work')).toBe(false);
+    await expect(store.delete('work', owner)).rejects.toThrow('Profile "work" does not exist.');
+  });
+
+  test('rejects invalid profile names', async ({}, testInfo) => {
+    const store = new ProfileStore(testInfo.outputPath('profiles'));
+
+    expect(() => store.profileFile('../work')).toThrow('Invalid profile name "../work"');
+    expect(() => store.profileFile('.hidden')).toThrow('Invalid profile name ".hidden"');
+  });
+
+  test('reports unreadable profiles instead of ignoring them', async ({}, testInfo) => {
+    const store = new ProfileStore(testInfo.outputPath('profiles'));
+    await fs.promises.mkdir(store.dir, { recursive: true });
+    await fs.promises.writeFile(store.profileFile('broken'), '{');
+
+    await expect(store.load('broken')).rejects.toThrow('Failed to read profile "broken"');
+    expect(await store.list()).toEqual([]);
+  });
+
+  test('keeps the profiles of each client apart', async ({}, testInfo) => {
+    const store = new ProfileStore(testInfo.outputPath('profiles'));
+    const alice = store.forClient('alice');
+    const bob = store.forClient('bob');
+    const owner = {};
+
+    await alice.save('work', state('alice'), owner);
+
+    expect(alice.dir).toBe(path.join(store.dir, 'clients', 'alice'));
+    expect((await alice.list()).map(profile => profile.name)).toEqual(['work']);
+    expect(await bob.list()).toEqual([]);
+    expect(await bob.load('work')).toBeUndefined();
+    await expect(bob.delete('work', owner)).rejects.toThrow('Profile "work" does not exist.');
+    expect(await alice.load('work')).toEqual(state('alice'));
+    // The client directories are not profiles of the local store.
+    expect(await store.list()).toEqual([]);
+  });
+
+  test('lets one session at a time use a profile', async ({}, testInfo) => {
+    const store = new ProfileStore(testInfo.outputPath('profiles'));
+    const first = {};
+    const second = {};
+
+    store.acquire('work', first);
+    await store.save('work', state('first'), first);
+    expect(await store.list()).toEqual([expect.objectContaining({ name: 'work', inUse: true })]);
+    expect(() => store.acquire('work', second)).toThrow('Profile "work" is in use by another session.');
+    await expect(store.save('work', state('second'), second)).rejects.toThrow('in use by another session');
+    await expect(store.delete('work', second)).rejects.toThrow('in use by another session');
+
+    // Only the owner releases the profile.
+    store.release('work', second);
+    expect(() => store.acquire('work', second)).toThrow('in use by another session');
+    store.release('work', first);
+    store.acquire('work', second);
+    expect(await store.load('work')).toEqual(state('first'));
+  });
+
+  test('locks profiles of the same client across its stores only', async ({}, testInfo) => {
+    const store = new ProfileStore(testInfo.outputPath('profiles'));
+    const first = {};
+    const second = {};
+
+    store.forClient('alice').acquire('work', first);
+
+    expect(() => store.forClient('alice').acquire('work', second)).toThrow('in use by another session');
+    store.forClient('bob').acquire('work', second);
+    store.acquire('work', second);
+  });
+});
+
+test.describe('HTTP sessions', () => {
+  test.skip(({ mcpMode }) => !!mcpMode);
+
+  test('only accept messages from the client that opened them', async ({}, testInfo) => {
+    const config = await resolveConfig({ outputDir: testInfo.outputPath('output'), profiles: { dir: testInfo.outputPath('profiles') } });
+    const httpServer = await startHttpServer({ host: 'localhost' });
+    startHttpTransport(httpServer, new Server(config));
+    const url = `${httpAddressToString(httpServer.address())}/mcp`;
+    const post = async (token: string | undefined, body: object, sessionId?: string) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'accept': 'application/json, text/event-stream',
+          ...token ? { authorization: `Bearer ${token}` } : {},
+          ...sessionId ? { 'mcp-session-id': sessionId } : {},
+        },
+        body: JSON.stringify(body),
+      });
+      return { status: response.status, sessionId: response.headers.get('mcp-session-id'), text: await response.text() };
+    };
+
+    try {
+      const initialized = await post('alice', {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1' } },
+      });
+      expect(initialized.status).toBe(200);
+      const sessionId = initialized.sessionId!;
+      const listTools = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+
+      expect(await post('bob', listTools, sessionId)).toEqual(expect.objectContaining({ status: 403, text: 'Session belongs to another client' }));
+      expect((await post(undefined, listTools, sessionId)).status).toBe(403);
+      expect((await post('alice', listTools, sessionId)).status).toBe(200);
+    } finally {
+      httpServer.closeAllConnections();
+      await new Promise(resolve => httpServer.close(resolve));
+    }
+  });
+});
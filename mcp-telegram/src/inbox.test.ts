@@ -0,0 +1,97 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+const chat = { id: 100, type: "group" as const, title: "Team", username: "team_chat" };
+const alice = { id: 10, is_bot: false, first_name: "Alice", username: "alice" };
+const bob = { id: 11, is_bot: false, first_name: "Bob" };
+
+const messageRecord = (message_id: number, from: typeof alice | typeof bob, text: string) =>
+  JSON.stringify({ type: "message", message: { message_id, chat, from, date: 1000 + message_id, text } });
+
+const dir = mkdtempSync(path.join(tmpdir(), "telegram-inbox-"));
+const storePath = path.join(dir, "messages.jsonl");
+writeFileSync(
+  storePath,
+  [
+    messageRecord(1, alice, "Deploy is done"),
+    messageRecord(2, bob, "Thanks!"),
+    "{not json",
+    messageRecord(3, alice, "Deploy failed again"),
+    JSON.stringify({ type: "handled", chat_id: "100", message_ids: [1], date: 2000 }),
+    messageRecord(4, bob, "Looking into it"),
+    messageRecord(5, alice, "Rollback?"),
+    // Обрезанная последняя запись, как после сбоя во время записи
+    '{"type":"message","message":{"message_id":6',
+  ].join("\n") + "\n"
+);
+// inbox.ts читает файл при загрузке модуля
+process.env.TELEGRAM_STORE_PATH = storePath;
+
+describe("inbox", () => {
+  let inbox: typeof import("./inbox");
+  let consoleError: jest.SpyInstance;
+
+  beforeAll(async () => {
+    consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    inbox = await import("./inbox");
+  });
+
+  afterAll(() => {
+    consoleError.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const ids = (page: { messages: { message_id: number }[] }) => page.messages.map((m) => m.message_id);
+
+  it("should skip corrupt lines when loading the store", () => {
+    expect(consoleError).toHaveBeenCalledTimes(2);
+    expect(ids(inbox.getHistory({ chat_id: 100 }))).toEqual([1, 2, 3, 4, 5]);
+    expect(inbox.getHistory({ chat_id: 100 }).messages[0].handled).toBe(true);
+  });
+
+  it("should resolve chats by @username", () => {
+    expect(ids(inbox.getHistory({ chat_id: "@Team_Chat" }))).toEqual([1, 2, 3, 4, 5]);
+    expect(inbox.getHistory({ chat_id: 999 })).toEqual({ messages: [], next_before_id: null });
+  });
+
+  it("should filter by sender id or username", () => {
+    expect(ids(inbox.getHistory({ chat_id: 100, from: 11 }))).toEqual([2, 4]);
+    expect(ids(inbox.getHistory({ chat_id: 100, from: "@alice" }))).toEqual([1, 3, 5]);
+  });
+
+  it("should filter by date range, text and handled state", () => {
+    expect(ids(inbox.getHistory({ chat_id: 100, since: 1002, until: 1004 }))).toEqual([2, 3, 4]);
+    expect(ids(inbox.getHistory({ chat_id: 100, search: "deploy" }))).toEqual([1, 3]);
+    expect(ids(inbox.getHistory({ chat_id: 100, search: "deploy", unhandled_only: true }))).toEqual([3]);
+  });
+
+  it("should page backwards with next_before_id", () => {
+    const first = inbox.getHistory({ chat_id: 100, limit: 2 });
+    expect(ids(first)).toEqual([4, 5]);
+    expect(first.next_before_id).toBe(4);
+
+    const second = inbox.getHistory({ chat_id: 100, limit: 2, before_id: first.next_before_id! });
+    expect(ids(second)).toEqual([2, 3]);
+    expect(second.next_before_id).toBe(2);
+
+    const last = inbox.getHistory({ chat_id: 100, limit: 2, before_id: second.next_before_id! });
+    expect(ids(last)).toEqual([1]);
+    expect(last.next_before_id).toBeNull();
+  });
+
+  it("should page through filtered messages only", () => {
+    const first = inbox.getHistory({ chat_id: 100, from: "alice", limit: 2 });
+    expect(ids(first)).toEqual([3, 5]);
+    expect(ids(inbox.getHistory({ chat_id: 100, from: "alice", limit: 2, before_id: first.next_before_id! }))).toEqual([1]);
+  });
+
+  it("should append new messages and handled marks to the store", () => {
+    inbox.recordMessage({ message_id: 7, chat, from: bob, date: 1007, text: "Fixed" });
+    expect(inbox.markHandled("@team_chat", [3, 7, 42])).toBe(2);
+
+    const lines = readFileSync(storePath, "utf8").trimEnd().split("\n");
+    expect(JSON.parse(lines[lines.length - 1])).toMatchObject({ type: "handled", chat_id: "100", message_ids: [3, 7] });
+    expect(ids(inbox.getHistory({ chat_id: 100, unhandled_only: true }))).toEqual([2, 4, 5]);
+  });
+});
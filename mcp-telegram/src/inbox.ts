@@ -0,0 +1,264 @@
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as path from "path";
+import type TelegramBot from "node-telegram-bot-api";
+
+// Входящие сообщения и нажатия кнопок хранятся в JSON-lines файле: каждая строка — событие или отметка об обработке
+const STORE_PATH = path.resolve(process.env.TELEGRAM_STORE_PATH || "data/messages.jsonl");
+
+export interface InboxMessage {
+  message_id: number;
+  chat: TelegramBot.Chat;
+  from?: TelegramBot.User;
+  date: number;
+  text?: string;
+  reply_to_message_id?: number;
+  handled?: boolean;
+}
+
+// Нажатие кнопки inline-клавиатуры
+export interface CallbackEvent {
+  id: string;
+  chat_id?: number;
+  message_id?: number;
+  from: TelegramBot.User;
+  data?: string;
+  date: number;
+  handled?: boolean;
+}
+
+type StoreRecord =
+  | { type: "message"; message: InboxMessage }
+  | { type: "handled"; chat_id: string; message_ids: number[]; date: number }
+  | { type: "callback"; callback: CallbackEvent }
+  | { type: "callback_handled"; callback_ids: string[]; date: number };
+
+export interface ChatSummary {
+  chat: TelegramBot.Chat;
+  message_count: number;
+  unhandled_count: number;
+  last_message_date: number;
+}
+
+export interface HistoryQuery {
+  chat_id: number | string;
+  limit?: number;
+  before_id?: number;
+  from?: number | string;
+  since?: number;
+  until?: number;
+  search?: string;
+  unhandled_only?: boolean;
+}
+
+export interface HistoryPage {
+  messages: InboxMessage[];
+  // Передайте в before_id, чтобы получить следующую (более старую) страницу
+  next_before_id: number | null;
+}
+
+const chats = new Map<string, InboxMessage[]>();
+const callbacks: CallbackEvent[] = [];
+const events = new EventEmitter();
+
+function applyRecord(record: StoreRecord) {
+  if (record.type === "message") {
+    const key = String(record.message.chat.id);
+    const history = chats.get(key) ?? [];
+    history.push(record.message);
+    chats.set(key, history);
+    return;
+  }
+  if (record.type === "callback") {
+    callbacks.push(record.callback);
+    return;
+  }
+  if (record.type === "callback_handled") {
+    const ids = new Set(record.callback_ids);
+    for (const callback of callbacks) {
+      if (ids.has(callback.id)) {
+        callback.handled = true;
+      }
+    }
+    return;
+  }
+  const ids = new Set(record.message_ids);
+  for (const message of chats.get(record.chat_id) ?? []) {
+    if (ids.has(message.message_id)) {
+      message.handled = true;
+    }
+  }
+}
+
+function appendRecord(record: StoreRecord) {
+  fs.mkdirSync(path.dirname(STORE_PATH), { recursive: true });
+  fs.appendFileSync(STORE_PATH, JSON.stringify(record) + "\n");
+  applyRecord(record);
+}
+
+function loadStore() {
+  if (!fs.existsSync(STORE_PATH)) {
+    return;
+  }
+  const lines = fs.readFileSync(STORE_PATH, "utf8").split("\n");
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      applyRecord(JSON.parse(line) as StoreRecord);
+    } catch {
+      // Пропускаем повреждённые строки (например, обрезанную последнюю запись)
+      console.error("Skipping malformed line in", STORE_PATH);
+    }
+  }
+}
+
+loadStore();
+
+/** Находит сохранённый чат по числовому ID или @username */
+function resolveChatKey(chat_id: number | string): string | undefined {
+  const key = String(chat_id);
+  if (chats.has(key)) {
+    return key;
+  }
+  const username = key.replace(/^@/, "").toLowerCase();
+  for (const [id, history] of chats) {
+    if (history[0]?.chat.username?.toLowerCase() === username) {
+      return id;
+    }
+  }
+}
+
+function matchesSender(message: InboxMessage, from: number | string): boolean {
+  if (!message.from) return false;
+  if (String(message.from.id) === String(from)) return true;
+  return message.from.username?.toLowerCase() === String(from).replace(/^@/, "").toLowerCase();
+}
+
+export function recordMessage(msg: TelegramBot.Message): InboxMessage {
+  const message: InboxMessage = {
+    message_id: msg.message_id,
+    chat: msg.chat,
+    from: msg.from,
+    date: msg.date,
+    text: msg.text ?? msg.caption,
+    reply_to_message_id: msg.reply_to_message?.message_id,
+  };
+  appendRecord({ type: "message", message });
+  events.emit("message", message);
+  return message;
+}
+
+export function markHandled(chat_id: number | string, message_ids: number[]): number {
+  const key = resolveChatKey(chat_id);
+  if (!key) {
+    return 0;
+  }
+  const ids = new Set(message_ids);
+  const matched = (chats.get(key) ?? []).filter((m) => ids.has(m.message_id) && !m.handled);
+  if (matched.length > 0) {
+    appendRecord({
+      type: "handled",
+      chat_id: key,
+      message_ids: matched.map((m) => m.message_id),
+      date: Math.floor(Date.now() / 1000),
+    });
+  }
+  return matched.length;
+}
+
+export function listChats(): ChatSummary[] {
+  return [...chats.values()]
+    .filter((history) => history.length > 0)
+    .map((history) => {
+      const last = history[history.length - 1];
+      return {
+        chat: last.chat,
+        message_count: history.length,
+        unhandled_count: history.filter((m) => !m.handled).length,
+        last_message_date: last.date,
+      };
+    })
+    .sort((a, b) => b.last_message_date - a.last_message_date);
+}
+
+export function getHistory(query: HistoryQuery): HistoryPage {
+  const key = resolveChatKey(query.chat_id);
+  const limit = query.limit ?? 20;
+  const search = query.search?.toLowerCase();
+  const matched = (key ? chats.get(key) ?? [] : []).filter(
+    (m) =>
+      (query.before_id == null || m.message_id < query.before_id) &&
+      (query.from == null || matchesSender(m, query.from)) &&
+      (query.since == null || m.date >= query.since) &&
+      (query.until == null || m.date <= query.until) &&
+      (!search || (m.text?.toLowerCase().includes(search) ?? false)) &&
+      (!query.unhandled_only || !m.handled)
+  );
+  const messages = matched.slice(-limit);
+  return {
+    messages,
+    next_before_id: matched.length > limit ? messages[0].message_id : null,
+  };
+}
+
+export function recordCallback(query: TelegramBot.CallbackQuery): CallbackEvent {
+  const callback: CallbackEvent = {
+    id: query.id,
+    chat_id: query.message?.chat.id,
+    message_id: query.message?.message_id,
+    from: query.from,
+    data: query.data,
+    date: Math.floor(Date.now() / 1000),
+  };
+  appendRecord({ type: "callback", callback });
+  return callback;
+}
+
+export function getCallbacks(filter: {
+  chat_id?: number | string;
+  message_id?: number;
+  unhandled_only?: boolean;
+  limit?: number;
+}): CallbackEvent[] {
+  const chatKey =
+    filter.chat_id == null ? undefined : resolveChatKey(filter.chat_id) ?? String(filter.chat_id);
+  return callbacks
+    .filter(
+      (c) =>
+        (chatKey == null || String(c.chat_id) === chatKey) &&
+        (filter.message_id == null || c.message_id === filter.message_id) &&
+        (!filter.unhandled_only || !c.handled)
+    )
+    .slice(-(filter.limit ?? 20));
+}
+
+export function markCallbacksHandled(callback_ids: string[]): number {
+  const ids = new Set(callback_ids);
+  const matched = callbacks.filter((c) => ids.has(c.id) && !c.handled);
+  if (matched.length > 0) {
+    appendRecord({
+      type: "callback_handled",
+      callback_ids: matched.map((c) => c.id),
+      date: Math.floor(Date.now() / 1000),
+    });
+  }
+  return matched.length;
+}
+
+export function getRecentMessages(chat_id?: number | string, limit: number = 50): InboxMessage[] {
+  if (chat_id != null) {
+    return getHistory({ chat_id, limit }).messages;
+  }
+  return [...chats.values()]
+    .flat()
+    .sort((a, b) => a.date - b.date)
+    .slice(-limit);
+}
+
+// Возвращает функцию отписки
+export function onMessage(listener: (message: InboxMessage) => void): () => void {
+  events.on("message", listener);
+  return () => {
+    events.off("message", listener);
+  };
+}
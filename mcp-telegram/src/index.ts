@@ -1,101 +1,415 @@
-import { botReady } from "./telegramClient.js";
-import * as tools from "./mcpTools.js";
+#!/usr/bin/env node
+
+import { createServer } from "http";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { Command } from "commander";
+import { z } from "zod";
 import type TelegramBot from "node-telegram-bot-api";
+import { botReady, shutdown } from "./telegramClient.js";
+import { recordMessage, recordCallback, getRecentMessages, onMessage } from "./inbox.js";
+import * as tools from "./mcpTools.js";
+
+const program = new Command()
+  .option("--transport <stdio|http>", "transport type", "stdio")
+  .option("--port <number>", "port for HTTP transport", "3000")
+  .allowUnknownOption()
+  .parse(process.argv);
+
+const cliOptions = program.opts<{
+  transport: string;
+  port: string;
+}>();
+
+if (!["stdio", "http"].includes(cliOptions.transport)) {
+  console.error(`Invalid --transport value: '${cliOptions.transport}'. Must be one of: stdio, http.`);
+  process.exit(1);
+}
+
+const TRANSPORT_TYPE = cliOptions.transport as "stdio" | "http";
+const PORT = Number(cliOptions.port) || 3000;
+
+const chatId = z.union([z.string(), z.number()]).describe("ID или @username чата/канала");
+const messageIds = z
+  .array(z.union([z.number().int(), z.string()]))
+  .min(1)
+  .describe("ID сообщений");
+const dateFilter = z.union([z.string(), z.number()]).optional();
+const messageId = z.number().int().describe("ID сообщения");
+
+const sendOptions = {
+  parse_mode: z
+    .enum(["MarkdownV2", "HTML", "Markdown"])
+    .optional()
+    .describe("Режим форматирования текста"),
+  reply_to_message_id: z.number().int().optional().describe("Ответить на сообщение с этим ID"),
+  disable_notification: z.boolean().optional().describe("Отправить без звука"),
+  inline_keyboard: z
+    .array(
+      z.array(
+        z
+          .object({
+            text: z.string().min(1).describe("Текст кнопки"),
+            callback_data: z
+              .string()
+              .max(64)
+              .optional()
+              .describe("Данные, которые будут записаны при нажатии (до 64 байт)"),
+            url: z.string().url().optional().describe("Ссылка, открываемая кнопкой"),
+          })
+          .refine((b) => (b.callback_data == null) !== (b.url == null), {
+            message: "Button needs exactly one of callback_data or url",
+          })
+      )
+    )
+    .optional()
+    .describe("Inline-клавиатура: массив рядов кнопок. Нажатия читаются через get_callbacks"),
+};
+
+const mediaSource = {
+  url: z.string().url().optional().describe("URL файла"),
+  file_id: z.string().optional().describe("file_id уже загруженного в Telegram файла"),
+  librechat_file: z
+    .string()
+    .optional()
+    .describe("Путь файла LibreChat (filepath), например /uploads/<user>/<file>"),
+  caption: z.string().max(1024).optional().describe("Подпись"),
+};
+
+function toResult(result: unknown) {
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+  };
+}
 
-const capabilities = {
-  tools: {
-    get_bot_info: {
-      description: "Получить информацию о боте",
-      params: []
+function createServerInstance() {
+  const server = new McpServer(
+    { name: "telegram-mcp", version: "2.0.0" },
+    {
+      instructions:
+        "Use this server to send and manage Telegram messages on behalf of a bot. Incoming messages are available as resources under telegram://messages.",
+    }
+  );
+
+  server.tool("get_bot_info", "Получить информацию о боте", {}, async () =>
+    toResult(await tools.get_bot_info())
+  );
+
+  server.tool(
+    "get_status",
+    "Состояние сервера: режим (polling/webhook), доступность Bot API, последние ошибки",
+    {},
+    async () => toResult(await tools.get_status())
+  );
+
+  server.tool(
+    "send_message",
+    "Отправить сообщение в чат/канал Telegram от имени бота",
+    {
+      chat_id: chatId,
+      message: z.string().min(1).describe("Текст сообщения"),
+      ...sendOptions,
     },
-    send_message: {
-      description: "Отправить сообщение в чат/канал Telegram от имени бота",
-      params: [
-        { name: "chat_id", type: "string|number", required: true, description: "ID или username чата/канала" },
-        { name: "message", type: "string", required: true, description: "Текст сообщения" }
-      ]
+    async ({ chat_id, message, ...options }) =>
+      toResult(await tools.send_message(chat_id, message, options))
+  );
+
+  server.tool(
+    "send_photo",
+    "Отправить фото по URL, file_id или из файлов LibreChat",
+    {
+      chat_id: chatId,
+      ...mediaSource,
+      ...sendOptions,
+    },
+    async ({ chat_id, url, file_id, librechat_file, caption, ...options }) =>
+      toResult(await tools.send_photo(chat_id, { url, file_id, librechat_file }, caption, options))
+  );
+
+  server.tool(
+    "send_document",
+    "Отправить документ по URL, file_id или из файлов LibreChat",
+    {
+      chat_id: chatId,
+      ...mediaSource,
+      ...sendOptions,
     },
-    get_messages: {
-      description: "Получить последние входящие сообщения для бота (ограничение Bot API)",
-      params: [
-        { name: "chat_id", type: "string|number", required: true },
-        { name: "limit", type: "number", required: false }
-      ]
+    async ({ chat_id, url, file_id, librechat_file, caption, ...options }) =>
+      toResult(
+        await tools.send_document(chat_id, { url, file_id, librechat_file }, caption, options)
+      )
+  );
+
+  server.tool(
+    "edit_message",
+    "Изменить текст или inline-клавиатуру сообщения бота",
+    {
+      chat_id: chatId,
+      message_id: messageId,
+      text: z.string().min(1).optional().describe("Новый текст (без него меняется только клавиатура)"),
+      parse_mode: sendOptions.parse_mode,
+      inline_keyboard: sendOptions.inline_keyboard,
     },
-    forward_messages: {
-      description: "Переслать сообщения в другой чат/канал",
-      params: [
-        { name: "from_chat_id", type: "string|number", required: true },
-        { name: "message_ids", type: "array", required: true },
-        { name: "to_chat_id", type: "string|number", required: true }
-      ]
+    async ({ chat_id, message_id, text, ...options }) =>
+      toResult(await tools.edit_message(chat_id, message_id, text, options))
+  );
+
+  server.tool(
+    "pin_message",
+    "Закрепить сообщение в чате (бот должен быть администратором)",
+    {
+      chat_id: chatId,
+      message_id: messageId,
+      disable_notification: z.boolean().optional().describe("Закрепить без уведомления"),
     },
-    delete_messages: {
-      description: "Удалить сообщения (только если бот автор)",
-      params: [
-        { name: "chat_id", type: "string|number", required: true },
-        { name: "message_ids", type: "array", required: true }
-      ]
+    async ({ chat_id, message_id, disable_notification }) =>
+      toResult(await tools.pin_message(chat_id, message_id, disable_notification))
+  );
+
+  server.tool(
+    "unpin_message",
+    "Открепить сообщение (без message_id — последнее закреплённое)",
+    {
+      chat_id: chatId,
+      message_id: messageId.optional(),
     },
-    mark_read: {
-      description: "Отметить сообщения как прочитанные (не поддерживается Bot API, возвращает OK)",
-      params: [
-        { name: "chat_id", type: "string|number", required: true },
-        { name: "message_ids", type: "array", required: true }
-      ]
-    }
-  }
-};
-const serverInfo = { name: "telegram-mcp", version: "1.0.0" };
+    async ({ chat_id, message_id }) => toResult(await tools.unpin_message(chat_id, message_id))
+  );
+
+  server.tool(
+    "get_callbacks",
+    "Получить нажатия кнопок inline-клавиатур",
+    {
+      chat_id: chatId.optional(),
+      message_id: messageId.optional(),
+      unhandled_only: z.boolean().optional().describe("Только необработанные нажатия"),
+      limit: z.number().int().positive().max(100).optional().describe("Количество событий"),
+    },
+    async ({ chat_id, message_id, unhandled_only, limit }) =>
+      toResult(await tools.get_callbacks(chat_id, message_id, unhandled_only, limit))
+  );
+
+  server.tool(
+    "mark_callbacks_handled",
+    "Отметить нажатия кнопок как обработанные",
+    {
+      callback_ids: z.array(z.string()).min(1).describe("ID нажатий из get_callbacks"),
+    },
+    async ({ callback_ids }) => toResult(await tools.mark_callbacks_handled(callback_ids))
+  );
+
+  server.tool(
+    "list_chats",
+    "Список чатов, из которых бот получал сообщения, с количеством необработанных",
+    {},
+    async () => toResult(await tools.list_chats())
+  );
+
+  server.tool(
+    "get_messages",
+    "Получить сохранённые входящие сообщения чата (постранично, от новых к старым страницам)",
+    {
+      chat_id: chatId,
+      limit: z.number().int().positive().max(100).optional().describe("Количество сообщений"),
+      before_id: z
+        .number()
+        .int()
+        .optional()
+        .describe("Вернуть сообщения с ID меньше указанного (next_before_id из предыдущей страницы)"),
+      from: z
+        .union([z.string(), z.number()])
+        .optional()
+        .describe("ID или @username отправителя"),
+      since: dateFilter.describe("Не раньше даты (ISO 8601 или unix-время в секундах)"),
+      until: dateFilter.describe("Не позже даты (ISO 8601 или unix-время в секундах)"),
+      search: z.string().optional().describe("Поиск по тексту (без учёта регистра)"),
+      unhandled_only: z.boolean().optional().describe("Только необработанные сообщения"),
+    },
+    async ({ chat_id, limit, ...filters }) =>
+      toResult(await tools.get_messages(chat_id, limit, filters))
+  );
+
+  server.tool(
+    "forward_messages",
+    "Переслать сообщения в другой чат/канал",
+    {
+      from_chat_id: chatId,
+      message_ids: messageIds,
+      to_chat_id: chatId,
+    },
+    async ({ from_chat_id, message_ids, to_chat_id }) =>
+      toResult(await tools.forward_messages(from_chat_id, message_ids, to_chat_id))
+  );
+
+  server.tool(
+    "delete_messages",
+    "Удалить сообщения (только если бот автор)",
+    {
+      chat_id: chatId,
+      message_ids: messageIds,
+    },
+    async ({ chat_id, message_ids }) => toResult(await tools.delete_messages(chat_id, message_ids))
+  );
+
+  server.tool(
+    "mark_read",
+    "Отметить сообщения как прочитанные (не поддерживается Bot API, возвращает OK)",
+    {
+      chat_id: chatId,
+      message_ids: messageIds,
+    },
+    async ({ chat_id, message_ids }) => toResult(await tools.mark_read(chat_id, message_ids))
+  );
+
+  server.tool(
+    "mark_handled",
+    "Отметить сохранённые входящие сообщения как обработанные",
+    {
+      chat_id: chatId,
+      message_ids: messageIds,
+    },
+    async ({ chat_id, message_ids }) => toResult(await tools.mark_handled(chat_id, message_ids))
+  );
+
+  // Входящие сообщения доступны как ресурсы, а не как события в stdout
+  server.resource(
+    "recent-messages",
+    "telegram://messages",
+    {
+      description: "Последние входящие сообщения, полученные ботом",
+      mimeType: "application/json",
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(getRecentMessages(), null, 2),
+        },
+      ],
+    })
+  );
+
+  server.resource(
+    "chat-messages",
+    new ResourceTemplate("telegram://messages/{chat_id}", {
+      list: async () => {
+        const chats = new Map<string, TelegramBot.Chat>();
+        for (const message of getRecentMessages()) {
+          chats.set(String(message.chat.id), message.chat);
+        }
+        return {
+          resources: [...chats.values()].map((chat) => ({
+            uri: `telegram://messages/${chat.id}`,
+            name: chat.title ?? chat.username ?? chat.first_name ?? String(chat.id),
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    {
+      description: "Последние входящие сообщения в конкретном чате",
+      mimeType: "application/json",
+    },
+    async (uri, { chat_id }) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(getRecentMessages(String(chat_id)), null, 2),
+        },
+      ],
+    })
+  );
+
+  return server;
+}
+
+async function stop() {
+  await shutdown();
+  process.exit(0);
+}
 
 async function main() {
-  const bot = await botReady;
-
-  bot.on("message", (msg: TelegramBot.Message) => {
-    const payload = {
-      event: "new_message",
-      data: {
-        message_id: msg.message_id,
-        chat: msg.chat,
-        from: msg.from,
-        date: msg.date,
-        text: msg.text,
-      }
-    };
-    process.stdout.write(JSON.stringify(payload) + "\n");
-  });
-
-  process.stdin.on("data", async (data) => {
-    try {
-      const req = JSON.parse(data.toString());
-      const { method, params, id } = req;
-
-      if (method === "initialize") {
-        process.stdout.write(
-          JSON.stringify({
-            jsonrpc: "2.0",
-            id,
-            result: {
-              protocolVersion: "2025-03-26",
-              capabilities,
-              serverInfo
-            }
-          }) + "\n"
-        );
-        return;
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  // Не блокируем запуск MCP до установки webhook: инструменты сами дождутся botReady
+  botReady
+    .then((bot) => {
+      bot.on("message", (msg: TelegramBot.Message) => {
+        recordMessage(msg);
+      });
+      bot.on("callback_query", (query: TelegramBot.CallbackQuery) => {
+        recordCallback(query);
+        // Снимаем индикатор загрузки на кнопке у пользователя
+        bot.answerCallbackQuery(query.id).catch((error: unknown) => {
+          console.error("Failed to answer callback query:", error);
+        });
+      });
+    })
+    .catch((error) => {
+      console.error("Failed to start Telegram bot:", error);
+    });
+
+  if (TRANSPORT_TYPE === "http") {
+    const httpServer = createServer(async (req, res) => {
+      const url = new URL(req.url || "", `http://${req.headers.host}`).pathname;
+
+      try {
+        if (url === "/mcp") {
+          // Без сессий: новый экземпляр сервера на каждый запрос
+          const requestServer = createServerInstance();
+          const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: undefined,
+          });
+          res.on("close", () => {
+            transport.close();
+            requestServer.close();
+          });
+          await requestServer.connect(transport);
+          await transport.handleRequest(req, res);
+        } else if (url === "/ping") {
+          res.writeHead(200, { "Content-Type": "text/plain" });
+          res.end("pong");
+        } else {
+          res.writeHead(404);
+          res.end("Not found");
+        }
+      } catch (error) {
+        console.error("Error handling request:", error);
+        if (!res.headersSent) {
+          res.writeHead(500);
+          res.end("Internal Server Error");
+        }
       }
+    });
 
-      if (method in tools && typeof (tools as any)[method] === "function") {
-        const fn = (tools as Record<string, (...args: any[]) => any>)[method];
-        const result = await fn(...(params || []));
-        process.stdout.write(JSON.stringify({ id, result }) + "\n");
-      } else {
-        process.stdout.write(JSON.stringify({ id, error: "Unknown method" }) + "\n");
+    httpServer.listen(PORT, () => {
+      console.error(`Telegram MCP Server running on HTTP at http://localhost:${PORT}/mcp`);
+    });
+  } else {
+    const server = createServerInstance();
+    const knownChats = new Set<string>();
+    // Сообщаем клиенту о появлении нового чата в списке ресурсов
+    onMessage((message) => {
+      const id = String(message.chat.id);
+      if (!knownChats.has(id)) {
+        knownChats.add(id);
+        if (server.isConnected()) {
+          server.sendResourceListChanged();
+        }
       }
-    } catch (err: any) {
-      process.stdout.write(JSON.stringify({ error: err.message }) + "\n");
-    }
-  });
+    });
+    // Клиент закрыл stdin — завершаемся и снимаем webhook
+    process.stdin.on("close", stop);
+    await server.connect(new StdioServerTransport());
+    console.error("Telegram MCP Server running on stdio");
+  }
 }
 
-main();
+main().catch((error) => {
+  console.error("Fatal error in main():", error);
+  process.exit(1);
+});
@@ -1,4 +1,13 @@
-import { botReady } from "./telegramClient.js";
+import type TelegramBot from "node-telegram-bot-api";
+import { botReady, getStatus } from "./telegramClient.js";
+import { resolveMedia, type MediaSource } from "./media.js";
+import {
+  getHistory,
+  listChats,
+  markHandled,
+  getCallbacks,
+  markCallbacksHandled,
+} from "./inbox.js";
 
 function toNumber(val: string | number): number | null {
   if (typeof val === "number" && Number.isFinite(val)) return val;
@@ -6,19 +15,184 @@ function toNumber(val: string | number): number | null {
   return null;
 }
 
+// Принимает unix-время в секундах или строку даты (ISO 8601)
+function toUnixTime(val?: string | number): number | undefined {
+  if (val == null) return undefined;
+  if (typeof val === "number") return val;
+  const parsed = Date.parse(val);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid date: ${val}`);
+  }
+  return Math.floor(parsed / 1000);
+}
+
+export interface InlineButton {
+  text: string;
+  callback_data?: string;
+  url?: string;
+}
+
+export interface SendOptions {
+  parse_mode?: TelegramBot.ParseMode;
+  reply_to_message_id?: number;
+  disable_notification?: boolean;
+  inline_keyboard?: InlineButton[][];
+}
+
+function toReplyMarkup(inline_keyboard?: InlineButton[][]): TelegramBot.InlineKeyboardMarkup | undefined {
+  return inline_keyboard ? { inline_keyboard } : undefined;
+}
+
+function toSendOptions(options: SendOptions): TelegramBot.SendMessageOptions {
+  return {
+    parse_mode: options.parse_mode,
+    reply_to_message_id: options.reply_to_message_id,
+    allow_sending_without_reply: options.reply_to_message_id != null ? true : undefined,
+    disable_notification: options.disable_notification,
+    reply_markup: toReplyMarkup(options.inline_keyboard),
+  };
+}
+
+export interface MessageFilters {
+  before_id?: number;
+  from?: number | string;
+  since?: string | number;
+  until?: string | number;
+  search?: string;
+  unhandled_only?: boolean;
+}
+
 export async function get_bot_info() {
   const bot = await botReady;
   return await bot.getMe();
 }
 
-export async function send_message(chat_id: number | string, message: string) {
+// Состояние подключения к Bot API; ошибки проверок возвращаются в ответе, а не бросаются
+export async function get_status() {
+  const status = getStatus();
+  const health: Record<string, unknown> = { ...status };
+  try {
+    const bot = await botReady;
+    const me = await bot.getMe();
+    health.bot = { id: me.id, username: me.username };
+    if (status.mode === "webhook") {
+      const info = await bot.getWebHookInfo();
+      health.webhook = {
+        pending_update_count: info.pending_update_count,
+        last_error_date: info.last_error_date,
+        last_error_message: info.last_error_message,
+      };
+    }
+    health.healthy = status.ready;
+  } catch (error) {
+    health.healthy = false;
+    health.error = (error as Error).message;
+  }
+  return health;
+}
+
+export async function send_message(
+  chat_id: number | string,
+  message: string,
+  options: SendOptions = {}
+) {
+  const bot = await botReady;
+  const sent = await bot.sendMessage(chat_id, message, toSendOptions(options));
+  return { status: "ok", message_id: sent.message_id };
+}
+
+export async function send_photo(
+  chat_id: number | string,
+  source: MediaSource,
+  caption?: string,
+  options: SendOptions = {}
+) {
+  const bot = await botReady;
+  const { file, fileOptions } = resolveMedia(source);
+  const sent = await bot.sendPhoto(chat_id, file, { ...toSendOptions(options), caption }, fileOptions);
+  return { status: "ok", message_id: sent.message_id };
+}
+
+export async function send_document(
+  chat_id: number | string,
+  source: MediaSource,
+  caption?: string,
+  options: SendOptions = {}
+) {
   const bot = await botReady;
-  await bot.sendMessage(chat_id, message);
+  const { file, fileOptions } = resolveMedia(source);
+  const sent = await bot.sendDocument(chat_id, file, { ...toSendOptions(options), caption }, fileOptions);
+  return { status: "ok", message_id: sent.message_id };
+}
+
+// Редактирует текст сообщения бота; без text меняет только клавиатуру
+export async function edit_message(
+  chat_id: number | string,
+  message_id: number,
+  text?: string,
+  options: Pick<SendOptions, "parse_mode" | "inline_keyboard"> = {}
+) {
+  const bot = await botReady;
+  const reply_markup = toReplyMarkup(options.inline_keyboard);
+  if (text == null) {
+    await bot.editMessageReplyMarkup(reply_markup ?? { inline_keyboard: [] }, { chat_id, message_id });
+  } else {
+    await bot.editMessageText(text, {
+      chat_id,
+      message_id,
+      parse_mode: options.parse_mode,
+      reply_markup,
+    });
+  }
+  return { status: "ok" };
+}
+
+export async function pin_message(
+  chat_id: number | string,
+  message_id: number,
+  disable_notification?: boolean
+) {
+  const bot = await botReady;
+  await bot.pinChatMessage(chat_id, message_id, { disable_notification });
+  return { status: "ok" };
+}
+
+export async function unpin_message(chat_id: number | string, message_id?: number) {
+  const bot = await botReady;
+  await bot.unpinChatMessage(chat_id, { message_id });
   return { status: "ok" };
 }
 
-export async function get_messages(chat_id: number | string, limit: number = 20) {
-  return { warning: "Bot API не поддерживает получение истории чата. Используйте входящие сообщения через on('message')." };
+export async function get_callbacks(
+  chat_id?: number | string,
+  message_id?: number,
+  unhandled_only?: boolean,
+  limit?: number
+) {
+  return { callbacks: getCallbacks({ chat_id, message_id, unhandled_only, limit }) };
+}
+
+export async function mark_callbacks_handled(callback_ids: string[]) {
+  return { status: "ok", marked: markCallbacksHandled(callback_ids) };
+}
+
+export async function list_chats() {
+  return { chats: listChats() };
+}
+
+// Bot API не отдаёт историю чата, поэтому читаем входящие сообщения из локального хранилища
+export async function get_messages(
+  chat_id: number | string,
+  limit: number = 20,
+  filters: MessageFilters = {}
+) {
+  return getHistory({
+    ...filters,
+    chat_id,
+    limit,
+    since: toUnixTime(filters.since),
+    until: toUnixTime(filters.until),
+  });
 }
 
 export async function forward_messages(
@@ -62,3 +236,14 @@ export async function mark_read(
 ) {
   return { status: "ok", warning: "Bot API не поддерживает отметку сообщений как прочитанные." };
 }
+
+export async function mark_handled(
+  chat_id: number | string,
+  message_ids: (number | string)[]
+) {
+  const validIds: number[] = message_ids
+    .map(toNumber)
+    .filter((id): id is number => typeof id === "number" && Number.isFinite(id));
+
+  return { status: "ok", marked: markHandled(chat_id, validIds) };
+}
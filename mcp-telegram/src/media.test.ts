@@ -0,0 +1,69 @@
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync, type ReadStream } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+const root = mkdtempSync(path.join(tmpdir(), "telegram-media-"));
+const filesDir = path.join(root, "files");
+mkdirSync(path.join(filesDir, "uploads", "user1"), { recursive: true });
+writeFileSync(path.join(filesDir, "uploads", "user1", "abc-123__report.pdf"), "report");
+// Соседний каталог с общим префиксом имени не должен считаться частью LIBRECHAT_FILES_DIR
+mkdirSync(path.join(root, "files-other"));
+writeFileSync(path.join(root, "files-other", "secret.txt"), "secret");
+writeFileSync(path.join(root, "secret.txt"), "secret");
+symlinkSync(path.join(root, "secret.txt"), path.join(filesDir, "uploads", "link.txt"));
+// media.ts читает LIBRECHAT_FILES_DIR при загрузке модуля
+process.env.LIBRECHAT_FILES_DIR = filesDir;
+
+describe("resolveMedia", () => {
+  let media: typeof import("./media");
+  const streams: ReadStream[] = [];
+
+  beforeAll(async () => {
+    media = await import("./media");
+  });
+
+  afterAll(async () => {
+    await Promise.all(streams.map((stream) => new Promise((resolve) => stream.close(resolve))));
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const resolveFile = (librechat_file: string) => {
+    const resolved = media.resolveMedia({ librechat_file });
+    streams.push(resolved.file as ReadStream);
+    return resolved;
+  };
+
+  it("should pass URLs and file ids through", () => {
+    expect(media.resolveMedia({ url: "https://example.com/a.png" })).toEqual({ file: "https://example.com/a.png" });
+    expect(media.resolveMedia({ file_id: "AgADBAAD" })).toEqual({ file: "AgADBAAD" });
+    expect(media.resolveMedia({ librechat_file: "https://bucket.s3.amazonaws.com/a.png" })).toEqual({
+      file: "https://bucket.s3.amazonaws.com/a.png",
+    });
+  });
+
+  it("should require exactly one source", () => {
+    expect(() => media.resolveMedia({})).toThrow("exactly one");
+    expect(() => media.resolveMedia({ url: "https://example.com/a.png", file_id: "AgADBAAD" })).toThrow("exactly one");
+  });
+
+  it("should stream LibreChat files without the file id prefix", () => {
+    const resolved = resolveFile("/uploads/user1/abc-123__report.pdf?v=1");
+    expect((resolved.file as ReadStream).path).toBe(path.join(filesDir, "uploads", "user1", "abc-123__report.pdf"));
+    expect(resolved.fileOptions).toEqual({ filename: "report.pdf" });
+  });
+
+  it("should keep parent directory segments inside LIBRECHAT_FILES_DIR", () => {
+    expect(() => resolveFile("../secret.txt")).toThrow("File not found");
+    expect(() => resolveFile("/uploads/../../files-other/secret.txt")).toThrow("File not found");
+    expect(resolveFile("uploads/user1/../user1/abc-123__report.pdf").fileOptions).toEqual({ filename: "report.pdf" });
+  });
+
+  it("should reject the directory itself", () => {
+    expect(() => resolveFile("/")).toThrow("outside of LIBRECHAT_FILES_DIR");
+    expect(() => resolveFile("uploads/..")).toThrow("outside of LIBRECHAT_FILES_DIR");
+  });
+
+  it("should reject symbolic links to files outside LIBRECHAT_FILES_DIR", () => {
+    expect(() => resolveFile("/uploads/link.txt")).toThrow("outside of LIBRECHAT_FILES_DIR");
+  });
+});
@@ -0,0 +1,60 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Каталог, в котором лежат файлы LibreChat (uploads / images); файлы вне него не отправляются
+const LIBRECHAT_FILES_DIR = process.env.LIBRECHAT_FILES_DIR
+  ? path.resolve(process.env.LIBRECHAT_FILES_DIR)
+  : undefined;
+
+export interface MediaSource {
+  url?: string;
+  file_id?: string;
+  librechat_file?: string;
+}
+
+export interface ResolvedMedia {
+  file: string | fs.ReadStream;
+  fileOptions?: { filename: string };
+}
+
+/**
+ * Приводит источник файла к виду, который принимает Bot API:
+ * URL и file_id передаются как есть, файл LibreChat — потоком с диска.
+ */
+export function resolveMedia(source: MediaSource): ResolvedMedia {
+  const provided = [source.url, source.file_id, source.librechat_file].filter((v) => v != null);
+  if (provided.length !== 1) {
+    throw new Error("Specify exactly one of url, file_id or librechat_file");
+  }
+  if (source.url) {
+    return { file: source.url };
+  }
+  if (source.file_id) {
+    return { file: source.file_id };
+  }
+
+  const filepath = source.librechat_file as string;
+  // Файлы из облачных хранилищ LibreChat (S3, Firebase) хранятся по URL
+  if (/^https?:\/\//.test(filepath)) {
+    return { file: filepath };
+  }
+  if (!LIBRECHAT_FILES_DIR) {
+    throw new Error("LIBRECHAT_FILES_DIR must be set to send LibreChat files");
+  }
+  const relative = path.posix.normalize("/" + filepath.split("?")[0]);
+  const resolved = path.join(LIBRECHAT_FILES_DIR, relative);
+  if (!resolved.startsWith(LIBRECHAT_FILES_DIR + path.sep)) {
+    throw new Error(`File is outside of LIBRECHAT_FILES_DIR: ${filepath}`);
+  }
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`File not found: ${filepath}`);
+  }
+  // Символическая ссылка внутри каталога не должна открывать файлы вне его
+  const real = fs.realpathSync(resolved);
+  if (!real.startsWith(fs.realpathSync(LIBRECHAT_FILES_DIR) + path.sep)) {
+    throw new Error(`File is outside of LIBRECHAT_FILES_DIR: ${filepath}`);
+  }
+  // LibreChat добавляет к имени файла префикс "<file_id>__"
+  const filename = path.basename(resolved).replace(/^[\w-]+__/, "");
+  return { file: fs.createReadStream(real), fileOptions: { filename } };
+}
@@ -0,0 +1,151 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+const token = "123456:TEST";
+
+interface ApiCall {
+  method: string;
+  params: Record<string, string>;
+}
+
+// Заглушка Bot API: отвечает успехом на любой метод и запоминает вызовы
+function startBotApiStub(): Promise<{ url: string; calls: ApiCall[]; close: () => Promise<void> }> {
+  const calls: ApiCall[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const method = url.pathname.split("/").pop() ?? "";
+      const params = { ...Object.fromEntries(url.searchParams), ...Object.fromEntries(new URLSearchParams(body)) };
+      calls.push({ method, params });
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ ok: true, result: method === "getUpdates" ? [] : true }));
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        calls,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+function freePort(): Promise<number> {
+  const server = http.createServer();
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function post(url: string, body: unknown): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, { method: "POST", headers: { "Content-Type": "application/json" } }, (res) => {
+      res.resume();
+      res.on("end", () => resolve(res.statusCode ?? 0));
+    });
+    req.on("error", reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+describe("telegramClient", () => {
+  const env = { ...process.env };
+  let api: Awaited<ReturnType<typeof startBotApiStub>>;
+  let client: typeof import("./telegramClient") | undefined;
+  let consoleError: jest.SpyInstance;
+
+  // Режим и адреса читаются при загрузке модуля, поэтому каждый тест загружает его заново
+  const loadClient = async (vars: Record<string, string>) => {
+    Object.assign(process.env, { TELEGRAM_BOT_TOKEN: token, TELEGRAM_API_BASE_URL: api.url }, vars);
+    jest.resetModules();
+    client = await import("./telegramClient");
+    return client;
+  };
+
+  beforeEach(async () => {
+    consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    delete process.env.TELEGRAM_MODE;
+    delete process.env.TELEGRAM_WEBHOOK_URL;
+    delete process.env.TELEGRAM_WEBHOOK_PORT;
+    delete process.env.PORT;
+    api = await startBotApiStub();
+  });
+
+  afterEach(async () => {
+    await client?.shutdown();
+    client = undefined;
+    await api.close();
+    process.env = { ...env };
+    consoleError.mockRestore();
+  });
+
+  it("should poll the Bot API stub when no webhook URL is set", async () => {
+    const { botReady, getStatus } = await loadClient({});
+    await botReady;
+
+    expect(api.calls[0].method).toBe("deleteWebhook");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(api.calls.map((call) => call.method)).toContain("getUpdates");
+    expect(getStatus()).toMatchObject({
+      mode: "polling",
+      ready: true,
+      polling: true,
+      api_base_url: api.url,
+      webhook_url: undefined,
+    });
+  });
+
+  it("should set the webhook with the token path and accept updates on it", async () => {
+    const port = await freePort();
+    const { botReady, getStatus } = await loadClient({
+      TELEGRAM_WEBHOOK_URL: "https://bot.example.com/telegram/",
+      TELEGRAM_WEBHOOK_PORT: String(port),
+    });
+    const bot = await botReady;
+
+    const setWebHook = api.calls.find((call) => call.method === "setWebHook");
+    expect(setWebHook?.params.url).toBe(`https://bot.example.com/telegram/bot${token}`);
+    expect(api.calls.map((call) => call.method)).not.toContain("getUpdates");
+    // Токен не попадает в статус
+    expect(getStatus()).toMatchObject({
+      mode: "webhook",
+      ready: true,
+      polling: false,
+      webhook_url: "https://bot.example.com/telegram/",
+    });
+
+    const received = new Promise((resolve) => bot.once("message", resolve));
+    const update = { update_id: 1, message: { message_id: 1, date: 0, chat: { id: 1, type: "private" }, text: "hi" } };
+    expect(await post(`http://127.0.0.1:${port}/bot${token}`, update)).toBe(200);
+    await expect(received).resolves.toMatchObject({ text: "hi" });
+    expect(getStatus().last_update_at).toBeDefined();
+
+    expect(await post(`http://127.0.0.1:${port}/telegram-webhook`, update)).toBe(401);
+  });
+
+  it("should remove the webhook on shutdown", async () => {
+    const port = await freePort();
+    const { botReady, shutdown } = await loadClient({
+      TELEGRAM_MODE: "webhook",
+      TELEGRAM_WEBHOOK_URL: "https://bot.example.com",
+      TELEGRAM_WEBHOOK_PORT: String(port),
+    });
+    await botReady;
+    await shutdown();
+
+    expect(api.calls.map((call) => call.method)).toEqual(["setWebHook", "deleteWebhook"]);
+  });
+
+  it("should reject invalid mode settings", async () => {
+    await expect(loadClient({ TELEGRAM_MODE: "push" })).rejects.toThrow("Invalid TELEGRAM_MODE");
+    await expect(loadClient({ TELEGRAM_MODE: "webhook" })).rejects.toThrow("TELEGRAM_WEBHOOK_URL must be set");
+  });
+});
@@ -3,34 +3,109 @@ import * as dotenv from "dotenv";
 
 dotenv.config();
 
-console.log("Env variables:", Object.keys(process.env));
-console.log("TELEGRAM_WEBHOOK_URL:", process.env.TELEGRAM_WEBHOOK_URL);
+export type TelegramMode = "polling" | "webhook";
 
 const botToken = process.env.TELEGRAM_BOT_TOKEN;
-
-// Явно задаём webhookUrl: используем переменную окружения или дефолт для Amvera
-const webhookUrl =
-  process.env.TELEGRAM_WEBHOOK_URL ||
-  "https://nrlibre-neuralrunner.amvera.io/telegram-webhook";
+const webhookBaseUrl = process.env.TELEGRAM_WEBHOOK_URL;
+// Адрес Bot API можно подменить на локальную заглушку для интеграционных тестов
+const apiBaseUrl = process.env.TELEGRAM_API_BASE_URL || undefined;
+const mode = (process.env.TELEGRAM_MODE || (webhookBaseUrl ? "webhook" : "polling")) as TelegramMode;
 
 if (!botToken) {
   throw new Error("TELEGRAM_BOT_TOKEN must be set in environment");
 }
-if (!webhookUrl) {
-  throw new Error("TELEGRAM_WEBHOOK_URL must be set in environment");
+if (mode !== "polling" && mode !== "webhook") {
+  throw new Error(`Invalid TELEGRAM_MODE: '${mode}'. Must be one of: polling, webhook.`);
+}
+if (mode === "webhook" && !webhookBaseUrl) {
+  throw new Error("TELEGRAM_WEBHOOK_URL must be set when TELEGRAM_MODE=webhook");
 }
 
+// Встроенный webhook-сервер библиотеки принимает только запросы, путь которых содержит токен
+const webhookUrl = webhookBaseUrl ? `${webhookBaseUrl.replace(/\/+$/, "")}/bot${botToken}` : undefined;
+const webhookPort = Number(process.env.TELEGRAM_WEBHOOK_PORT || process.env.PORT) || 8004;
+
 const bot = new TelegramBot(botToken, {
-  webHook: {
-    port: Number(process.env.PORT) || 8004, // порт, который слушает Express/Amvera
-  },
+  baseApiUrl: apiBaseUrl,
+  polling: false,
+  webHook: mode === "webhook" ? { port: webhookPort, autoOpen: false } : false,
+});
+
+const state = {
+  startedAt: new Date().toISOString(),
+  ready: false,
+  lastUpdateAt: undefined as string | undefined,
+  lastError: undefined as string | undefined,
+};
+
+bot.on("message", () => {
+  state.lastUpdateAt = new Date().toISOString();
+});
+bot.on("callback_query", () => {
+  state.lastUpdateAt = new Date().toISOString();
+});
+bot.on("polling_error", (error: Error) => {
+  state.lastError = error.message;
+  console.error("Polling error:", error.message);
+});
+bot.on("webhook_error", (error: Error) => {
+  state.lastError = error.message;
+  console.error("Webhook error:", error.message);
 });
 
-// Устанавливаем webhook при старте
+// stdout занят протоколом MCP, логируем только в stderr
 const botReady = (async () => {
-  await bot.setWebHook(webhookUrl);
-  console.log("Webhook set to:", webhookUrl);
-  return bot;
+  try {
+    if (mode === "webhook") {
+      await bot.openWebHook();
+      await bot.setWebHook(webhookUrl as string);
+      console.error(`Webhook set, listening on port ${webhookPort}`);
+    } else {
+      // Polling не работает, пока у бота установлен webhook
+      await bot.deleteWebHook();
+      await bot.startPolling();
+      console.error("Polling started");
+    }
+    state.ready = true;
+    return bot;
+  } catch (error) {
+    state.lastError = (error as Error).message;
+    throw error;
+  }
 })();
 
-export { botReady };
+let stopping: Promise<void> | undefined;
+
+/** Останавливает получение обновлений; в режиме webhook снимает его в Telegram */
+function shutdown(): Promise<void> {
+  stopping ??= (async () => {
+    state.ready = false;
+    try {
+      if (mode === "webhook") {
+        await bot.deleteWebHook();
+        await bot.closeWebHook();
+      } else {
+        await bot.stopPolling();
+      }
+    } catch (error) {
+      console.error("Failed to stop Telegram bot:", error);
+    }
+  })();
+  return stopping;
+}
+
+function getStatus() {
+  return {
+    mode,
+    ready: state.ready,
+    api_base_url: apiBaseUrl ?? "https://api.telegram.org",
+    // Токен входит в путь webhook, поэтому наружу отдаём только базовый адрес
+    webhook_url: mode === "webhook" ? webhookBaseUrl : undefined,
+    polling: bot.isPolling(),
+    started_at: state.startedAt,
+    last_update_at: state.lastUpdateAt,
+    last_error: state.lastError,
+  };
+}
+
+export { botReady, shutdown, getStatus };
@@ -3,6 +3,9 @@ export * from './mcp/manager';
 export * from './mcp/oauth';
 export * from './mcp/auth';
 export * from './mcp/zod';
+export * from './mcp/sampling';
+export * from './mcp/elicitation';
+export * from './mcp/approval';
 /* Utilities */
 export * from './format';
 export * from './mcp/utils';
@@ -0,0 +1,26 @@
+import { requiresToolApproval } from './approval';
+
+describe('requiresToolApproval', () => {
+  it('should not require approval when the option is unset or false', () => {
+    expect(requiresToolApproval(undefined, 'delete_drive_file')).toBe(false);
+    expect(requiresToolApproval(false, 'delete_drive_file')).toBe(false);
+  });
+
+  it('should require approval for every tool when true', () => {
+    expect(requiresToolApproval(true, 'list_files')).toBe(true);
+  });
+
+  it('should match exact tool names and glob patterns', () => {
+    const patterns = ['send_workspace_email', 'delete_*', 'get_?'];
+    expect(requiresToolApproval(patterns, 'send_workspace_email')).toBe(true);
+    expect(requiresToolApproval(patterns, 'delete_messages')).toBe(true);
+    expect(requiresToolApproval(patterns, 'get_a')).toBe(true);
+    expect(requiresToolApproval(patterns, 'get_ab')).toBe(false);
+    expect(requiresToolApproval(patterns, 'list_files')).toBe(false);
+  });
+
+  it('should treat regex characters in patterns literally', () => {
+    expect(requiresToolApproval(['tool.name'], 'tool.name')).toBe(true);
+    expect(requiresToolApproval(['tool.name'], 'toolXname')).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import type { MCPOptions } from 'librechat-data-provider';
+
+/** Converts a tool name glob (`*` and `?` wildcards) into an anchored regular expression */
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+}
+
+/**
+ * Determines whether a tool call must be approved by the user before it runs,
+ * based on the server's `requireApproval` option.
+ */
+export function requiresToolApproval(
+  requireApproval: MCPOptions['requireApproval'],
+  toolName: string,
+): boolean {
+  if (requireApproval == null || requireApproval === false) {
+    return false;
+  }
+  if (requireApproval === true) {
+    return true;
+  }
+  return requireApproval.some((pattern) => globToRegExp(pattern).test(toolName));
+}
+
+/** Tool result returned to the model when the user declines a tool call */
+export function getToolRefusalResponse(serverName: string, toolName: string) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `The user declined the "${toolName}" tool call on the "${serverName}" MCP server. Do not retry it unless the user asks you to.`,
+      },
+    ],
+  };
+}
@@ -56,3 +56,33 @@ export async function getUserMCPAuthMap({
 
   return allMcpCustomUserVars;
 }
+
+/**
+ * Retrieves the custom user variables configured for a single MCP server,
+ * for requests made outside of an agent run (e.g. prompt or resource routes).
+ */
+export async function getUserMCPServerVars({
+  userId,
+  serverName,
+  findPluginAuthsByKeys,
+}: {
+  userId: string;
+  serverName: string;
+  findPluginAuthsByKeys: PluginAuthMethods['findPluginAuthsByKeys'];
+}): Promise<Record<string, string> | undefined> {
+  const pluginKey = `${Constants.mcp_prefix}${serverName}`;
+  try {
+    const authMap = await getPluginAuthMap({
+      userId,
+      pluginKeys: [pluginKey],
+      throwError: false,
+      findPluginAuthsByKeys,
+    });
+    return authMap[pluginKey];
+  } catch (err) {
+    logger.error(
+      `[getUserMCPServerVars] Error fetching customUserVars for ${pluginKey}, user ${userId}: ${err instanceof Error ? err.message : 'Unknown error'}`,
+      err,
+    );
+  }
+}
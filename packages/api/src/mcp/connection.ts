@@ -7,12 +7,20 @@ import {
   getDefaultEnvironment,
 } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { WebSocketClientTransport } from '@modelcontextprotocol/sdk/client/websocket.js';
-import { ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ErrorCode,
+  McpError,
+  ElicitRequestSchema,
+  CreateMessageRequestSchema,
+  ResourceUpdatedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
 import type { MCPOAuthTokens } from './oauth/types';
 import type * as t from './types';
+import { isSamplingEnabled, getSamplingMaxTokens } from './sampling';
 
 function isStdioOptions(options: t.MCPOptions): options is t.StdioOptions {
   return 'command' in options;
@@ -69,6 +77,10 @@ export class MCPConnection extends EventEmitter {
   private lastPingTime: number;
   private oauthTokens?: MCPOAuthTokens | null;
   private oauthRequired = false;
+  /** Sampling handlers of the tool calls in progress; only a single call's handler serves requests */
+  private samplingHandlers: t.MCPSamplingHandler[] = [];
+  /** Elicitation handlers of the tool calls in progress; only a single call's handler serves requests */
+  private elicitationHandlers: t.MCPElicitationHandler[] = [];
   iconPath?: string;
   timeout?: number;
   url?: string;
@@ -94,7 +106,10 @@ export class MCPConnection extends EventEmitter {
         version: '1.2.3',
       },
       {
-        capabilities: {},
+        capabilities: {
+          elicitation: {},
+          ...(isSamplingEnabled(options.sampling) ? { sampling: {} } : {}),
+        },
       },
     );
 
@@ -300,6 +315,8 @@ export class MCPConnection extends EventEmitter {
     });
 
     this.subscribeToResources();
+    this.setupSamplingHandler();
+    this.setupElicitationHandler();
   }
 
   private async handleReconnection(): Promise<void> {
@@ -357,6 +374,93 @@ export class MCPConnection extends EventEmitter {
     this.client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
       this.emit('resourcesChanged');
     });
+    this.client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      this.emit('resourceUpdated', notification.params.uri);
+    });
+  }
+
+  private setupSamplingHandler(): void {
+    const samplingOptions = this.options.sampling;
+    if (!isSamplingEnabled(samplingOptions)) {
+      return;
+    }
+    this.client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+      if (this.samplingHandlers.length > 1) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          'Sampling is unavailable while several tool calls are in progress on this connection',
+        );
+      }
+      const handler = this.samplingHandlers[0];
+      if (!handler) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          'Sampling is only available while a tool call is in progress',
+        );
+      }
+      const params = {
+        ...request.params,
+        maxTokens: getSamplingMaxTokens(request.params.maxTokens, samplingOptions.maxTokens),
+      };
+      logger.info(`${this.getLogPrefix()} Sampling requested (maxTokens: ${params.maxTokens})`);
+      return handler({
+        serverName: this.serverName,
+        params,
+        options: samplingOptions,
+        signal: extra.signal,
+      });
+    });
+  }
+
+  private setupElicitationHandler(): void {
+    this.client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+      if (this.elicitationHandlers.length > 1) {
+        logger.warn(
+          `${this.getLogPrefix()} Elicitation requested while several tool calls are in progress`,
+        );
+        return { action: 'cancel' };
+      }
+      const handler = this.elicitationHandlers[0];
+      if (!handler) {
+        logger.warn(`${this.getLogPrefix()} Elicitation requested outside of a tool call`);
+        return { action: 'cancel' };
+      }
+      logger.info(`${this.getLogPrefix()} Elicitation requested`);
+      return handler({
+        serverName: this.serverName,
+        params: request.params,
+        signal: extra.signal,
+      });
+    });
+  }
+
+  /** Adds a handler and returns a function that removes it again */
+  private pushHandler<T>(handlers: T[], handler: T): () => void {
+    handlers.push(handler);
+    return () => {
+      const index = handlers.lastIndexOf(handler);
+      if (index !== -1) {
+        handlers.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Registers the handler used for sampling requests until the returned cleanup is called.
+   * Scoped to a single tool call so completions are billed to the user and model that made it.
+   * Requests do not say which call they belong to, so they are refused while calls overlap.
+   */
+  public addSamplingHandler(handler: t.MCPSamplingHandler): () => void {
+    return this.pushHandler(this.samplingHandlers, handler);
+  }
+
+  /**
+   * Registers the handler used for elicitation requests until the returned cleanup is called.
+   * Scoped to a single tool call so questions reach the user who made it; like sampling
+   * requests, they are cancelled while calls overlap.
+   */
+  public addElicitationHandler(handler: t.MCPElicitationHandler): () => void {
+    return this.pushHandler(this.elicitationHandlers, handler);
   }
 
   async connectClient(): Promise<void> {
@@ -569,6 +673,29 @@ export class MCPConnection extends EventEmitter {
     }
   }
 
+  /** Reads a resource via `resources/read`; errors are propagated so callers can surface them */
+  async readResource(uri: string): Promise<t.MCPResourceContents[]> {
+    const { contents } = await this.client.readResource({ uri }, { timeout: this.timeout });
+    return contents;
+  }
+
+  /**
+   * Subscribes to `notifications/resources/updated` for a resource, if the server supports it.
+   * @returns Whether the subscription was registered
+   */
+  async subscribeResource(uri: string): Promise<boolean> {
+    if (!this.client.getServerCapabilities()?.resources?.subscribe) {
+      return false;
+    }
+    try {
+      await this.client.subscribeResource({ uri });
+      return true;
+    } catch (error) {
+      this.emitError(error, `Failed to subscribe to resource ${uri}:`);
+      return false;
+    }
+  }
+
   async fetchTools() {
     try {
       const { tools } = await this.client.listTools();
@@ -589,6 +716,11 @@ export class MCPConnection extends EventEmitter {
     }
   }
 
+  /** Renders a prompt via `prompts/get`; errors are propagated so callers can surface them */
+  async getPrompt(name: string, args?: Record<string, string>): Promise<t.MCPPromptResult> {
+    return await this.client.getPrompt({ name, arguments: args }, { timeout: this.timeout });
+  }
+
   public async isConnected(): Promise<boolean> {
     // First check if we're in a connected state
     if (this.connectionState !== 'connected') {
@@ -0,0 +1,114 @@
+import type { TMCPElicitationSchema } from 'librechat-data-provider';
+import type { MCPElicitationParams } from './types';
+import { validateElicitationContent, getElicitationPreview } from './elicitation';
+
+const requestedSchema: TMCPElicitationSchema = {
+  type: 'object',
+  properties: {
+    email: { type: 'string', format: 'email', maxLength: 50 },
+    account: { type: 'string', enum: ['personal', 'work'] },
+    retries: { type: 'integer', minimum: 0, maximum: 5 },
+    remember: { type: 'boolean' },
+  },
+  required: ['email', 'account'],
+};
+
+describe('validateElicitationContent', () => {
+  it('should accept content matching the requested schema', () => {
+    const result = validateElicitationContent(requestedSchema, {
+      email: 'user@example.com',
+      account: 'work',
+      retries: 2,
+      remember: true,
+    });
+    expect(result).toEqual({
+      success: true,
+      content: { email: 'user@example.com', account: 'work', retries: 2, remember: true },
+    });
+  });
+
+  it('should drop empty optional fields', () => {
+    const result = validateElicitationContent(requestedSchema, {
+      email: 'user@example.com',
+      account: 'personal',
+      retries: null,
+    });
+    expect(result).toEqual({
+      success: true,
+      content: { email: 'user@example.com', account: 'personal' },
+    });
+  });
+
+  it('should reject missing required fields and invalid enum values', () => {
+    expect(validateElicitationContent(requestedSchema, { account: 'work' }).success).toBe(false);
+    expect(
+      validateElicitationContent(requestedSchema, { email: 'a@b.co', account: 'other' }).success,
+    ).toBe(false);
+  });
+
+  it('should enforce integer and range constraints', () => {
+    const fractional = validateElicitationContent(requestedSchema, {
+      email: 'a@b.co',
+      account: 'work',
+      retries: 1.5,
+    });
+    expect(fractional).toEqual({ success: false, error: '"retries" must be an integer' });
+
+    const outOfRange = validateElicitationContent(requestedSchema, {
+      email: 'a@b.co',
+      account: 'work',
+      retries: 10,
+    });
+    expect(outOfRange).toEqual({ success: false, error: '"retries" must be at most 5' });
+  });
+
+  it('should enforce the requested string formats', () => {
+    const formats: TMCPElicitationSchema = {
+      type: 'object',
+      properties: {
+        email: { type: 'string', format: 'email' },
+        website: { type: 'string', format: 'uri' },
+        birthday: { type: 'string', format: 'date' },
+        meeting: { type: 'string', format: 'date-time' },
+      },
+    };
+    const valid = {
+      email: 'user@example.com',
+      website: 'https://example.com/about',
+      birthday: '2024-02-29',
+      meeting: '2025-03-01T09:30:00+01:00',
+    };
+    expect(validateElicitationContent(formats, valid)).toEqual({ success: true, content: valid });
+
+    const invalid: Array<[string, string]> = [
+      ['email', 'user@example'],
+      ['website', 'example.com/about'],
+      ['birthday', '2025-02-29'],
+      ['birthday', '03/01/2025'],
+      ['meeting', '2025-03-01 09:30'],
+      ['meeting', '2025-03-01T25:00:00Z'],
+    ];
+    for (const [key, value] of invalid) {
+      expect(validateElicitationContent(formats, { ...valid, [key]: value })).toEqual({
+        success: false,
+        error: `"${key}" must be a valid ${formats.properties[key].format}`,
+      });
+    }
+  });
+});
+
+describe('getElicitationPreview', () => {
+  it('should include the message and requested schema', () => {
+    const preview = getElicitationPreview({
+      flowId: 'flow',
+      serverName: 'workspace',
+      params: { message: 'Which account?', requestedSchema } as MCPElicitationParams,
+    });
+    expect(preview).toEqual({
+      flowId: 'flow',
+      serverName: 'workspace',
+      message: 'Which account?',
+      requestedSchema,
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import type {
+  TMCPElicitationField,
+  TMCPElicitationRequest,
+  TMCPElicitationSchema,
+} from 'librechat-data-provider';
+import type { JsonSchemaType } from '~/types/zod';
+import type * as t from './types';
+import { convertJsonSchemaToZod } from './zod';
+
+type ElicitationValidationResult =
+  | { success: true; content: Record<string, string | number | boolean> }
+  | { success: false; error: string };
+
+/**
+ * Maps the requested schema onto the JSON schema subset supported by `convertJsonSchemaToZod`.
+ * That subset has no `format`, so formats are checked by `getConstraintError` instead.
+ */
+function toJsonSchema(requestedSchema: TMCPElicitationSchema): JsonSchemaType {
+  const properties: Record<string, JsonSchemaType> = {};
+  for (const [key, field] of Object.entries(requestedSchema.properties)) {
+    properties[key] = {
+      type: field.type === 'integer' ? 'number' : field.type,
+      enum: field.enum,
+      description: field.description,
+    };
+  }
+  return { type: 'object', properties, required: requestedSchema.required };
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+/** Whether `value` is a calendar date such as 2025-02-28, rejecting days like 2025-02-30 */
+function isDate(value: string): boolean {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) {
+    return false;
+  }
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().startsWith(value);
+}
+
+/** Validators for the string formats elicitation schemas may request */
+const formatValidators: Record<
+  NonNullable<TMCPElicitationField['format']>,
+  (value: string) => boolean
+> = {
+  email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  uri: (value) => URL.canParse(value),
+  date: isDate,
+  'date-time': (value) => {
+    const match = DATE_TIME_PATTERN.exec(value);
+    return match != null && isDate(match[1]) && !Number.isNaN(Date.parse(value));
+  },
+};
+
+/** Checks the constraints `convertJsonSchemaToZod` does not cover */
+function getConstraintError(
+  key: string,
+  field: TMCPElicitationField,
+  value: string | number | boolean,
+): string | undefined {
+  if (typeof value === 'number') {
+    if (field.type === 'integer' && !Number.isInteger(value)) {
+      return `"${key}" must be an integer`;
+    }
+    if (field.minimum != null && value < field.minimum) {
+      return `"${key}" must be at least ${field.minimum}`;
+    }
+    if (field.maximum != null && value > field.maximum) {
+      return `"${key}" must be at most ${field.maximum}`;
+    }
+  } else if (typeof value === 'string') {
+    if (field.minLength != null && value.length < field.minLength) {
+      return `"${key}" must be at least ${field.minLength} characters`;
+    }
+    if (field.maxLength != null && value.length > field.maxLength) {
+      return `"${key}" must be at most ${field.maxLength} characters`;
+    }
+    const isValidFormat = field.format ? formatValidators[field.format] : undefined;
+    if (isValidFormat && !isValidFormat(value)) {
+      return `"${key}" must be a valid ${field.format}`;
+    }
+  }
+}
+
+/**
+ * Validates the user's answer against the schema requested by the server.
+ * Empty optional fields are dropped so servers can apply their own defaults.
+ */
+export function validateElicitationContent(
+  requestedSchema: TMCPElicitationSchema,
+  content: unknown,
+): ElicitationValidationResult {
+  const zodSchema = convertJsonSchemaToZod(
+    toJsonSchema(requestedSchema) as JsonSchemaType & Record<string, unknown>,
+  );
+  const parsed = zodSchema?.safeParse(content ?? {});
+  if (!parsed?.success) {
+    const issue = parsed?.error.issues[0];
+    return {
+      success: false,
+      error: issue ? `${issue.path.join('.') || 'content'}: ${issue.message}` : 'Invalid content',
+    };
+  }
+
+  const result: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(parsed.data as Record<string, unknown>)) {
+    const field = requestedSchema.properties[key];
+    if (!field || value == null || value === '') {
+      continue;
+    }
+    const typedValue = value as string | number | boolean;
+    const error = getConstraintError(key, field, typedValue);
+    if (error) {
+      return { success: false, error };
+    }
+    result[key] = typedValue;
+  }
+  return { success: true, content: result };
+}
+
+/** Builds the form request streamed to the user when a server elicits input */
+export function getElicitationPreview({
+  flowId,
+  serverName,
+  params,
+}: {
+  flowId: string;
+  serverName: string;
+  params: t.MCPElicitationParams;
+}): TMCPElicitationRequest {
+  return {
+    flowId,
+    serverName,
+    message: params.message,
+    requestedSchema: params.requestedSchema as TMCPElicitationSchema,
+  };
+}
@@ -0,0 +1,537 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { SubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { Keyv } from 'keyv';
+import { z } from 'zod';
+import { FlowStateManager } from '~/flow/manager';
+import type { MCPOAuthTokens } from './oauth/types';
+import type * as t from './types';
+import { MCPConnection } from './connection';
+import { MCPManager } from './manager';
+
+jest.mock('@librechat/data-schemas', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const flowManager = {} as FlowStateManager<MCPOAuthTokens | null>;
+
+/** Connects the manager's clients to in-memory servers instead of spawning processes */
+async function initializeManager(servers: Record<string, () => McpServer>, options = {}) {
+  jest
+    .spyOn(
+      MCPConnection.prototype as unknown as { constructTransport: () => unknown },
+      'constructTransport',
+    )
+    .mockImplementation(function (this: MCPConnection) {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      void servers[this.serverName]().connect(serverTransport);
+      return clientTransport;
+    });
+  const manager = MCPManager.getInstance();
+  const mcpServers = Object.fromEntries(
+    Object.keys(servers).map((serverName) => [
+      serverName,
+      { type: 'stdio' as const, command: 'node', args: [], initTimeout: 1000, ...options },
+    ]),
+  );
+  await manager.initializeMCP({ mcpServers, flowManager });
+  return manager;
+}
+
+/** Minimal in-memory store for a real `FlowStateManager` */
+class MockKeyv {
+  private store = new Map<string, unknown>();
+
+  async get(key: string) {
+    return this.store.get(key);
+  }
+
+  async set(key: string, value: unknown) {
+    this.store.set(key, value);
+    return true;
+  }
+
+  async delete(key: string) {
+    return this.store.delete(key);
+  }
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((_resolve) => (resolve = _resolve));
+  return { promise, resolve };
+}
+
+function textOf([content]: t.FormattedToolResponse): string {
+  return typeof content === 'string'
+    ? content
+    : content.map((part) => ('text' in part ? part.text : '')).join('\n');
+}
+
+describe('MCPManager', () => {
+  afterEach(async () => {
+    await MCPManager.destroyInstance();
+    jest.restoreAllMocks();
+  });
+
+  describe('callTool with sampling and elicitation', () => {
+    let waiting: ReturnType<typeof deferred>;
+    let release: ReturnType<typeof deferred>;
+
+    function createServer() {
+      const server = new McpServer({ name: 'test', version: '1.0.0' });
+      server.tool('wait', async () => {
+        waiting.resolve();
+        await release.promise;
+        return { content: [{ type: 'text', text: 'done' }] };
+      });
+      server.tool('summarize', async () => {
+        const result = await server.server.createMessage({
+          messages: [{ role: 'user', content: { type: 'text', text: 'Summarize' } }],
+          maxTokens: 100,
+        });
+        return { content: [{ type: 'text', text: `summary: ${result.content.text}` }] };
+      });
+      server.tool('confirm', async () => {
+        const result = await server.server.elicitInput({
+          message: 'Proceed?',
+          requestedSchema: { type: 'object', properties: { ok: { type: 'boolean' } } },
+        });
+        return { content: [{ type: 'text', text: `action: ${result.action}` }] };
+      });
+      return server;
+    }
+
+    beforeEach(() => {
+      waiting = deferred();
+      release = deferred();
+    });
+
+    const samplingHandler = (text: string) =>
+      jest.fn<ReturnType<t.MCPSamplingHandler>, Parameters<t.MCPSamplingHandler>>(async () => ({
+        role: 'assistant',
+        model: 'test-model',
+        content: { type: 'text', text },
+      }));
+    const elicitationHandler = () =>
+      jest.fn<ReturnType<t.MCPElicitationHandler>, Parameters<t.MCPElicitationHandler>>(
+        async () => ({ action: 'accept', content: { ok: true } }),
+      );
+
+    it('should serve requests with the handler of the only call in progress', async () => {
+      const manager = await initializeManager({ test: createServer }, { sampling: {} });
+      const onSampling = samplingHandler('short');
+      const onElicitation = elicitationHandler();
+
+      const summary = await manager.callTool({
+        serverName: 'test',
+        toolName: 'summarize',
+        provider: 'openAI',
+        flowManager,
+        samplingHandler: onSampling,
+      });
+      const confirmation = await manager.callTool({
+        serverName: 'test',
+        toolName: 'confirm',
+        provider: 'openAI',
+        flowManager,
+        elicitationHandler: onElicitation,
+      });
+
+      expect(textOf(summary)).toBe('summary: short');
+      expect(onSampling).toHaveBeenCalledWith(expect.objectContaining({ serverName: 'test' }));
+      expect(textOf(confirmation)).toBe('action: accept');
+      expect(onElicitation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse requests while tool calls overlap on a shared connection', async () => {
+      const manager = await initializeManager({ test: createServer }, { sampling: {} });
+      const waitingSampling = samplingHandler('wrong user');
+      const waitingElicitation = elicitationHandler();
+      const onSampling = samplingHandler('right user');
+      const onElicitation = elicitationHandler();
+
+      const waitCall = manager.callTool({
+        serverName: 'test',
+        toolName: 'wait',
+        provider: 'openAI',
+        flowManager,
+        samplingHandler: waitingSampling,
+        elicitationHandler: waitingElicitation,
+      });
+      await waiting.promise;
+
+      const summary = await manager.callTool({
+        serverName: 'test',
+        toolName: 'summarize',
+        provider: 'openAI',
+        flowManager,
+        samplingHandler: onSampling,
+      });
+      const confirmation = await manager.callTool({
+        serverName: 'test',
+        toolName: 'confirm',
+        provider: 'openAI',
+        flowManager,
+        elicitationHandler: onElicitation,
+      });
+      release.resolve();
+
+      expect(textOf(summary)).toContain(
+        'Sampling is unavailable while several tool calls are in progress on this connection',
+      );
+      expect(textOf(confirmation)).toBe('action: cancel');
+      expect(textOf(await waitCall)).toBe('done');
+      for (const handler of [waitingSampling, waitingElicitation, onSampling, onElicitation]) {
+        expect(handler).not.toHaveBeenCalled();
+      }
+
+      // Once the other call is done, requests are served again
+      await manager.callTool({
+        serverName: 'test',
+        toolName: 'summarize',
+        provider: 'openAI',
+        flowManager,
+        samplingHandler: onSampling,
+      });
+      expect(onSampling).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('callTool with tool approval', () => {
+    const ran: string[] = [];
+
+    function createServer() {
+      const server = new McpServer({ name: 'test', version: '1.0.0' });
+      for (const name of ['delete_file', 'read_file']) {
+        server.tool(name, async () => {
+          ran.push(name);
+          return { content: [{ type: 'text', text: `${name} done` }] };
+        });
+      }
+      return server;
+    }
+
+    /** Waits for the user's answer the way the backend does, declining when the flow fails */
+    function flowApprovalHandler(approvals: FlowStateManager<boolean>) {
+      return jest.fn<ReturnType<t.MCPToolApprovalHandler>, Parameters<t.MCPToolApprovalHandler>>(
+        ({ toolName }) =>
+          approvals.createFlow(toolName, 'mcp_tool_approval').then(
+            (approved) => approved === true,
+            () => false,
+          ),
+      );
+    }
+
+    const refusal =
+      'The user declined the "delete_file" tool call on the "test" MCP server. Do not retry it unless the user asks you to.';
+
+    beforeEach(() => {
+      ran.length = 0;
+    });
+
+    it('should run the tool once the user approves it', async () => {
+      const manager = await initializeManager(
+        { test: createServer },
+        { requireApproval: ['delete_*'] },
+      );
+      const approvals = new FlowStateManager<boolean>(new MockKeyv() as unknown as Keyv, {
+        ttl: 30000,
+        ci: true,
+      });
+      const approvalHandler = flowApprovalHandler(approvals);
+
+      const call = manager.callTool({
+        serverName: 'test',
+        toolName: 'delete_file',
+        provider: 'openAI',
+        toolArguments: { path: 'notes.txt' },
+        flowManager,
+        approvalHandler,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      expect(ran).toEqual([]);
+      expect(await approvals.completeFlow('delete_file', 'mcp_tool_approval', true)).toBe(true);
+
+      expect(textOf(await call)).toBe('delete_file done');
+      expect(ran).toEqual(['delete_file']);
+      expect(approvalHandler).toHaveBeenCalledWith({
+        serverName: 'test',
+        toolName: 'delete_file',
+        toolArguments: { path: 'notes.txt' },
+      });
+    });
+
+    it('should return the refusal without running the tool when the user declines', async () => {
+      const manager = await initializeManager({ test: createServer }, { requireApproval: true });
+      const approvals = new FlowStateManager<boolean>(new MockKeyv() as unknown as Keyv, {
+        ttl: 30000,
+        ci: true,
+      });
+
+      const call = manager.callTool({
+        serverName: 'test',
+        toolName: 'delete_file',
+        provider: 'openAI',
+        flowManager,
+        approvalHandler: flowApprovalHandler(approvals),
+      });
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      await approvals.completeFlow('delete_file', 'mcp_tool_approval', false);
+
+      expect(textOf(await call)).toBe(refusal);
+      expect(ran).toEqual([]);
+    });
+
+    it('should return the refusal without running the tool when the approval times out', async () => {
+      const manager = await initializeManager({ test: createServer }, { requireApproval: true });
+      const approvals = new FlowStateManager<boolean>(new MockKeyv() as unknown as Keyv, {
+        ttl: 100,
+        ci: true,
+      });
+
+      const result = await manager.callTool({
+        serverName: 'test',
+        toolName: 'delete_file',
+        provider: 'openAI',
+        flowManager,
+        approvalHandler: flowApprovalHandler(approvals),
+      });
+
+      expect(textOf(result)).toBe(refusal);
+      expect(ran).toEqual([]);
+    });
+
+    it('should decline calls that need approval when there is no handler', async () => {
+      const manager = await initializeManager({ test: createServer }, { requireApproval: true });
+
+      const result = await manager.callTool({
+        serverName: 'test',
+        toolName: 'delete_file',
+        provider: 'openAI',
+        flowManager,
+      });
+
+      expect(textOf(result)).toBe(refusal);
+      expect(ran).toEqual([]);
+    });
+
+    it('should not ask for tools that do not match the option', async () => {
+      const manager = await initializeManager(
+        { test: createServer },
+        { requireApproval: ['delete_*'] },
+      );
+      const approvalHandler = jest.fn<
+        ReturnType<t.MCPToolApprovalHandler>,
+        Parameters<t.MCPToolApprovalHandler>
+      >();
+
+      const result = await manager.callTool({
+        serverName: 'test',
+        toolName: 'read_file',
+        provider: 'openAI',
+        flowManager,
+        approvalHandler,
+      });
+
+      expect(textOf(result)).toBe('read_file done');
+      expect(approvalHandler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prompts', () => {
+    function createServer() {
+      const server = new McpServer({ name: 'writer', version: '1.0.0' });
+      server.prompt('greet', 'Greets someone', { name: z.string() }, ({ name }) => ({
+        messages: [{ role: 'user', content: { type: 'text', text: `Say hello to ${name}` } }],
+      }));
+      server.prompt('standup', () => ({
+        description: 'Daily standup',
+        messages: [{ role: 'user', content: { type: 'text', text: 'What did you do yesterday?' } }],
+      }));
+      return server;
+    }
+
+    it('should list the prompts of servers that publish them', async () => {
+      const manager = await initializeManager({
+        writer: createServer,
+        tools: () => {
+          const server = new McpServer({ name: 'tools', version: '1.0.0' });
+          server.tool('noop', async () => ({ content: [] }));
+          return server;
+        },
+      });
+
+      expect(await manager.getPrompts({ flowManager })).toEqual({
+        writer: [
+          {
+            name: 'greet',
+            description: 'Greets someone',
+            arguments: [{ name: 'name', required: true }],
+          },
+          { name: 'standup' },
+        ],
+      });
+    });
+
+    it('should render a prompt with its arguments', async () => {
+      const manager = await initializeManager({ writer: createServer });
+
+      expect(
+        await manager.getPrompt({
+          serverName: 'writer',
+          promptName: 'greet',
+          promptArgs: { name: 'Ada' },
+          flowManager,
+        }),
+      ).toEqual({
+        messages: [{ role: 'user', content: { type: 'text', text: 'Say hello to Ada' } }],
+      });
+      expect(
+        await manager.getPrompt({ serverName: 'writer', promptName: 'standup', flowManager }),
+      ).toEqual(expect.objectContaining({ description: 'Daily standup' }));
+    });
+
+    it('should reject unknown prompts and invalid arguments', async () => {
+      const manager = await initializeManager({ writer: createServer });
+
+      await expect(
+        manager.getPrompt({ serverName: 'writer', promptName: 'missing', flowManager }),
+      ).rejects.toThrow('Prompt missing not found');
+      await expect(
+        manager.getPrompt({ serverName: 'writer', promptName: 'greet', flowManager }),
+      ).rejects.toThrow('Invalid arguments for prompt greet');
+    });
+  });
+
+  describe('resources', () => {
+    let docs: McpServer;
+    let reads: string[];
+    let version: number;
+
+    function createServer({ subscribe = true } = {}) {
+      docs = new McpServer({ name: 'docs', version: '1.0.0' });
+      docs.resource('readme', 'file:///readme.md', { mimeType: 'text/markdown' }, async (uri) => {
+        reads.push(uri.href);
+        return { contents: [{ uri: uri.href, text: `# Readme v${version}` }] };
+      });
+      docs.resource(
+        'notes',
+        new ResourceTemplate('note://{id}', { list: undefined }),
+        async (uri) => {
+          reads.push(uri.href);
+          const text = uri.href === 'note://large' ? 'x'.repeat(512 * 1024 + 1) : `v${version}`;
+          return { contents: [{ uri: uri.href, text }] };
+        },
+      );
+      if (subscribe) {
+        docs.server.registerCapabilities({ resources: { subscribe: true } });
+        docs.server.setRequestHandler(SubscribeRequestSchema, async () => ({}));
+      }
+      return docs;
+    }
+
+    /** Lets notifications from the server reach the manager */
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+    async function read(manager: MCPManager, uri: string) {
+      const [contents] = await manager.readResource({ serverName: 'docs', uri, flowManager });
+      return 'text' in contents ? contents.text : contents.blob;
+    }
+
+    beforeEach(() => {
+      reads = [];
+      version = 1;
+    });
+
+    it('should list the resources of servers that publish them', async () => {
+      const manager = await initializeManager({
+        docs: createServer,
+        tools: () => {
+          const server = new McpServer({ name: 'tools', version: '1.0.0' });
+          server.tool('noop', async () => ({ content: [] }));
+          return server;
+        },
+      });
+
+      expect(await manager.getResources({ flowManager })).toEqual({
+        docs: [{ uri: 'file:///readme.md', name: 'readme', mimeType: 'text/markdown' }],
+      });
+    });
+
+    it('should cache subscribed contents until the server reports an update', async () => {
+      const manager = await initializeManager({ docs: createServer });
+
+      expect(await read(manager, 'file:///readme.md')).toBe('# Readme v1');
+      expect(await read(manager, 'note://a')).toBe('v1');
+      version = 2;
+      expect(await read(manager, 'file:///readme.md')).toBe('# Readme v1');
+      expect(reads).toEqual(['file:///readme.md', 'note://a']);
+
+      await docs.server.sendResourceUpdated({ uri: 'file:///readme.md' });
+      await flush();
+      expect(await read(manager, 'file:///readme.md')).toBe('# Readme v2');
+      expect(await read(manager, 'note://a')).toBe('v1');
+
+      docs.sendResourceListChanged();
+      await flush();
+      expect(await read(manager, 'note://a')).toBe('v2');
+      expect(reads).toEqual(['file:///readme.md', 'note://a', 'file:///readme.md', 'note://a']);
+    });
+
+    it('should not cache contents of servers without subscriptions', async () => {
+      const manager = await initializeManager({ docs: () => createServer({ subscribe: false }) });
+
+      await read(manager, 'note://a');
+      await read(manager, 'note://a');
+
+      expect(reads).toEqual(['note://a', 'note://a']);
+    });
+
+    it('should not cache large contents', async () => {
+      const manager = await initializeManager({ docs: createServer });
+
+      await read(manager, 'note://large');
+      await read(manager, 'note://large');
+
+      expect(reads).toEqual(['note://large', 'note://large']);
+    });
+
+    it('should read contents again once they expire', async () => {
+      const manager = await initializeManager({ docs: createServer });
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await read(manager, 'note://a');
+      clock.mockReturnValue(now + 10 * 60 * 1000 - 1);
+      await read(manager, 'note://a');
+      clock.mockReturnValue(now + 10 * 60 * 1000);
+      await read(manager, 'note://a');
+
+      expect(reads).toEqual(['note://a', 'note://a']);
+    });
+
+    it('should evict the least recently read contents beyond the size limit', async () => {
+      const manager = await initializeManager({ docs: createServer });
+
+      for (let id = 0; id < 100; id++) {
+        await read(manager, `note://${id}`);
+      }
+      // Reading note 0 again makes note 1 the least recently read
+      await read(manager, 'note://0');
+      await read(manager, 'note://100');
+      reads = [];
+
+      await read(manager, 'note://0');
+      await read(manager, 'note://2');
+      await read(manager, 'note://1');
+
+      expect(reads).toEqual(['note://1']);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { logger } from '@librechat/data-schemas';
 import { CallToolResultSchema, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import type { OAuthClientInformation } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { DEFAULT_REQUEST_TIMEOUT_MSEC } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import type { TokenMethods } from '@librechat/data-schemas';
 import type { TUser } from 'librechat-data-provider';
@@ -12,6 +13,8 @@ import type * as t from './types';
 import { CONSTANTS, isSystemUserId } from './enum';
 import { MCPOAuthHandler } from './oauth/handler';
 import { MCPTokenStorage } from './oauth/tokens';
+import { requiresToolApproval, getToolRefusalResponse } from './approval';
+import { ToolCallTimeout, MAX_TIMER_DELAY } from './timeout';
 import { formatToolContent } from './parsers';
 import { MCPConnection } from './connection';
 import { processMCPEnv } from '~/utils/env';
@@ -28,6 +31,13 @@ export class MCPManager {
   private mcpConfigs: t.MCPServers = {};
   /** Store MCP server instructions */
   private serverInstructions: Map<string, string> = new Map();
+  /** Cached `resources/read` contents, keyed by `{userId}:{serverName}:{uri}`, least recently read first */
+  private resourceCache: Map<string, { contents: t.MCPResourceContents[]; expiresAt: number }> =
+    new Map();
+  private readonly RESOURCE_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+  private readonly RESOURCE_CACHE_MAX_ENTRIES = 100;
+  /** Contents with more characters of text or base64 blobs than this are not cached */
+  private readonly RESOURCE_CACHE_MAX_ENTRY_SIZE = 512 * 1024;
 
   public static getInstance(): MCPManager {
     if (!MCPManager.instance) {
@@ -117,6 +127,7 @@ export class MCPManager {
         }
 
         const connection = new MCPConnection(serverName, config, undefined, tokens);
+        this.setupResourceCacheListeners(connection);
 
         /** Listen for OAuth requirements */
         logger.info(`[MCP][${serverName}] Setting up OAuth event listener`);
@@ -496,6 +507,7 @@ export class MCPManager {
     }
 
     connection = new MCPConnection(serverName, config, userId, tokens);
+    this.setupResourceCacheListeners(connection, userId);
 
     connection.on('oauthRequired', async (data) => {
       logger.info(`[MCP][User: ${userId}][${serverName}] oauthRequired event received`);
@@ -595,6 +607,7 @@ export class MCPManager {
       }
     }
 
+    this.clearResourceCache(userId, serverName);
     logger.debug(`[MCP][User: ${userId}][${serverName}] Removed connection entry.`);
   }
 
@@ -807,6 +820,331 @@ export class MCPManager {
     return mcpTools;
   }
 
+  /**
+   * Resolves the connection used for a request: a user-specific connection when a user is
+   * provided, otherwise the app-level connection. Mirrors the selection logic of `callTool`.
+   */
+  private async getServerConnection({
+    user,
+    serverName,
+    flowManager,
+    tokenMethods,
+    customUserVars,
+    oauthStart,
+    oauthEnd,
+    signal,
+  }: {
+    user?: TUser;
+    serverName: string;
+    flowManager: FlowStateManager<MCPOAuthTokens | null>;
+    tokenMethods?: TokenMethods;
+    customUserVars?: Record<string, string>;
+    oauthStart?: (authURL: string) => Promise<void>;
+    oauthEnd?: () => Promise<void>;
+    signal?: AbortSignal;
+  }): Promise<MCPConnection> {
+    const userId = user?.id;
+    const logPrefix = userId ? `[MCP][User: ${userId}][${serverName}]` : `[MCP][${serverName}]`;
+
+    let connection: MCPConnection | undefined;
+    if (userId && user) {
+      this.updateUserLastActivity(userId);
+      connection = await this.getUserConnection({
+        user,
+        serverName,
+        flowManager,
+        tokenMethods,
+        customUserVars,
+        oauthStart,
+        oauthEnd,
+        signal,
+      });
+    } else {
+      connection = this.connections.get(serverName);
+      if (!connection) {
+        throw new McpError(ErrorCode.InvalidRequest, `${logPrefix} No app-level connection found.`);
+      }
+    }
+
+    if (!(await connection.isConnected())) {
+      throw new McpError(ErrorCode.InternalError, `${logPrefix} Connection is not active.`);
+    }
+
+    return connection;
+  }
+
+  /**
+   * Collects items from app-level connections and, if a user ID is provided, from that user's
+   * active connections. Servers without the given capability are skipped.
+   * @returns Object mapping server names to their (non-empty) item lists
+   */
+  private async aggregateServerItems<T>({
+    userId,
+    flowManager,
+    capability,
+    fetchItems,
+  }: {
+    userId?: string;
+    flowManager: FlowStateManager<MCPOAuthTokens | null>;
+    capability: 'prompts' | 'resources';
+    fetchItems: (connection: MCPConnection) => Promise<T[]>;
+  }): Promise<Record<string, T[]>> {
+    const serverItems: Record<string, T[]> = {};
+
+    const collectItems = async (serverName: string, connection: MCPConnection) => {
+      if (!connection.client.getServerCapabilities()?.[capability]) {
+        return;
+      }
+      const items = await fetchItems(connection);
+      if (items.length) {
+        serverItems[serverName] = items;
+      }
+    };
+
+    for (const [serverName, connection] of this.connections.entries()) {
+      try {
+        const isActive = await this.isConnectionActive({
+          serverName,
+          connection,
+          flowManager,
+          skipReconnect: true,
+        });
+        if (!isActive) {
+          logger.warn(`[MCP][${serverName}] Connection not available. Skipping ${capability}.`);
+          continue;
+        }
+        await collectItems(serverName, connection);
+      } catch (error) {
+        logger.warn(`[MCP][${serverName}] Error fetching ${capability}`, error);
+      }
+    }
+
+    const userServerMap = userId ? this.userConnections.get(userId) : undefined;
+    for (const [serverName, connection] of userServerMap?.entries() ?? []) {
+      if (serverItems[serverName]) {
+        continue;
+      }
+      try {
+        if (!(await connection.isConnected())) {
+          continue;
+        }
+        await collectItems(serverName, connection);
+      } catch (error) {
+        logger.warn(`[MCP][User: ${userId}][${serverName}] Error fetching ${capability}`, error);
+      }
+    }
+
+    return serverItems;
+  }
+
+  /**
+   * Aggregates prompts published by app-level connections and the user's active connections.
+   * @returns Object mapping server names to their prompts
+   */
+  public async getPrompts({
+    userId,
+    flowManager,
+  }: {
+    userId?: string;
+    flowManager: FlowStateManager<MCPOAuthTokens | null>;
+  }): Promise<Record<string, t.MCPPrompt[]>> {
+    return this.aggregateServerItems({
+      userId,
+      flowManager,
+      capability: 'prompts',
+      fetchItems: (connection) => connection.fetchPrompts(),
+    });
+  }
+
+  /**
+   * Aggregates resources published by app-level connections and the user's active connections.
+   * @returns Object mapping server names to their resources
+   */
+  public async getResources({
+    userId,
+    flowManager,
+  }: {
+    userId?: string;
+    flowManager: FlowStateManager<MCPOAuthTokens | null>;
+  }): Promise<Record<string, t.MCPResource[]>> {
+    return this.aggregateServerItems({
+      userId,
+      flowManager,
+      capability: 'resources',
+      fetchItems: (connection) => connection.fetchResources(),
+    });
+  }
+
+  /**
+   * Reads a server resource, using the same connection selection as tool calls.
+   * Contents are cached until the server sends `notifications/resources/updated` for the URI,
+   * `notifications/resources/list_changed`, the connection is removed, or the entry expires
+   * or is evicted as the least recently read one.
+   */
+  public async readResource({
+    user,
+    serverName,
+    uri,
+    flowManager,
+    tokenMethods,
+    customUserVars,
+    signal,
+  }: {
+    user?: TUser;
+    serverName: string;
+    uri: string;
+    flowManager: FlowStateManager<MCPOAuthTokens | null>;
+    tokenMethods?: TokenMethods;
+    customUserVars?: Record<string, string>;
+    signal?: AbortSignal;
+  }): Promise<t.MCPResourceContents[]> {
+    const userId = user?.id;
+    const logPrefix = userId ? `[MCP][User: ${userId}][${serverName}]` : `[MCP][${serverName}]`;
+    const cacheKey = this.getResourceCacheKey(userId ?? CONSTANTS.SYSTEM_USER_ID, serverName, uri);
+
+    const cached = this.getCachedResource(cacheKey);
+    if (cached) {
+      logger.debug(`${logPrefix} Using cached contents for resource ${uri}`);
+      return cached;
+    }
+
+    try {
+      const connection = await this.getServerConnection({
+        user,
+        serverName,
+        flowManager,
+        tokenMethods,
+        customUserVars,
+        signal,
+      });
+      const contents = await connection.readResource(uri);
+      /** Only cache when the server will notify us of changes */
+      if (this.isCacheableResource(contents) && (await connection.subscribeResource(uri))) {
+        this.cacheResource(cacheKey, contents);
+      }
+      if (userId) {
+        this.updateUserLastActivity(userId);
+      }
+      return contents;
+    } catch (error) {
+      logger.error(`${logPrefix} Failed to read resource ${uri}`, error);
+      throw error;
+    }
+  }
+
+  private getResourceCacheKey(userId: string, serverName: string, uri = ''): string {
+    return `${userId}:${serverName}:${uri}`;
+  }
+
+  /** Returns unexpired cached contents and marks them as the most recently read */
+  private getCachedResource(cacheKey: string): t.MCPResourceContents[] | undefined {
+    const entry = this.resourceCache.get(cacheKey);
+    if (!entry) {
+      return undefined;
+    }
+    this.resourceCache.delete(cacheKey);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.resourceCache.set(cacheKey, entry);
+    return entry.contents;
+  }
+
+  private isCacheableResource(contents: t.MCPResourceContents[]): boolean {
+    const size = contents.reduce((total, item) => {
+      const data = typeof item.text === 'string' ? item.text : item.blob;
+      return total + (typeof data === 'string' ? data.length : 0);
+    }, 0);
+    return size <= this.RESOURCE_CACHE_MAX_ENTRY_SIZE;
+  }
+
+  /** Caches contents, evicting the least recently read entries beyond the size limit */
+  private cacheResource(cacheKey: string, contents: t.MCPResourceContents[]): void {
+    this.resourceCache.delete(cacheKey);
+    this.resourceCache.set(cacheKey, { contents, expiresAt: Date.now() + this.RESOURCE_CACHE_TTL });
+    for (const key of this.resourceCache.keys()) {
+      if (this.resourceCache.size <= this.RESOURCE_CACHE_MAX_ENTRIES) {
+        break;
+      }
+      this.resourceCache.delete(key);
+    }
+  }
+
+  /** Removes cached resource contents for a server, or a single URI if provided */
+  private clearResourceCache(userId: string, serverName: string, uri?: string): void {
+    if (uri) {
+      this.resourceCache.delete(this.getResourceCacheKey(userId, serverName, uri));
+      return;
+    }
+    const prefix = this.getResourceCacheKey(userId, serverName);
+    for (const key of this.resourceCache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.resourceCache.delete(key);
+      }
+    }
+  }
+
+  /** Invalidates cached resource contents when the server reports changes */
+  private setupResourceCacheListeners(
+    connection: MCPConnection,
+    userId: string = CONSTANTS.SYSTEM_USER_ID,
+  ): void {
+    const { serverName } = connection;
+    connection.on('resourceUpdated', (uri: string) => {
+      logger.debug(`[MCP][${serverName}] Resource updated, invalidating cache: ${uri}`);
+      this.clearResourceCache(userId, serverName, uri);
+    });
+    connection.on('resourcesChanged', () => {
+      logger.debug(`[MCP][${serverName}] Resource list changed, invalidating cache`);
+      this.clearResourceCache(userId, serverName);
+    });
+  }
+
+  /**
+   * Renders a server prompt with the provided arguments via `prompts/get`,
+   * using the same connection selection as tool calls.
+   */
+  public async getPrompt({
+    user,
+    serverName,
+    promptName,
+    promptArgs,
+    flowManager,
+    tokenMethods,
+    customUserVars,
+    signal,
+  }: {
+    user?: TUser;
+    serverName: string;
+    promptName: string;
+    promptArgs?: Record<string, string>;
+    flowManager: FlowStateManager<MCPOAuthTokens | null>;
+    tokenMethods?: TokenMethods;
+    customUserVars?: Record<string, string>;
+    signal?: AbortSignal;
+  }): Promise<t.MCPPromptResult> {
+    const userId = user?.id;
+    const logPrefix = userId ? `[MCP][User: ${userId}][${serverName}]` : `[MCP][${serverName}]`;
+    try {
+      const connection = await this.getServerConnection({
+        user,
+        serverName,
+        flowManager,
+        tokenMethods,
+        customUserVars,
+        signal,
+      });
+      const result = await connection.getPrompt(promptName, promptArgs);
+      if (userId) {
+        this.updateUserLastActivity(userId);
+      }
+      return result;
+    } catch (error) {
+      logger.error(`${logPrefix}[${promptName}] Failed to get prompt`, error);
+      throw error;
+    }
+  }
+
   /**
    * Calls a tool on an MCP server, using either a user-specific connection
    * (if userId is provided) or an app-level connection. Updates the last activity timestamp
@@ -824,6 +1162,9 @@ export class MCPManager {
     oauthStart,
     oauthEnd,
     customUserVars,
+    samplingHandler,
+    elicitationHandler,
+    approvalHandler,
   }: {
     user?: TUser;
     serverName: string;
@@ -836,42 +1177,55 @@ export class MCPManager {
     flowManager: FlowStateManager<MCPOAuthTokens | null>;
     oauthStart?: (authURL: string) => Promise<void>;
     oauthEnd?: () => Promise<void>;
+    /** Serves `sampling/createMessage` requests the server sends during this call */
+    samplingHandler?: t.MCPSamplingHandler;
+    /** Collects answers to `elicitation/create` requests the server sends during this call */
+    elicitationHandler?: t.MCPElicitationHandler;
+    /** Asks the user to approve the call when the server's `requireApproval` option matches the tool */
+    approvalHandler?: t.MCPToolApprovalHandler;
   }): Promise<t.FormattedToolResponse> {
-    /** User-specific connection */
-    let connection: MCPConnection | undefined;
     const userId = user?.id;
     const logPrefix = userId ? `[MCP][User: ${userId}][${serverName}]` : `[MCP][${serverName}]`;
+    let removeSamplingHandler: (() => void) | undefined;
+    let removeElicitationHandler: (() => void) | undefined;
+    let callTimeout: ToolCallTimeout | undefined;
 
     try {
-      if (userId && user) {
-        this.updateUserLastActivity(userId);
-        /** Get or create user-specific connection */
-        connection = await this.getUserConnection({
-          user,
-          serverName,
-          flowManager,
-          tokenMethods,
-          oauthStart,
-          oauthEnd,
-          signal: options?.signal,
-          customUserVars,
-        });
-      } else {
-        /** App-level connection */
-        connection = this.connections.get(serverName);
-        if (!connection) {
-          throw new McpError(
-            ErrorCode.InvalidRequest,
-            `${logPrefix} No app-level connection found. Cannot execute tool ${toolName}.`,
-          );
+      if (requiresToolApproval(this.mcpConfigs[serverName]?.requireApproval, toolName)) {
+        const approved =
+          (await approvalHandler?.({ serverName, toolName, toolArguments })) ?? false;
+        if (!approved) {
+          logger.info(`${logPrefix}[${toolName}] Tool call declined`);
+          return formatToolContent(getToolRefusalResponse(serverName, toolName), provider);
         }
+        logger.info(`${logPrefix}[${toolName}] Tool call approved`);
       }
 
-      if (!(await connection.isConnected())) {
-        /** May happen if getUserConnection failed silently or app connection dropped */
-        throw new McpError(
-          ErrorCode.InternalError, // Use InternalError for connection issues
-          `${logPrefix} Connection is not active. Cannot execute tool ${toolName}.`,
+      const connection = await this.getServerConnection({
+        user,
+        serverName,
+        flowManager,
+        tokenMethods,
+        customUserVars,
+        oauthStart,
+        oauthEnd,
+        signal: options?.signal,
+      });
+
+      /** Sampling and elicitation wait on the user, so the call timeout is suspended meanwhile */
+      callTimeout = new ToolCallTimeout(
+        options?.timeout ?? connection.timeout ?? DEFAULT_REQUEST_TIMEOUT_MSEC,
+        options?.signal,
+      );
+      const timeout = callTimeout;
+      if (samplingHandler) {
+        removeSamplingHandler = connection.addSamplingHandler((request) =>
+          timeout.suspendWhile(() => samplingHandler(request)),
+        );
+      }
+      if (elicitationHandler) {
+        removeElicitationHandler = connection.addElicitationHandler((request) =>
+          timeout.suspendWhile(() => elicitationHandler(request)),
         );
       }
 
@@ -885,8 +1239,10 @@ export class MCPManager {
         },
         CallToolResultSchema,
         {
-          timeout: connection.timeout,
           ...options,
+          // `callTimeout` enforces the timeout through the signal
+          timeout: MAX_TIMER_DELAY,
+          signal: timeout.signal,
         },
       );
       if (userId) {
@@ -899,6 +1255,10 @@ export class MCPManager {
       logger.error(`${logPrefix}[${toolName}] Tool call failed`, error);
       // Rethrowing allows the caller (createMCPTool) to handle the final user message
       throw error;
+    } finally {
+      callTimeout?.clear();
+      removeSamplingHandler?.();
+      removeElicitationHandler?.();
     }
   }
 
@@ -909,6 +1269,7 @@ export class MCPManager {
       logger.info(`[MCP][${serverName}] Disconnecting...`);
       await connection.disconnect();
       this.connections.delete(serverName);
+      this.clearResourceCache(CONSTANTS.SYSTEM_USER_ID, serverName);
     }
   }
 
@@ -930,6 +1291,7 @@ export class MCPManager {
     );
     await Promise.allSettled(appDisconnectPromises);
     this.connections.clear();
+    this.resourceCache.clear();
 
     logger.info('[MCP] All connections processed for disconnection.');
   }
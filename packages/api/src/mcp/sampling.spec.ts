@@ -0,0 +1,101 @@
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  isSamplingEnabled,
+  getSamplingPreview,
+  getSamplingMaxTokens,
+  assertSamplingAllowed,
+  formatSamplingMessages,
+} from './sampling';
+
+describe('isSamplingEnabled', () => {
+  it('should only enable sampling when a sampling block is configured', () => {
+    expect(isSamplingEnabled(undefined)).toBe(false);
+    expect(isSamplingEnabled({})).toBe(true);
+    expect(isSamplingEnabled({ enabled: false, maxTokens: 100 })).toBe(false);
+  });
+});
+
+describe('getSamplingMaxTokens', () => {
+  it('should cap the requested tokens at the configured limit', () => {
+    expect(getSamplingMaxTokens(4000, 1000)).toBe(1000);
+    expect(getSamplingMaxTokens(500, 1000)).toBe(500);
+    expect(getSamplingMaxTokens(4000)).toBe(4000);
+  });
+});
+
+describe('assertSamplingAllowed', () => {
+  const options = { allowedEndpoints: ['openAI'], allowedModels: ['gpt-4o-mini'] };
+
+  it('should allow endpoints and models in the allow-lists', () => {
+    expect(() =>
+      assertSamplingAllowed({
+        serverName: 'test',
+        options,
+        endpoint: 'openAI',
+        model: 'gpt-4o-mini',
+      }),
+    ).not.toThrow();
+  });
+
+  it('should reject endpoints and models outside the allow-lists', () => {
+    expect(() =>
+      assertSamplingAllowed({ serverName: 'test', options, endpoint: 'anthropic', model: 'x' }),
+    ).toThrow(McpError);
+    expect(() =>
+      assertSamplingAllowed({ serverName: 'test', options, endpoint: 'openAI', model: 'gpt-4o' }),
+    ).toThrow(/not allowed/);
+  });
+
+  it('should allow anything when no allow-lists are configured', () => {
+    expect(() => assertSamplingAllowed({ serverName: 'test', options: {} })).not.toThrow();
+  });
+});
+
+describe('formatSamplingMessages', () => {
+  it('should convert text and image content into LangChain messages', () => {
+    const messages = formatSamplingMessages([
+      { role: 'user', content: { type: 'text', text: 'Describe this' } },
+      { role: 'user', content: { type: 'image', data: 'abc', mimeType: 'image/png' } },
+      { role: 'assistant', content: { type: 'text', text: 'Sure' } },
+    ]);
+
+    expect(messages[0]).toBeInstanceOf(HumanMessage);
+    expect(messages[0].content).toBe('Describe this');
+    expect(messages[1].content).toEqual([
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,abc' } },
+    ]);
+    expect(messages[2]).toBeInstanceOf(AIMessage);
+  });
+
+  it('should reject audio content', () => {
+    expect(() =>
+      formatSamplingMessages([
+        { role: 'user', content: { type: 'audio', data: 'abc', mimeType: 'audio/wav' } },
+      ]),
+    ).toThrow(McpError);
+  });
+});
+
+describe('getSamplingPreview', () => {
+  it('should summarize non-text content', () => {
+    const preview = getSamplingPreview({
+      flowId: 'flow',
+      serverName: 'test',
+      model: 'gpt-4o-mini',
+      params: {
+        maxTokens: 100,
+        messages: [
+          { role: 'user', content: { type: 'text', text: 'Hello' } },
+          { role: 'user', content: { type: 'image', data: 'abc', mimeType: 'image/png' } },
+        ],
+      },
+    });
+
+    expect(preview.messages).toEqual([
+      { role: 'user', text: 'Hello' },
+      { role: 'user', text: '[image]' },
+    ]);
+    expect(preview.maxTokens).toBe(100);
+  });
+});
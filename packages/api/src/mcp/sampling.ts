@@ -0,0 +1,200 @@
+import { logger } from '@librechat/data-schemas';
+import { GraphEvents, Providers } from '@librechat/agents';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { EventHandler, GenericTool, ModelEndData } from '@librechat/agents';
+import type { BaseMessage, UsageMetadata } from '@langchain/core/messages';
+import type { Agent, MCPSamplingOptions, TMCPSamplingRequest } from 'librechat-data-provider';
+import type * as t from './types';
+import { createRun } from '~/agents/run';
+
+type SamplingMessage = t.MCPSamplingParams['messages'][number];
+
+/** Returned to the server when the user declines a sampling request (code -1 per the MCP spec) */
+export class SamplingRejectedError extends McpError {
+  constructor() {
+    super(-1, 'User rejected the sampling request');
+    this.name = 'SamplingRejectedError';
+  }
+}
+
+/** Sampling is opt-in: servers only get the capability when their config has a `sampling` block */
+export function isSamplingEnabled(options?: MCPSamplingOptions): options is MCPSamplingOptions {
+  return options != null && options.enabled !== false;
+}
+
+/** Applies the configured cap to the `maxTokens` requested by the server */
+export function getSamplingMaxTokens(requested: number, cap?: number): number {
+  if (cap == null) {
+    return requested;
+  }
+  return Math.min(requested, cap);
+}
+
+/**
+ * Ensures the endpoint and model the completion would run on are allowed for the server.
+ * @throws {McpError} When the endpoint or model is not in the server's allow-list
+ */
+export function assertSamplingAllowed({
+  serverName,
+  options,
+  endpoint,
+  model,
+}: {
+  serverName: string;
+  options: MCPSamplingOptions;
+  endpoint?: string | null;
+  model?: string | null;
+}): void {
+  const { allowedEndpoints, allowedModels } = options;
+  if (allowedEndpoints?.length && (!endpoint || !allowedEndpoints.includes(endpoint))) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Sampling through endpoint "${endpoint ?? 'unknown'}" is not allowed for server "${serverName}"`,
+    );
+  }
+  if (allowedModels?.length && (!model || !allowedModels.includes(model))) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Sampling with model "${model ?? 'unknown'}" is not allowed for server "${serverName}"`,
+    );
+  }
+}
+
+/** Converts MCP sampling messages into LangChain messages */
+export function formatSamplingMessages(messages: SamplingMessage[]): BaseMessage[] {
+  return messages.map(({ role, content }) => {
+    if (content.type === 'audio') {
+      throw new McpError(ErrorCode.InvalidParams, 'Audio content is not supported for sampling');
+    }
+
+    if (content.type === 'image') {
+      const imageContent = [
+        {
+          type: 'image_url' as const,
+          image_url: { url: `data:${content.mimeType};base64,${content.data}` },
+        },
+      ];
+      return role === 'assistant'
+        ? new AIMessage({ content: imageContent })
+        : new HumanMessage({ content: imageContent });
+    }
+
+    return role === 'assistant' ? new AIMessage(content.text) : new HumanMessage(content.text);
+  });
+}
+
+/** Builds the preview shown to the user when a sampling request requires approval */
+export function getSamplingPreview({
+  flowId,
+  serverName,
+  model,
+  params,
+}: {
+  flowId: string;
+  serverName: string;
+  model?: string;
+  params: t.MCPSamplingParams;
+}): TMCPSamplingRequest {
+  return {
+    flowId,
+    serverName,
+    model,
+    maxTokens: params.maxTokens,
+    systemPrompt: params.systemPrompt,
+    messages: params.messages.map(({ role, content }) => ({
+      role,
+      text: content.type === 'text' ? content.text : `[${content.type}]`,
+    })),
+  };
+}
+
+/** Extracts the text of the final AI message produced by the run */
+function getCompletionText(messages?: BaseMessage[]): string {
+  const lastMessage = messages?.[messages.length - 1];
+  if (!lastMessage) {
+    return '';
+  }
+  if (typeof lastMessage.content === 'string') {
+    return lastMessage.content;
+  }
+  return lastMessage.content
+    .map((part) => (part.type === 'text' && 'text' in part ? part.text : ''))
+    .join('');
+}
+
+/**
+ * Fulfills a `sampling/createMessage` request with the agent's current endpoint and model,
+ * using a tool-less run. Usage is returned so the caller can record transactions.
+ */
+export async function processSamplingRequest({
+  agent,
+  params,
+  signal,
+  runId,
+}: {
+  agent: Omit<Agent, 'tools'>;
+  params: t.MCPSamplingParams;
+  signal: AbortSignal;
+  runId?: string;
+}): Promise<{ result: t.MCPSamplingResult; collectedUsage: UsageMetadata[] }> {
+  const isGoogle = agent.provider === Providers.GOOGLE || agent.provider === Providers.VERTEXAI;
+  const model_parameters = Object.assign({}, agent.model_parameters, {
+    [isGoogle ? 'maxOutputTokens' : 'maxTokens']: params.maxTokens,
+    ...(params.temperature != null ? { temperature: params.temperature } : {}),
+    ...(params.stopSequences?.length ? { stop: params.stopSequences } : {}),
+  });
+
+  const collectedUsage: UsageMetadata[] = [];
+  const usageHandler: EventHandler = {
+    handle: (_event, data) => {
+      const usage = (data as ModelEndData)?.output?.usage_metadata;
+      if (usage) {
+        collectedUsage.push(usage);
+      }
+    },
+  };
+
+  const run = await createRun({
+    runId,
+    signal,
+    agent: {
+      ...agent,
+      model_parameters,
+      tools: [] as GenericTool[],
+      instructions: params.systemPrompt ?? null,
+      additional_instructions: null,
+    },
+    streaming: false,
+    customHandlers: {
+      [GraphEvents.CHAT_MODEL_END]: usageHandler,
+    } as Record<GraphEvents, EventHandler>,
+  });
+
+  await run.processStream(
+    { messages: formatSamplingMessages(params.messages) },
+    {
+      runName: 'MCPSampling',
+      configurable: {
+        provider: run.provider,
+        thread_id: runId,
+      },
+      signal,
+      version: 'v2',
+    },
+  );
+
+  const text = getCompletionText(run.getRunMessages());
+  const model = agent.model_parameters?.model ?? agent.model ?? 'unknown';
+  logger.debug(`[MCP][sampling] Completed sampling request with model ${model}`);
+
+  return {
+    result: {
+      role: 'assistant',
+      model,
+      stopReason: 'endTurn',
+      content: { type: 'text', text },
+    },
+    collectedUsage,
+  };
+}
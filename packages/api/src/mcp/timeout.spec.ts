@@ -0,0 +1,94 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ToolCallTimeout } from './timeout';
+
+describe('ToolCallTimeout', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should abort with a request timeout once the time is up', () => {
+    const timeout = new ToolCallTimeout(1000);
+
+    jest.advanceTimersByTime(999);
+    expect(timeout.signal.aborted).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(timeout.signal.aborted).toBe(true);
+    expect(timeout.signal.reason).toBeInstanceOf(McpError);
+    expect((timeout.signal.reason as McpError).code).toBe(ErrorCode.RequestTimeout);
+  });
+
+  it('should not count the time spent in user flows', async () => {
+    const timeout = new ToolCallTimeout(1000);
+    jest.advanceTimersByTime(600);
+
+    let answer: (value: string) => void = () => undefined;
+    const flow = timeout.suspendWhile(() => new Promise<string>((resolve) => (answer = resolve)));
+    jest.advanceTimersByTime(3 * 60 * 1000);
+    expect(timeout.signal.aborted).toBe(false);
+
+    answer('accept');
+    await expect(flow).resolves.toBe('accept');
+
+    jest.advanceTimersByTime(399);
+    expect(timeout.signal.aborted).toBe(false);
+    jest.advanceTimersByTime(1);
+    expect(timeout.signal.aborted).toBe(true);
+  });
+
+  it('should stay suspended until overlapping flows have all settled', async () => {
+    const timeout = new ToolCallTimeout(1000);
+    let finishFirst: () => void = () => undefined;
+    let finishSecond: () => void = () => undefined;
+    const first = timeout.suspendWhile(
+      () => new Promise<void>((resolve) => (finishFirst = resolve)),
+    );
+    const second = timeout.suspendWhile(
+      () => new Promise<void>((resolve) => (finishSecond = resolve)),
+    );
+
+    finishFirst();
+    await first;
+    jest.advanceTimersByTime(5000);
+    expect(timeout.signal.aborted).toBe(false);
+
+    finishSecond();
+    await second;
+    jest.advanceTimersByTime(1000);
+    expect(timeout.signal.aborted).toBe(true);
+  });
+
+  it('should resume the timeout when a flow fails', async () => {
+    const timeout = new ToolCallTimeout(1000);
+
+    await expect(timeout.suspendWhile(() => Promise.reject(new Error('declined')))).rejects.toThrow(
+      'declined',
+    );
+
+    jest.advanceTimersByTime(1000);
+    expect(timeout.signal.aborted).toBe(true);
+  });
+
+  it('should forward aborts of the caller signal', () => {
+    const controller = new AbortController();
+    const timeout = new ToolCallTimeout(1000, controller.signal);
+
+    controller.abort('cancelled');
+    expect(timeout.signal.aborted).toBe(true);
+    expect(timeout.signal.reason).toBe('cancelled');
+  });
+
+  it('should never fire after being cleared', async () => {
+    const timeout = new ToolCallTimeout(1000);
+    const flow = timeout.suspendWhile(() => Promise.resolve());
+    timeout.clear();
+    await flow;
+
+    jest.advanceTimersByTime(5000);
+    expect(timeout.signal.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+/** Largest delay `setTimeout` accepts; longer delays fire immediately */
+export const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Timeout of a tool call that stops counting while the server waits on the user.
+ * Elicitation forms and sampling approvals can stay open for minutes, far longer than
+ * the request timeout, so the call would otherwise be cancelled while the user answers.
+ */
+export class ToolCallTimeout {
+  private readonly controller = new AbortController();
+  private timer: NodeJS.Timeout | undefined;
+  private remaining: number;
+  private startedAt = 0;
+  /** Number of user flows in progress; the timeout runs again once all of them settle */
+  private pending = 0;
+  private cleared = false;
+
+  constructor(
+    private readonly timeout: number,
+    signal?: AbortSignal,
+  ) {
+    this.remaining = timeout;
+    if (signal?.aborted) {
+      this.controller.abort(signal.reason);
+      return;
+    }
+    signal?.addEventListener('abort', () => this.abort(signal.reason), { once: true });
+    this.start();
+  }
+
+  /** Aborted when the timeout expires or the caller's signal aborts */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** Runs a user flow with the timeout suspended */
+  async suspendWhile<T>(flow: () => Promise<T>): Promise<T> {
+    if (this.pending++ === 0) {
+      this.stop();
+    }
+    try {
+      return await flow();
+    } finally {
+      if (--this.pending === 0) {
+        this.start();
+      }
+    }
+  }
+
+  /** Stops the timer once the call has settled */
+  clear(): void {
+    this.cleared = true;
+    this.stop();
+  }
+
+  private start(): void {
+    if (this.cleared || this.controller.signal.aborted) {
+      return;
+    }
+    this.startedAt = Date.now();
+    this.timer = setTimeout(
+      () =>
+        this.abort(
+          new McpError(ErrorCode.RequestTimeout, 'Request timed out', { timeout: this.timeout }),
+        ),
+      Math.min(this.remaining, MAX_TIMER_DELAY),
+    );
+  }
+
+  private stop(): void {
+    if (!this.timer) {
+      return;
+    }
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.remaining = Math.max(0, this.remaining - (Date.now() - this.startedAt));
+  }
+
+  private abort(reason: unknown): void {
+    this.stop();
+    this.controller.abort(reason);
+  }
+}
@@ -8,7 +8,7 @@ import {
   StreamableHTTPOptionsSchema,
 } from 'librechat-data-provider';
 import type * as t from '@modelcontextprotocol/sdk/types.js';
-import type { TPlugin } from 'librechat-data-provider';
+import type { TPlugin, MCPSamplingOptions } from 'librechat-data-provider';
 import type { JsonSchemaType } from '~/types/zod';
 
 export type StdioOptions = z.infer<typeof StdioOptionsSchema>;
@@ -31,6 +31,7 @@ export interface MCPResource {
   description?: string;
   mimeType?: string;
 }
+export type MCPResourceContents = z.infer<typeof t.ReadResourceResultSchema>['contents'][number];
 export interface LCTool {
   name: string;
   description?: string;
@@ -45,11 +46,46 @@ export interface LCFunctionTool {
 export type LCAvailableTools = Record<string, LCFunctionTool>;
 export type LCManifestTool = TPlugin;
 export type LCToolManifest = TPlugin[];
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
 export interface MCPPrompt {
   name: string;
   description?: string;
-  arguments?: Array<{ name: string }>;
+  arguments?: MCPPromptArgument[];
+}
+export type MCPPromptMessage = z.infer<typeof t.PromptMessageSchema>;
+export type MCPPromptResult = z.infer<typeof t.GetPromptResultSchema>;
+export type MCPSamplingParams = z.infer<typeof t.CreateMessageRequestSchema>['params'];
+export type MCPSamplingResult = z.infer<typeof t.CreateMessageResultSchema>;
+export interface MCPSamplingRequest {
+  serverName: string;
+  params: MCPSamplingParams;
+  options: MCPSamplingOptions;
+  signal: AbortSignal;
+}
+/** Host-provided handler that fulfills `sampling/createMessage` requests */
+export type MCPSamplingHandler = (request: MCPSamplingRequest) => Promise<MCPSamplingResult>;
+export type MCPElicitationParams = z.infer<typeof t.ElicitRequestSchema>['params'];
+export type MCPElicitationResult = z.infer<typeof t.ElicitResultSchema>;
+export interface MCPElicitationRequest {
+  serverName: string;
+  params: MCPElicitationParams;
+  signal: AbortSignal;
+}
+export interface MCPToolApprovalRequest {
+  serverName: string;
+  toolName: string;
+  toolArguments?: Record<string, unknown>;
 }
+/** Host-provided handler that asks the user to approve a tool call; resolves `true` to proceed */
+export type MCPToolApprovalHandler = (request: MCPToolApprovalRequest) => Promise<boolean>;
+/** Host-provided handler that collects the user's answer to `elicitation/create` requests */
+export type MCPElicitationHandler = (
+  request: MCPElicitationRequest,
+) => Promise<MCPElicitationResult>;
 
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
 
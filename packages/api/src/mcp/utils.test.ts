@@ -1,4 +1,4 @@
-import { normalizeServerName } from './utils';
+import { normalizeServerName, formatPromptMessages } from './utils';
 
 describe('normalizeServerName', () => {
   it('should not modify server names that already match the pattern', () => {
@@ -26,3 +26,27 @@ describe('normalizeServerName', () => {
     expect(result).toMatch(/^[a-zA-Z0-9_.-]+$/);
   });
 });
+
+describe('formatPromptMessages', () => {
+  it('should join text and embedded text resources', () => {
+    const result = formatPromptMessages([
+      { role: 'user', content: { type: 'text', text: 'Review this file' } },
+      {
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: { uri: 'file:///a.ts', mimeType: 'text/plain', text: 'const a = 1;' },
+        },
+      },
+    ]);
+    expect(result).toBe('Review this file\n\nconst a = 1;');
+  });
+
+  it('should skip binary content', () => {
+    const result = formatPromptMessages([
+      { role: 'user', content: { type: 'image', data: 'AAAA', mimeType: 'image/png' } },
+      { role: 'assistant', content: { type: 'text', text: 'Described above' } },
+    ]);
+    expect(result).toBe('Described above');
+  });
+});
@@ -1,4 +1,5 @@
 import { Constants } from 'librechat-data-provider';
+import type { MCPPromptMessage } from './types';
 
 export const mcpToolPattern = new RegExp(`^.+${Constants.mcp_delimiter}.+$`);
 /**
@@ -31,3 +32,22 @@ export function normalizeServerName(serverName: string): string {
 
   return normalized;
 }
+
+/**
+ * Flattens rendered prompt messages (`prompts/get`) into plain text for the chat input.
+ * Text content and embedded text resources are kept; binary content is skipped.
+ */
+export function formatPromptMessages(messages: MCPPromptMessage[]): string {
+  return messages
+    .map(({ content }) => {
+      if (content.type === 'text') {
+        return content.text;
+      }
+      if (content.type === 'resource' && 'text' in content.resource) {
+        return content.resource.text;
+      }
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
@@ -293,3 +293,18 @@ export const verifyTwoFactorTemp = () => '/api/auth/2fa/verify-temp';
 export const memories = () => '/api/memories';
 export const memory = (key: string) => `${memories()}/${encodeURIComponent(key)}`;
 export const memoryPreferences = () => `${memories()}/preferences`;
+
+/* MCP */
+export const mcp = () => '/api/mcp';
+export const mcpPrompts = () => `${mcp()}/prompts`;
+export const mcpPrompt = (serverName: string, promptName: string) =>
+  `${mcp()}/${encodeURIComponent(serverName)}/prompts/${encodeURIComponent(promptName)}`;
+export const mcpResources = () => `${mcp()}/resources`;
+export const mcpReadResource = (serverName: string, uri: string) =>
+  `${mcp()}/${encodeURIComponent(serverName)}/resources/read?uri=${encodeURIComponent(uri)}`;
+export const mcpSamplingApproval = (flowId: string) =>
+  `${mcp()}/sampling/${encodeURIComponent(flowId)}`;
+export const mcpElicitation = (flowId: string) =>
+  `${mcp()}/elicitation/${encodeURIComponent(flowId)}`;
+export const mcpToolApproval = (flowId: string) =>
+  `${mcp()}/approval/${encodeURIComponent(flowId)}`;
@@ -10,6 +10,7 @@ import * as config from './config';
 import request from './request';
 import * as s from './schemas';
 import * as r from './roles';
+import type * as mcp from './mcp';
 
 export function revokeUserKey(name: string): Promise<unknown> {
   return request.delete(endpoints.revokeUserKey(name));
@@ -836,3 +837,49 @@ export const createMemory = (data: {
 }): Promise<{ created: boolean; memory: q.TUserMemory }> => {
   return request.post(endpoints.memories(), data);
 };
+
+/* MCP */
+export const getMCPPrompts = (): Promise<mcp.TMCPPromptsResponse> => {
+  return request.get(endpoints.mcpPrompts());
+};
+
+export const getMCPPrompt = ({
+  serverName,
+  promptName,
+  args,
+}: mcp.TMCPGetPromptRequest): Promise<mcp.TMCPGetPromptResponse> => {
+  return request.post(endpoints.mcpPrompt(serverName, promptName), { args });
+};
+
+export const getMCPResources = (): Promise<mcp.TMCPResourcesResponse> => {
+  return request.get(endpoints.mcpResources());
+};
+
+export const readMCPResource = ({
+  serverName,
+  uri,
+}: mcp.TMCPReadResourceRequest): Promise<mcp.TMCPReadResourceResponse> => {
+  return request.get(endpoints.mcpReadResource(serverName, uri));
+};
+
+export const respondToMCPSampling = ({
+  flowId,
+  approved,
+}: mcp.TMCPSamplingApprovalRequest): Promise<{ success: boolean }> => {
+  return request.post(endpoints.mcpSamplingApproval(flowId), { approved });
+};
+
+export const respondToMCPElicitation = ({
+  flowId,
+  action,
+  content,
+}: mcp.TMCPElicitationResponse): Promise<{ success: boolean }> => {
+  return request.post(endpoints.mcpElicitation(flowId), { action, content });
+};
+
+export const respondToMCPToolApproval = ({
+  flowId,
+  approved,
+}: mcp.TMCPToolApprovalResponse): Promise<{ success: boolean }> => {
+  return request.post(endpoints.mcpToolApproval(flowId), { approved });
+};
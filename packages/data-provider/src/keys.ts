@@ -48,6 +48,9 @@ export enum QueryKeys {
   banner = 'banner',
   /* Memories */
   memories = 'memories',
+  /* MCP */
+  mcpPrompts = 'mcpPrompts',
+  mcpResources = 'mcpResources',
 }
 
 // Dynamic query keys that require parameters
@@ -78,4 +81,9 @@ export enum MutationKeys {
   enableTwoFactor = 'enableTwoFactor',
   verifyTwoFactor = 'verifyTwoFactor',
   updateMemoryPreferences = 'updateMemoryPreferences',
+  getMCPPrompt = 'getMCPPrompt',
+  readMCPResource = 'readMCPResource',
+  respondToMCPSampling = 'respondToMCPSampling',
+  respondToMCPElicitation = 'respondToMCPElicitation',
+  respondToMCPToolApproval = 'respondToMCPToolApproval',
 }
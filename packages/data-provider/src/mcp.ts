@@ -2,6 +2,23 @@ import { z } from 'zod';
 import { TokenExchangeMethodEnum } from './types/agents';
 import { extractEnvVariable } from './utils';
 
+/**
+ * Controls MCP sampling (`sampling/createMessage`), which lets a server request
+ * LLM completions through the user's current endpoint/model.
+ * Sampling is only offered to the server when this block is present and `enabled` is not `false`.
+ */
+export const MCPSamplingOptionsSchema = z.object({
+  enabled: z.boolean().optional(),
+  /** Endpoints the server may sample through; any endpoint when omitted */
+  allowedEndpoints: z.array(z.string()).optional(),
+  /** Models the server may sample with; any model when omitted */
+  allowedModels: z.array(z.string()).optional(),
+  /** Upper bound for `maxTokens` of a single sampling request */
+  maxTokens: z.number().int().positive().optional(),
+  /** Requires the user to approve each sampling request from the chat */
+  requireApproval: z.boolean().optional(),
+});
+
 const BaseOptionsSchema = z.object({
   iconPath: z.string().optional(),
   timeout: z.number().optional(),
@@ -38,6 +55,13 @@ const BaseOptionsSchema = z.object({
       token_exchange_method: z.nativeEnum(TokenExchangeMethodEnum).optional(),
     })
     .optional(),
+  sampling: MCPSamplingOptionsSchema.optional(),
+  /**
+   * Requires the user to approve tool calls before they run:
+   * - `true`: every tool of the server
+   * - string[]: tool names or glob patterns (e.g. `delete_*`)
+   */
+  requireApproval: z.union([z.boolean(), z.array(z.string())]).optional(),
   customUserVars: z
     .record(
       z.string(),
@@ -152,3 +176,139 @@ export const MCPOptionsSchema = z.union([
 export const MCPServersSchema = z.record(z.string(), MCPOptionsSchema);
 
 export type MCPOptions = z.infer<typeof MCPOptionsSchema>;
+export type MCPSamplingOptions = z.infer<typeof MCPSamplingOptionsSchema>;
+
+export type TMCPPromptArgument = {
+  name: string;
+  description?: string;
+  required?: boolean;
+};
+
+export type TMCPPrompt = {
+  name: string;
+  description?: string;
+  arguments?: TMCPPromptArgument[];
+};
+
+/** Prompts grouped by MCP server name */
+export type TMCPPromptsResponse = Record<string, TMCPPrompt[]>;
+
+export type TMCPPromptMessage = {
+  role: 'user' | 'assistant';
+  content:
+    | { type: 'text'; text: string }
+    | { type: 'image' | 'audio'; data: string; mimeType: string }
+    | {
+        type: 'resource';
+        resource: { uri: string; mimeType?: string; text?: string; blob?: string };
+      };
+};
+
+export type TMCPGetPromptRequest = {
+  serverName: string;
+  promptName: string;
+  args?: Record<string, string>;
+};
+
+export type TMCPGetPromptResponse = {
+  description?: string;
+  messages: TMCPPromptMessage[];
+  /** Text content of the rendered messages, ready to insert into the chat input */
+  text: string;
+};
+
+export type TMCPResource = {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+};
+
+/** Resources grouped by MCP server name */
+export type TMCPResourcesResponse = Record<string, TMCPResource[]>;
+
+export type TMCPResourceContents = {
+  uri: string;
+  mimeType?: string;
+  /** Present for text resources */
+  text?: string;
+  /** Base64-encoded data, present for binary resources */
+  blob?: string;
+};
+
+export type TMCPReadResourceRequest = {
+  serverName: string;
+  uri: string;
+};
+
+export type TMCPReadResourceResponse = {
+  contents: TMCPResourceContents[];
+};
+
+/** Sampling request awaiting the user's approval, streamed with the tool call */
+export type TMCPSamplingRequest = {
+  flowId: string;
+  serverName: string;
+  /** Model the completion will be generated with */
+  model?: string;
+  maxTokens: number;
+  systemPrompt?: string;
+  /** Text preview of the messages the server wants completed */
+  messages: Array<{ role: 'user' | 'assistant'; text: string }>;
+};
+
+export type TMCPSamplingApprovalRequest = {
+  flowId: string;
+  approved: boolean;
+};
+
+/** Primitive field requested by an MCP server through elicitation */
+export type TMCPElicitationField = {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  title?: string;
+  description?: string;
+  enum?: string[];
+  enumNames?: string[];
+  format?: 'email' | 'uri' | 'date' | 'date-time';
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  default?: string | number | boolean;
+};
+
+export type TMCPElicitationSchema = {
+  type: 'object';
+  properties: Record<string, TMCPElicitationField>;
+  required?: string[];
+};
+
+/** Elicitation request awaiting the user's answer, streamed with the tool call */
+export type TMCPElicitationRequest = {
+  flowId: string;
+  serverName: string;
+  message: string;
+  requestedSchema: TMCPElicitationSchema;
+};
+
+export type TMCPElicitationContent = Record<string, string | number | boolean>;
+
+export type TMCPElicitationResponse = {
+  flowId: string;
+  action: 'accept' | 'decline' | 'cancel';
+  content?: TMCPElicitationContent;
+};
+
+/** Tool call awaiting the user's approval, streamed with the tool call */
+export type TMCPToolApproval = {
+  flowId: string;
+  serverName: string;
+  toolName: string;
+  /** Arguments the model provided for the tool */
+  args?: Record<string, unknown>;
+};
+
+export type TMCPToolApprovalResponse = {
+  flowId: string;
+  approved: boolean;
+};
@@ -2,6 +2,7 @@
 import { StepTypes, ContentTypes, ToolCallTypes } from './runs';
 import type { TAttachment, TPlugin } from 'src/schemas';
 import type { FunctionToolCall } from './assistants';
+import type { TMCPToolApproval, TMCPSamplingRequest, TMCPElicitationRequest } from 'src/mcp';
 
 export namespace Agents {
   export type MessageType = 'human' | 'ai' | 'generic' | 'system' | 'function' | 'tool' | 'remove';
@@ -66,6 +67,12 @@ export namespace Agents {
     auth?: string;
     /** Expiration time */
     expires_at?: number;
+    /** MCP sampling request awaiting approval */
+    sampling?: TMCPSamplingRequest;
+    /** MCP elicitation request awaiting the user's answer */
+    elicitation?: TMCPElicitationRequest;
+    /** MCP tool call awaiting the user's approval */
+    approval?: TMCPToolApproval;
   };
 
   export type ToolEndEvent = {
@@ -201,6 +208,9 @@ export namespace Agents {
     tool_calls?: ToolCallChunk[];
     auth?: string;
     expires_at?: number;
+    sampling?: TMCPSamplingRequest;
+    elicitation?: TMCPElicitationRequest;
+    approval?: TMCPToolApproval;
   };
   export type AgentToolCall = FunctionToolCall | ToolCall;
   export interface ExtendedMessageContent {
@@ -3,6 +3,7 @@ import type { AssistantsEndpoint, AgentProvider } from 'src/schemas';
 import type { ContentTypes } from './runs';
 import type { Agents } from './agents';
 import type { TFile } from './files';
+import type { TMCPToolApproval, TMCPSamplingRequest, TMCPElicitationRequest } from 'src/mcp';
 import { ArtifactModes } from 'src/artifacts';
 
 export type Schema = OpenAPIV3.SchemaObject & { description?: string };
@@ -435,6 +436,9 @@ export type PartMetadata = {
   action?: boolean;
   auth?: string;
   expires_at?: number;
+  sampling?: TMCPSamplingRequest;
+  elicitation?: TMCPElicitationRequest;
+  approval?: TMCPToolApproval;
 };
 
 export type ContentPart = (
@@ -6,6 +6,8 @@ import { createRoleMethods, type RoleMethods } from './role';
 import { createMemoryMethods, type MemoryMethods } from './memory';
 import { createShareMethods, type ShareMethods } from './share';
 import { createPluginAuthMethods, type PluginAuthMethods } from './pluginAuth';
+/* MCP */
+import { createMCPMethods, type MCPMethods } from './mcp';
 
 /**
  * Creates all database methods for all collections
@@ -19,14 +21,16 @@ export function createMethods(mongoose: typeof import('mongoose')) {
     ...createMemoryMethods(mongoose),
     ...createShareMethods(mongoose),
     ...createPluginAuthMethods(mongoose),
+    ...createMCPMethods(mongoose),
   };
 }
 
-export type { MemoryMethods, ShareMethods, TokenMethods, PluginAuthMethods };
+export type { MemoryMethods, ShareMethods, TokenMethods, PluginAuthMethods, MCPMethods };
 export type AllMethods = UserMethods &
   SessionMethods &
   TokenMethods &
   RoleMethods &
   MemoryMethods &
   ShareMethods &
-  PluginAuthMethods;
+  PluginAuthMethods &
+  MCPMethods;
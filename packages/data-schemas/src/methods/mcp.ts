@@ -0,0 +1,50 @@
+import type { Model } from 'mongoose';
+import type * as t from '~/types';
+
+// Factory function that takes mongoose instance and returns the methods
+export function createMCPMethods(mongoose: typeof import('mongoose')) {
+  /**
+   * Records a user's decision on an MCP tool call that required approval
+   */
+  async function createMCPToolApproval({
+    userId,
+    ...data
+  }: t.CreateMCPToolApprovalParams): Promise<t.IMCPToolApproval> {
+    try {
+      const MCPToolApproval: Model<t.IMCPToolApproval> = mongoose.models.MCPToolApproval;
+      return await MCPToolApproval.create({ user: userId, ...data });
+    } catch (error) {
+      throw new Error(
+        `Failed to record MCP tool approval: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Finds a user's most recent MCP tool approval decisions
+   */
+  async function findMCPToolApprovals({
+    userId,
+    serverName,
+    limit = 50,
+  }: t.FindMCPToolApprovalsParams): Promise<t.IMCPToolApproval[]> {
+    try {
+      const MCPToolApproval: Model<t.IMCPToolApproval> = mongoose.models.MCPToolApproval;
+      return await MCPToolApproval.find({ user: userId, ...(serverName ? { serverName } : {}) })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .lean();
+    } catch (error) {
+      throw new Error(
+        `Failed to find MCP tool approvals: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  return {
+    createMCPToolApproval,
+    findMCPToolApprovals,
+  };
+}
+
+export type MCPMethods = ReturnType<typeof createMCPMethods>;
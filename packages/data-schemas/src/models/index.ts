@@ -21,6 +21,7 @@ import { createConversationTagModel } from './conversationTag';
 import { createSharedLinkModel } from './sharedLink';
 import { createToolCallModel } from './toolCall';
 import { createMemoryModel } from './memory';
+import { createMCPToolApprovalModel } from './mcpToolApproval';
 
 /**
  * Creates all database models for all collections
@@ -50,5 +51,6 @@ export function createModels(mongoose: typeof import('mongoose')) {
     SharedLink: createSharedLinkModel(mongoose),
     ToolCall: createToolCallModel(mongoose),
     MemoryEntry: createMemoryModel(mongoose),
+    MCPToolApproval: createMCPToolApprovalModel(mongoose),
   };
 }
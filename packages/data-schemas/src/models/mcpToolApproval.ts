@@ -0,0 +1,9 @@
+import mcpToolApprovalSchema from '~/schema/mcpToolApproval';
+import type { IMCPToolApproval } from '~/types/mcp';
+
+export function createMCPToolApprovalModel(mongoose: typeof import('mongoose')) {
+  return (
+    mongoose.models.MCPToolApproval ||
+    mongoose.model<IMCPToolApproval>('MCPToolApproval', mcpToolApprovalSchema)
+  );
+}
@@ -22,3 +22,4 @@ export { default as toolCallSchema } from './toolCall';
 export { default as transactionSchema } from './transaction';
 export { default as userSchema } from './user';
 export { default as memorySchema } from './memory';
+export { default as mcpToolApprovalSchema } from './mcpToolApproval';
@@ -0,0 +1,39 @@
+import { Schema } from 'mongoose';
+import type { IMCPToolApproval } from '~/types/mcp';
+
+const mcpToolApprovalSchema: Schema<IMCPToolApproval> = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    serverName: {
+      type: String,
+      required: true,
+    },
+    toolName: {
+      type: String,
+      required: true,
+    },
+    args: {
+      type: Schema.Types.Mixed,
+    },
+    approved: {
+      type: Boolean,
+      required: true,
+    },
+    reason: {
+      type: String,
+      enum: ['timeout', 'aborted'],
+    },
+    conversationId: {
+      type: String,
+    },
+  },
+  { timestamps: true },
+);
+
+mcpToolApprovalSchema.index({ user: 1, createdAt: -1 });
+
+export default mcpToolApprovalSchema;
@@ -0,0 +1,34 @@
+import type { Types, Document } from 'mongoose';
+
+/** Why a tool call was declined without an answer from the user */
+export type MCPToolApprovalReason = 'timeout' | 'aborted';
+
+/** Audit record of a user's decision on an MCP tool call that required approval */
+export interface IMCPToolApproval extends Document {
+  user: Types.ObjectId;
+  serverName: string;
+  toolName: string;
+  args?: unknown;
+  approved: boolean;
+  /** Set when the request expired or the run was aborted before the user answered */
+  reason?: MCPToolApprovalReason;
+  conversationId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface CreateMCPToolApprovalParams {
+  userId: string | Types.ObjectId;
+  serverName: string;
+  toolName: string;
+  args?: unknown;
+  approved: boolean;
+  reason?: MCPToolApprovalReason;
+  conversationId?: string;
+}
+
+export interface FindMCPToolApprovalsParams {
+  userId: string | Types.ObjectId;
+  serverName?: string;
+  limit?: number;
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildThoughtTree, toMarkdown, toMermaid } from './export.js';
+import { ThoughtData, ThoughtSession, closeBranch, recordThought } from './sessions.js';
+
+const at = (index: number) => new Date(Date.UTC(2024, 0, 1, 0, index)).toISOString();
+
+/**
+ * Main line 1 → 2 → 3 (revising 2), branch "alt" from thought 1 (merged),
+ * branch "deep" from the second thought of "alt" (abandoned) and a branch
+ * from a thought that was never recorded
+ */
+function exampleSession(): ThoughtSession {
+  const session: ThoughtSession = {
+    id: 'plan',
+    createdAt: at(0),
+    updatedAt: at(9),
+    thoughts: [],
+    branches: {}
+  };
+  const steps: Array<Partial<ThoughtData> & { thoughtNumber: number; thought: string }> = [
+    { thoughtNumber: 1, thought: 'Define the problem' },
+    { thoughtNumber: 2, thought: 'Try approach A' },
+    { thoughtNumber: 2, thought: 'Try approach B', branchFromThought: 1, branchId: 'alt' },
+    { thoughtNumber: 3, thought: 'B works\nmostly', branchId: 'alt' },
+    { thoughtNumber: 4, totalThoughts: 4, thought: 'Refine B', branchFromThought: 3, branchId: 'deep' },
+  ];
+  for (const step of steps) {
+    recordThought(session, { totalThoughts: 3, nextThoughtNeeded: true, ...step });
+  }
+  closeBranch(session, 'alt', 'merge', 'B is simpler');
+  closeBranch(session, 'deep', 'abandon');
+  recordThought(session, {
+    thoughtNumber: 3,
+    totalThoughts: 3,
+    thought: 'A needs <care> and "quotes"',
+    isRevision: true,
+    revisesThought: 2,
+    nextThoughtNeeded: false
+  });
+  recordThought(session, { thoughtNumber: 10, totalThoughts: 10, thought: 'Lost', branchFromThought: 9, branchId: 'gone', nextThoughtNeeded: false });
+  session.thoughts.forEach((record, index) => (record.recordedAt = at(index + 1)));
+  return session;
+}
+
+describe('buildThoughtTree', () => {
+  it('nests branches under the thought they started from', () => {
+    const tree = buildThoughtTree(exampleSession());
+
+    expect(tree.thoughts.map((node) => [node.index, node.thoughtNumber])).toEqual([[0, 1], [1, 2], [5, 3]]);
+    expect(tree.thoughts[2]).toEqual(expect.objectContaining({ isRevision: true, revisesThought: 2, recordedAt: at(6) }));
+
+    const [alt] = tree.thoughts[0].branches;
+    expect(alt).toEqual(expect.objectContaining({ branchId: 'alt', fromThought: 1, status: 'merged', note: 'B is simpler' }));
+    expect(alt.thoughts.map((node) => node.index)).toEqual([2, 3]);
+    expect(tree.thoughts[1].branches).toEqual([]);
+
+    // "deep" starts from thought 3, which at that point only existed on "alt"
+    const [deep] = alt.thoughts[1].branches;
+    expect(deep).toEqual(expect.objectContaining({ branchId: 'deep', fromThought: 3, status: 'abandoned' }));
+    expect(deep.thoughts.map((node) => node.thought)).toEqual(['Refine B']);
+
+    expect(tree.detachedBranches).toEqual([
+      expect.objectContaining({ branchId: 'gone', fromThought: 9, status: 'open' })
+    ]);
+  });
+
+  it('prefers a main line origin over a branch thought with the same number', () => {
+    const session = exampleSession();
+    recordThought(session, { thoughtNumber: 4, totalThoughts: 4, thought: 'Other idea', branchFromThought: 3, branchId: 'late', nextThoughtNeeded: false });
+
+    const tree = buildThoughtTree(session);
+
+    expect(tree.thoughts[2].branches.map((branch) => branch.branchId)).toEqual(['late']);
+  });
+
+  it('treats branches without recorded branch info as open', () => {
+    const session = exampleSession();
+    delete (session.branches as Record<string, unknown>).gone;
+
+    expect(buildThoughtTree(session).detachedBranches).toEqual([
+      expect.objectContaining({ branchId: 'gone', fromThought: 9, status: 'open' })
+    ]);
+  });
+});
+
+describe('toMarkdown', () => {
+  it('renders the main line with branches after the thought they started from', () => {
+    expect(toMarkdown(exampleSession())).toBe(
+      [
+        '# Thinking session `plan`',
+        '',
+        `Started ${at(0)}, last updated ${at(9)}. 7 thoughts, 3 branches.`,
+        '',
+        '## Main line',
+        '',
+        '- **Thought 1/3**',
+        '',
+        '  Define the problem',
+        '',
+        '### Branch `alt` (from thought 1, merged: B is simpler)',
+        '',
+        '- **Thought 2/3**',
+        '',
+        '  Try approach B',
+        '',
+        '- **Thought 3/3**',
+        '',
+        '  B works',
+        '  mostly',
+        '',
+        '#### Branch `deep` (from thought 3, abandoned)',
+        '',
+        '- **Thought 4/4**',
+        '',
+        '  Refine B',
+        '',
+        '- **Thought 2/3**',
+        '',
+        '  Try approach A',
+        '',
+        '- **Thought 3/3** (revises thought 2)',
+        '',
+        '  A needs <care> and "quotes"',
+        '',
+        '## Detached branches',
+        '',
+        '### Branch `gone` (from thought 9, open)',
+        '',
+        '- **Thought 10/10**',
+        '',
+        '  Lost',
+        ''
+      ].join('\n')
+    );
+  });
+});
+
+describe('toMermaid', () => {
+  it('draws the main line, branches, revisions and merges', () => {
+    const lines = toMermaid(exampleSession()).split('\n');
+
+    expect(lines[0]).toBe('flowchart TD');
+    expect(lines).toEqual(expect.arrayContaining([
+      '  t0["1. Define the problem"]',
+      '  t3["3. B works mostly"]',
+      '  t5["3. A needs #lt;care#gt; and #quot;quotes#quot;"]',
+      '  t0 -->|"alt"| t2',
+      '  t2 --> t3',
+      '  t3 -->|"deep"| t4',
+      '  t0 --> t1',
+      '  t1 --> t5',
+      '  t5 -.->|revises| t1',
+      '  t3 ==>|merged| t5',
+      '  class t5 revision',
+      '  class t2,t3 merged',
+      '  class t4 abandoned',
+      '  class t6 open'
+    ]));
+    // The detached branch has no origin to draw an edge from
+    expect(lines.filter((line) => line.includes('--> t6'))).toEqual([]);
+  });
+
+  it('escapes labels and branch ids', () => {
+    const session = exampleSession();
+    recordThought(session, { thoughtNumber: 2, totalThoughts: 3, thought: 'x'.repeat(70), branchFromThought: 1, branchId: 'a|b "c"\n<d>', nextThoughtNeeded: false });
+
+    const lines = toMermaid(session).split('\n');
+
+    expect(lines).toContain('  t0 -->|"a#124;b #quot;c#quot; #lt;d#gt;"| t7');
+    expect(lines).toContain(`  t7["2. ${'x'.repeat(57)}..."]`);
+  });
+});
@@ -0,0 +1,230 @@
+import { BranchInfo, BranchStatus, ThoughtRecord, ThoughtSession } from './sessions.js';
+
+export interface ThoughtNode {
+  // Position in the session's recorded thoughts, unique within the session
+  index: number;
+  thoughtNumber: number;
+  totalThoughts: number;
+  thought: string;
+  isRevision?: boolean;
+  revisesThought?: number;
+  recordedAt: string;
+  branches: BranchNode[];
+}
+
+export interface BranchNode {
+  branchId: string;
+  fromThought: number;
+  status: BranchStatus;
+  note?: string;
+  thoughts: ThoughtNode[];
+}
+
+export interface ThoughtTree {
+  sessionId: string;
+  createdAt: string;
+  updatedAt: string;
+  thoughts: ThoughtNode[];
+  // Branches whose origin thought was never recorded
+  detachedBranches: BranchNode[];
+}
+
+function toNode(record: ThoughtRecord, index: number): ThoughtNode {
+  return {
+    index,
+    thoughtNumber: record.thoughtNumber,
+    totalThoughts: record.totalThoughts,
+    thought: record.thought,
+    isRevision: record.isRevision,
+    revisesThought: record.revisesThought,
+    recordedAt: record.recordedAt,
+    branches: []
+  };
+}
+
+function branchInfo(session: ThoughtSession, record: ThoughtRecord): BranchInfo {
+  const branchId = record.branchId!;
+  return session.branches[branchId] ?? {
+    id: branchId,
+    fromThought: record.branchFromThought ?? 0,
+    status: 'open',
+    createdAt: record.recordedAt
+  };
+}
+
+/**
+ * Arranges the recorded thoughts into the main line with branches hanging
+ * off the thought they started from (branches may start from other branches)
+ */
+export function buildThoughtTree(session: ThoughtSession): ThoughtTree {
+  const thoughts: ThoughtNode[] = [];
+  const branches = new Map<string, BranchNode>();
+
+  session.thoughts.forEach((record, index) => {
+    const node = toNode(record, index);
+    if (!record.branchId) {
+      thoughts.push(node);
+      return;
+    }
+    let branch = branches.get(record.branchId);
+    if (!branch) {
+      const info = branchInfo(session, record);
+      branch = { branchId: info.id, fromThought: info.fromThought, status: info.status, note: info.note, thoughts: [] };
+      branches.set(record.branchId, branch);
+    }
+    branch.thoughts.push(node);
+  });
+
+  const detachedBranches: BranchNode[] = [];
+  for (const branch of branches.values()) {
+    const firstIndex = branch.thoughts[0].index;
+    // The origin is the latest thought with that number recorded before the branch started
+    const candidates = [...thoughts, ...[...branches.values()].filter((b) => b !== branch).flatMap((b) => b.thoughts)]
+      .filter((node) => node.thoughtNumber === branch.fromThought && node.index < firstIndex)
+      .sort((a, b) => b.index - a.index);
+    const mainOrigin = candidates.find((node) => thoughts.includes(node));
+    const origin = mainOrigin ?? candidates[0];
+    if (origin) {
+      origin.branches.push(branch);
+    } else {
+      detachedBranches.push(branch);
+    }
+  }
+
+  return {
+    sessionId: session.id,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    thoughts,
+    detachedBranches
+  };
+}
+
+function describeBranch(branch: BranchNode): string {
+  const note = branch.note ? `: ${branch.note}` : '';
+  return `Branch \`${branch.branchId}\` (from thought ${branch.fromThought}, ${branch.status}${note})`;
+}
+
+function thoughtHeading(node: ThoughtNode): string {
+  const revision = node.isRevision ? ` (revises thought ${node.revisesThought})` : '';
+  return `**Thought ${node.thoughtNumber}/${node.totalThoughts}**${revision}`;
+}
+
+/**
+ * Renders the session as markdown: the main line in order, each branch
+ * as a section after the thought it started from
+ */
+export function toMarkdown(session: ThoughtSession): string {
+  const tree = buildThoughtTree(session);
+  const lines = [
+    `# Thinking session \`${tree.sessionId}\``,
+    '',
+    `Started ${tree.createdAt}, last updated ${tree.updatedAt}. ${session.thoughts.length} thoughts, ${Object.keys(session.branches).length} branches.`,
+    ''
+  ];
+
+  const renderBranches = (branches: BranchNode[], depth: number) => {
+    for (const branch of branches) {
+      lines.push(`${'#'.repeat(Math.min(depth, 6))} ${describeBranch(branch)}`, '');
+      renderThoughts(branch.thoughts, depth + 1);
+    }
+  };
+  const renderThoughts = (nodes: ThoughtNode[], depth: number) => {
+    for (const node of nodes) {
+      lines.push(`- ${thoughtHeading(node)}`, '', `  ${node.thought.replace(/\n/g, '\n  ')}`, '');
+      renderBranches(node.branches, depth);
+    }
+  };
+
+  lines.push('## Main line', '');
+  renderThoughts(tree.thoughts, 3);
+  if (tree.detachedBranches.length > 0) {
+    lines.push('## Detached branches', '');
+    renderBranches(tree.detachedBranches, 3);
+  }
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+// Quoted Mermaid labels cannot contain raw quotes, angle brackets or pipes
+function mermaidText(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;').replace(/\|/g, '#124;');
+}
+
+function mermaidLabel(node: ThoughtNode): string {
+  const text = node.thought.replace(/\s+/g, ' ').trim();
+  const short = text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  return `"${node.thoughtNumber}. ${mermaidText(short)}"`;
+}
+
+/**
+ * Renders the session as a Mermaid flowchart: solid edges follow the main line
+ * and branches, dotted edges point from revisions to the thought they revise,
+ * and merged branches rejoin the next main line thought. The output is plain
+ * Mermaid source, ready for an `application/vnd.mermaid` artifact.
+ */
+export function toMermaid(session: ThoughtSession): string {
+  const tree = buildThoughtTree(session);
+  const lines = ['flowchart TD'];
+  const classes: Record<'revision' | BranchStatus, number[]> = { revision: [], open: [], merged: [], abandoned: [] };
+  const id = (node: ThoughtNode) => `t${node.index}`;
+
+  const revisionTarget = (node: ThoughtNode, line: ThoughtNode[]) =>
+    [...line, ...tree.thoughts]
+      .filter((other) => other.thoughtNumber === node.revisesThought && other.index < node.index)
+      .sort((a, b) => b.index - a.index)[0];
+
+  const renderLine = (nodes: ThoughtNode[], parent?: ThoughtNode, branch?: BranchNode) => {
+    let previous = parent;
+    nodes.forEach((node, position) => {
+      lines.push(`  ${id(node)}[${mermaidLabel(node)}]`);
+      if (previous) {
+        const label = branch && position === 0 ? `|"${mermaidText(branch.branchId.replace(/\s+/g, ' '))}"|` : '';
+        lines.push(`  ${id(previous)} -->${label} ${id(node)}`);
+      }
+      if (node.isRevision && node.revisesThought) {
+        const target = revisionTarget(node, nodes);
+        if (target) {
+          lines.push(`  ${id(node)} -.->|revises| ${id(target)}`);
+        }
+        classes.revision.push(node.index);
+      }
+      if (branch) {
+        classes[branch.status].push(node.index);
+      }
+      for (const child of node.branches) {
+        renderLine(child.thoughts, node, child);
+      }
+      previous = node;
+    });
+  };
+
+  renderLine(tree.thoughts);
+  for (const branch of tree.detachedBranches) {
+    renderLine(branch.thoughts, undefined, branch);
+  }
+
+  // Merged branches continue into the first main line thought recorded after the merge
+  const allBranches = (nodes: ThoughtNode[]): BranchNode[] =>
+    nodes.flatMap((node) => node.branches.flatMap((branch) => [branch, ...allBranches(branch.thoughts)]));
+  for (const branch of [...allBranches(tree.thoughts), ...tree.detachedBranches]) {
+    const mergedAfter = session.branches[branch.branchId]?.mergedAfter;
+    const tip = branch.thoughts[branch.thoughts.length - 1];
+    const next = tree.thoughts.find((node) => mergedAfter !== undefined && node.index >= mergedAfter);
+    if (branch.status === 'merged' && tip && next) {
+      lines.push(`  ${id(tip)} ==>|merged| ${id(next)}`);
+    }
+  }
+
+  lines.push(
+    '  classDef revision fill:#fff4d6,stroke:#d4a017',
+    '  classDef open fill:#e6f4ea,stroke:#34a853',
+    '  classDef merged fill:#e3f2fd,stroke:#1a73e8',
+    '  classDef abandoned fill:#f1f3f4,stroke:#9aa0a6,stroke-dasharray:5 5,color:#5f6368'
+  );
+  for (const [name, indexes] of Object.entries(classes)) {
+    if (indexes.length > 0) {
+      lines.push(`  class ${indexes.map((index) => `t${index}`).join(',')} ${name}`);
+    }
+  }
+  return lines.join('\n');
+}
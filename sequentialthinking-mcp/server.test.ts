@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { Server as HttpServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { startHttpServer } from './server.js';
+import { SessionStore } from './sessions.js';
+
+type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+describe('HTTP server', () => {
+  let dir: string;
+  let httpServer: HttpServer;
+  let url: URL;
+  let clients: Client[];
+
+  beforeEach(async () => {
+    // Recorded thoughts are logged to stderr
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    dir = await mkdtemp(path.join(os.tmpdir(), 'thought-server-'));
+    httpServer = await startHttpServer(new SessionStore(dir), { port: 0, idleTimeoutMs: 0 });
+    url = new URL(`http://localhost:${(httpServer.address() as AddressInfo).port}/mcp`);
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  async function connect(token?: string) {
+    const transport = new StreamableHTTPClientTransport(
+      url,
+      token ? { requestInit: { headers: { Authorization: `Bearer ${token}` } } } : undefined
+    );
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  }
+
+  async function call(client: Client, name: string, args: Record<string, unknown> = {}) {
+    const result = (await client.callTool({ name, arguments: args })) as ToolResult;
+    return { text: result.content[0].text, isError: result.isError ?? false };
+  }
+
+  const think = (client: Client, thought: string) =>
+    call(client, 'sequentialthinking', { thought, thoughtNumber: 1, totalThoughts: 1, nextThoughtNeeded: false, sessionId: 'plan' });
+
+  const listedIds = async (client: Client) =>
+    JSON.parse((await call(client, 'list_thinking_sessions')).text).sessions.map((session: { sessionId: string }) => session.sessionId);
+
+  it('keeps the sessions of each token apart, across connections', async () => {
+    const { client: alice } = await connect('alice');
+    const { client: bob } = await connect('bob');
+    expect((await think(alice, 'Alice thinks')).isError).toBe(false);
+
+    expect(await call(bob, 'get_thought_tree', { sessionId: 'plan' })).toEqual({
+      text: expect.stringContaining('Unknown session: plan'),
+      isError: true
+    });
+    expect(await listedIds(bob)).toEqual([]);
+    expect((await call(bob, 'export_thinking_session', { sessionId: 'plan' })).isError).toBe(true);
+
+    // Bob's session of the same name is a different one
+    await think(bob, 'Bob thinks');
+    const { client: aliceAgain } = await connect('alice');
+    const tree = JSON.parse((await call(aliceAgain, 'get_thought_tree', { sessionId: 'plan' })).text);
+    expect(tree.sessionId).toBe('plan');
+    expect(tree.thoughts.map((node: { thought: string }) => node.thought)).toEqual(['Alice thinks']);
+    expect(await listedIds(aliceAgain)).toEqual(['plan']);
+  });
+
+  it('rejects requests to a connection from other clients', async () => {
+    const { transport } = await connect('alice');
+    const listTools = (headers: Record<string, string>) =>
+      fetch(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+          'mcp-session-id': transport.sessionId!,
+          ...headers
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      });
+
+    const asBob = await listTools({ authorization: 'Bearer bob' });
+    expect(asBob.status).toBe(403);
+    expect(await asBob.text()).toBe('Session belongs to another client');
+    expect((await listTools({})).status).toBe(403);
+    expect((await listTools({ authorization: 'Bearer alice' })).status).toBe(200);
+  });
+
+  it('keeps the sessions of clients without a token in memory for their connection only', async () => {
+    const { client: first } = await connect();
+    const { client: second } = await connect();
+
+    await think(first, 'Anonymous thinks');
+
+    expect(await listedIds(first)).toEqual(['plan']);
+    expect(await listedIds(second)).toEqual([]);
+    expect((await call(second, 'get_thought_tree', { sessionId: 'plan' })).isError).toBe(true);
+    expect(await readdir(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,660 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createHash, randomUUID } from "node:crypto";
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from "node:http";
+// Fixed chalk import for ESM
+import chalk from 'chalk';
+import {
+  DEFAULT_LIST_LIMIT,
+  DEFAULT_SESSION_ID,
+  SessionStore,
+  ThoughtData,
+  ThoughtSession,
+  closeBranch,
+  recordThought,
+  validateSessionId,
+} from './sessions.js';
+import { buildThoughtTree, toMarkdown, toMermaid } from './export.js';
+
+type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+class SequentialThinkingServer {
+  private disableThoughtLogging: boolean;
+
+  /**
+   * @param store Where sessions are kept, possibly shared with other connections
+   * @param namespace When given, the sessions of this connection are stored under it, so
+   * clients of a shared deployment can neither see nor open each other's sessions
+   */
+  constructor(private store: SessionStore, private namespace?: string) {
+    this.disableThoughtLogging = (process.env.DISABLE_THOUGHT_LOGGING || "").toLowerCase() === "true";
+  }
+
+  /** Id of the session in the store; "/" cannot occur in session ids, so namespaces never collide */
+  private storeId(sessionId: string): string {
+    return this.namespace ? `${this.namespace}/${sessionId}` : sessionId;
+  }
+
+  /** Copy of a stored session that shows the id the client used instead of the namespaced one */
+  private asClientSession(session: ThoughtSession, sessionId: string): ThoughtSession {
+    return { ...session, id: sessionId };
+  }
+
+  private toResult(payload: unknown): ToolResult {
+    return {
+      content: [{
+        type: "text",
+        text: typeof payload === 'string' ? payload : JSON.stringify(payload, null, 2)
+      }]
+    };
+  }
+
+  private toError(error: unknown): ToolResult {
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          error: error instanceof Error ? error.message : String(error),
+          status: 'failed'
+        }, null, 2)
+      }],
+      isError: true
+    };
+  }
+
+  private async requireSession(sessionId: string) {
+    const session = await this.store.get(this.storeId(sessionId));
+    if (!session) {
+      throw new Error(`Unknown session: ${sessionId}`);
+    }
+    return session;
+  }
+
+  private validateThoughtData(input: unknown): ThoughtData {
+    const data = input as Record<string, unknown>;
+
+    if (!data.thought || typeof data.thought !== 'string') {
+      throw new Error('Invalid thought: must be a string');
+    }
+    if (!data.thoughtNumber || typeof data.thoughtNumber !== 'number') {
+      throw new Error('Invalid thoughtNumber: must be a number');
+    }
+    if (!data.totalThoughts || typeof data.totalThoughts !== 'number') {
+      throw new Error('Invalid totalThoughts: must be a number');
+    }
+    if (typeof data.nextThoughtNeeded !== 'boolean') {
+      throw new Error('Invalid nextThoughtNeeded: must be a boolean');
+    }
+
+    return {
+      thought: data.thought,
+      thoughtNumber: data.thoughtNumber,
+      totalThoughts: data.totalThoughts,
+      nextThoughtNeeded: data.nextThoughtNeeded,
+      isRevision: data.isRevision as boolean | undefined,
+      revisesThought: data.revisesThought as number | undefined,
+      branchFromThought: data.branchFromThought as number | undefined,
+      branchId: data.branchId as string | undefined,
+      needsMoreThoughts: data.needsMoreThoughts as boolean | undefined,
+    };
+  }
+
+  private formatThought(thoughtData: ThoughtData): string {
+    const { thoughtNumber, totalThoughts, thought, isRevision, revisesThought, branchFromThought, branchId } = thoughtData;
+
+    let prefix = '';
+    let context = '';
+
+    if (isRevision) {
+      prefix = chalk.yellow('🔄 Revision');
+      context = ` (revising thought ${revisesThought})`;
+    } else if (branchFromThought) {
+      prefix = chalk.green('🌿 Branch');
+      context = ` (from thought ${branchFromThought}, ID: ${branchId})`;
+    } else {
+      prefix = chalk.blue('💭 Thought');
+      context = '';
+    }
+
+    const header = `${prefix} ${thoughtNumber}/${totalThoughts}${context}`;
+    const border = '─'.repeat(Math.max(header.length, thought.length) + 4);
+
+    return `
+┌${border}┐
+│ ${header} │
+├${border}┤
+│ ${thought.padEnd(border.length - 2)} │
+└${border}┘`;
+  }
+
+  public async processThought(input: unknown, sessionId: string): Promise<ToolResult> {
+    try {
+      const validatedInput = this.validateThoughtData(input);
+
+      if (validatedInput.thoughtNumber > validatedInput.totalThoughts) {
+        validatedInput.totalThoughts = validatedInput.thoughtNumber;
+      }
+
+      const session = await this.store.getOrCreate(this.storeId(sessionId));
+      recordThought(session, validatedInput);
+      await this.store.save(session);
+
+      if (!this.disableThoughtLogging) {
+        const formattedThought = this.formatThought(validatedInput);
+        console.error(formattedThought);
+      }
+
+      return this.toResult({
+        sessionId,
+        thoughtNumber: validatedInput.thoughtNumber,
+        totalThoughts: validatedInput.totalThoughts,
+        nextThoughtNeeded: validatedInput.nextThoughtNeeded,
+        branches: Object.keys(session.branches),
+        thoughtHistoryLength: session.thoughts.length
+      });
+    } catch (error) {
+      return this.toError(error);
+    }
+  }
+
+  public async listSessions(input: unknown): Promise<ToolResult> {
+    try {
+      const limit = (input as Record<string, unknown>).limit ?? DEFAULT_LIST_LIMIT;
+      if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1) {
+        throw new Error('Invalid limit: must be a positive integer');
+      }
+      const prefix = this.namespace ? `${this.namespace}/` : '';
+      const sessions = await this.store.list(
+        (id) => prefix ? id.startsWith(prefix) : !id.includes('/'),
+        limit
+      );
+      return this.toResult({
+        sessions: sessions.map((session) => {
+          const last = session.thoughts[session.thoughts.length - 1];
+          return {
+            sessionId: session.id.slice(prefix.length),
+            createdAt: session.createdAt,
+            updatedAt: session.updatedAt,
+            thoughts: session.thoughts.length,
+            branches: Object.values(session.branches).map(({ id, status }) => ({ id, status })),
+            complete: last ? !last.nextThoughtNeeded : false
+          };
+        })
+      });
+    } catch (error) {
+      return this.toError(error);
+    }
+  }
+
+  public async getThoughtTree(sessionId: string): Promise<ToolResult> {
+    try {
+      const session = await this.requireSession(sessionId);
+      return this.toResult(buildThoughtTree(this.asClientSession(session, sessionId)));
+    } catch (error) {
+      return this.toError(error);
+    }
+  }
+
+  public async updateBranch(input: unknown, sessionId: string): Promise<ToolResult> {
+    try {
+      const data = input as Record<string, unknown>;
+      if (!data.branchId || typeof data.branchId !== 'string') {
+        throw new Error('Invalid branchId: must be a string');
+      }
+      if (data.action !== 'merge' && data.action !== 'abandon') {
+        throw new Error('Invalid action: must be "merge" or "abandon"');
+      }
+      if (data.note !== undefined && typeof data.note !== 'string') {
+        throw new Error('Invalid note: must be a string');
+      }
+
+      const session = await this.requireSession(sessionId);
+      const branch = closeBranch(session, data.branchId, data.action, data.note as string | undefined);
+      await this.store.save(session);
+
+      return this.toResult({ sessionId, branch });
+    } catch (error) {
+      return this.toError(error);
+    }
+  }
+
+  public async exportSession(input: unknown, sessionId: string): Promise<ToolResult> {
+    try {
+      const format = (input as Record<string, unknown>).format ?? 'markdown';
+      if (format !== 'markdown' && format !== 'mermaid') {
+        throw new Error('Invalid format: must be "markdown" or "mermaid"');
+      }
+      const session = this.asClientSession(await this.requireSession(sessionId), sessionId);
+      return this.toResult(format === 'mermaid' ? toMermaid(session) : toMarkdown(session));
+    } catch (error) {
+      return this.toError(error);
+    }
+  }
+}
+
+const SESSION_ID_PROPERTY = {
+  type: "string",
+  description: "Thinking session to use. Defaults to the current MCP session, or a shared default session when the transport has none"
+};
+
+const SEQUENTIAL_THINKING_TOOL: Tool = {
+  name: "sequentialthinking",
+  description: `A detailed tool for dynamic and reflective problem-solving through thoughts.
+This tool helps analyze problems through a flexible thinking process that can adapt and evolve.
+Each thought can build on, question, or revise previous insights as understanding deepens.
+
+When to use this tool:
+- Breaking down complex problems into steps
+- Planning and design with room for revision
+- Analysis that might need course correction
+- Problems where the full scope might not be clear initially
+- Problems that require a multi-step solution
+- Tasks that need to maintain context over multiple steps
+- Situations where irrelevant information needs to be filtered out
+
+Key features:
+- You can adjust total_thoughts up or down as you progress
+- You can question or revise previous thoughts
+- You can add more thoughts even after reaching what seemed like the end
+- You can express uncertainty and explore alternative approaches
+- Not every thought needs to build linearly - you can branch or backtrack
+- Generates a solution hypothesis
+- Verifies the hypothesis based on the Chain of Thought steps
+- Repeats the process until satisfied
+- Provides a correct answer
+
+Parameters explained:
+- thought: Your current thinking step, which can include:
+* Regular analytical steps
+* Revisions of previous thoughts
+* Questions about previous decisions
+* Realizations about needing more analysis
+* Changes in approach
+* Hypothesis generation
+* Hypothesis verification
+- next_thought_needed: True if you need more thinking, even if at what seemed like the end
+- thought_number: Current number in sequence (can go beyond initial total if needed)
+- total_thoughts: Current estimate of thoughts needed (can be adjusted up/down)
+- is_revision: A boolean indicating if this thought revises previous thinking
+- revises_thought: If is_revision is true, which thought number is being reconsidered
+- branch_from_thought: If branching, which thought number is the branching point
+- branch_id: Identifier for the current branch (if any)
+- needs_more_thoughts: If reaching end but realizing more thoughts needed
+
+You should:
+1. Start with an initial estimate of needed thoughts, but be ready to adjust
+2. Feel free to question or revise previous thoughts
+3. Don't hesitate to add more thoughts if needed, even at the "end"
+4. Express uncertainty when present
+5. Mark thoughts that revise previous thinking or branch into new paths
+6. Ignore information that is irrelevant to the current step
+7. Generate a solution hypothesis when appropriate
+8. Verify the hypothesis based on the Chain of Thought steps
+9. Repeat the process until satisfied with the solution
+10. Provide a single, ideally correct answer as the final output
+11. Only set next_thought_needed to false when truly done and a satisfactory answer is reached`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      thought: {
+        type: "string",
+        description: "Your current thinking step"
+      },
+      nextThoughtNeeded: {
+        type: "boolean",
+        description: "Whether another thought step is needed"
+      },
+      thoughtNumber: {
+        type: "integer",
+        description: "Current thought number",
+        minimum: 1
+      },
+      totalThoughts: {
+        type: "integer",
+        description: "Estimated total thoughts needed",
+        minimum: 1
+      },
+      isRevision: {
+        type: "boolean",
+        description: "Whether this revises previous thinking"
+      },
+      revisesThought: {
+        type: "integer",
+        description: "Which thought is being reconsidered",
+        minimum: 1
+      },
+      branchFromThought: {
+        type: "integer",
+        description: "Branching point thought number",
+        minimum: 1
+      },
+      branchId: {
+        type: "string",
+        description: "Branch identifier"
+      },
+      needsMoreThoughts: {
+        type: "boolean",
+        description: "If more thoughts are needed"
+      },
+      sessionId: SESSION_ID_PROPERTY
+    },
+    required: ["thought", "nextThoughtNeeded", "thoughtNumber", "totalThoughts"]
+  }
+};
+
+const LIST_SESSIONS_TOOL: Tool = {
+  name: "list_thinking_sessions",
+  description: "List the most recently updated thinking sessions with their thought counts, branches and whether the thinking is complete",
+  inputSchema: {
+    type: "object",
+    properties: {
+      limit: {
+        type: "integer",
+        description: `Maximum number of sessions to list (default: ${DEFAULT_LIST_LIMIT})`,
+        minimum: 1
+      }
+    }
+  }
+};
+
+const GET_THOUGHT_TREE_TOOL: Tool = {
+  name: "get_thought_tree",
+  description: "Get every thought of a session as a tree: the main line in order, with revisions marked and branches nested under the thought they started from",
+  inputSchema: {
+    type: "object",
+    properties: {
+      sessionId: SESSION_ID_PROPERTY
+    }
+  }
+};
+
+const UPDATE_BRANCH_TOOL: Tool = {
+  name: "update_branch",
+  description: "Close a branch of thinking. 'merge' adopts its conclusions into the main line, which continues from the branch; 'abandon' keeps the branch for reference but rejects further thoughts on it",
+  inputSchema: {
+    type: "object",
+    properties: {
+      branchId: {
+        type: "string",
+        description: "Branch identifier"
+      },
+      action: {
+        type: "string",
+        enum: ["merge", "abandon"],
+        description: "Whether to merge or abandon the branch"
+      },
+      note: {
+        type: "string",
+        description: "Why the branch was merged or abandoned"
+      },
+      sessionId: SESSION_ID_PROPERTY
+    },
+    required: ["branchId", "action"]
+  }
+};
+
+const EXPORT_SESSION_TOOL: Tool = {
+  name: "export_thinking_session",
+  description: "Export a thinking session as markdown, or as Mermaid flowchart source that can be shown as a Mermaid diagram artifact",
+  inputSchema: {
+    type: "object",
+    properties: {
+      format: {
+        type: "string",
+        enum: ["markdown", "mermaid"],
+        description: "Export format (default: markdown)"
+      },
+      sessionId: SESSION_ID_PROPERTY
+    }
+  }
+};
+
+/**
+ * Creates an MCP server with the thinking tools registered. Each HTTP/SSE
+ * connection gets its own instance; connections of clients with a token share
+ * the session store, and only reach the sessions stored under their namespace.
+ */
+export function createServerInstance(store: SessionStore, namespace?: string) {
+  const server = new Server(
+    {
+      name: "sequential-thinking-server",
+      version: "0.2.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
+    }
+  );
+
+  const thinkingServer = new SequentialThinkingServer(store, namespace);
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      SEQUENTIAL_THINKING_TOOL,
+      LIST_SESSIONS_TOOL,
+      GET_THOUGHT_TREE_TOOL,
+      UPDATE_BRANCH_TOOL,
+      EXPORT_SESSION_TOOL,
+    ],
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const args = request.params.arguments ?? {};
+    let sessionId: string;
+    try {
+      // An explicit sessionId wins over the transport session, so a conversation can resume its thoughts.
+      // Over HTTP it is looked up in the client's namespace, so it cannot open another client's session.
+      sessionId = validateSessionId(
+        typeof args.sessionId === "string" ? args.sessionId : extra.sessionId ?? DEFAULT_SESSION_ID
+      );
+    } catch (error) {
+      return {
+        content: [{ type: "text", text: (error as Error).message }],
+        isError: true
+      };
+    }
+
+    switch (request.params.name) {
+      case "sequentialthinking":
+        return thinkingServer.processThought(args, sessionId);
+      case "list_thinking_sessions":
+        return thinkingServer.listSessions(args);
+      case "get_thought_tree":
+        return thinkingServer.getThoughtTree(sessionId);
+      case "update_branch":
+        return thinkingServer.updateBranch(args, sessionId);
+      case "export_thinking_session":
+        return thinkingServer.exportSession(args, sessionId);
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: `Unknown tool: ${request.params.name}`
+      }],
+      isError: true
+    };
+  });
+
+  return server;
+}
+
+interface Connection {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastActivity: number;
+  // Namespace of the client that opened the connection, if it sent a bearer token
+  client?: string;
+}
+
+/**
+ * Namespace of an HTTP client, derived from its bearer token so that the client can
+ * resume its sessions after reconnecting. Only a hash of the token is kept.
+ */
+function clientNamespace(req: IncomingMessage): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+  return match ? `client-${createHash("sha256").update(match[1]).digest("hex").slice(0, 32)}` : undefined;
+}
+
+/**
+ * Server instance for a new connection. Clients without a token could never reach their
+ * sessions again after disconnecting, so each of their connections gets a store of its own
+ * that is kept in memory only and goes away with the connection.
+ */
+function connectionServer(store: SessionStore, client: string | undefined): Server {
+  return client ? createServerInstance(store, client) : createServerInstance(new SessionStore());
+}
+
+/** Rejects requests to a connection from anyone but the client that opened it */
+function checkClient(connection: Connection, req: IncomingMessage, res: ServerResponse): boolean {
+  if (clientNamespace(req) === connection.client) {
+    return true;
+  }
+  res.writeHead(403);
+  res.end("Session belongs to another client");
+  return false;
+}
+
+export interface HttpServerOptions {
+  port: number;
+  // Inactivity after which a connection is closed; 0 keeps connections open
+  idleTimeoutMs: number;
+}
+
+/** Serves Streamable HTTP at /mcp and legacy SSE at /sse, resolving once the server listens */
+export async function startHttpServer(store: SessionStore, { port, idleTimeoutMs }: HttpServerOptions): Promise<HttpServer> {
+  // Open connections by MCP session id; each has its own server instance
+  const connections = new Map<string, Connection>();
+
+  const touch = (sessionId: string) => {
+    const connection = connections.get(sessionId);
+    if (connection) {
+      connection.lastActivity = Date.now();
+    }
+    return connection;
+  };
+
+  // Clients such as LibreChat reconnect without closing their old session, so drop idle ones
+  let idleCheck: NodeJS.Timeout | undefined;
+  if (idleTimeoutMs > 0) {
+    idleCheck = setInterval(() => {
+      for (const [sessionId, connection] of connections) {
+        if (Date.now() - connection.lastActivity > idleTimeoutMs) {
+          connections.delete(sessionId);
+          connection.transport.close().catch((error) => {
+            console.error(`Error closing idle session ${sessionId}:`, error);
+          });
+        }
+      }
+    }, Math.min(idleTimeoutMs, 60 * 1000)).unref();
+  }
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url || "", `http://${req.headers.host}`);
+
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS,DELETE");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, MCP-Session-Id, mcp-session-id");
+    res.setHeader("Access-Control-Expose-Headers", "MCP-Session-Id");
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(200);
+      res.end();
+      return;
+    }
+
+    try {
+      if (url.pathname === "/mcp") {
+        const sessionId = req.headers["mcp-session-id"] as string | undefined;
+        if (sessionId) {
+          const connection = touch(sessionId);
+          if (!connection || !(connection.transport instanceof StreamableHTTPServerTransport)) {
+            res.writeHead(404);
+            res.end("Session not found");
+            return;
+          }
+          if (!checkClient(connection, req, res)) {
+            return;
+          }
+          await connection.transport.handleRequest(req, res);
+          return;
+        }
+        if (req.method !== "POST") {
+          res.writeHead(400);
+          res.end("Missing mcp-session-id header");
+          return;
+        }
+
+        // A request without a session must be an initialize request; the transport rejects anything else
+        const client = clientNamespace(req);
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (newSessionId) => {
+            connections.set(newSessionId, { transport, lastActivity: Date.now(), client });
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId) {
+            connections.delete(transport.sessionId);
+          }
+        };
+        await connectionServer(store, client).connect(transport);
+        await transport.handleRequest(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        const transport = new SSEServerTransport("/messages", res);
+        const client = clientNamespace(req);
+        connections.set(transport.sessionId, { transport, lastActivity: Date.now(), client });
+        res.on("close", () => {
+          connections.delete(transport.sessionId);
+        });
+        await connectionServer(store, client).connect(transport);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        const sessionId = url.searchParams.get("sessionId");
+        if (!sessionId) {
+          res.writeHead(400);
+          res.end("Missing sessionId parameter");
+          return;
+        }
+        const connection = touch(sessionId);
+        if (!connection || !(connection.transport instanceof SSEServerTransport)) {
+          res.writeHead(404);
+          res.end(`No transport found for sessionId: ${sessionId}`);
+          return;
+        }
+        if (!checkClient(connection, req, res)) {
+          return;
+        }
+        await connection.transport.handlePostMessage(req, res);
+      } else if (url.pathname === "/ping") {
+        res.writeHead(200, { "Content-Type": "text/plain" });
+        res.end("pong");
+      } else {
+        res.writeHead(404);
+        res.end("Not found");
+      }
+    } catch (error) {
+      console.error("Error handling request:", error);
+      if (!res.headersSent) {
+        res.writeHead(500);
+        res.end("Internal Server Error");
+      }
+    }
+  });
+
+  httpServer.on("close", () => clearInterval(idleCheck));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  return httpServer;
+}
@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  SessionStore,
+  ThoughtData,
+  ThoughtSession,
+  closeBranch,
+  recordThought,
+  validateSessionId,
+} from './sessions.js';
+
+const thought = (thoughtNumber: number, extra: Partial<ThoughtData> = {}): ThoughtData => ({
+  thought: `Thought ${thoughtNumber}`,
+  thoughtNumber,
+  totalThoughts: 3,
+  nextThoughtNeeded: true,
+  ...extra
+});
+
+const emptySession = (id = 'plan'): ThoughtSession => ({
+  id,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  thoughts: [],
+  branches: {}
+});
+
+describe('validateSessionId', () => {
+  it('accepts ids that are safe as file names', () => {
+    expect(validateSessionId('chat-1:plan_v2.final')).toBe('chat-1:plan_v2.final');
+  });
+
+  it('rejects separators, relative paths and overlong ids', () => {
+    for (const sessionId of ['a/b', '..', '.', '', 'x'.repeat(129)]) {
+      expect(() => validateSessionId(sessionId)).toThrow('Invalid sessionId');
+    }
+  });
+});
+
+describe('SessionStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'thought-sessions-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /** Writes a session file as an earlier run of the server would have left it */
+  async function writeSession(sessionId: string, day: number) {
+    const date = new Date(Date.UTC(2024, 0, day));
+    const file = path.join(dir, `${encodeURIComponent(sessionId)}.json`);
+    await writeFile(file, JSON.stringify({ ...emptySession(sessionId), updatedAt: date.toISOString() }));
+    await utimes(file, date, date);
+  }
+
+  it('persists sessions so that a new store reads them back', async () => {
+    const store = new SessionStore(dir);
+    const session = await store.getOrCreate('client-a/plan:1');
+    recordThought(session, thought(1));
+    await store.save(session);
+
+    expect(await readdir(dir)).toEqual(['client-a%2Fplan%3A1.json']);
+    expect(await new SessionStore(dir).get('client-a/plan:1')).toEqual(session);
+    expect(await new SessionStore(dir).get('other')).toBeUndefined();
+  });
+
+  it('keeps the latest state when saves overlap', async () => {
+    const store = new SessionStore(dir);
+    const session = await store.getOrCreate('plan');
+    const saves = [1, 2, 3].map((thoughtNumber) => {
+      recordThought(session, thought(thoughtNumber));
+      return store.save(session);
+    });
+    await Promise.all(saves);
+
+    expect((await new SessionStore(dir).get('plan'))?.thoughts).toHaveLength(3);
+  });
+
+  it('drops the least recently used sessions from memory and reads them back from disk', async () => {
+    const store = new SessionStore(dir, 2);
+    const first = await store.getOrCreate('first');
+    const second = await store.getOrCreate('second');
+    await Promise.all([store.save(first), store.save(second)]);
+
+    expect(await store.get('first')).toBe(first);
+    await store.getOrCreate('third');
+
+    expect(await store.get('first')).toBe(first);
+    const reloaded = await store.get('second');
+    expect(reloaded).not.toBe(second);
+    expect(reloaded).toEqual(second);
+  });
+
+  it('waits for pending writes before reading a dropped session back', async () => {
+    const store = new SessionStore(dir, 1);
+    const session = await store.getOrCreate('plan');
+    recordThought(session, thought(1));
+    const saving = store.save(session);
+    await store.getOrCreate('other');
+
+    expect((await store.get('plan'))?.thoughts).toHaveLength(1);
+    await saving;
+  });
+
+  it('never drops sessions that are only kept in memory', async () => {
+    const store = new SessionStore(undefined, 1);
+    const first = await store.getOrCreate('first');
+    await store.save(first);
+    await store.getOrCreate('second');
+
+    expect(await store.get('first')).toBe(first);
+    expect(await new SessionStore().get('first')).toBeUndefined();
+  });
+
+  it('lists the newest matching sessions and reads only their files', async () => {
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await writeSession('a', 2);
+    await writeSession('b', 4);
+    await writeSession('c', 3);
+    await writeSession('client-x/d', 5);
+    // Unreadable, and older than every other session
+    await writeFile(path.join(dir, 'broken.json'), '{');
+    await utimes(path.join(dir, 'broken.json'), new Date(Date.UTC(2024, 0, 1)), new Date(Date.UTC(2024, 0, 1)));
+    await writeFile(path.join(dir, 'notes.txt'), 'not a session');
+    const store = new SessionStore(dir);
+
+    const ids = (sessions: ThoughtSession[]) => sessions.map((session) => session.id);
+    expect(ids(await store.list((id) => !id.includes('/'), 2))).toEqual(['b', 'c']);
+    expect(ids(await store.list((id) => id.startsWith('client-x/')))).toEqual(['client-x/d']);
+    expect(errors).not.toHaveBeenCalled();
+
+    expect(ids(await store.list())).toEqual(['client-x/d', 'b', 'c', 'a']);
+    expect(errors).toHaveBeenCalledWith('Failed to read thought session broken:', expect.any(SyntaxError));
+  });
+
+  it('lists the sessions in memory when there is no directory', async () => {
+    const store = new SessionStore();
+    for (const [day, sessionId] of ['old', 'new', 'client-x/other'].entries()) {
+      const session = await store.getOrCreate(sessionId);
+      session.updatedAt = new Date(Date.UTC(2024, 0, day + 1)).toISOString();
+    }
+
+    expect((await store.list((id) => !id.includes('/'))).map((session) => session.id)).toEqual(['new', 'old']);
+    expect(await store.list(() => true, 1)).toEqual([expect.objectContaining({ id: 'client-x/other' })]);
+  });
+
+  it('lists nothing before the directory exists', async () => {
+    expect(await new SessionStore(path.join(dir, 'missing')).list()).toEqual([]);
+  });
+});
+
+describe('branches', () => {
+  function sessionWithBranch() {
+    const session = emptySession();
+    recordThought(session, thought(1));
+    recordThought(session, thought(2, { branchFromThought: 1, branchId: 'alt' }));
+    recordThought(session, thought(3, { branchId: 'alt' }));
+    return session;
+  }
+
+  it('opens a branch with the thought that starts it', () => {
+    const session = sessionWithBranch();
+
+    expect(session.branches).toEqual({
+      alt: { id: 'alt', fromThought: 1, status: 'open', createdAt: expect.any(String) }
+    });
+    expect(session.thoughts.map((record) => record.branchId)).toEqual([undefined, 'alt', 'alt']);
+    expect(session.thoughts[2]).toEqual({ ...thought(3, { branchId: 'alt' }), recordedAt: expect.any(String) });
+  });
+
+  it('merges a branch after the thoughts recorded so far', () => {
+    const session = sessionWithBranch();
+
+    const branch = closeBranch(session, 'alt', 'merge', 'B is simpler');
+
+    expect(branch).toEqual({
+      id: 'alt',
+      fromThought: 1,
+      status: 'merged',
+      createdAt: expect.any(String),
+      closedAt: expect.any(String),
+      note: 'B is simpler',
+      mergedAfter: 3
+    });
+    expect(session.branches.alt).toBe(branch);
+  });
+
+  it('abandons a branch and rejects further thoughts on it', () => {
+    const session = sessionWithBranch();
+
+    expect(closeBranch(session, 'alt', 'abandon')).toEqual(expect.objectContaining({ status: 'abandoned' }));
+    expect(session.branches.alt.mergedAfter).toBeUndefined();
+    expect(() => recordThought(session, thought(4, { branchId: 'alt' }))).toThrow(
+      'Branch alt is abandoned; use a new branchId to explore further'
+    );
+    expect(() => closeBranch(session, 'alt', 'merge')).toThrow('Branch alt is already abandoned');
+    expect(session.thoughts).toHaveLength(3);
+  });
+
+  it('rejects unknown branches', () => {
+    expect(() => closeBranch(sessionWithBranch(), 'other', 'merge')).toThrow('Unknown branch other');
+  });
+});
@@ -0,0 +1,222 @@
+import { mkdir, readdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+export interface ThoughtData {
+  thought: string;
+  thoughtNumber: number;
+  totalThoughts: number;
+  isRevision?: boolean;
+  revisesThought?: number;
+  branchFromThought?: number;
+  branchId?: string;
+  needsMoreThoughts?: boolean;
+  nextThoughtNeeded: boolean;
+}
+
+export interface ThoughtRecord extends ThoughtData {
+  recordedAt: string;
+}
+
+export type BranchStatus = 'open' | 'merged' | 'abandoned';
+
+export interface BranchInfo {
+  id: string;
+  fromThought: number;
+  status: BranchStatus;
+  createdAt: string;
+  closedAt?: string;
+  note?: string;
+  // Number of recorded thoughts when the branch was merged; the next main line thought continues from it
+  mergedAfter?: number;
+}
+
+export interface ThoughtSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  // Every thought in the order it was recorded, main line and branches alike
+  thoughts: ThoughtRecord[];
+  branches: Record<string, BranchInfo>;
+}
+
+export type BranchAction = 'merge' | 'abandon';
+
+export const DEFAULT_SESSION_ID = 'default';
+
+// Persisted sessions beyond this many are dropped from memory, least recently used first, and read back on demand
+const MAX_CACHED_SESSIONS = 100;
+
+export const DEFAULT_LIST_LIMIT = 50;
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export function validateSessionId(sessionId: string): string {
+  if (!SESSION_ID_PATTERN.test(sessionId) || sessionId === '.' || sessionId === '..') {
+    throw new Error('Invalid sessionId: use up to 128 letters, digits, ".", "_", ":" or "-"');
+  }
+  return sessionId;
+}
+
+export function defaultStoreDir(): string {
+  return process.env.THOUGHT_STORE_DIR || path.join(os.homedir(), '.sequential-thinking', 'sessions');
+}
+
+/**
+ * Keeps recently used thought sessions in memory and mirrors each one to a JSON file,
+ * so sessions survive restarts. Pass no directory to keep sessions in memory only.
+ */
+export class SessionStore {
+  private sessions = new Map<string, ThoughtSession>();
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private dir?: string, private maxCached = MAX_CACHED_SESSIONS) {}
+
+  private fileFor(sessionId: string): string {
+    return path.join(this.dir!, `${encodeURIComponent(sessionId)}.json`);
+  }
+
+  /** Marks the session as most recently used; without a directory nothing can be read back, so nothing is dropped */
+  private cache(session: ThoughtSession): void {
+    this.sessions.delete(session.id);
+    this.sessions.set(session.id, session);
+    if (this.dir && this.sessions.size > this.maxCached) {
+      this.sessions.delete(this.sessions.keys().next().value!);
+    }
+  }
+
+  private async read(sessionId: string): Promise<ThoughtSession | undefined> {
+    if (!this.dir) {
+      return undefined;
+    }
+    // A session dropped from memory may still be on its way to disk
+    await this.writes.get(sessionId);
+    try {
+      return JSON.parse(await readFile(this.fileFor(sessionId), 'utf8')) as ThoughtSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read thought session ${sessionId}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  public async get(sessionId: string): Promise<ThoughtSession | undefined> {
+    const session = this.sessions.get(sessionId) ?? await this.read(sessionId);
+    if (session) {
+      this.cache(session);
+    }
+    return session;
+  }
+
+  public async getOrCreate(sessionId: string): Promise<ThoughtSession> {
+    const existing = await this.get(sessionId);
+    if (existing) {
+      return existing;
+    }
+    const now = new Date().toISOString();
+    const session: ThoughtSession = { id: sessionId, createdAt: now, updatedAt: now, thoughts: [], branches: {} };
+    this.cache(session);
+    return session;
+  }
+
+  /** Persists the session; writes of one session are queued so the file always holds the latest state */
+  public async save(session: ThoughtSession): Promise<void> {
+    session.updatedAt = new Date().toISOString();
+    if (!this.dir) {
+      return;
+    }
+    const dir = this.dir;
+    const file = this.fileFor(session.id);
+    const previous = this.writes.get(session.id) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      await mkdir(dir, { recursive: true });
+      const tempFile = `${file}.${process.pid}.tmp`;
+      await writeFile(tempFile, JSON.stringify(session, null, 2));
+      await rename(tempFile, file);
+    });
+    this.writes.set(session.id, write.catch(() => undefined));
+    await write;
+  }
+
+  /**
+   * Lists the most recently updated sessions whose id passes `include`. Only the files of the
+   * newest matching sessions are read, and sessions read for the list are not kept in memory.
+   */
+  public async list(include: (sessionId: string) => boolean = () => true, limit = DEFAULT_LIST_LIMIT): Promise<ThoughtSession[]> {
+    const newestFirst = (a: ThoughtSession, b: ThoughtSession) => b.updatedAt.localeCompare(a.updatedAt);
+    if (!this.dir) {
+      return [...this.sessions.values()].filter((session) => include(session.id)).sort(newestFirst).slice(0, limit);
+    }
+
+    let names: string[] = [];
+    try {
+      names = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    const files = await Promise.all(names
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => decodeURIComponent(name.slice(0, -'.json'.length)))
+      .filter(include)
+      .map(async (sessionId) => {
+        try {
+          return { sessionId, modifiedAt: (await stat(this.fileFor(sessionId))).mtimeMs };
+        } catch {
+          // Removed since the directory was read
+          return undefined;
+        }
+      }));
+    const newest = files
+      .filter((file) => file !== undefined)
+      .sort((a, b) => b.modifiedAt - a.modifiedAt)
+      .slice(0, limit);
+
+    const sessions = await Promise.all(newest.map(({ sessionId }) => this.sessions.get(sessionId) ?? this.read(sessionId)));
+    return sessions.filter((session) => session !== undefined).sort(newestFirst);
+  }
+}
+
+/** Appends a thought to the session, opening the branch it starts; closed branches take no more thoughts */
+export function recordThought(session: ThoughtSession, data: ThoughtData): ThoughtRecord {
+  const { branchId, branchFromThought } = data;
+  if (branchId) {
+    const branch = session.branches[branchId];
+    if (branch && branch.status !== 'open') {
+      throw new Error(`Branch ${branchId} is ${branch.status}; use a new branchId to explore further`);
+    }
+    if (!branch && branchFromThought) {
+      session.branches[branchId] = {
+        id: branchId,
+        fromThought: branchFromThought,
+        status: 'open',
+        createdAt: new Date().toISOString()
+      };
+    }
+  }
+
+  const record = { ...data, recordedAt: new Date().toISOString() };
+  session.thoughts.push(record);
+  return record;
+}
+
+/** Merging folds the branch back into the main line; abandoning keeps it for reference but closes it */
+export function closeBranch(session: ThoughtSession, branchId: string, action: BranchAction, note?: string): BranchInfo {
+  const branch = session.branches[branchId];
+  if (!branch) {
+    throw new Error(`Unknown branch ${branchId}`);
+  }
+  if (branch.status !== 'open') {
+    throw new Error(`Branch ${branch.id} is already ${branch.status}`);
+  }
+
+  branch.status = action === 'merge' ? 'merged' : 'abandoned';
+  branch.closedAt = new Date().toISOString();
+  branch.note = note;
+  if (branch.status === 'merged') {
+    branch.mergedAfter = session.thoughts.length;
+  }
+  return branch;
+}